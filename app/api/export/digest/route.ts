@@ -10,7 +10,8 @@ export async function POST(request: NextRequest) {
       upcomingIssues, 
       sprintMetrics, 
       options = {},
-      demoStoryScreenshots = {}
+      demoStoryScreenshots = {},
+      additionalData = {}
     } = body
 
     if (!presentation) {
@@ -29,7 +30,9 @@ export async function POST(request: NextRequest) {
       allIssues || [],
       upcomingIssues || [],
       sprintMetrics,
-      { ...options, format: 'digest' }
+      { ...options, format: 'digest' },
+      undefined,
+      additionalData
     )
 
     // Convert blob to buffer for response
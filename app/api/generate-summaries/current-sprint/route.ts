@@ -5,6 +5,7 @@ import { generateText } from "ai"
 import { type NextRequest, NextResponse } from "next/server"
 import { CurrentSprintRequest, SummaryResponse } from "@/lib/summary-types"
 import { getEpicBreakdown } from "@/lib/utils"
+import { getTeamBreakdown, isProgramReview } from "@/lib/program-review"
 
 export async function POST(request: NextRequest) {
   try {
@@ -27,16 +28,18 @@ async function generateCurrentSprintSummary(data: CurrentSprintRequest): Promise
   const validIssues = data.issues.filter(
     (issue) => issue.issueType.toLowerCase() !== "sub-task"
   );
+  const periodLabel = data.reviewScope === "release" ? "Release" : data.reviewScope === "program" ? "Program" : data.reviewScope === "kanban" ? "Period" : "Sprint";
+  const endDateLabel = data.reviewScope === "release" ? "Release Date" : "End Date";
 
   if (validIssues.length === 0) {
     return {
-      summary: `### Sprint Review Summary
+      summary: `### ${periodLabel} Review Summary
 
-**Sprint:** ${data.sprintName}  
-**End Date:** ${data.sprintEndDate ? new Date(data.sprintEndDate).toLocaleDateString() : "TBD"}  
+**${periodLabel}:** ${data.sprintName}  
+**${endDateLabel}:** ${data.sprintEndDate ? new Date(data.sprintEndDate).toLocaleDateString() : "TBD"}  
 
 #### Sprint Overview  
-No story-level issues were linked to this sprint. This may indicate a planning sprint or missing story associations.
+No story-level issues were linked to this ${periodLabel.toLowerCase()}. This may indicate a planning ${periodLabel.toLowerCase()} or missing story associations.
 
 #### Key Features & Deliverables  
 None recorded.
@@ -56,6 +59,16 @@ Not specified.
   - Points: ${epic.completedPoints}/${epic.totalPoints} points (${epic.percentPoints}% complete)`;
   }).join('\n');
 
+  // Program reviews combine several teams' sprints; each team gets its own section
+  const programReview = isProgramReview(validIssues);
+  const teamBreakdownText = programReview
+    ? getTeamBreakdown(validIssues).map(team => {
+        return `- **${team.team}**
+  - Issues: ${team.completed}/${team.issues} completed
+  - Points: ${team.completedPoints}/${team.points} points (${team.completionRate}% complete)`;
+      }).join('\n')
+    : "";
+
   const issueList = validIssues.map((issue) => {
     const parts = [
       `- **${issue.key}**: ${issue.summary} (${issue.storyPoints || 0} pts, ${issue.issueType})`,
@@ -63,27 +76,29 @@ Not specified.
       issue.description ? `  - Desc: ${issue.description}` : "",
       issue.releaseNotes ? `  - Notes: ${issue.releaseNotes}` : "",
       issue.epicName ? `  - Epic: ${issue.epicName}` : "",
+      issue.team ? `  - Team: ${issue.team}` : "",
     ];
     return parts.filter(Boolean).join("\n");
   }).join("\n\n");
 
-  const prompt = `You are a professional scrum master writing a sprint review summary for a stakeholder audience. Focus on clarity, conciseness, and accurate reflection of the work completed or in progress. Do not make up any data.
+  const prompt = `You are a professional scrum master writing a ${periodLabel.toLowerCase()} review summary for a stakeholder audience. Focus on clarity, conciseness, and accurate reflection of the work completed or in progress. Do not make up any data.
 
-**Sprint:** ${data.sprintName}  
-**End Date:** ${data.sprintEndDate ? new Date(data.sprintEndDate).toLocaleDateString() : "TBD"}  
+**${periodLabel}:** ${data.sprintName}  
+**${endDateLabel}:** ${data.sprintEndDate ? new Date(data.sprintEndDate).toLocaleDateString() : "TBD"}  
 **Total Story Points (All statuses):** ${totalPoints}  
 **Total Issues:** ${validIssues.length}  
 
 ### Epic Breakdown
 ${epicBreakdownText}
-
+${programReview ? `\n### Team Breakdown\n${teamBreakdownText}\n` : ""}
 ### Issues
 ${issueList}
 
 ### Instructions
 1. **Sprint Overview** – Describe the general scope and theme of work (e.g. setup, enhancements, bugs, polish). Include a summary of epic progress.
 2. **Key Features & Deliverables** – List major stories or enhancements and their value, organized by epic where relevant.
-3. **Success Criteria / Challenges** – Summarize any obvious outcome measures or blockers. Say "Not specified" if unclear.
+3. **Success Criteria / Challenges** – Summarize any obvious outcome measures or blockers. Say "Not specified" if unclear.${programReview ? `
+4. **Team Highlights** – After the combined overview, add one short section per team from the Team Breakdown with its progress and main deliverables.` : ""}
 
 Output should be formatted and stakeholder-friendly. Do not include raw issue lists or markdown syntax in your answer.`
 
@@ -4,6 +4,7 @@ import { openai } from "@ai-sdk/openai"
 import { generateText } from "ai"
 import { type NextRequest, NextResponse } from "next/server"
 import { DemoStoriesRequest, SummaryResponse } from "@/lib/summary-types"
+import { adfToMarkdown, isADFDocument } from "@/lib/adf"
 
 export async function POST(request: NextRequest) {
   try {
@@ -51,13 +52,8 @@ function safeContentToString(content: any): string {
   
   if (typeof content === 'object') {
     // Handle ADF objects
-    if (content.type === 'doc' && Array.isArray(content.content)) {
-      return content.content.map((node: any) => {
-        if (node.type === 'paragraph' && node.content) {
-          return node.content.map((child: any) => child.text || '').join('');
-        }
-        return '';
-      }).join('\n\n');
+    if (isADFDocument(content)) {
+      return adfToMarkdown(content);
     }
     
     // Handle other objects by converting to JSON string
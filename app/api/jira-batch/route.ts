@@ -9,23 +9,38 @@ import {
   boardHasSprints,
   fetchJiraSprints, 
   fetchJiraSprintIssues,
+  searchJiraIssues,
   clearJiraCache,
   getCacheStats,
-  analyzeJiraFields
+  analyzeJiraFields,
+  discoverJiraFieldMapping,
+  getJiraFieldMapping,
+  saveJiraFieldMapping,
 } from "@/lib/jira-api"
+import type { JiraFieldMapping } from "@/lib/jira-types"
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { operation, params } = body
+    // Aborts when the UI cancels the request or navigates away
+    const signal = request.signal
 
     switch (operation) {
       case "fetch-projects-with-boards":
-        return await handleFetchProjectsWithBoards()
+        return handleFetchProjectsWithBoards(signal)
       case "fetch-sprint-with-issues":
-        return await handleFetchSprintWithIssues(params)
+        return await handleFetchSprintWithIssues(params, signal)
+      case "search-issues":
+        return handleSearchIssues(params, signal)
       case "analyze-fields":
         return await handleAnalyzeFields(params)
+      case "discover-field-mapping":
+        return await handleDiscoverFieldMapping(params)
+      case "get-field-mapping":
+        return await handleGetFieldMapping(params)
+      case "save-field-mapping":
+        return await handleSaveFieldMapping(params)
       case "clear-cache":
         return await handleClearCache(params)
       case "get-cache-stats":
@@ -44,67 +59,88 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function handleFetchProjectsWithBoards() {
-  try {
-    console.log("🚀 Batch operation: Fetching projects with boards...")
-    
-    // Fetch projects first
-    const projects = await fetchJiraProjects()
-    
-    if (!projects || projects.length === 0) {
-      return NextResponse.json({ projects: [] })
-    }
+// A project as the project selector lists it; a project with a single board selects it by default
+function toProjectWithBoards(project: { id: string; key: string; name: string }, boards: any[]) {
+  const projectBoards = boards.map((b: any) => ({ ...b, id: b.id.toString() }))
+  return {
+    id: project.id,
+    key: project.key,
+    name: project.name,
+    boards: projectBoards,
+    boardId: projectBoards.length === 1 ? projectBoards[0].id : undefined,
+    boardName: projectBoards.length === 1 ? projectBoards[0].name : undefined,
+  }
+}
 
-    // Fetch boards for all projects using robust approach
-    const boardPromises = projects.map(async (project) => {
-      const boards = await fetchJiraBoardsRobust(project.key, project.id)
-      return { projectKey: project.key, boards }
-    })
-    
-    const boardResults = await Promise.all(boardPromises)
-    const boardsByProject: Record<string, any[]> = {}
-    boardResults.forEach(({ projectKey, boards }) => {
-      boardsByProject[projectKey] = boards
-    })
+// Streams discovery as NDJSON: a "start" line with the project count, one "project" line as each
+// project's boards resolve, then a "complete" or "error" line
+function handleFetchProjectsWithBoards(signal?: AbortSignal) {
+  console.log("🚀 Batch operation: Fetching projects with boards...")
+  const encoder = new TextEncoder()
 
-    // Combine projects with their boards
-    const projectsWithBoards = projects.map((project) => {
-      const projectBoards = (boardsByProject[project.key] || []).map((b:any)=> ({ ...b, id: b.id.toString() }))
-      let boardId: string | undefined = undefined
-      let boardName: string | undefined = undefined
-      if (projectBoards.length === 1) {
-        boardId = projectBoards[0].id
-        boardName = projectBoards[0].name
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (message: Record<string, any>) => {
+        controller.enqueue(encoder.encode(JSON.stringify(message) + "\n"))
       }
 
-      return {
-        id: project.id,
-        key: project.key,
-        name: project.name,
-        boards: projectBoards,
-        boardId,
-        boardName,
+      try {
+        const projects = await fetchJiraProjects(signal)
+        send({ type: "start", total: projects.length })
+
+        let resolved = 0
+        await Promise.all(
+          projects.map(async (project, index) => {
+            let boards: any[] = []
+            try {
+              boards = await fetchJiraBoardsRobust(project.key, project.id, signal)
+            } catch (error) {
+              if (signal?.aborted) throw error
+              // One unreadable project should not hide the rest; it is listed without boards
+              console.warn(`⚠️ Failed to fetch boards for ${project.key}:`, error)
+            }
+            resolved++
+            send({ type: "project", index, project: toProjectWithBoards(project, boards), resolved, total: projects.length })
+          })
+        )
+
+        console.log(`✅ Batch operation completed: ${projects.length} projects with boards`)
+        send({ type: "complete", total: projects.length })
+      } catch (error) {
+        if (signal?.aborted) {
+          console.log("🛑 Project discovery cancelled by the client")
+          return
+        }
+        console.error("Failed to fetch projects with boards:", error)
+        send({ type: "error", error: error instanceof Error ? error.message : "Unknown error" })
+      } finally {
+        // A cancelled request has already torn the stream down
+        if (!signal?.aborted) controller.close()
       }
-    })
+    },
+  })
 
-    console.log(`✅ Batch operation completed: ${projectsWithBoards.length} projects with boards`)
-    return NextResponse.json({ projects: projectsWithBoards })
-  } catch (error) {
-    console.error("Failed to fetch projects with boards:", error)
-    throw error
-  }
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+    },
+  })
 }
 
-async function handleFetchSprintWithIssues(params: { boardId: number; sprintId: number }) {
+async function handleFetchSprintWithIssues(
+  params: { boardId: number; sprintId: number; projectKey?: string },
+  signal?: AbortSignal
+) {
   try {
     console.log("🚀 Batch operation: Fetching sprint with issues...")
-    const { boardId, sprintId } = params
+    const { boardId, sprintId, projectKey } = params
     if (!boardId || !sprintId) {
       throw new Error("Board ID and Sprint ID are required")
     }
     const [sprints, issues] = await Promise.all([
-      fetchJiraSprints(boardId),
-      fetchJiraSprintIssues(sprintId),
+      fetchJiraSprints(boardId, signal),
+      fetchJiraSprintIssues(sprintId, projectKey, signal),
     ])
     const selectedSprint = sprints.find((s) => s.id === sprintId.toString())
     return NextResponse.json({ sprint: selectedSprint, issues, availableSprints: sprints })
@@ -114,6 +150,65 @@ async function handleFetchSprintWithIssues(params: { boardId: number; sprintId:
   }
 }
 
+// Streams search progress as NDJSON: one "progress" line per page, then a "complete" or "error" line
+function handleSearchIssues(
+  params: { jql?: string; sprintId?: number; fixVersionId?: number; projectKey?: string },
+  signal?: AbortSignal
+) {
+  const { jql, sprintId, fixVersionId, projectKey } = params || {}
+  const query =
+    jql?.trim() || (sprintId ? `sprint = ${sprintId}` : fixVersionId ? `fixVersion = ${fixVersionId}` : "")
+  if (!query) {
+    throw new Error("JQL, Sprint ID or Fix Version ID is required")
+  }
+
+  console.log(`🚀 Batch operation: Searching issues (${query})...`)
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (message: Record<string, any>) => {
+        controller.enqueue(encoder.encode(JSON.stringify(message) + "\n"))
+      }
+
+      try {
+        const result = await searchJiraIssues(query, {
+          projectKey,
+          operation: jql
+            ? undefined
+            : sprintId
+              ? `fetch_sprint_issues_${sprintId}`
+              : `fetch_version_issues_${fixVersionId}`,
+          onProgress: (progress) => send({ type: "progress", ...progress }),
+          signal,
+          sprintId,
+        })
+        if (result.truncated) {
+          console.warn(`⚠️ Search returned ${result.issues.length} of ${result.total ?? "unknown"} issues`)
+        }
+        send({ type: "complete", ...result })
+      } catch (error) {
+        if (signal?.aborted) {
+          console.log("🛑 Issue search cancelled by the client")
+          return
+        }
+        console.error("Failed to search issues:", error)
+        send({ type: "error", error: error instanceof Error ? error.message : "Unknown error" })
+      } finally {
+        // A cancelled request has already torn the stream down
+        if (!signal?.aborted) controller.close()
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-cache",
+    },
+  })
+}
+
 async function handleAnalyzeFields(params: { sprintId: number }) {
   try {
     console.log("🚀 Batch operation: Analyzing Jira fields...")
@@ -129,6 +224,45 @@ async function handleAnalyzeFields(params: { sprintId: number }) {
   }
 }
 
+async function handleDiscoverFieldMapping(params: { projectKey: string; sprintId?: number }) {
+  try {
+    console.log("🚀 Batch operation: Discovering field mapping...")
+    const { projectKey, sprintId } = params || {}
+    if (!projectKey) {
+      throw new Error("Project key is required")
+    }
+    const discovery = await discoverJiraFieldMapping(projectKey, sprintId)
+    return NextResponse.json({ discovery })
+  } catch (error) {
+    console.error("Failed to discover field mapping:", error)
+    throw error
+  }
+}
+
+async function handleGetFieldMapping(params: { projectKey: string }) {
+  const { projectKey } = params || {}
+  if (!projectKey) {
+    throw new Error("Project key is required")
+  }
+  const entry = await getJiraFieldMapping(projectKey)
+  return NextResponse.json({ entry })
+}
+
+async function handleSaveFieldMapping(params: { projectKey: string; mapping: JiraFieldMapping }) {
+  try {
+    console.log("🚀 Batch operation: Saving field mapping...")
+    const { projectKey, mapping } = params || {}
+    if (!projectKey || !mapping?.storyPoints || !mapping?.epicName || !mapping?.releaseNotes) {
+      throw new Error("Project key and a complete field mapping are required")
+    }
+    const entry = await saveJiraFieldMapping(projectKey, mapping)
+    return NextResponse.json({ entry })
+  } catch (error) {
+    console.error("Failed to save field mapping:", error)
+    throw error
+  }
+}
+
 async function handleClearCache(params?: { pattern?: string }) {
   await clearJiraCache(params?.pattern)
   return NextResponse.json({ success: true })
@@ -0,0 +1,62 @@
+import { NextRequest } from "next/server"
+import { subscribeToJiraChanges } from "@/lib/jira-webhooks"
+
+// Server-sent events stay open for the life of the session, so never render this statically
+export const dynamic = "force-dynamic"
+
+const HEARTBEAT_INTERVAL = 25000 // Keeps proxies from closing an idle connection
+
+// Streams Jira change notifications from the webhook receiver to the browser as server-sent events
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      const unsubscribe = subscribeToJiraChanges((change) => {
+        send(`event: jira-change\ndata: ${JSON.stringify(change)}\n\n`)
+      })
+      const heartbeat = setInterval(() => send(": keep-alive\n\n"), HEARTBEAT_INTERVAL)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+      }
+
+      request.signal.addEventListener(
+        "abort",
+        () => {
+          cleanup()
+          try {
+            controller.close()
+          } catch {
+            // Already closed
+          }
+        },
+        { once: true }
+      )
+
+      // Tell EventSource how long to wait before reconnecting after a drop
+      send("retry: 5000\n\n")
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+import { env } from "@/lib/jira-env"
+import { getMockDataset } from "@/lib/jira-mock"
+
+export const dynamic = "force-dynamic"
+
+// The offline simulator's dataset as JSON, to save as a JIRA_MOCK_FIXTURES file and edit by hand
+export async function GET() {
+  if (!env.JIRA_MOCK) {
+    return NextResponse.json({ error: "The Jira mock is not enabled (set JIRA_MOCK=true)" }, { status: 404 })
+  }
+  return NextResponse.json(getMockDataset())
+}
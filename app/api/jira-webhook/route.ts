@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server"
+import { invalidateJiraCacheForChange } from "@/lib/jira-api"
+import {
+  parseJiraWebhook,
+  publishJiraChange,
+  recordJiraWebhook,
+  verifyJiraWebhook,
+  type JiraWebhookPayload,
+} from "@/lib/jira-webhooks"
+
+// Receives Jira issue and sprint webhooks, invalidates the affected cache entries and
+// notifies open sessions through /api/jira-events
+export async function POST(request: NextRequest) {
+  const secret = process.env.JIRA_WEBHOOK_SECRET
+  if (!secret) {
+    console.warn("⚠️ Jira webhook received but JIRA_WEBHOOK_SECRET is not configured")
+    return NextResponse.json({ error: "Webhook receiver is not configured" }, { status: 503 })
+  }
+
+  const rawBody = await request.text()
+  const verified = verifyJiraWebhook(
+    rawBody,
+    secret,
+    request.headers.get("x-hub-signature"),
+    request.nextUrl.searchParams.get("secret")
+  )
+  if (!verified) {
+    console.warn("❌ Rejected Jira webhook with a missing or invalid secret")
+    return NextResponse.json({ error: "Invalid webhook secret" }, { status: 401 })
+  }
+
+  let payload: JiraWebhookPayload
+  try {
+    payload = JSON.parse(rawBody)
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload" }, { status: 400 })
+  }
+
+  await recordJiraWebhook(rawBody, payload.webhookEvent)
+
+  const change = parseJiraWebhook(payload)
+  if (!change) {
+    console.log(`🔔 Ignoring Jira webhook: ${payload.webhookEvent || "unknown event"}`)
+    return NextResponse.json({ ignored: true, webhookEvent: payload.webhookEvent ?? null }, { status: 202 })
+  }
+
+  try {
+    console.log(`🔔 Jira webhook: ${change.webhookEvent} ${change.issueKey || `sprint ${change.sprintIds.join(", ")}`}`)
+    const invalidated = await invalidateJiraCacheForChange(change)
+    const delivered = publishJiraChange(change)
+    return NextResponse.json({ change, invalidated, delivered })
+  } catch (error) {
+    console.error("Failed to process Jira webhook:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    )
+  }
+}
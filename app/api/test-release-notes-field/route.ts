@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { analyzeJiraFields } from '@/lib/jira-api'
+import { analyzeJiraFields, getJiraFieldMapping } from '@/lib/jira-api'
+import { detectReleaseNotesFields } from '@/lib/jira-field-mapping'
+import { DEFAULT_FIELD_MAPPING } from '@/lib/jira-types'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { sprintId } = body
+    const { sprintId, projectKey } = body
 
     if (!sprintId) {
       return NextResponse.json(
@@ -19,87 +21,15 @@ export async function POST(request: NextRequest) {
     const fieldAnalysis = await analyzeJiraFields(sprintId)
 
     // Look for potential release notes fields
-    interface ReleaseNotesField {
-      fieldName: string
-      fieldValue: string
-      type: string
-      count: number
-      reason: string
-    }
-
-    const potentialReleaseNotesFields: ReleaseNotesField[] = []
-
-    // Check all custom fields for potential release notes
-    Object.entries(fieldAnalysis.allCustomFields || {}).forEach(([fieldName, fieldInfo]: [string, any]) => {
-      const fieldValue = fieldInfo.value
-      
-      // Look for fields that might contain release notes
-      if (typeof fieldValue === 'string' && fieldValue.length > 0) {
-        const lowerValue = fieldValue.toLowerCase()
-        
-        // Check if the field value contains release note indicators
-        if (lowerValue.includes('release') || 
-            lowerValue.includes('note') || 
-            lowerValue.includes('description') ||
-            lowerValue.includes('summary') ||
-            lowerValue.includes('details')) {
-          
-          potentialReleaseNotesFields.push({
-            fieldName,
-            fieldValue: fieldValue.substring(0, 200) + (fieldValue.length > 200 ? '...' : ''),
-            type: fieldInfo.type,
-            count: fieldInfo.count,
-            reason: 'Contains release note keywords'
-          })
-        }
-      }
-    })
-
-    // Also check for fields with names that suggest release notes
-    Object.entries(fieldAnalysis.allCustomFields || {}).forEach(([fieldName, fieldInfo]: [string, any]) => {
-      const fieldValue = fieldInfo.value
-      
-      // Check if the field name suggests it might be release notes
-      if (fieldName.toLowerCase().includes('release') || 
-          fieldName.toLowerCase().includes('note') ||
-          fieldName.toLowerCase().includes('description')) {
-        
-        // Avoid duplicates
-        if (!potentialReleaseNotesFields.find(f => f.fieldName === fieldName)) {
-          potentialReleaseNotesFields.push({
-            fieldName,
-            fieldValue: typeof fieldValue === 'string' ? (fieldValue.substring(0, 200) + (fieldValue.length > 200 ? '...' : '')) : String(fieldValue),
-            type: fieldInfo.type,
-            count: fieldInfo.count,
-            reason: 'Field name suggests release notes'
-          })
-        }
-      }
-    })
-
-    // Sort by relevance (count and reason)
-    potentialReleaseNotesFields.sort((a, b) => {
-      // Prioritize fields with content
-      if (a.fieldValue && !b.fieldValue) return -1
-      if (!a.fieldValue && b.fieldValue) return 1
-      
-      // Then by count
-      if (a.count !== b.count) return b.count - a.count
-      
-      // Then by reason priority
-      const reasonPriority: Record<string, number> = {
-        'Field name suggests release notes': 1,
-        'Contains release note keywords': 2
-      }
-      return (reasonPriority[a.reason] || 0) - (reasonPriority[b.reason] || 0)
-    })
+    const potentialReleaseNotesFields = detectReleaseNotesFields(fieldAnalysis.allCustomFields || {})
+    const currentMapping = projectKey ? await getJiraFieldMapping(projectKey) : null
 
     return NextResponse.json({
       success: true,
       sprintId,
       potentialReleaseNotesFields,
       totalCustomFields: Object.keys(fieldAnalysis.allCustomFields || {}).length,
-      currentMapping: 'customfield_10113',
+      currentMapping: currentMapping?.mapping.releaseNotes || DEFAULT_FIELD_MAPPING.releaseNotes,
       recommendation: potentialReleaseNotesFields.length > 0 ? potentialReleaseNotesFields[0] : null
     })
 
@@ -5,9 +5,11 @@ import { ChevronDown, FolderOpen, Calendar, Target, FileImage, FileText, Present
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
-import { useSprintContext } from "@/components/sprint-context"
+import { useSprintContext, getReviewPeriod, getReviewPeriodLabel } from "@/components/sprint-context"
 import { ProjectSelector } from "@/components/project-selector"
 import { SprintSelector } from "@/components/sprint-selector"
+import { ReleaseSelector } from "@/components/release-selector"
+import { ProgramSelector } from "@/components/program-selector"
 import { BoardSelector } from "@/components/board-selector"
 import { VersionBadge } from "@/components/release-notes/version-badge"
 
@@ -15,11 +17,13 @@ export function AppSidebar() {
   const { state, dispatch } = useSprintContext()
   const [projectsOpen, setProjectsOpen] = useState(true)
 
+  const reviewPeriod = getReviewPeriod(state)
+
   // Completion checks for all sections
   const isSetupComplete = !!(
     state.selectedProject &&
-    (state.selectedBoard?.id || state.selectedProject.boardId) &&
-    state.selectedSprint &&
+    (state.reviewScope !== "sprint" || state.selectedBoard?.id || state.selectedProject.boardId) &&
+    reviewPeriod &&
     state.issues.length > 0
   )
 
@@ -154,8 +158,16 @@ export function AppSidebar() {
               </CollapsibleTrigger>
               <CollapsibleContent className="space-y-4 mt-4">
                 <ProjectSelector />
-                <BoardSelector />
-                <SprintSelector />
+                {state.reviewScope === "release" ? (
+                  <ReleaseSelector />
+                ) : state.reviewScope === "program" ? (
+                  <ProgramSelector />
+                ) : (
+                  <>
+                    <BoardSelector />
+                    <SprintSelector />
+                  </>
+                )}
               </CollapsibleContent>
             </Collapsible>
           </div>
@@ -202,9 +214,15 @@ export function AppSidebar() {
                 <span className="font-medium">Project:</span> {state.selectedProject.name}
               </div>
             )}
-            {state.selectedSprint && (
+            {reviewPeriod && (
+              <div className="truncate">
+                <span className="font-medium">{getReviewPeriodLabel(reviewPeriod.scope)}:</span>{" "}
+                {reviewPeriod.name}
+              </div>
+            )}
+            {state.reviewScope === "program" && state.programTeams.length > 0 && (
               <div className="truncate">
-                <span className="font-medium">Sprint:</span> {state.selectedSprint.name}
+                <span className="font-medium">Teams:</span> {state.programTeams.map((team) => team.boardName).join(", ")}
               </div>
             )}
             {state.issues.length > 0 && (
@@ -0,0 +1,54 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { SprintBurndown } from "@/lib/sprint-burndown"
+
+interface BurndownChartProps {
+  burndown: SprintBurndown
+  mode?: "burndown" | "burnup"
+  className?: string
+}
+
+const burndownConfig = {
+  remainingPoints: { label: "Remaining", color: "#1e40af" },
+  idealRemaining: { label: "Ideal", color: "#9ca3af" },
+} satisfies ChartConfig
+
+const burnupConfig = {
+  completedPoints: { label: "Completed", color: "#10b981" },
+  scopePoints: { label: "Scope", color: "#f59e0b" },
+} satisfies ChartConfig
+
+export function BurndownChart({ burndown, mode = "burndown", className = "" }: BurndownChartProps) {
+  const config = mode === "burndown" ? burndownConfig : burnupConfig
+  const data = burndown.days.map((day) => ({
+    ...day,
+    label: new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+    // Burnup stops at today like the remaining line does
+    completedPoints: day.remainingPoints === null ? null : day.completedPoints,
+  }))
+
+  return (
+    <ChartContainer config={config} className={className}>
+      <LineChart data={data} margin={{ left: 0, right: 12, top: 8, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+        <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {mode === "burndown" ? (
+          <>
+            <Line dataKey="idealRemaining" type="linear" stroke="var(--color-idealRemaining)" strokeDasharray="4 4" dot={false} />
+            <Line dataKey="remainingPoints" type="stepAfter" stroke="var(--color-remainingPoints)" strokeWidth={2} dot={false} connectNulls={false} />
+          </>
+        ) : (
+          <>
+            <Line dataKey="scopePoints" type="stepAfter" stroke="var(--color-scopePoints)" strokeWidth={2} dot={false} />
+            <Line dataKey="completedPoints" type="stepAfter" stroke="var(--color-completedPoints)" strokeWidth={2} dot={false} connectNulls={false} />
+          </>
+        )}
+      </LineChart>
+    </ChartContainer>
+  )
+}
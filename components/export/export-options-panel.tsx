@@ -218,6 +218,14 @@ export function ExportOptionsPanel({
                 disabled
               />
             </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="markdown-estimation" className="text-sm">Estimation Accuracy</Label>
+              <Switch
+                id="markdown-estimation"
+                checked={options.includeEstimationAccuracy !== false}
+                onCheckedChange={(checked) => onOptionsChange({ ...options, includeEstimationAccuracy: checked })}
+              />
+            </div>
           </div>
         );
       
@@ -240,6 +248,14 @@ export function ExportOptionsPanel({
                 disabled
               />
             </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="executive-estimation" className="text-sm">Estimation Accuracy</Label>
+              <Switch
+                id="executive-estimation"
+                checked={options.includeEstimationAccuracy !== false}
+                onCheckedChange={(checked) => onOptionsChange({ ...options, includeEstimationAccuracy: checked })}
+              />
+            </div>
           </div>
         );
       
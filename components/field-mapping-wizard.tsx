@@ -0,0 +1,266 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { AlertCircle, CheckCircle, Loader2, Search, Settings2 } from "lucide-react"
+import { useSprintContext } from "@/components/sprint-context"
+import { useToast } from "@/hooks/use-toast"
+import type { JiraFieldMapping } from "@/lib/jira-types"
+import { getJiraFieldMapping, type JiraFieldMappingDiscovery } from "@/lib/jira-api"
+import { FIELD_MAPPING_LABELS, type JiraFieldMappingKey } from "@/lib/jira-field-mapping"
+
+const MAPPING_KEYS: JiraFieldMappingKey[] = ["storyPoints", "epicName", "epicLink", "releaseNotes", "sprint"]
+const CUSTOM_OPTION = "__custom__"
+
+export function FieldMappingWizard() {
+  const { state } = useSprintContext()
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [step, setStep] = useState<"discover" | "review">("discover")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [discovery, setDiscovery] = useState<JiraFieldMappingDiscovery | null>(null)
+  const [mapping, setMapping] = useState<JiraFieldMapping | null>(null)
+  const [customFields, setCustomFields] = useState<Partial<Record<JiraFieldMappingKey, boolean>>>({})
+  const [confirmed, setConfirmed] = useState(true)
+
+  const projectKey = state.selectedProject?.key
+
+  // Discovered fields are only guesses until the mapping is reviewed and saved here
+  useEffect(() => {
+    if (!projectKey) return
+    getJiraFieldMapping(projectKey)
+      .then((entry) => setConfirmed(entry.source === "manual"))
+      .catch((err) => console.warn("Failed to load the field mapping:", err))
+  }, [projectKey])
+
+  const runDiscovery = async () => {
+    if (!projectKey) return
+
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/jira-batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          operation: "discover-field-mapping",
+          params: {
+            projectKey,
+            sprintId: state.selectedSprint ? parseInt(state.selectedSprint.id) : undefined,
+          },
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      const data = await response.json()
+      const result: JiraFieldMappingDiscovery = data.discovery
+      console.log("🔍 Field Mapping Discovery:", result)
+
+      setDiscovery(result)
+      // Keep a previously saved mapping as the starting point, otherwise use the discovered one
+      setMapping(result.current.source === "manual" ? result.current.mapping : result.mapping)
+      setCustomFields({})
+      setStep("review")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveMapping = async () => {
+    if (!projectKey || !mapping) return
+
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/jira-batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          operation: "save-field-mapping",
+          params: { projectKey, mapping },
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      setConfirmed(true)
+      toast({
+        title: "Field Mapping Saved",
+        description: `${projectKey} will use the reviewed fields. Reload the sprint to apply them.`,
+      })
+      setOpen(false)
+      setStep("discover")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateField = (key: JiraFieldMappingKey, value: string) => {
+    if (!mapping) return
+    if (value === CUSTOM_OPTION) {
+      setCustomFields((prev) => ({ ...prev, [key]: true }))
+      return
+    }
+    setCustomFields((prev) => ({ ...prev, [key]: false }))
+    setMapping({ ...mapping, [key]: value })
+  }
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value)
+    if (!value) {
+      setStep("discover")
+      setError(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={!projectKey}>
+          <Settings2 className="h-4 w-4" />
+          Field Mapping
+          {projectKey && !confirmed && <Badge variant="secondary">Review</Badge>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Jira Field Mapping{projectKey ? ` · ${projectKey}` : ""}</DialogTitle>
+          <DialogDescription>
+            Story points, epic names and release notes live in custom fields that differ between Jira sites and
+            projects. Discover them from Jira&apos;s field metadata, then review before saving.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === "discover" && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Discovery reads the field list from your Jira site
+              {state.selectedSprint
+                ? ` and samples issues from ${state.selectedSprint.name} to find the release notes field.`
+                : ". Select a sprint first to also sample issue values for the release notes field."}
+            </p>
+            <Button onClick={runDiscovery} disabled={loading || !projectKey} className="gap-2">
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+              Discover Fields
+            </Button>
+          </div>
+        )}
+
+        {step === "review" && discovery && mapping && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <span>Scanned {discovery.totalFields} fields.</span>
+              <span>Current mapping:</span>
+              <Badge variant="outline">{discovery.current.source}</Badge>
+            </div>
+
+            {MAPPING_KEYS.map((key) => {
+              const candidates = discovery.candidates[key] || []
+              const isCustom = customFields[key] || !candidates.some((c) => c.fieldId === mapping[key])
+              const selected = candidates.find((c) => c.fieldId === mapping[key])
+
+              return (
+                <div key={key} className="space-y-2 rounded-md border p-3">
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium">{FIELD_MAPPING_LABELS[key]}</label>
+                    {candidates.length > 0 ? (
+                      <Badge className="bg-green-100 text-green-800">
+                        <CheckCircle className="mr-1 h-3 w-3" />
+                        {candidates.length} candidate{candidates.length !== 1 ? "s" : ""}
+                      </Badge>
+                    ) : (
+                      <Badge className="bg-yellow-100 text-yellow-800">
+                        <AlertCircle className="mr-1 h-3 w-3" />
+                        Not found
+                      </Badge>
+                    )}
+                  </div>
+                  <Select value={isCustom ? CUSTOM_OPTION : mapping[key]} onValueChange={(value) => updateField(key, value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {candidates.map((candidate) => (
+                        <SelectItem key={candidate.fieldId} value={candidate.fieldId}>
+                          {candidate.fieldName} ({candidate.fieldId})
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={CUSTOM_OPTION}>Enter field ID manually…</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {isCustom && (
+                    <Input
+                      value={mapping[key]}
+                      placeholder="customfield_10000"
+                      onChange={(e) => setMapping({ ...mapping, [key]: e.target.value.trim() })}
+                    />
+                  )}
+                  {selected && !isCustom && <p className="text-xs text-muted-foreground">{selected.reason}</p>}
+                </div>
+              )
+            })}
+
+            {discovery.releaseNotesSamples.length > 0 && (
+              <div className="space-y-1 text-xs text-muted-foreground">
+                <div className="font-medium">Release notes samples from {state.selectedSprint?.name}</div>
+                {discovery.releaseNotesSamples.slice(0, 3).map((sample) => (
+                  <div key={sample.fieldName} className="truncate">
+                    <span className="font-mono">{sample.fieldName}</span>: {sample.fieldValue}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "review" && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStep("discover")} disabled={loading}>
+              Back
+            </Button>
+            <Button
+              onClick={saveMapping}
+              disabled={loading || !mapping || MAPPING_KEYS.some((key) => !mapping[key])}
+              className="gap-2"
+            >
+              {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save Mapping
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,132 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, CheckCircle, ExternalLink, ShieldCheck } from "lucide-react"
+import { useSprintContext } from "@/components/sprint-context"
+import { fetchJiraProfiles } from "@/lib/jira-api"
+import type { JiraProfileSummary } from "@/lib/jira-types"
+import {
+  HYGIENE_RULES,
+  checkIssueHygiene,
+  getJiraIssueUrl,
+  type HygieneRuleId,
+  type HygieneSeverity,
+} from "@/lib/issue-hygiene"
+
+const SEVERITY_LABELS: Record<HygieneSeverity, string> = {
+  off: "Off",
+  warn: "Warn",
+  block: "Block",
+}
+
+// Data hygiene report for the loaded issues, with per-rule severity and links to fix each issue in Jira
+export function HygieneReportPanel() {
+  const { state, dispatch } = useSprintContext()
+  const [profile, setProfile] = useState<JiraProfileSummary | null>(null)
+
+  useEffect(() => {
+    fetchJiraProfiles()
+      .then((profiles) => setProfile(profiles.find((candidate) => candidate.id === state.jiraProfileId) || profiles[0] || null))
+      .catch((err) => console.warn("Failed to load Jira profiles for issue links:", err))
+  }, [state.jiraProfileId])
+
+  const report = useMemo(
+    () => checkIssueHygiene(state.issues, state.demoStories, state.hygieneRules),
+    [state.issues, state.demoStories, state.hygieneRules]
+  )
+
+  const setSeverity = (ruleId: HygieneRuleId, severity: HygieneSeverity) => {
+    dispatch({ type: "SET_HYGIENE_RULES", payload: { ...state.hygieneRules, [ruleId]: severity } })
+  }
+
+  // The offline simulator has no issue pages to link to
+  const issueUrl = (issueKey: string) => (profile && !profile.mock ? getJiraIssueUrl(profile.baseUrl, issueKey) : null)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Data Hygiene
+          {report.blockers > 0 && <Badge variant="destructive">{report.blockers} blocking</Badge>}
+          {report.warnings > 0 && <Badge variant="secondary">{report.warnings} warnings</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Gaps in the Jira data to fix before generating the review. Blocking rules stop presentation generation;
+          warnings are flagged on the Presentation tab.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {HYGIENE_RULES.map((rule) => {
+          const severity = state.hygieneRules[rule.id] ?? "warn"
+          const findings = report.findings.filter((finding) => finding.ruleId === rule.id)
+
+          return (
+            <div key={rule.id} className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  {severity === "off" ? (
+                    <div className="h-4 w-4 rounded-full border-2 border-gray-300" />
+                  ) : findings.length === 0 ? (
+                    <CheckCircle className="h-4 w-4 text-green-500" />
+                  ) : (
+                    <AlertCircle className={`h-4 w-4 ${severity === "block" ? "text-red-500" : "text-yellow-500"}`} />
+                  )}
+                  <div>
+                    <div className="font-medium text-sm">
+                      {rule.label}
+                      {severity !== "off" && <span className="text-muted-foreground font-normal"> ({findings.length})</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{rule.description}</div>
+                  </div>
+                </div>
+                <Select value={severity} onValueChange={(value) => setSeverity(rule.id, value as HygieneSeverity)}>
+                  <SelectTrigger className="w-[110px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SEVERITY_LABELS) as HygieneSeverity[]).map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {SEVERITY_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {findings.length > 0 && (
+                <ul className="space-y-1 pl-6">
+                  {findings.map((finding) => {
+                    const url = issueUrl(finding.issueKey)
+                    return (
+                      <li key={finding.issueKey} className="flex items-center gap-2 text-sm">
+                        {url ? (
+                          <a
+                            href={url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 font-mono text-blue-600 hover:underline"
+                          >
+                            {finding.issueKey}
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        ) : (
+                          <span className="font-mono">{finding.issueKey}</span>
+                        )}
+                        <span className="truncate">{finding.summary}</span>
+                        {finding.detail && <span className="text-xs text-muted-foreground">{finding.detail}</span>}
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
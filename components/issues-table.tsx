@@ -6,6 +6,8 @@ import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Search, ArrowUpDown } from "lucide-react"
+import { isIssueCompleted } from "@/lib/utils"
+import { buildIssueHierarchy } from "@/lib/issue-hierarchy"
 
 interface Issue {
   id: string
@@ -13,10 +15,13 @@ interface Issue {
   summary: string
   description?: string
   status: string
+  statusCategory?: string
+  completed?: boolean
   assignee?: string
   storyPoints?: number
   issueType: string
   isSubtask: boolean
+  parentKey?: string
   epicKey?: string
   epicName?: string
   epicColor?: string
@@ -51,6 +56,13 @@ export function IssuesTable({ issues }: IssuesTableProps) {
       }
     })
 
+  // Sub-tasks follow their parent row; progress is rolled up over all issues, not just the matches
+  const rollups = new Map(buildIssueHierarchy(issues).map((node) => [node.issue.key, node.rollup]))
+  const rows = buildIssueHierarchy(filteredAndSortedIssues).flatMap((node) => [
+    { issue: node.issue, nested: false },
+    ...node.subtasks.map((subtask) => ({ issue: subtask, nested: true })),
+  ])
+
   const handleSort = (field: keyof Issue) => {
     if (sortField === field) {
       setSortDirection(sortDirection === "asc" ? "desc" : "asc")
@@ -60,14 +72,12 @@ export function IssuesTable({ issues }: IssuesTableProps) {
     }
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status.toLowerCase()) {
-      case "done":
-        return "bg-green-100 text-green-800"
+  const getStatusColor = (issue: Issue) => {
+    if (isIssueCompleted(issue)) return "bg-green-100 text-green-800"
+    switch (issue.statusCategory ?? issue.status.toLowerCase()) {
+      case "indeterminate":
       case "in progress":
         return "bg-blue-100 text-blue-800"
-      case "to do":
-        return "bg-gray-100 text-gray-800"
       default:
         return "bg-gray-100 text-gray-800"
     }
@@ -143,24 +153,32 @@ export function IssuesTable({ issues }: IssuesTableProps) {
             </TableRow>
           </TableHeader>
           <TableBody>
-            {filteredAndSortedIssues.map((issue) => (
-              <TableRow key={issue.id}>
-                <TableCell className="font-medium">{issue.key}</TableCell>
-                <TableCell className="max-w-md">
-                  <div className="truncate" title={issue.summary}>
-                    {issue.summary}
-                  </div>
-                </TableCell>
-                <TableCell>
-                  <Badge className={getIssueTypeColor(issue.issueType)}>{issue.issueType}</Badge>
-                </TableCell>
-                <TableCell>
-                  <Badge className={getStatusColor(issue.status)}>{issue.status}</Badge>
-                </TableCell>
-                <TableCell>{issue.assignee || "Unassigned"}</TableCell>
-                <TableCell className="text-right">{issue.storyPoints || "-"}</TableCell>
-              </TableRow>
-            ))}
+            {rows.map(({ issue, nested }) => {
+              const rollup = rollups.get(issue.key)
+              return (
+                <TableRow key={issue.id} className={nested ? "bg-muted/30" : undefined}>
+                  <TableCell className={nested ? "pl-8 text-muted-foreground" : "font-medium"}>{issue.key}</TableCell>
+                  <TableCell className="max-w-md">
+                    <div className="truncate" title={issue.summary}>
+                      {issue.summary}
+                    </div>
+                    {rollup && (
+                      <div className="text-xs text-muted-foreground">
+                        {rollup.completed}/{rollup.total} sub-tasks done
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={getIssueTypeColor(issue.issueType)}>{issue.issueType}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={getStatusColor(issue)}>{issue.status}</Badge>
+                  </TableCell>
+                  <TableCell>{issue.assignee || "Unassigned"}</TableCell>
+                  <TableCell className="text-right">{issue.storyPoints || "-"}</TableCell>
+                </TableRow>
+              )
+            })}
           </TableBody>
         </Table>
       </div>
@@ -0,0 +1,121 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, Globe, Loader2, PlugZap } from "lucide-react"
+import { useSprintContext } from "@/components/sprint-context"
+import { useToast } from "@/hooks/use-toast"
+import { fetchJiraProfiles, testJiraConnection } from "@/lib/jira-api"
+import type { JiraProfileSummary } from "@/lib/jira-types"
+
+export function JiraProfileSelector() {
+  const { state, dispatch } = useSprintContext()
+  const { toast } = useToast()
+  const [profiles, setProfiles] = useState<JiraProfileSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [testing, setTesting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchJiraProfiles()
+      .then(setProfiles)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load Jira profiles"))
+      .finally(() => setLoading(false))
+  }, [])
+
+  // A saved session may point at a profile that is no longer configured; the server falls back to the first one
+  const activeProfile = profiles.find((profile) => profile.id === state.jiraProfileId) || profiles[0]
+
+  const handleProfileChange = (profileId: string) => {
+    if (profileId === activeProfile?.id) return
+
+    const profile = profiles.find((candidate) => candidate.id === profileId)
+    dispatch({ type: "SET_JIRA_PROFILE", payload: profileId })
+    toast({
+      title: "Jira Profile Switched",
+      description: `Now using ${profile?.name || profileId}. Select a project and sprint from this site.`,
+    })
+  }
+
+  const handleTestConnection = async () => {
+    setTesting(true)
+    try {
+      const result = await testJiraConnection()
+      if (result.success) {
+        toast({
+          title: "Connection Successful",
+          description: `Connected to ${result.profile?.name || "Jira"} as ${result.user?.displayName}.`,
+        })
+      } else {
+        toast({
+          title: "Connection Failed",
+          description: result.error || "Unknown connection error",
+          variant: "destructive",
+        })
+      }
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          Jira Connection
+        </CardTitle>
+        <CardDescription>Choose which Jira site this session reviews</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : loading ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            Loading connection profiles...
+          </div>
+        ) : profiles.length === 0 ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>No Jira connection is configured. Set JIRA_BASE_URL or JIRA_PROFILES, or JIRA_MOCK=true for offline demo data.</AlertDescription>
+          </Alert>
+        ) : (
+          <div className="flex flex-wrap items-center gap-3">
+            <Select value={activeProfile?.id} onValueChange={handleProfileChange} disabled={profiles.length < 2}>
+              <SelectTrigger className="w-[260px]">
+                <SelectValue placeholder="Select profile..." />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {activeProfile && (
+              <>
+                <span className="text-sm text-muted-foreground truncate">{activeProfile.baseUrl}</span>
+                <Badge variant="outline">
+                  {activeProfile.mock ? "Offline Demo" : activeProfile.deployment === "datacenter" ? "Data Center" : "Cloud"}
+                </Badge>
+              </>
+            )}
+            <Button variant="outline" size="sm" className="gap-2 ml-auto" onClick={handleTestConnection} disabled={testing}>
+              {testing ? <Loader2 className="h-4 w-4 animate-spin" /> : <PlugZap className="h-4 w-4" />}
+              Test Connection
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,412 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { AlertCircle, Eye, History, Loader2, Upload } from "lucide-react"
+import { useSprintContext } from "@/components/sprint-context"
+import { useToast } from "@/hooks/use-toast"
+import {
+  fetchJiraReleaseNotes,
+  fetchJiraSprintGoal,
+  fetchJiraWriteAudit,
+  fetchJiraWriteBackStatus,
+  postJiraSprintOverview,
+  updateJiraReleaseNotes,
+  type JiraWriteBackStatus,
+} from "@/lib/jira-api"
+import { diffLines, type JiraWriteAuditEntry, type JiraWriteResult } from "@/lib/jira-write-back"
+
+type OverviewTargetType = "comment" | "sprint-goal"
+
+function DiffView({ before, after }: { before: string; after: string }) {
+  const lines = diffLines(before, after)
+  if (!lines.some((line) => line.type !== "same")) {
+    return <p className="text-xs text-muted-foreground">No changes</p>
+  }
+
+  return (
+    <pre className="text-xs rounded border bg-muted/30 p-2 whitespace-pre-wrap">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={
+            line.type === "added"
+              ? "bg-green-100 text-green-800"
+              : line.type === "removed"
+                ? "bg-red-100 text-red-800 line-through"
+                : "text-muted-foreground"
+          }
+        >
+          {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+          {line.text || " "}
+        </div>
+      ))}
+    </pre>
+  )
+}
+
+// Opt-in write-back of edited summaries to Jira: release notes per demo story, and the sprint
+// overview as a comment or the sprint goal. Nothing is written without a preview and confirmation.
+export function JiraWriteBack() {
+  const { state } = useSprintContext()
+  const { toast } = useToast()
+  const [status, setStatus] = useState<JiraWriteBackStatus | null>(null)
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [current, setCurrent] = useState<Record<string, string> | null>(null) // Jira values at preview time
+  const [locked, setLocked] = useState<Record<string, boolean>>({}) // Formatting the editor can't keep
+  const [selected, setSelected] = useState<Record<string, boolean>>({})
+  const [overviewTarget, setOverviewTarget] = useState<OverviewTargetType>("comment")
+  const [commentKey, setCommentKey] = useState("")
+  const [currentGoal, setCurrentGoal] = useState("") // Sprint goal at preview time
+  const [confirming, setConfirming] = useState<"release-notes" | "overview" | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [audit, setAudit] = useState<JiraWriteAuditEntry[]>([])
+
+  const projectKey = state.selectedProject?.key
+  const overview = state.summaries.currentSprint || ""
+  const stories = useMemo(
+    () => state.issues.filter((issue) => state.demoStories.includes(issue.id)),
+    [state.issues, state.demoStories]
+  )
+
+  useEffect(() => {
+    fetchJiraWriteBackStatus()
+      .then(setStatus)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to check Jira write-back"))
+    fetchJiraWriteAudit()
+      .then(setAudit)
+      .catch((err) => console.warn("Failed to load Jira write audit:", err))
+  }, [state.jiraProfileId])
+
+  // Proposed release notes start from the edited demo story summary, or what Jira has
+  useEffect(() => {
+    setDrafts((prev) => {
+      const next: Record<string, string> = {}
+      for (const issue of stories) {
+        next[issue.key] = prev[issue.key] ?? state.summaries.demoStories?.[issue.id] ?? issue.releaseNotes ?? ""
+      }
+      return next
+    })
+    setCurrent(null)
+  }, [stories, state.summaries.demoStories])
+
+  const changedKeys = current
+    ? stories
+        .map((issue) => issue.key)
+        .filter((key) => !locked[key] && (current[key] ?? "").trim() !== (drafts[key] ?? "").trim())
+    : []
+  const selectedKeys = changedKeys.filter((key) => selected[key])
+
+  const refreshAudit = async () => {
+    try {
+      setAudit(await fetchJiraWriteAudit())
+    } catch (err) {
+      console.warn("Failed to load Jira write audit:", err)
+    }
+  }
+
+  const handlePreview = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const values = await fetchJiraReleaseNotes(
+        stories.map((issue) => issue.key),
+        projectKey
+      )
+      const byKey = Object.fromEntries(values.map((value) => [value.issueKey, value.releaseNotes]))
+      const lockedKeys = Object.fromEntries(values.map((value) => [value.issueKey, !value.writable]))
+      setCurrent(byKey)
+      setLocked(lockedKeys)
+      setSelected(
+        Object.fromEntries(
+          stories.map((issue) => [
+            issue.key,
+            !lockedKeys[issue.key] && (byKey[issue.key] ?? "").trim() !== (drafts[issue.key] ?? "").trim(),
+          ])
+        )
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read release notes from Jira")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const reportResults = (results: JiraWriteResult[]) => {
+    const updated = results.filter((result) => result.status === "updated")
+    const rejected = results.filter((result) => result.status !== "updated")
+    toast({
+      title: rejected.length === 0 ? "Written to Jira" : "Some writes were not applied",
+      description: [
+        updated.length > 0 ? `Updated ${updated.map((result) => result.target).join(", ")}.` : "",
+        ...rejected.map((result) => `${result.target}: ${result.status}${result.error ? ` (${result.error})` : ""}`),
+      ]
+        .filter(Boolean)
+        .join(" "),
+      variant: rejected.length > 0 ? "destructive" : undefined,
+    })
+  }
+
+  const handleWriteReleaseNotes = async () => {
+    if (!current) return
+    setBusy(true)
+    setError(null)
+    try {
+      const results = await updateJiraReleaseNotes(
+        selectedKeys.map((key) => ({ issueKey: key, expected: current[key] ?? "", releaseNotes: drafts[key] ?? "" })),
+        projectKey
+      )
+      reportResults(results)
+      // Conflicts need a fresh preview; written issues now match their drafts
+      setCurrent(null)
+      setSelected({})
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to write release notes to Jira")
+    } finally {
+      setBusy(false)
+      setConfirming(null)
+      refreshAudit()
+    }
+  }
+
+  const handlePreviewOverview = async () => {
+    if (overviewTarget === "comment") {
+      setConfirming("overview")
+      return
+    }
+    setBusy(true)
+    setError(null)
+    try {
+      setCurrentGoal(await fetchJiraSprintGoal(state.selectedSprint!.id))
+      setConfirming("overview")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the sprint goal from Jira")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handlePostOverview = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const result = await postJiraSprintOverview(
+        overviewTarget === "comment"
+          ? { type: "comment", issueKey: commentKey.trim().toUpperCase() }
+          : { type: "sprint-goal", sprintId: state.selectedSprint!.id, expected: currentGoal },
+        overview
+      )
+      reportResults([result])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to post the sprint overview to Jira")
+    } finally {
+      setBusy(false)
+      setConfirming(null)
+      refreshAudit()
+    }
+  }
+
+  const overviewTargetLabel =
+    overviewTarget === "comment"
+      ? `a comment on ${commentKey.trim().toUpperCase() || "the issue"}`
+      : `the goal of ${state.selectedSprint?.name || "the sprint"}`
+  const canPostOverview =
+    !!overview.trim() && (overviewTarget === "comment" ? /^[A-Za-z][A-Za-z0-9_]*-\d+$/.test(commentKey.trim()) : !!state.selectedSprint)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="h-5 w-5" />
+          Write Back to Jira
+          {status?.profile.mock && <Badge variant="secondary">Offline demo</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Update release notes from the edited summaries, or publish the sprint overview. Every write is previewed,
+          confirmed and recorded in the audit log.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!status ? (
+          !error && <p className="text-sm text-muted-foreground">Checking Jira write access...</p>
+        ) : !status.enabled ? (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Writing to Jira is turned off for {status.profile.name}. Set JIRA_WRITE_BACK=true on the server to enable it.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">Release Notes</h4>
+                <Button variant="outline" size="sm" onClick={handlePreview} disabled={busy || stories.length === 0}>
+                  {busy && !confirming ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                  Preview Changes
+                </Button>
+              </div>
+              {stories.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Select demo stories to write their release notes.</p>
+              ) : (
+                stories.map((issue) => (
+                  <div key={issue.key} className="space-y-2 rounded-lg border p-3">
+                    <div className="flex items-center gap-2">
+                      {current && (
+                        <Checkbox
+                          checked={!!selected[issue.key]}
+                          disabled={!changedKeys.includes(issue.key)}
+                          onCheckedChange={(checked) => setSelected((prev) => ({ ...prev, [issue.key]: checked === true }))}
+                        />
+                      )}
+                      <Badge variant="outline">{issue.key}</Badge>
+                      <span className="text-sm font-medium truncate">{issue.summary}</span>
+                    </div>
+                    <Textarea
+                      value={drafts[issue.key] ?? ""}
+                      onChange={(e) => {
+                        setDrafts((prev) => ({ ...prev, [issue.key]: e.target.value }))
+                        setCurrent(null)
+                      }}
+                      className="min-h-[80px] text-sm"
+                    />
+                    {current && locked[issue.key] && (
+                      <p className="text-xs text-muted-foreground">
+                        These release notes use Jira formatting (such as tables, code blocks or panels) that would be lost.
+                        Edit them in Jira instead.
+                      </p>
+                    )}
+                    {current && <DiffView before={current[issue.key] ?? ""} after={drafts[issue.key] ?? ""} />}
+                  </div>
+                ))
+              )}
+              {current && (
+                <Button onClick={() => setConfirming("release-notes")} disabled={busy || selectedKeys.length === 0}>
+                  Write {selectedKeys.length} Release Note{selectedKeys.length !== 1 ? "s" : ""} to Jira
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="font-medium">Sprint Overview</h4>
+              {!overview.trim() ? (
+                <p className="text-sm text-muted-foreground">Generate the current sprint overview to publish it.</p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Select value={overviewTarget} onValueChange={(value) => setOverviewTarget(value as OverviewTargetType)}>
+                      <SelectTrigger className="w-[200px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="comment">Comment on an issue</SelectItem>
+                        <SelectItem value="sprint-goal" disabled={!state.selectedSprint}>
+                          Sprint goal
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {overviewTarget === "comment" && (
+                      <Input
+                        value={commentKey}
+                        onChange={(e) => setCommentKey(e.target.value)}
+                        placeholder="Issue key, e.g. PROJ-123"
+                        className="w-[200px]"
+                      />
+                    )}
+                    <Button variant="outline" size="sm" onClick={handlePreviewOverview} disabled={busy || !canPostOverview}>
+                      {busy && !confirming ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                      Preview and Post
+                    </Button>
+                  </div>
+                  {overviewTarget === "sprint-goal" && (
+                    <p className="text-xs text-muted-foreground">The overview replaces the sprint&apos;s current goal.</p>
+                  )}
+                </>
+              )}
+            </div>
+          </>
+        )}
+
+        {audit.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Recent Writes
+            </h4>
+            <div className="space-y-1">
+              {audit.slice(0, 10).map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between text-xs">
+                  <span>
+                    {new Date(entry.at).toLocaleString()} · {entry.actor || "Unknown user"} · {entry.action} on {entry.target}
+                  </span>
+                  <Badge variant={entry.status === "updated" ? "secondary" : "destructive"}>{entry.status}</Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirming !== null} onOpenChange={(open) => !open && !busy && setConfirming(null)}>
+        <AlertDialogContent className="max-w-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirming === "release-notes" ? "Write release notes to Jira?" : "Post the sprint overview to Jira?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming === "release-notes"
+                ? `This updates the release notes field on ${selectedKeys.join(", ")}. Issues changed in Jira since the preview are skipped.`
+                : overviewTarget === "sprint-goal"
+                  ? `This replaces ${overviewTargetLabel}. It is skipped if the goal changes in Jira before then.`
+                  : `This posts the overview as ${overviewTargetLabel}.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {confirming === "overview" && (
+            <div className="max-h-[50vh] overflow-y-auto">
+              <DiffView before={overviewTarget === "sprint-goal" ? currentGoal : ""} after={overview} />
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={busy}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={busy}
+              onClick={(e) => {
+                e.preventDefault()
+                if (confirming === "release-notes") handleWriteReleaseNotes()
+                else handlePostOverview()
+              }}
+            >
+              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Write to Jira
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
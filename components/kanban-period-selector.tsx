@@ -0,0 +1,105 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2, AlertCircle, CalendarRange } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useSprintContext } from "@/components/sprint-context"
+import { fetchKanbanPeriod } from "@/lib/jira-api"
+import { toDateInputValue } from "@/lib/kanban-metrics"
+
+const DEFAULT_PERIOD_DAYS = 14
+
+// Kanban boards have no sprints, so they are reviewed over a date range: what was resolved in it and what is on the board now
+export function KanbanPeriodSelector({ board }: { board: { id: string; name: string } }) {
+  const { state, dispatch } = useSprintContext()
+  const [from, setFrom] = useState(
+    () => state.kanbanPeriod?.startDate || toDateInputValue(new Date(Date.now() - (DEFAULT_PERIOD_DAYS - 1) * 24 * 60 * 60 * 1000))
+  )
+  const [to, setTo] = useState(() => state.kanbanPeriod?.endDate || toDateInputValue(new Date()))
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setError(null)
+  }, [board.id])
+
+  const handleLoadPeriod = async () => {
+    dispatch({
+      type: "SET_KANBAN_PERIOD",
+      payload: { boardId: board.id, name: `${board.name} ${from} to ${to}`, startDate: from, endDate: to },
+    })
+
+    dispatch({ type: "SET_LOADING", payload: { key: "issues", value: true } })
+    setError(null)
+    try {
+      const result = await fetchKanbanPeriod(Number.parseInt(board.id), from, to, state.selectedProject?.key)
+      dispatch({ type: "SET_ISSUES", payload: result.completedIssues })
+      dispatch({ type: "SET_UPCOMING_ISSUES", payload: result.boardIssues })
+      dispatch({ type: "SET_KANBAN_METRICS", payload: result.metrics })
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to load kanban period"
+      setError(errorMessage)
+      console.error("Failed to load kanban period:", error)
+    } finally {
+      dispatch({ type: "SET_LOADING", payload: { key: "issues", value: false } })
+    }
+  }
+
+  const metrics = state.kanbanPeriod?.boardId === board.id ? state.kanbanMetrics : null
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Review Period</label>
+        <p className="text-xs text-muted-foreground">
+          {board.name} is a kanban board. Issues resolved in the period are the completed work; open issues on the
+          board are the upcoming work.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="kanbanFrom" className="text-xs">
+              From
+            </Label>
+            <Input id="kanbanFrom" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="kanbanTo" className="text-xs">
+              To
+            </Label>
+            <Input id="kanbanTo" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={handleLoadPeriod}
+          disabled={!from || !to || from > to || state.loading.issues}
+        >
+          {state.loading.issues ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <CalendarRange className="mr-2 h-4 w-4" />
+          )}
+          Load Period
+        </Button>
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+
+      {metrics && (
+        <p className="text-xs text-muted-foreground">
+          Resolved: {metrics.throughput.issues} ({metrics.throughput.perWeek}/week) • In progress: {metrics.wip.current}
+          {metrics.wip.columnsOverLimit > 0 &&
+            ` • ${metrics.wip.columnsOverLimit} column${metrics.wip.columnsOverLimit !== 1 ? "s" : ""} over WIP limit`}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -4,15 +4,31 @@ import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { RefreshCw, Zap, Database, Clock } from "lucide-react"
+import { RefreshCw, Zap, Database, Clock, AlertTriangle, Gauge } from "lucide-react"
+import type { JiraThrottleEvent } from "@/lib/jira-http-client"
 
 interface PerformanceStats {
+  cacheBackend: string
   cacheSize: number
   cacheEntries: string[]
   averageResponseTime: number
   totalRequests: number
   cacheHits: number
   cacheMisses: number
+  staleHits: number
+  retries: number
+  throttled: number
+  failures: number
+  bucketAvailable: number
+  bucketCapacity: number
+  throttleEvents: JiraThrottleEvent[]
+}
+
+const THROTTLE_REASON_LABELS: Record<JiraThrottleEvent["reason"], string> = {
+  "rate-limited": "429 rate limited",
+  "server-error": "Server error",
+  "network-error": "Network error",
+  queued: "Queued by rate limiter",
 }
 
 export function PerformanceMonitor() {
@@ -31,12 +47,20 @@ export function PerformanceMonitor() {
       if (response.ok) {
         const data = await response.json()
         setStats({
+          cacheBackend: data.backend,
           cacheSize: data.size,
           cacheEntries: data.entries,
-          averageResponseTime: 0, // Would need to track this separately
-          totalRequests: data.entries.length,
-          cacheHits: 0, // Would need to track this separately
-          cacheMisses: 0, // Would need to track this separately
+          averageResponseTime: data.client.averageResponseTime,
+          totalRequests: data.hits + data.staleHits + data.misses,
+          cacheHits: data.hits + data.staleHits,
+          cacheMisses: data.misses,
+          staleHits: data.staleHits,
+          retries: data.client.retries,
+          throttled: data.client.throttled,
+          failures: data.client.failures,
+          bucketAvailable: data.client.bucket.available,
+          bucketCapacity: data.client.bucket.capacity,
+          throttleEvents: data.client.recentEvents,
         })
       }
     } catch (error) {
@@ -88,6 +112,7 @@ export function PerformanceMonitor() {
             <Database className="h-4 w-4 text-muted-foreground" />
             <span className="text-sm">Cache Size:</span>
             <Badge variant="secondary">{stats.cacheSize}</Badge>
+            <Badge variant="outline">{stats.cacheBackend}</Badge>
           </div>
           <div className="flex items-center gap-2">
             <Clock className="h-4 w-4 text-muted-foreground" />
@@ -103,6 +128,9 @@ export function PerformanceMonitor() {
             <Badge variant="outline" className="text-green-600">
               {cacheHitRate}%
             </Badge>
+            {stats.staleHits > 0 && (
+              <span className="text-xs text-muted-foreground">({stats.staleHits} stale)</span>
+            )}
           </div>
           <div className="flex items-center gap-2">
             <Clock className="h-4 w-4 text-muted-foreground" />
@@ -113,6 +141,42 @@ export function PerformanceMonitor() {
           </div>
         </div>
 
+        <div className="grid grid-cols-2 gap-4">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-amber-500" />
+            <span className="text-sm">Throttled / Retries:</span>
+            <Badge variant={stats.throttled > 0 ? "destructive" : "outline"}>
+              {stats.throttled} / {stats.retries}
+            </Badge>
+          </div>
+          <div className="flex items-center gap-2">
+            <Gauge className="h-4 w-4 text-muted-foreground" />
+            <span className="text-sm">Rate Limit Budget:</span>
+            <Badge variant="outline">
+              {stats.bucketAvailable}/{stats.bucketCapacity}
+            </Badge>
+          </div>
+        </div>
+
+        {stats.throttleEvents.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Recent Throttling:</h4>
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              {stats.throttleEvents.slice(0, 5).map((event, index) => (
+                <div key={index} className="text-xs text-muted-foreground font-mono bg-amber-50 p-1 rounded">
+                  {new Date(event.timestamp).toLocaleTimeString()} {THROTTLE_REASON_LABELS[event.reason]}
+                  {event.status ? ` (${event.status})` : ""} on {event.operation}, waited {Math.round(event.delayMs / 100) / 10}s
+                </div>
+              ))}
+              {stats.failures > 0 && (
+                <div className="text-xs text-red-600">
+                  {stats.failures} request{stats.failures !== 1 ? "s" : ""} failed after all retries
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {stats.cacheEntries.length > 0 && (
           <div className="space-y-2">
             <h4 className="text-sm font-medium">Cached Operations:</h4>
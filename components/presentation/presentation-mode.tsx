@@ -6,12 +6,13 @@ import { PresentationControls } from "./presentation-controls"
 import { Button } from "@/components/ui/button"
 import { ChevronLeft, ChevronRight, Minimize, X } from "lucide-react"
 import { exportService, type ExportResult } from "@/lib/export-service"
+import { useSprintContext } from "@/components/sprint-context"
 
 interface PresentationSlide {
   id: string
   title: string
   content: string
-  type: "title" | "summary" | "demo-story" | "custom" | "corporate" | "qa" | "executive" | "quarterly-plan"
+  type: "title" | "summary" | "demo-story" | "custom" | "corporate" | "qa" | "executive" | "quarterly-plan" | "scope-change" | "burndown" | "dependencies"
   order: number
   corporateSlideUrl?: string
 }
@@ -22,10 +23,13 @@ interface Issue {
   summary: string
   description?: string
   status: string
+  statusCategory?: string
+  completed?: boolean
   assignee?: string
   storyPoints?: number
   issueType: string
   isSubtask: boolean
+  parentKey?: string
   epicKey?: string
   epicName?: string
   epicColor?: string
@@ -74,6 +78,7 @@ export function PresentationMode({
   demoStoryScreenshots = {},
   onClose 
 }: PresentationModeProps) {
+  const { state } = useSprintContext()
   const [currentSlide, setCurrentSlide] = useState(0)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [isPlaying, setIsPlaying] = useState(false)
@@ -315,7 +320,8 @@ export function PresentationMode({
           upcomingIssues,
           sprintMetrics,
           options: { format: 'digest', quality: 'high' },
-          demoStoryScreenshots
+          demoStoryScreenshots,
+          additionalData: { burndown: state.burndown, flowMetrics: state.flowMetrics }
         }),
       })
 
@@ -378,7 +384,8 @@ export function PresentationMode({
           upcomingIssues,
           sprintMetrics,
           options: { format: 'advanced-digest' },
-          demoStoryScreenshots
+          demoStoryScreenshots,
+          additionalData: { burndown: state.burndown }
         }),
       })
 
@@ -440,7 +447,8 @@ export function PresentationMode({
           allIssues,
           upcomingIssues,
           sprintMetrics,
-          options: { format: 'executive' }
+          options: { format: 'executive' },
+          additionalData: { flowMetrics: state.flowMetrics, kanbanMetrics: state.kanbanPeriod ? state.kanbanMetrics : null }
         }),
       })
 
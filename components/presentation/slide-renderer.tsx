@@ -8,8 +8,14 @@ import Image from "next/image"
 import { marked } from 'marked';
 import { useSprintContext } from "@/components/sprint-context"
 import { isIssueCompleted } from "@/lib/utils"
+import { buildIssueHierarchy, getSubtaskRollup } from "@/lib/issue-hierarchy"
+import { getFacetBreakdown, getResolutionSummary, isBug } from "@/lib/issue-facets"
+import { buildDependencyGraph, type DependencyNode } from "@/lib/dependency-graph"
+import type { SafeJiraIssueLink } from "@/lib/jira-types"
+import { adfToMarkdown, isADFDocument } from "@/lib/adf"
 import { SprintComparisonTable } from "@/components/sprint-comparison-table"
 import { ImageModal } from "@/components/ui/image-modal"
+import { BurndownChart } from "@/components/burndown-chart"
 
 interface PresentationSlide {
   id: string
@@ -19,7 +25,7 @@ interface PresentationSlide {
     businessValue?: string
     userImpact?: string
   }
-  type: "title" | "summary" | "demo-story" | "custom" | "corporate" | "review-legend" | "qa" | "executive" | "quarterly-plan"
+  type: "title" | "summary" | "demo-story" | "custom" | "corporate" | "review-legend" | "qa" | "executive" | "quarterly-plan" | "scope-change" | "burndown" | "dependencies"
   order: number
   corporateSlideUrl?: string // Add this for corporate slides
   storyId?: string // Add the specific story ID for demo story slides
@@ -31,14 +37,22 @@ interface Issue {
   summary: string
   description?: string
   status: string
+  statusCategory?: string
+  completed?: boolean
   assignee?: string
   storyPoints?: number
   issueType: string
   isSubtask: boolean
+  parentKey?: string
   epicKey?: string
   epicName?: string
   epicColor?: string
   releaseNotes?: string
+  components?: string[]
+  labels?: string[]
+  priority?: string
+  resolution?: string
+  links?: SafeJiraIssueLink[]
 }
 
 interface EpicGroup {
@@ -219,6 +233,27 @@ export function SlideRenderer({ slide, allIssues, upcomingIssues, sprintMetrics,
           </SlideBackground>
         )
 
+      case "scope-change":
+        return (
+          <SlideBackground isFullscreen={isFullscreen}>
+            <ScopeChangeSlide slide={slide} containerClass={containerClass} titleClass={titleClass} isFullscreen={isFullscreen} />
+          </SlideBackground>
+        )
+
+      case "burndown":
+        return (
+          <SlideBackground isFullscreen={isFullscreen}>
+            <BurndownSlide slide={slide} containerClass={containerClass} titleClass={titleClass} isFullscreen={isFullscreen} />
+          </SlideBackground>
+        )
+
+      case "dependencies":
+        return (
+          <SlideBackground isFullscreen={isFullscreen}>
+            <DependenciesSlide slide={slide} containerClass={containerClass} titleClass={titleClass} allIssues={allIssues} upcomingIssues={upcomingIssues} isFullscreen={isFullscreen} />
+          </SlideBackground>
+        )
+
       default:
         return (
           <SlideBackground isFullscreen={isFullscreen}>
@@ -493,10 +528,13 @@ const DemoStorySlide: React.FC<{ slide: PresentationSlide; issues: Issue[]; cont
     const epicName = issue.epicName || issue.epicKey || 'No Epic';
     const epicDisplay = epicKey && epicName && epicKey !== epicName ? `${epicKey}: ${epicName}` : epicName;
     
+    const subtasks = getSubtaskRollup(issues, issue.key);
+
     return {
-      assignee: issue.assignee || 'Unassigned',
+      assignee: subtasks && subtasks.assignees.length > 1 ? subtasks.assignees.join(', ') : issue.assignee || 'Unassigned',
       issueKey: issue.key || 'N/A',
-      storyPoints: issue.storyPoints || 0,
+      storyPoints: issue.storyPoints || subtasks?.points || 0,
+      subtasks,
       type: issue.issueType || 'Story',
       epic: epicDisplay,
       summary: issue.summary || 'No summary available',
@@ -574,12 +612,12 @@ const DemoStorySlide: React.FC<{ slide: PresentationSlide; issues: Issue[]; cont
                 </h3>
                 <div className={`${contentClass} text-white leading-relaxed`}>
                   {issueDetails?.releaseNotes ? (
-                    <div className="whitespace-pre-wrap">
-                      {issueDetails.releaseNotes}
+                    <div className="prose prose-invert max-w-none break-words">
+                      {safeRenderContent(issueDetails.releaseNotes)}
                     </div>
                   ) : issueDetails?.description ? (
-                    <div className="whitespace-pre-wrap">
-                      {issueDetails.description}
+                    <div className="prose prose-invert max-w-none break-words">
+                      {safeRenderContent(issueDetails.description)}
                     </div>
                   ) : (
                     <p className="text-gray-400 italic">
@@ -643,7 +681,9 @@ const DemoStorySlide: React.FC<{ slide: PresentationSlide; issues: Issue[]; cont
               
               <div className="space-y-3">
                 <div>
-                  <span className={`${contentClass} text-gray-300 font-medium`}>Assignee:</span>
+                  <span className={`${contentClass} text-gray-300 font-medium`}>
+                    {issueDetails?.subtasks && issueDetails.subtasks.assignees.length > 1 ? 'Assignees:' : 'Assignee:'}
+                  </span>
                   <p className={`${contentClass} text-white`}>{issueDetails?.assignee}</p>
                 </div>
                 
@@ -661,6 +701,21 @@ const DemoStorySlide: React.FC<{ slide: PresentationSlide; issues: Issue[]; cont
                   <span className={`${contentClass} text-gray-300 font-medium`}>Epic:</span>
                   <p className={`${contentClass} text-white`}>{issueDetails?.epic}</p>
                 </div>
+
+                {issueDetails?.subtasks && (
+                  <div>
+                    <span className={`${contentClass} text-gray-300 font-medium`}>Sub-tasks:</span>
+                    <p className={`${contentClass} text-white`}>
+                      {issueDetails.subtasks.completed}/{issueDetails.subtasks.total} sub-tasks done
+                    </p>
+                    <div className="mt-1 h-1.5 w-full rounded-full bg-white/20 overflow-hidden">
+                      <div
+                        className="h-full bg-gradient-to-r from-blue-500 to-cyan-400"
+                        style={{ width: `${Math.round((issueDetails.subtasks.completed / issueDetails.subtasks.total) * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
             
@@ -784,21 +839,6 @@ function CustomSlide({ slide, containerClass, titleClass, isFullscreen }: any) {
   )
 }
 
-// Utility: Deeply check for objects and convert ADF-like objects to plain text
-function isADFObject(obj: any): boolean {
-  return obj && typeof obj === 'object' && obj.type === 'doc' && Array.isArray(obj.content);
-}
-
-function adfToPlainText(adf: any): string {
-  if (!adf || !adf.content) return '';
-  return adf.content.map((node: any) => {
-    if (node.type === 'paragraph') {
-      return node.content ? node.content.map((child: any) => child.text || '').join('') : '';
-    }
-    return '';
-  }).join('\n\n');
-}
-
 function safeRenderContent(content: any): React.ReactNode {
   // Handle null/undefined
   if (content === null || content === undefined) {
@@ -818,10 +858,8 @@ function safeRenderContent(content: any): React.ReactNode {
   // Handle objects
   if (typeof content === 'object') {
     // Handle ADF objects specifically
-    if (isADFObject(content)) {
-      const plainText = adfToPlainText(content);
-      console.warn('ADF object detected and converted to plain text:', content);
-      return <ReactMarkdown>{plainText}</ReactMarkdown>;
+    if (isADFDocument(content)) {
+      return <ReactMarkdown>{adfToMarkdown(content)}</ReactMarkdown>;
     }
 
     // Handle arrays
@@ -947,7 +985,7 @@ function CorporateSlide({ slide, containerClass, isFullscreen }: any) {
 }
 
 function QASlide({ slide, containerClass, titleClass, sprintMetrics, allIssues, isFullscreen }: any) {
-  const completedIssues = allIssues.filter((issue: Issue) => isIssueCompleted(issue.status || ""))
+  const completedIssues = allIssues.filter((issue: Issue) => isIssueCompleted(issue))
   const completionRate = allIssues.length > 0 ? Math.round((completedIssues.length / allIssues.length) * 100) : 0
   const qualityScore = sprintMetrics ? calculateQualityScore(sprintMetrics.qualityChecklist) : 0
   
@@ -1002,7 +1040,7 @@ function QASlide({ slide, containerClass, titleClass, sprintMetrics, allIssues,
 
 function ExecutiveSlide({ slide, containerClass, titleClass, sprintMetrics, allIssues, isFullscreen }: any) {
   const { state } = useSprintContext()
-  const completedIssues = allIssues.filter((issue: Issue) => isIssueCompleted(issue.status || ""))
+  const completedIssues = allIssues.filter((issue: Issue) => isIssueCompleted(issue))
   const qualityScore = sprintMetrics ? calculateQualityScore(sprintMetrics.qualityChecklist) : 0
   
   // Real metrics calculations
@@ -1019,24 +1057,42 @@ function ExecutiveSlide({ slide, containerClass, titleClass, sprintMetrics, allI
   const qualityChecklistItems = sprintMetrics ? Object.values(sprintMetrics.qualityChecklist) : []
   const metQualityStandards = qualityChecklistItems.filter(item => item === "yes").length
   const qualityStandardsCompliance = qualityChecklistItems.length > 0 ? Math.round((metQualityStandards / qualityChecklistItems.length) * 100) : 0
+
+  // Faceted breakdowns from Jira priority, components and resolution
+  const bugsByPriority = getFacetBreakdown(allIssues.filter(isBug), "priority")
+  const workByComponent = getFacetBreakdown(allIssues, "component").slice(0, isFullscreen ? 8 : 5)
+  const resolutionSummary = getResolutionSummary(allIssues)
+
+  // Kanban boards have no sprint commitment, so throughput and WIP stand in for velocity
+  const kanbanMetrics = state.kanbanPeriod ? state.kanbanMetrics : null
   
   return (
     <div className={`${containerClass} relative overflow-hidden bg-gradient-to-br from-blue-50 to-indigo-100`}>
       {/* Header */}
       <div className="absolute top-0 left-0 right-0 bg-gradient-to-r from-blue-600 to-indigo-700 text-white p-4 sm:p-6">
         <h1 className={`${titleClass} text-white mb-2`}>Executive Summary</h1>
-        <p className="text-blue-100 text-sm sm:text-base">Sprint Performance Overview</p>
+        <p className="text-blue-100 text-sm sm:text-base">{kanbanMetrics ? "Flow Performance Overview" : "Sprint Performance Overview"}</p>
       </div>
       
       {/* Main Content */}
       <div className="pt-20 sm:pt-24 lg:pt-28 px-4 sm:px-6 lg:px-8 pb-4 h-full overflow-y-auto">
         {/* Key Metrics Grid */}
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-          <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
-            <div className="text-2xl sm:text-3xl font-bold text-blue-600">{velocityAchievement}%</div>
-            <div className="text-xs sm:text-sm text-gray-600 font-medium">Velocity</div>
-            <div className="text-xs text-gray-500">{velocity}/{velocityTarget} pts</div>
-          </div>
+          {kanbanMetrics ? (
+            <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+              <div className="text-2xl sm:text-3xl font-bold text-blue-600">{kanbanMetrics.throughput.perWeek}</div>
+              <div className="text-xs sm:text-sm text-gray-600 font-medium">Throughput / Week</div>
+              <div className="text-xs text-gray-500">
+                {kanbanMetrics.throughput.issues} resolved · {kanbanMetrics.wip.current} in progress
+              </div>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+              <div className="text-2xl sm:text-3xl font-bold text-blue-600">{velocityAchievement}%</div>
+              <div className="text-xs sm:text-sm text-gray-600 font-medium">Velocity</div>
+              <div className="text-xs text-gray-500">{velocity}/{velocityTarget} pts</div>
+            </div>
+          )}
           <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
             <div className="text-2xl sm:text-3xl font-bold text-green-600">{qualityScore}%</div>
             <div className="text-xs sm:text-sm text-gray-600 font-medium">Quality</div>
@@ -1092,14 +1148,24 @@ function ExecutiveSlide({ slide, containerClass, titleClass, sprintMetrics, allI
                 <span className="text-gray-600">Technical Debt:</span>
                 <span className="font-semibold">{completedIssues.filter((i: Issue) => i.issueType === 'Technical task').length}</span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Closed Without Delivery:</span>
+                <span className="font-semibold">{resolutionSummary.notDelivered}</span>
+              </div>
             </div>
           </div>
           <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
             <h4 className="text-lg font-semibold text-gray-800 mb-3">Key Insights</h4>
             <div className="space-y-2 text-sm">
-              <div className={`p-2 rounded ${velocityAchievement >= 80 ? 'bg-green-100 text-green-800' : velocityAchievement >= 60 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'}`}>
-                {velocityAchievement >= 80 ? '✅' : velocityAchievement >= 60 ? '⚠️' : '❌'} Velocity: {velocityAchievement >= 80 ? 'On Track' : velocityAchievement >= 60 ? 'Needs Attention' : 'Critical'}
-              </div>
+              {kanbanMetrics ? (
+                <div className={`p-2 rounded ${kanbanMetrics.wip.columnsOverLimit === 0 ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                  {kanbanMetrics.wip.columnsOverLimit === 0 ? '✅' : '⚠️'} WIP: {kanbanMetrics.wip.columnsOverLimit === 0 ? 'Within Limits' : `${kanbanMetrics.wip.columnsOverLimit} Column${kanbanMetrics.wip.columnsOverLimit !== 1 ? 's' : ''} Over Limit`}
+                </div>
+              ) : (
+                <div className={`p-2 rounded ${velocityAchievement >= 80 ? 'bg-green-100 text-green-800' : velocityAchievement >= 60 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'}`}>
+                  {velocityAchievement >= 80 ? '✅' : velocityAchievement >= 60 ? '⚠️' : '❌'} Velocity: {velocityAchievement >= 80 ? 'On Track' : velocityAchievement >= 60 ? 'Needs Attention' : 'Critical'}
+                </div>
+              )}
               <div className={`p-2 rounded ${qualityScore >= 80 ? 'bg-green-100 text-green-800' : qualityScore >= 60 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'}`}>
                 {qualityScore >= 80 ? '✅' : qualityScore >= 60 ? '⚠️' : '❌'} Quality: {qualityScore >= 80 ? 'Excellent' : qualityScore >= 60 ? 'Good' : 'Needs Improvement'}
               </div>
@@ -1109,6 +1175,36 @@ function ExecutiveSlide({ slide, containerClass, titleClass, sprintMetrics, allI
             </div>
           </div>
         </div>
+
+        {/* Priority and Component Breakdown */}
+        <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+            <h4 className="text-lg font-semibold text-gray-800 mb-3">Bugs by Priority</h4>
+            {bugsByPriority.length === 0 ? (
+              <div className="text-sm text-gray-500">No bugs in this sprint</div>
+            ) : (
+              <div className="space-y-2 text-sm">
+                {bugsByPriority.map((bucket) => (
+                  <div key={bucket.value} className="flex justify-between">
+                    <span className="text-gray-600">{bucket.value}:</span>
+                    <span className="font-semibold">{bucket.completed}/{bucket.total} fixed</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+            <h4 className="text-lg font-semibold text-gray-800 mb-3">Work by Component</h4>
+            <div className="space-y-2 text-sm">
+              {workByComponent.map((bucket) => (
+                <div key={bucket.value} className="flex justify-between">
+                  <span className="text-gray-600 truncate">{bucket.value}:</span>
+                  <span className="font-semibold whitespace-nowrap">{bucket.completedPoints}/{bucket.points} pts</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
       </div>
       
       {/* Company Logo overlay - positioned in bottom right corner */}
@@ -1123,6 +1219,181 @@ function ExecutiveSlide({ slide, containerClass, titleClass, sprintMetrics, allI
   )
 }
 
+function ScopeChangeSlide({ slide, containerClass, titleClass, isFullscreen }: any) {
+  const { state } = useSprintContext()
+  const scopeChange = state.scopeChange
+
+  if (!scopeChange) {
+    return (
+      <div className={`${containerClass} flex items-center justify-center`}>
+        <div className="text-center text-gray-500">
+          <h2 className={titleClass}>{slide.title}</h2>
+          <p>Load scope changes from the Metrics tab to populate this slide.</p>
+        </div>
+      </div>
+    )
+  }
+
+  const { totals } = scopeChange
+  const maxScope = Math.max(...scopeChange.timeline.map((point) => point.scopePoints), totals.plannedPoints, 1)
+  const changedIssues = [
+    ...scopeChange.added.map((issue) => ({ ...issue, change: "added" as const })),
+    ...scopeChange.removed.map((issue) => ({ ...issue, change: "removed" as const })),
+  ].sort((a, b) => new Date(a.changedAt || 0).getTime() - new Date(b.changedAt || 0).getTime())
+
+  return (
+    <div className={`${containerClass} relative overflow-hidden bg-gradient-to-br from-blue-50 to-indigo-100`}>
+      {/* Header */}
+      <div className="absolute top-0 left-0 right-0 bg-gradient-to-r from-blue-600 to-indigo-700 text-white p-4 sm:p-6">
+        <h1 className={`${titleClass} text-white mb-2`}>{slide.title}</h1>
+        <p className="text-blue-100 text-sm sm:text-base">
+          {scopeChange.sprintName} · {Math.round(totals.scopeChangePercent)}% scope change
+        </p>
+      </div>
+
+      {/* Main Content */}
+      <div className="pt-20 sm:pt-24 lg:pt-28 px-4 sm:px-6 lg:px-8 pb-4 h-full overflow-y-auto">
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+            <div className="text-2xl sm:text-3xl font-bold text-blue-600">{totals.plannedPoints}</div>
+            <div className="text-xs sm:text-sm text-gray-600 font-medium">Planned</div>
+            <div className="text-xs text-gray-500">{scopeChange.planned.length} items at sprint start</div>
+          </div>
+          <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+            <div className="text-2xl sm:text-3xl font-bold text-green-600">+{totals.addedPoints}</div>
+            <div className="text-xs sm:text-sm text-gray-600 font-medium">Added</div>
+            <div className="text-xs text-gray-500">{scopeChange.added.length} items, {totals.completedAddedPoints} pts done</div>
+          </div>
+          <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+            <div className="text-2xl sm:text-3xl font-bold text-red-600">-{totals.removedPoints}</div>
+            <div className="text-xs sm:text-sm text-gray-600 font-medium">Removed</div>
+            <div className="text-xs text-gray-500">{scopeChange.removed.length} items</div>
+          </div>
+          <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+            <div className="text-2xl sm:text-3xl font-bold text-orange-600">{totals.carriedOverPoints}</div>
+            <div className="text-xs sm:text-sm text-gray-600 font-medium">Carried Over</div>
+            <div className="text-xs text-gray-500">{scopeChange.carriedOver.length} items not finished</div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {/* Scope timeline */}
+          <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+            <h4 className="text-lg font-semibold text-gray-800 mb-3">Scope Over Time</h4>
+            <div className={`flex items-end gap-1 ${isFullscreen ? "h-48" : "h-32"}`}>
+              {scopeChange.timeline.map((point) => (
+                <div
+                  key={point.date}
+                  className="flex-1 flex flex-col justify-end h-full"
+                  title={`${point.date}: ${point.scopePoints} pts (+${point.addedPoints} / -${point.removedPoints})`}
+                >
+                  <div
+                    className={`rounded-t ${point.addedPoints > 0 ? "bg-green-500" : point.removedPoints > 0 ? "bg-red-400" : "bg-blue-400"}`}
+                    style={{ height: `${(point.scopePoints / maxScope) * 100}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-2">
+              <span>{scopeChange.timeline[0]?.date}</span>
+              <span>{totals.finalScopePoints} pts final scope</span>
+              <span>{scopeChange.timeline[scopeChange.timeline.length - 1]?.date}</span>
+            </div>
+          </div>
+
+          {/* Changed issues */}
+          <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+            <h4 className="text-lg font-semibold text-gray-800 mb-3">Mid-Sprint Changes</h4>
+            {changedIssues.length === 0 ? (
+              <div className="text-sm text-gray-500">No issues were added or removed after the sprint started.</div>
+            ) : (
+              <div className="space-y-1 text-sm">
+                {changedIssues.slice(0, isFullscreen ? 12 : 8).map((issue) => (
+                  <div key={`${issue.change}-${issue.key}`} className="flex items-center justify-between gap-2">
+                    <span className="truncate">
+                      <span className={issue.change === "added" ? "text-green-600" : "text-red-600"}>
+                        {issue.change === "added" ? "+" : "−"}
+                      </span>{" "}
+                      <span className="font-mono text-xs">{issue.key}</span> {issue.summary}
+                    </span>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">{issue.storyPoints} pts</span>
+                  </div>
+                ))}
+                {changedIssues.length > (isFullscreen ? 12 : 8) && (
+                  <div className="text-xs text-gray-500">+{changedIssues.length - (isFullscreen ? 12 : 8)} more</div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Company Logo overlay - positioned in bottom right corner */}
+      <div className="absolute bottom-4 right-4 z-20">
+        <img 
+          src="/company-logos/CommandAlkon_Logo_Primary_CMYK.svg" 
+          alt="Command Alkon" 
+          className={`${isFullscreen ? 'h-8 w-auto' : 'h-6 w-auto'} opacity-80 hover:opacity-100 transition-opacity drop-shadow-lg`}
+        />
+      </div>
+    </div>
+  )
+}
+
+function BurndownSlide({ slide, containerClass, titleClass, isFullscreen }: any) {
+  const { state } = useSprintContext()
+  const burndown = state.burndown
+
+  if (!burndown) {
+    return (
+      <div className={`${containerClass} flex items-center justify-center`}>
+        <div className="text-center text-gray-500">
+          <h2 className={titleClass}>{slide.title}</h2>
+          <p>Load scope changes from the Metrics tab to populate this slide.</p>
+        </div>
+      </div>
+    )
+  }
+
+  const { totals } = burndown
+  const completion = totals.scopePoints > 0 ? Math.round((totals.completedPoints / totals.scopePoints) * 100) : 0
+
+  return (
+    <div className={`${containerClass} relative overflow-hidden bg-gradient-to-br from-blue-50 to-indigo-100`}>
+      {/* Header */}
+      <div className="absolute top-0 left-0 right-0 bg-gradient-to-r from-blue-600 to-indigo-700 text-white p-4 sm:p-6">
+        <h1 className={`${titleClass} text-white mb-2`}>{slide.title}</h1>
+        <p className="text-blue-100 text-sm sm:text-base">
+          {burndown.sprintName} · {totals.completedPoints}/{totals.scopePoints} pts done ({completion}%) · {totals.remainingPoints} pts remaining
+        </p>
+      </div>
+
+      {/* Main Content */}
+      <div className="pt-20 sm:pt-24 lg:pt-28 px-4 sm:px-6 lg:px-8 pb-4 h-full overflow-y-auto">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+            <h4 className="text-lg font-semibold text-gray-800 mb-3">Burndown</h4>
+            <BurndownChart burndown={burndown} mode="burndown" className={isFullscreen ? "h-72 w-full" : "h-48 w-full"} />
+          </div>
+          <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+            <h4 className="text-lg font-semibold text-gray-800 mb-3">Burnup</h4>
+            <BurndownChart burndown={burndown} mode="burnup" className={isFullscreen ? "h-72 w-full" : "h-48 w-full"} />
+          </div>
+        </div>
+      </div>
+
+      {/* Company Logo overlay - positioned in bottom right corner */}
+      <div className="absolute bottom-4 right-4 z-20">
+        <img 
+          src="/company-logos/CommandAlkon_Logo_Primary_CMYK.svg" 
+          alt="Command Alkon" 
+          className={`${isFullscreen ? 'h-8 w-auto' : 'h-6 w-auto'} opacity-80 hover:opacity-100 transition-opacity drop-shadow-lg`}
+        />
+      </div>
+    </div>
+  )
+}
+
 // Test function for epic breakdown with various data scenarios
 function testEpicBreakdown() {
   // Test scenario 1: Empty issues array
@@ -1225,6 +1496,10 @@ function testEpicBreakdown() {
 
 // Epic breakdown component
 function EpicBreakdown({ issues, isFullscreen }: { issues: Issue[]; isFullscreen?: boolean }) {
+  // Whole-epic progress and forecasts, when loaded for this sprint from the Metrics tab
+  const { state } = useSprintContext();
+  const epicForecast = state.epicForecast?.sprintId === state.selectedSprint?.id ? state.epicForecast : null;
+
   // Filter out invalid issues and add debugging
   const validIssues = issues.filter(issue => 
     issue && 
@@ -1245,7 +1520,10 @@ function EpicBreakdown({ issues, isFullscreen }: { issues: Issue[]; isFullscreen
   }
 
   // Group issues by epic with improved logic
-  const epicGroups = validIssues.reduce((groups: EpicGroup[], issue) => {
+  // Sub-tasks are counted through their parent story so their points are not added twice
+  const hierarchy = buildIssueHierarchy(validIssues);
+  const epicGroups = hierarchy.reduce((groups: EpicGroup[], node) => {
+    const issue = node.issue;
     // Determine epic information with fallbacks
     const epicKey = issue.epicKey || (issue.epicName && /^[A-Z]+-\d+$/.test(issue.epicName) ? issue.epicName : undefined);
     const epicName = issue.epicName || issue.epicKey || 'No Epic';
@@ -1256,18 +1534,16 @@ function EpicBreakdown({ issues, isFullscreen }: { issues: Issue[]; isFullscreen
       const noEpicGroup = groups.find(g => g.epicKey === 'no-epic');
       if (noEpicGroup) {
         noEpicGroup.issues.push(issue);
-        noEpicGroup.totalStoryPoints += issue.storyPoints || 0;
-        if (issue.status === 'Done') {
-          noEpicGroup.completedStoryPoints += issue.storyPoints || 0;
-        }
+        noEpicGroup.totalStoryPoints += node.storyPoints;
+        noEpicGroup.completedStoryPoints += node.completedPoints;
       } else {
         groups.push({
           epicKey: 'no-epic',
           epicName: 'No Epic',
           epicColor: '#6b7280',
           issues: [issue],
-          totalStoryPoints: issue.storyPoints || 0,
-          completedStoryPoints: issue.status === 'Done' ? (issue.storyPoints || 0) : 0,
+          totalStoryPoints: node.storyPoints,
+          completedStoryPoints: node.completedPoints,
           completionRate: 0
         });
       }
@@ -1277,18 +1553,16 @@ function EpicBreakdown({ issues, isFullscreen }: { issues: Issue[]; isFullscreen
       const existingGroup = groups.find(g => g.epicKey === groupKey);
       if (existingGroup) {
         existingGroup.issues.push(issue);
-        existingGroup.totalStoryPoints += issue.storyPoints || 0;
-        if (issue.status === 'Done') {
-          existingGroup.completedStoryPoints += issue.storyPoints || 0;
-        }
+        existingGroup.totalStoryPoints += node.storyPoints;
+        existingGroup.completedStoryPoints += node.completedPoints;
       } else {
         groups.push({
           epicKey: groupKey,
           epicName: epicName,
           epicColor: issue.epicColor || '#3b82f6',
           issues: [issue],
-          totalStoryPoints: issue.storyPoints || 0,
-          completedStoryPoints: issue.status === 'Done' ? (issue.storyPoints || 0) : 0,
+          totalStoryPoints: node.storyPoints,
+          completedStoryPoints: node.completedPoints,
           completionRate: 0
         });
       }
@@ -1312,12 +1586,10 @@ function EpicBreakdown({ issues, isFullscreen }: { issues: Issue[]; isFullscreen
   });
 
   // Calculate overall sprint statistics
-  const totalIssues = validIssues.length;
-  const completedIssues = validIssues.filter(i => isIssueCompleted(i.status || "")).length;
-  const totalStoryPoints = validIssues.reduce((sum, i) => sum + (i.storyPoints || 0), 0);
-  const completedStoryPoints = validIssues
-    .filter(i => isIssueCompleted(i.status || ""))
-    .reduce((sum, i) => sum + (i.storyPoints || 0), 0);
+  const totalIssues = hierarchy.length;
+  const completedIssues = hierarchy.filter(node => isIssueCompleted(node.issue)).length;
+  const totalStoryPoints = hierarchy.reduce((sum, node) => sum + node.storyPoints, 0);
+  const completedStoryPoints = hierarchy.reduce((sum, node) => sum + node.completedPoints, 0);
   const overallCompletionRate = totalStoryPoints > 0 
     ? Math.round((completedStoryPoints / totalStoryPoints) * 100) 
     : 0;
@@ -1374,7 +1646,9 @@ function EpicBreakdown({ issues, isFullscreen }: { issues: Issue[]; isFullscreen
       
       {/* Epic Groups - Ultra Compact */}
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-32 overflow-y-auto">
-        {epicGroups.slice(0, 4).map((group) => (
+        {epicGroups.slice(0, 4).map((group) => {
+          const forecast = epicForecast?.epics.find((epic) => epic.epicKey === group.epicKey);
+          return (
           <div 
             key={group.epicKey}
             className="bg-white rounded p-2 border border-gray-200 shadow-sm overflow-hidden"
@@ -1418,15 +1692,41 @@ function EpicBreakdown({ issues, isFullscreen }: { issues: Issue[]; isFullscreen
                   style={{ width: `${group.completionRate}%` }}
                 ></div>
               </div>
+
+              {forecast && (
+                <>
+                  <div className="flex justify-between text-xs">
+                    <span className="text-gray-600">Whole epic:</span>
+                    <span className="font-bold text-ca-blue-600">
+                      {forecast.completedPoints}/{forecast.totalPoints} ({forecast.percentPoints}%)
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-xs gap-1">
+                    <span className="text-gray-600 flex-shrink-0">Finish:</span>
+                    <span className="font-medium text-gray-900 truncate">
+                      {forecast.sprintsRemaining === 0
+                        ? "Done"
+                        : forecast.projectedSprint ?? "No recent progress"}
+                    </span>
+                  </div>
+                </>
+              )}
             </div>
           </div>
-        ))}
+          );
+        })}
         {epicGroups.length > 4 && (
           <div className="col-span-full text-center text-xs text-gray-500 py-1">
             +{epicGroups.length - 4} more epics
           </div>
         )}
       </div>
+      {epicForecast && (
+        <div className="text-center text-xs text-gray-500">
+          Whole-epic figures include work outside this sprint; finish is projected from the last{" "}
+          {epicForecast.velocitySprints.length} closed sprints
+        </div>
+      )}
     </div>
   );
 }
@@ -1519,11 +1819,12 @@ const ReviewLegend: React.FC<{
   // Enhanced error handling and edge cases
   const safeIssues = Array.isArray(issues) ? issues : [];
   const totalIssues = safeIssues.length;
-  const completedIssues = safeIssues.filter(issue => isIssueCompleted(issue.status || "")).length;
+  const completedIssues = safeIssues.filter(issue => isIssueCompleted(issue)).length;
   const completionRate = totalIssues > 0 ? Math.round((completedIssues / totalIssues) * 100) : 0;
   
-  // Calculate epic breakdown for legend with enhanced error handling
-  const epicStats = safeIssues.reduce((acc, issue) => {
+  // Calculate epic breakdown for legend with enhanced error handling; sub-tasks count through their parent
+  const epicStats = buildIssueHierarchy(safeIssues).reduce((acc, node) => {
+    const issue = node.issue;
     const epicKey = issue.epicKey || 'No Epic';
     const epicName = issue.epicName || 'No Epic';
     const epicColor = issue.epicColor || '#6b7280';
@@ -1539,10 +1840,10 @@ const ReviewLegend: React.FC<{
     }
     
     acc[epicKey].total++;
-    if (issue.status === 'Done') {
+    if (isIssueCompleted(issue)) {
       acc[epicKey].completed++;
     }
-    acc[epicKey].storyPoints += issue.storyPoints || 0;
+    acc[epicKey].storyPoints += node.storyPoints;
     
     return acc;
   }, {} as Record<string, { name: string; color: string; total: number; completed: number; storyPoints: number }>);
@@ -1745,3 +2046,106 @@ function ResponsiveContainer({ children, className = "" }: { children: React.Rea
     </div>
   );
 }
+
+const DEPENDENCY_SCOPE_STYLES: Record<DependencyNode["scope"], string> = {
+  current: "border-blue-300 bg-blue-50",
+  upcoming: "border-purple-300 bg-purple-50",
+  external: "border-red-300 bg-red-50",
+}
+
+function DependencyNodeCard({ node }: { node: DependencyNode }) {
+  return (
+    <div className={`rounded border px-2 py-1 text-xs min-w-0 ${DEPENDENCY_SCOPE_STYLES[node.scope]} ${node.completed ? "opacity-60" : ""}`}>
+      <div className="flex items-center gap-1">
+        <span className="font-mono font-semibold">{node.key}</span>
+        {node.scope !== "current" && (
+          <span className="text-[10px] uppercase text-gray-500">{node.scope === "external" ? "outside sprint" : "upcoming"}</span>
+        )}
+      </div>
+      <div className="truncate text-gray-700">{node.summary}</div>
+      <div className="text-gray-500">{node.status || "Unknown status"}</div>
+    </div>
+  )
+}
+
+function DependenciesSlide({ slide, containerClass, titleClass, allIssues, upcomingIssues, isFullscreen }: any) {
+  const graph = buildDependencyGraph<Issue>(allIssues, upcomingIssues || [])
+
+  if (graph.edges.length === 0) {
+    return (
+      <div className={`${containerClass} flex items-center justify-center`}>
+        <div className="text-center text-gray-500">
+          <h2 className={titleClass}>{slide.title}</h2>
+          <p>No blocking links between this sprint's issues.</p>
+        </div>
+      </div>
+    )
+  }
+
+  const nodesByKey = new Map(graph.nodes.map((node) => [node.key, node]))
+  // Open blockers first so the slide leads with what is still in the way
+  const edges = [...graph.edges].sort(
+    (a, b) => Number(nodesByKey.get(a.blocker)!.completed) - Number(nodesByKey.get(b.blocker)!.completed)
+  )
+  const limit = isFullscreen ? 10 : 6
+
+  return (
+    <div className={`${containerClass} relative overflow-hidden bg-gradient-to-br from-blue-50 to-indigo-100`}>
+      {/* Header */}
+      <div className="absolute top-0 left-0 right-0 bg-gradient-to-r from-blue-600 to-indigo-700 text-white p-4 sm:p-6">
+        <h1 className={`${titleClass} text-white mb-2`}>{slide.title}</h1>
+        <p className="text-blue-100 text-sm sm:text-base">
+          {graph.edges.length} blocking links · {graph.risks.length} issues at risk · {graph.externalBlockers} blockers outside the sprint
+        </p>
+      </div>
+
+      {/* Main Content */}
+      <div className="pt-20 sm:pt-24 lg:pt-28 px-4 sm:px-6 lg:px-8 pb-4 h-full overflow-y-auto">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {/* Blocker graph */}
+          <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+            <h4 className="text-lg font-semibold text-gray-800 mb-3">Blockers</h4>
+            <div className="space-y-2">
+              {edges.slice(0, limit).map((edge) => (
+                <div key={`${edge.blocker}->${edge.blocked}`} className="grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+                  <DependencyNodeCard node={nodesByKey.get(edge.blocker)!} />
+                  <span className={`text-xs whitespace-nowrap ${edge.crossProject ? "text-orange-600 font-semibold" : "text-gray-500"}`}>
+                    blocks →
+                  </span>
+                  <DependencyNodeCard node={nodesByKey.get(edge.blocked)!} />
+                </div>
+              ))}
+              {edges.length > limit && <div className="text-xs text-gray-500">+{edges.length - limit} more</div>}
+            </div>
+            <div className="flex gap-3 text-xs text-gray-500 mt-3">
+              <span>Blue: this sprint</span>
+              <span>Purple: upcoming</span>
+              <span>Red: outside both</span>
+              <span className="text-orange-600">Orange arrow: other project</span>
+            </div>
+          </div>
+
+          {/* Risks */}
+          <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+            <h4 className="text-lg font-semibold text-gray-800 mb-3">Delivery Risks</h4>
+            {graph.risks.length === 0 ? (
+              <div className="text-sm text-gray-500">Every blocked issue's blockers are done.</div>
+            ) : (
+              <div className="space-y-2 text-sm">
+                {graph.risks.slice(0, limit).map((risk) => (
+                  <div
+                    key={risk.issue.key}
+                    className={`p-2 rounded ${risk.severity === "high" ? "bg-red-100 text-red-800" : "bg-yellow-100 text-yellow-800"}`}
+                  >
+                    {risk.severity === "high" ? "❌" : "⚠️"} <span className="font-mono text-xs">{risk.issue.key}</span> {risk.issue.summary}
+                    <div className="text-xs">{risk.reason}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
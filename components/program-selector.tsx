@@ -0,0 +1,215 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2, AlertCircle, Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { useSprintContext } from "@/components/sprint-context"
+import { fetchJiraSprints } from "@/lib/jira-api"
+import { useJiraIssueSearch } from "@/hooks/use-jira-api"
+import type { SafeJiraSprint } from "@/lib/jira-types"
+
+const toDay = (date?: string | null) => (date ? new Date(date).toDateString() : null)
+
+// Builds a program review from several board + sprint pairs, one per team
+export function ProgramSelector() {
+  const { state, dispatch } = useSprintContext()
+  const [boardId, setBoardId] = useState<string>("")
+  const [sprints, setSprints] = useState<SafeJiraSprint[]>([])
+  const [sprintId, setSprintId] = useState<string>("")
+  const [loadingSprints, setLoadingSprints] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [searchWarning, setSearchWarning] = useState<string | null>(null)
+  const { search: searchIssues, progress: searchProgress, loading: searchLoading } = useJiraIssueSearch()
+
+  const boards = state.selectedProject?.boards || []
+  const teamEndDay = toDay(state.programTeams[0]?.sprint.endDate)
+
+  useEffect(() => {
+    setBoardId("")
+    setSprints([])
+    setSprintId("")
+  }, [state.selectedProject?.key])
+
+  const loadSprints = async (selectedBoardId: string) => {
+    setBoardId(selectedBoardId)
+    setSprints([])
+    setSprintId("")
+    setError(null)
+    setLoadingSprints(true)
+    try {
+      const fetchedSprints = await fetchJiraSprints(Number.parseInt(selectedBoardId))
+      setSprints(fetchedSprints)
+      // Release train teams end their sprints together, so suggest the sprint that lines up
+      const suggested =
+        fetchedSprints.find((sprint) => teamEndDay && toDay(sprint.endDate) === teamEndDay) ||
+        fetchedSprints.find((sprint) => sprint.state === "active")
+      if (suggested) setSprintId(suggested.id)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to load sprints"
+      setError(errorMessage)
+      console.error("Failed to load sprints:", error)
+    } finally {
+      setLoadingSprints(false)
+    }
+  }
+
+  const handleAddTeam = async () => {
+    const board = boards.find((b) => b.id === boardId)
+    const sprint = sprints.find((s) => s.id === sprintId)
+    if (!board || !sprint) return
+
+    dispatch({ type: "SET_LOADING", payload: { key: "issues", value: true } })
+    setSearchWarning(null)
+    try {
+      const result = await searchIssues({
+        sprintId: Number.parseInt(sprint.id),
+        projectKey: state.selectedProject?.key,
+      })
+      if (result) {
+        dispatch({
+          type: "ADD_PROGRAM_TEAM",
+          payload: {
+            team: {
+              boardId: board.id,
+              boardName: board.name,
+              projectKey: state.selectedProject?.key,
+              sprint: {
+                id: sprint.id,
+                name: sprint.name,
+                state: sprint.state,
+                startDate: sprint.startDate || undefined,
+                endDate: sprint.endDate || undefined,
+                startedAt: sprint.startedAt || undefined,
+                endedAt: sprint.endedAt || undefined,
+                boardId: board.id,
+              },
+            },
+            issues: result.issues,
+          },
+        })
+        if (result.truncated) {
+          setSearchWarning(
+            `Only ${result.issues.length} of ${result.total ?? "more"} issues could be loaded for ${board.name}. Metrics for this team are incomplete.`
+          )
+        }
+        setBoardId("")
+        setSprints([])
+        setSprintId("")
+      }
+    } catch (error) {
+      console.error("Failed to load team sprint issues:", error)
+      setError(error instanceof Error ? error.message : "Failed to load team sprint issues")
+    } finally {
+      dispatch({ type: "SET_LOADING", payload: { key: "issues", value: false } })
+    }
+  }
+
+  if (!state.selectedProject) {
+    return (
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Teams</label>
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Please select a project first to add team boards.</AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Teams</label>
+        {state.programTeams.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Add each team's board and sprint to combine them into one review.</p>
+        ) : (
+          <div className="space-y-1">
+            {state.programTeams.map((team) => (
+              <div key={team.boardId} className="flex items-center justify-between gap-2 rounded border px-2 py-1 text-sm">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{team.teamName ?? team.boardName}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {team.sprint.name}
+                    {team.sprint.endDate && ` · ends ${new Date(team.sprint.endDate).toLocaleDateString()}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {teamEndDay && toDay(team.sprint.endDate) !== teamEndDay && (
+                    <Badge className="bg-yellow-100 text-yellow-800">Different end</Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => dispatch({ type: "REMOVE_PROGRAM_TEAM", payload: team.boardId })}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Select value={boardId} onValueChange={loadSprints}>
+          <SelectTrigger>
+            <SelectValue placeholder={boards.length > 0 ? "Select team board..." : "No boards in this project"} />
+          </SelectTrigger>
+          <SelectContent>
+            {boards.map((board) => (
+              <SelectItem key={board.id} value={board.id}>
+                {board.name}
+                {state.programTeams.some((team) => team.boardId === board.id) ? " (added)" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {boardId && (
+          <Select value={sprintId} onValueChange={setSprintId} disabled={loadingSprints}>
+            <SelectTrigger>
+              <SelectValue placeholder={loadingSprints ? "Loading sprints..." : "Select sprint..."} />
+            </SelectTrigger>
+            <SelectContent>
+              {sprints.map((sprint) => (
+                <SelectItem key={sprint.id} value={sprint.id}>
+                  {sprint.name} ({sprint.state})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={handleAddTeam}
+          disabled={!boardId || !sprintId || searchLoading}
+        >
+          {searchLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+          {searchLoading && searchProgress ? `Loaded ${searchProgress.fetched} issues...` : "Add Team"}
+        </Button>
+        <p className="text-xs text-muted-foreground">Switch project to add boards from other projects.</p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {searchWarning && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{searchWarning}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -22,16 +22,25 @@ interface Project {
 export function ProjectSelector() {
   const { state, dispatch } = useSprintContext()
   const [open, setOpen] = useState(false)
-  const { data: projects, loading, error, execute: loadProjects, clearError } = useJiraProjects()
+  const {
+    data: projects,
+    loading,
+    error,
+    progress,
+    execute: loadProjects,
+    cancel: cancelLoad,
+    clearError,
+  } = useJiraProjects(state.jiraProfileId)
   const projectsMapRef = useRef<Map<string, Project>>(new Map())
-  const hasLoadedRef = useRef(false)
+  const loadedProfileRef = useRef<string | null | undefined>(undefined)
 
+  // Reload whenever the session switches to another Jira connection profile
   useEffect(() => {
-    if (!hasLoadedRef.current) {
-      hasLoadedRef.current = true
+    if (loadedProfileRef.current !== state.jiraProfileId) {
+      loadedProfileRef.current = state.jiraProfileId
       loadProjects()
     }
-  }, [loadProjects])
+  }, [loadProjects, state.jiraProfileId])
 
   // Update projects map when projects data changes
   useEffect(() => {
@@ -70,11 +79,21 @@ export function ProjectSelector() {
     setOpen(false)
   }
 
+  // A load cancelled before any boards resolved leaves no projects; opening the list fetches them again
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen)
+    if (isOpen && !projects && !loading) {
+      loadProjects()
+    }
+  }
+
   const handleRetry = () => {
     clearError()
     loadProjects()
   }
 
+  const isPartial = !loading && !!progress && progress.resolved < progress.total
+
   if (error) {
     return (
       <div className="space-y-2">
@@ -93,22 +112,22 @@ export function ProjectSelector() {
   return (
     <div className="space-y-2">
       <label className="text-sm font-medium">Select Project</label>
-      <Popover open={open} onOpenChange={setOpen}>
+      <Popover open={open} onOpenChange={handleOpenChange}>
         <PopoverTrigger asChild>
           <Button
             variant="outline"
             role="combobox"
             aria-expanded={open}
             className="w-full justify-between bg-transparent"
-            disabled={loading}
+            disabled={loading && !projects?.length}
           >
-            {loading ? (
+            {state.selectedProject ? (
+              `${state.selectedProject.key} - ${state.selectedProject.name}`
+            ) : loading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 Loading projects...
               </>
-            ) : state.selectedProject ? (
-              `${state.selectedProject.key} - ${state.selectedProject.name}`
             ) : (
               "Select project..."
             )}
@@ -150,6 +169,28 @@ export function ProjectSelector() {
           </Command>
         </PopoverContent>
       </Popover>
+      {loading && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          {progress && progress.total > 0 && (
+            <span>
+              Boards loaded for {progress.resolved} of {progress.total} projects
+            </span>
+          )}
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={cancelLoad}>
+            Cancel loading
+          </Button>
+        </div>
+      )}
+      {isPartial && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>
+            Showing {projects?.length ?? 0} of {progress!.total} projects
+          </span>
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => loadProjects()}>
+            Load all
+          </Button>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,217 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Check, ChevronsUpDown, Loader2, AlertCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { useSprintContext } from "@/components/sprint-context"
+import { fetchJiraVersions } from "@/lib/jira-api"
+import { cn } from "@/lib/utils"
+import { useJiraIssueSearch } from "@/hooks/use-jira-api"
+import type { SafeJiraVersion } from "@/lib/jira-types"
+
+// Picks a fix version for release reviews and loads its issues in place of a sprint's
+export function ReleaseSelector() {
+  const { state, dispatch } = useSprintContext()
+  const [open, setOpen] = useState(false)
+  const [releases, setReleases] = useState<SafeJiraVersion[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [searchWarning, setSearchWarning] = useState<string | null>(null)
+  const { search: searchIssues, cancel: cancelSearch, progress: searchProgress, loading: searchLoading } = useJiraIssueSearch()
+
+  useEffect(() => {
+    if (state.selectedProject) {
+      loadReleases()
+    } else {
+      setReleases([])
+      setError(null)
+    }
+  }, [state.selectedProject])
+
+  const loadReleases = async () => {
+    if (!state.selectedProject) return
+
+    dispatch({ type: "SET_LOADING", payload: { key: "releases", value: true } })
+    setError(null)
+
+    try {
+      const versions = await fetchJiraVersions(state.selectedProject.key)
+      setReleases(versions)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to load releases"
+      setError(errorMessage)
+      console.error("Failed to load releases:", error)
+    } finally {
+      dispatch({ type: "SET_LOADING", payload: { key: "releases", value: false } })
+    }
+  }
+
+  const handleReleaseSelect = async (release: SafeJiraVersion) => {
+    dispatch({
+      type: "SET_RELEASE",
+      payload: {
+        id: release.id,
+        name: release.name,
+        description: release.description,
+        released: release.released,
+        startDate: release.startDate || undefined,
+        releaseDate: release.releaseDate || undefined,
+        projectKey: release.projectKey,
+      },
+    })
+    setOpen(false)
+
+    dispatch({ type: "SET_LOADING", payload: { key: "issues", value: true } })
+    setSearchWarning(null)
+    try {
+      const result = await searchIssues({
+        fixVersionId: Number.parseInt(release.id),
+        projectKey: state.selectedProject?.key,
+      })
+      if (result) {
+        dispatch({ type: "SET_ISSUES", payload: result.issues })
+        if (result.truncated) {
+          setSearchWarning(
+            `Only ${result.issues.length} of ${result.total ?? "more"} issues could be loaded from Jira. Metrics for this release are incomplete.`
+          )
+        }
+      }
+    } catch (error) {
+      console.error("Failed to load release issues:", error)
+      // Don't show error to user, just log it
+    } finally {
+      dispatch({ type: "SET_LOADING", payload: { key: "issues", value: false } })
+    }
+  }
+
+  const getReleaseStatusBadge = (released: boolean) =>
+    released ? (
+      <Badge className="bg-gray-100 text-gray-800">Released</Badge>
+    ) : (
+      <Badge className="bg-blue-100 text-blue-800">Unreleased</Badge>
+    )
+
+  const formatDate = (dateString?: string | null) => {
+    if (!dateString) return "No date"
+    return new Date(dateString).toLocaleDateString()
+  }
+
+  if (!state.selectedProject) {
+    return (
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Release</label>
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Please select a project first to load releases.</AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Release</label>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+        <Button variant="outline" size="sm" onClick={loadReleases}>
+          Retry
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Release</label>
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              role="combobox"
+              aria-expanded={open}
+              className="w-full justify-between bg-transparent"
+              disabled={state.loading.releases}
+            >
+              {state.loading.releases ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Loading releases...
+                </>
+              ) : state.selectedRelease ? (
+                <div className="flex items-center gap-2">
+                  <span>{state.selectedRelease.name}</span>
+                  {getReleaseStatusBadge(state.selectedRelease.released)}
+                </div>
+              ) : (
+                "Select release..."
+              )}
+              <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-full p-0">
+            <Command>
+              <CommandInput placeholder="Search releases..." />
+              <CommandList>
+                <CommandEmpty>No releases found.</CommandEmpty>
+                <CommandGroup>
+                  {releases.map((release) => (
+                    <CommandItem key={release.id} value={release.name} onSelect={() => handleReleaseSelect(release)}>
+                      <Check
+                        className={cn(
+                          "mr-2 h-4 w-4",
+                          state.selectedRelease?.id === release.id ? "opacity-100" : "opacity-0",
+                        )}
+                      />
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-medium">{release.name}</span>
+                          {getReleaseStatusBadge(release.released)}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatDate(release.startDate)} - {formatDate(release.releaseDate)}
+                        </div>
+                        {release.description && (
+                          <div className="text-xs text-muted-foreground mt-1">{release.description}</div>
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+        {searchLoading && searchProgress && (
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Loaded {searchProgress.fetched}
+            {searchProgress.total !== undefined ? ` of ${searchProgress.total}` : ""} issues (page {searchProgress.page})
+            <Button variant="link" size="sm" className="h-auto p-0 ml-1 text-xs" onClick={cancelSearch}>
+              Cancel
+            </Button>
+          </p>
+        )}
+        {searchWarning && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{searchWarning}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+
+      {releases.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Found {releases.length} release{releases.length !== 1 ? "s" : ""} • Unreleased:{" "}
+          {releases.filter((r) => !r.released).length} • Released: {releases.filter((r) => r.released).length}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -15,7 +15,7 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog"
 import { Save, Download, Upload, Trash2, Clock, Database, CheckCircle } from "lucide-react"
-import { useSprintContext } from "@/components/sprint-context"
+import { useSprintContext, getReviewPeriod, getReviewPeriodLabel } from "@/components/sprint-context"
 import { useToast } from "@/hooks/use-toast"
 
 export function SessionManager() {
@@ -95,7 +95,7 @@ export function SessionManager() {
   const getSessionStats = () => {
     return {
       hasProject: !!state.selectedProject,
-      hasSprint: !!state.selectedSprint,
+      hasSprint: !!getReviewPeriod(state),
       issuesCount: state.issues.length,
       demoStoriesCount: state.demoStories.length,
       hasMetrics: !!state.metrics,
@@ -158,7 +158,7 @@ export function SessionManager() {
                 ) : (
                   <div className="h-3 w-3 rounded-full border border-gray-300" />
                 )}
-                Sprint: {stats.hasSprint ? state.selectedSprint?.name : "None"}
+                {getReviewPeriodLabel(getReviewPeriod(state)?.scope ?? state.reviewScope)}: {getReviewPeriod(state)?.name || "None"}
               </div>
               <div className="flex items-center gap-1">
                 {stats.issuesCount > 0 ? (
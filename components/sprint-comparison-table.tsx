@@ -54,7 +54,7 @@ export function SprintComparisonTable({ comparison, className = "" }: SprintComp
     if (!sprint) return "N/A"
     
     // Handle specific fields that might be objects
-    if (field === 'qualityChecklist') return "N/A"
+    if (field === 'qualityChecklist' || field === 'carryOver' || field === 'manualOverrides') return "N/A"
     
     const value = sprint[field]
     return value !== undefined ? value : "N/A"
@@ -2,6 +2,15 @@
 
 import type React from "react"
 import { createContext, useContext, useReducer, useEffect, type ReactNode } from "react"
+import type { SprintScopeChange } from "@/lib/sprint-scope"
+import type { SprintBurndown } from "@/lib/sprint-burndown"
+import type { SprintFlowMetrics } from "@/lib/flow-metrics"
+import type { KanbanMetrics } from "@/lib/kanban-metrics"
+import type { EpicForecastSet } from "@/lib/epic-forecast"
+import { DEFAULT_HYGIENE_RULES, type HygieneRuleConfig } from "@/lib/issue-hygiene"
+import type { CarryOverMetric, SprintCarryOver } from "@/lib/sprint-carry-over"
+import type { StatusCategoryKey } from "@/lib/issue-completion"
+import { JIRA_PROFILE_COOKIE, type SafeJiraIssueLink, type SafeJiraSprintRef } from "@/lib/jira-types"
 
 interface Project {
   id: string
@@ -24,23 +33,82 @@ interface Sprint {
   state: "active" | "closed" | "future"
   startDate?: string
   endDate?: string
+  startedAt?: string // Full start and end timestamps, for planned vs added work
+  endedAt?: string
   boardId: string
 }
 
+// Fix version reviewed in release scope; its dates stand in for sprint dates
+interface Release {
+  id: string
+  name: string
+  description?: string
+  released: boolean
+  startDate?: string
+  releaseDate?: string
+  projectKey: string
+}
+
+// One team's sprint in a program review; each team works on its own board
+export interface ProgramTeam {
+  boardId: string
+  boardName: string
+  teamName?: string // Board name, qualified when another team's board has the same name
+  projectKey?: string
+  sprint: Sprint
+}
+
+// Date range reviewed on a kanban board, which has no sprints; dates are YYYY-MM-DD
+interface KanbanPeriod {
+  boardId: string
+  name: string
+  startDate: string
+  endDate: string
+}
+
+export type ReviewScope = "sprint" | "release" | "program"
+
+// Kanban boards are reviewed in sprint scope, over a date range in place of a sprint
+export type ReviewPeriodScope = ReviewScope | "kanban"
+
+// The sprint, release, set of team sprints or kanban date range a review covers
+export interface ReviewPeriod {
+  scope: ReviewPeriodScope
+  id: string
+  name: string
+  startDate?: string
+  endDate?: string
+}
+
 interface Issue {
   id: string
   key: string
   summary: string
   description?: string
   status: string
+  statusCategory?: StatusCategoryKey
+  completed: boolean // Decided when loaded from Jira; see isIssueCompleted
   assignee?: string
   storyPoints?: number
   issueType: string
   isSubtask: boolean
+  parentKey?: string
   epicKey?: string
   epicName?: string
   epicColor?: string
   releaseNotes?: string
+  created?: string
+  originalEstimateSeconds?: number
+  timeSpentSeconds?: number
+  components?: string[]
+  labels?: string[]
+  priority?: string
+  resolution?: string
+  resolutionDate?: string
+  links?: SafeJiraIssueLink[]
+  sprints?: SafeJiraSprintRef[]
+  team?: string // Board name for display; only set in program reviews
+  teamId?: string // Board ID, which identifies the team when board names repeat
 }
 
 export interface SprintMetrics {
@@ -67,9 +135,13 @@ export interface SprintMetrics {
   defectCount?: number
   defectResolutionRate?: number
   averageCycleTime?: number
+  averageLeadTime?: number
+  cycleTimeP85?: number
   sprintGoal?: string
   retrospectiveNotes?: string
   boardId?: string
+  carryOver?: SprintCarryOver // Issues behind carryForwardPoints and the buffer points
+  manualOverrides?: CarryOverMetric[] // Derived fields the user entered by hand instead
   
   // Velocity and performance metrics
   velocity?: number
@@ -155,15 +227,26 @@ interface QuarterlyPlanSlide {
 }
 
 interface SprintState {
+  jiraProfileId: string | null // null uses the server's default connection profile
   selectedProject: Project | null
   selectedBoard: Board | null
   selectedSprint: Sprint | null
   upcomingSprint: Sprint | null
+  reviewScope: ReviewScope
+  selectedRelease: Release | null
+  programTeams: ProgramTeam[]
+  kanbanPeriod: KanbanPeriod | null
   issues: Issue[]
   upcomingIssues: Issue[]
   demoStories: string[]
   demoStoryScreenshots: Record<string, string> // Base64 encoded screenshots
   metrics: SprintMetrics | null
+  scopeChange: SprintScopeChange | null
+  burndown: SprintBurndown | null
+  flowMetrics: SprintFlowMetrics | null
+  epicForecast: EpicForecastSet | null
+  hygieneRules: HygieneRuleConfig
+  kanbanMetrics: KanbanMetrics | null
   // Historical data and comparison
   historicalSprints: HistoricalSprintData[]
   sprintComparison: SprintComparison | null
@@ -180,6 +263,7 @@ interface SprintState {
   loading: {
     projects: boolean
     sprints: boolean
+    releases: boolean
     issues: boolean
     summaries: boolean
     historicalData: boolean
@@ -201,6 +285,7 @@ interface GeneratedPresentation {
     hasMetrics: boolean
     demoStoriesCount: number
     customSlidesCount: number
+    hygieneWarnings?: number
   }
 }
 
@@ -209,23 +294,35 @@ interface PresentationSlide {
   id: string
   title: string
   content: string
-  type: "title" | "summary" | "metrics" | "demo-story" | "custom" | "corporate" | "qa" | "executive" | "quarterly-plan"
+  type: "title" | "summary" | "metrics" | "demo-story" | "custom" | "corporate" | "qa" | "executive" | "quarterly-plan" | "scope-change" | "burndown" | "dependencies"
   order: number
   corporateSlideUrl?: string
   storyId?: string
 }
 
 type SprintAction =
+  | { type: "SET_JIRA_PROFILE"; payload: string | null }
   | { type: "SET_PROJECT"; payload: Project }
   | { type: "SET_BOARD"; payload: Board }
   | { type: "SET_SPRINT"; payload: Sprint }
   | { type: "SET_UPCOMING_SPRINT"; payload: Sprint | null }
+  | { type: "SET_REVIEW_SCOPE"; payload: ReviewScope }
+  | { type: "SET_RELEASE"; payload: Release }
+  | { type: "ADD_PROGRAM_TEAM"; payload: { team: ProgramTeam; issues: Issue[] } }
+  | { type: "REMOVE_PROGRAM_TEAM"; payload: string }
+  | { type: "SET_KANBAN_PERIOD"; payload: KanbanPeriod }
   | { type: "SET_ISSUES"; payload: Issue[] }
   | { type: "SET_UPCOMING_ISSUES"; payload: Issue[] }
   | { type: "TOGGLE_DEMO_STORY"; payload: string }
   | { type: "ADD_DEMO_SCREENSHOT"; payload: { storyId: string; screenshot: string } }
   | { type: "REMOVE_DEMO_SCREENSHOT"; payload: string }
   | { type: "SET_METRICS"; payload: SprintMetrics }
+  | { type: "SET_SCOPE_CHANGE"; payload: SprintScopeChange | null }
+  | { type: "SET_BURNDOWN"; payload: SprintBurndown | null }
+  | { type: "SET_FLOW_METRICS"; payload: SprintFlowMetrics | null }
+  | { type: "SET_EPIC_FORECAST"; payload: EpicForecastSet | null }
+  | { type: "SET_HYGIENE_RULES"; payload: HygieneRuleConfig }
+  | { type: "SET_KANBAN_METRICS"; payload: KanbanMetrics | null }
   | { type: "SET_HISTORICAL_SPRINTS"; payload: HistoricalSprintData[] }
   | { type: "SET_SPRINT_COMPARISON"; payload: SprintComparison | null }
   | { type: "SET_SPRINT_TRENDS"; payload: SprintTrends | null }
@@ -281,15 +378,26 @@ const deduplicateCorporateSlides = (slides: CorporateSlide[]): CorporateSlide[]
 }
 
 const serializeStateForStorage = (state: SprintState) => ({
+  jiraProfileId: state.jiraProfileId,
   selectedProject: state.selectedProject,
   selectedBoard: state.selectedBoard,
   selectedSprint: state.selectedSprint,
   upcomingSprint: state.upcomingSprint,
+  reviewScope: state.reviewScope,
+  selectedRelease: state.selectedRelease,
+  programTeams: state.programTeams,
+  kanbanPeriod: state.kanbanPeriod,
   issues: state.issues,
   upcomingIssues: state.upcomingIssues,
   demoStories: state.demoStories,
   demoStoryScreenshots: state.demoStoryScreenshots,
   metrics: state.metrics,
+  scopeChange: state.scopeChange,
+  burndown: state.burndown,
+  flowMetrics: state.flowMetrics,
+  epicForecast: state.epicForecast,
+  hygieneRules: state.hygieneRules,
+  kanbanMetrics: state.kanbanMetrics,
   historicalSprints: state.historicalSprints,
   sprintComparison: state.sprintComparison,
   sprintTrends: state.sprintTrends,
@@ -327,16 +435,35 @@ const saveStateToStorage = (state: SprintState) => {
   } catch {}
 }
 
+// Server actions and API routes read the selected profile from this cookie
+const writeJiraProfileCookie = (profileId: string | null) => {
+  if (typeof document === "undefined") return
+  document.cookie = profileId
+    ? `${JIRA_PROFILE_COOKIE}=${encodeURIComponent(profileId)}; path=/; max-age=${SESSION_TIMEOUT / 1000}; SameSite=Lax`
+    : `${JIRA_PROFILE_COOKIE}=; path=/; max-age=0; SameSite=Lax`
+}
+
 const initialState: SprintState = {
+  jiraProfileId: null,
   selectedProject: null,
   selectedBoard: null,
   selectedSprint: null,
   upcomingSprint: null,
+  reviewScope: "sprint",
+  selectedRelease: null,
+  programTeams: [],
+  kanbanPeriod: null,
   issues: [],
   upcomingIssues: [],
   demoStories: [],
   demoStoryScreenshots: {},
   metrics: null,
+  scopeChange: null,
+  burndown: null,
+  flowMetrics: null,
+  epicForecast: null,
+  hygieneRules: DEFAULT_HYGIENE_RULES,
+  kanbanMetrics: null,
   historicalSprints: [],
   sprintComparison: null,
   sprintTrends: null,
@@ -393,6 +520,7 @@ const initialState: SprintState = {
   loading: {
     projects: false,
     sprints: false,
+    releases: false,
     issues: false,
     summaries: false,
     historicalData: false,
@@ -402,21 +530,71 @@ const initialState: SprintState = {
   lastSaved: null,
 }
 
+// Team names label the per-team sections, so a board named like another team's gets its project key
+function getProgramTeamName(team: ProgramTeam, others: ProgramTeam[]): string {
+  const taken = new Set(others.map((t) => t.teamName ?? t.boardName))
+  const candidates = [team.boardName, `${team.boardName} (${team.projectKey || team.boardId})`]
+  return candidates.find((name) => !taken.has(name)) ?? `${team.boardName} (board ${team.boardId})`
+}
+
+// Issues saved before teams carried a board ID are matched by name
+function isProgramTeamIssue(issue: Issue, team: ProgramTeam): boolean {
+  return issue.teamId ? issue.teamId === team.boardId : issue.team === team.boardName
+}
+
 function sprintReducer(state: SprintState, action: SprintAction): SprintState {
   let newState: SprintState
 
   switch (action.type) {
+    case "SET_JIRA_PROFILE":
+      // Projects, boards and sprints belong to one Jira site
+      newState = {
+        ...state,
+        jiraProfileId: action.payload,
+        selectedProject: null,
+        selectedBoard: null,
+        selectedSprint: null,
+        upcomingSprint: null,
+        selectedRelease: null,
+        programTeams: [],
+        kanbanPeriod: null,
+        issues: [],
+        upcomingIssues: [],
+        demoStories: [],
+        demoStoryScreenshots: {},
+        metrics: null,
+        scopeChange: null,
+        burndown: null,
+        flowMetrics: null,
+        epicForecast: null,
+        kanbanMetrics: null,
+        sprintComparison: null,
+        summaries: {},
+      }
+      break
     case "SET_PROJECT":
+      // Program reviews can combine teams from several projects, so keep what was added
+      if (state.reviewScope === "program") {
+        newState = { ...state, selectedProject: action.payload, selectedBoard: null }
+        break
+      }
       newState = {
         ...state,
         selectedProject: action.payload,
         selectedSprint: null,
         upcomingSprint: null,
+        selectedRelease: null,
+        kanbanPeriod: null,
         issues: [],
         upcomingIssues: [],
         demoStories: [],
         demoStoryScreenshots: {},
         metrics: null,
+        scopeChange: null,
+        burndown: null,
+        flowMetrics: null,
+        epicForecast: null,
+        kanbanMetrics: null,
         summaries: {},
       }
       break
@@ -426,11 +604,18 @@ function sprintReducer(state: SprintState, action: SprintAction): SprintState {
         selectedBoard: action.payload,
         selectedSprint: null,
         upcomingSprint: null,
+        selectedRelease: null,
+        kanbanPeriod: null,
         issues: [],
         upcomingIssues: [],
         demoStories: [],
         demoStoryScreenshots: {},
         metrics: null,
+        scopeChange: null,
+        burndown: null,
+        flowMetrics: null,
+        epicForecast: null,
+        kanbanMetrics: null,
         summaries: {},
       }
       break
@@ -439,6 +624,90 @@ function sprintReducer(state: SprintState, action: SprintAction): SprintState {
         ...state,
         selectedSprint: action.payload,
         issues: [],
+        scopeChange: null,
+        burndown: null,
+        flowMetrics: null,
+        epicForecast: null,
+        demoStories: [],
+        demoStoryScreenshots: {},
+        summaries: {},
+      }
+      break
+    case "SET_REVIEW_SCOPE":
+      // Sprint and release reviews cover different issues, so start the review over
+      newState = {
+        ...state,
+        reviewScope: action.payload,
+        selectedSprint: null,
+        upcomingSprint: null,
+        selectedRelease: null,
+        programTeams: [],
+        kanbanPeriod: null,
+        issues: [],
+        upcomingIssues: [],
+        demoStories: [],
+        demoStoryScreenshots: {},
+        metrics: null,
+        scopeChange: null,
+        burndown: null,
+        flowMetrics: null,
+        epicForecast: null,
+        kanbanMetrics: null,
+        sprintComparison: null,
+        summaries: {},
+      }
+      break
+    case "SET_RELEASE":
+      newState = {
+        ...state,
+        selectedRelease: action.payload,
+        issues: [],
+        scopeChange: null,
+        burndown: null,
+        flowMetrics: null,
+        epicForecast: null,
+        demoStories: [],
+        demoStoryScreenshots: {},
+        summaries: {},
+      }
+      break
+    case "ADD_PROGRAM_TEAM": {
+      // Re-adding a board replaces its sprint and issues
+      const { team, issues } = action.payload
+      const others = state.programTeams.filter((t) => t.boardId !== team.boardId)
+      const teamName = getProgramTeamName(team, others)
+      newState = {
+        ...state,
+        programTeams: [...others, { ...team, teamName }],
+        issues: [
+          ...state.issues.filter((issue) => !isProgramTeamIssue(issue, team)),
+          ...issues.map((issue) => ({ ...issue, team: teamName, teamId: team.boardId })),
+        ],
+        demoStories: [],
+        demoStoryScreenshots: {},
+        summaries: {},
+      }
+      break
+    }
+    case "REMOVE_PROGRAM_TEAM": {
+      const removed = state.programTeams.find((t) => t.boardId === action.payload)
+      newState = {
+        ...state,
+        programTeams: state.programTeams.filter((t) => t.boardId !== action.payload),
+        issues: removed ? state.issues.filter((issue) => !isProgramTeamIssue(issue, removed)) : state.issues,
+        demoStories: [],
+        demoStoryScreenshots: {},
+        summaries: {},
+      }
+      break
+    }
+    case "SET_KANBAN_PERIOD":
+      newState = {
+        ...state,
+        kanbanPeriod: action.payload,
+        issues: [],
+        upcomingIssues: [],
+        kanbanMetrics: null,
         demoStories: [],
         demoStoryScreenshots: {},
         summaries: {},
@@ -481,6 +750,24 @@ function sprintReducer(state: SprintState, action: SprintAction): SprintState {
     case "SET_METRICS":
       newState = { ...state, metrics: action.payload }
       break
+    case "SET_SCOPE_CHANGE":
+      newState = { ...state, scopeChange: action.payload }
+      break
+    case "SET_BURNDOWN":
+      newState = { ...state, burndown: action.payload }
+      break
+    case "SET_FLOW_METRICS":
+      newState = { ...state, flowMetrics: action.payload }
+      break
+    case "SET_EPIC_FORECAST":
+      newState = { ...state, epicForecast: action.payload }
+      break
+    case "SET_HYGIENE_RULES":
+      newState = { ...state, hygieneRules: action.payload }
+      break
+    case "SET_KANBAN_METRICS":
+      newState = { ...state, kanbanMetrics: action.payload }
+      break
     case "SET_HISTORICAL_SPRINTS":
       newState = { ...state, historicalSprints: action.payload }
       break
@@ -525,11 +812,19 @@ function sprintReducer(state: SprintState, action: SprintAction): SprintState {
         ...state,
         selectedSprint: null,
         upcomingSprint: null,
+        selectedRelease: null,
+        programTeams: [],
+        kanbanPeriod: null,
         issues: [],
         upcomingIssues: [],
         demoStories: [],
         demoStoryScreenshots: {},
         metrics: null,
+        scopeChange: null,
+        burndown: null,
+        flowMetrics: null,
+        epicForecast: null,
+        kanbanMetrics: null,
         sprintComparison: null,
         summaries: {},
         additionalSlides: [],
@@ -563,6 +858,11 @@ function sprintReducer(state: SprintState, action: SprintAction): SprintState {
       return state
   }
 
+  // Keep the profile cookie in step before any component refetches for the new profile
+  if ((newState!.jiraProfileId ?? null) !== state.jiraProfileId) {
+    writeJiraProfileCookie(newState!.jiraProfileId ?? null)
+  }
+
   // auto-save except during load
   if (typeof window !== "undefined" && action.type !== "LOAD_FROM_STORAGE" && action.type !== "SET_LOADING") {
     setTimeout(() => saveStateToStorage(newState!), 0)
@@ -571,6 +871,55 @@ function sprintReducer(state: SprintState, action: SprintAction): SprintState {
   return newState!
 }
 
+/**
+ * The sprint or release the review covers, depending on the review scope. Release reviews
+ * use the fix version's start and release dates in place of sprint dates; program reviews
+ * span from the earliest team sprint start to the latest end. Kanban boards in sprint scope
+ * cover the chosen date range.
+ */
+export function getReviewPeriod(
+  state: Pick<SprintState, "reviewScope" | "selectedSprint" | "selectedRelease" | "programTeams" | "kanbanPeriod">
+): ReviewPeriod | null {
+  if (state.reviewScope === "program") {
+    const sprints = (state.programTeams || []).map((team) => team.sprint)
+    if (sprints.length === 0) return null
+    const startDates = sprints.map((sprint) => sprint.startDate).filter((date): date is string => !!date).sort()
+    const endDates = sprints.map((sprint) => sprint.endDate).filter((date): date is string => !!date).sort()
+    return {
+      scope: "program",
+      id: sprints.map((sprint) => sprint.id).join("+"),
+      name: Array.from(new Set(sprints.map((sprint) => sprint.name))).join(" / "),
+      startDate: startDates[0],
+      endDate: endDates[endDates.length - 1],
+    }
+  }
+  if (state.reviewScope === "release") {
+    const release = state.selectedRelease
+    return release
+      ? { scope: "release", id: release.id, name: release.name, startDate: release.startDate, endDate: release.releaseDate }
+      : null
+  }
+  const kanban = state.kanbanPeriod
+  if (kanban) {
+    return {
+      scope: "kanban",
+      id: `${kanban.boardId}:${kanban.startDate}:${kanban.endDate}`,
+      name: kanban.name,
+      startDate: kanban.startDate,
+      endDate: kanban.endDate,
+    }
+  }
+  const sprint = state.selectedSprint
+  return sprint
+    ? { scope: "sprint", id: sprint.id, name: sprint.name, startDate: sprint.startDate, endDate: sprint.endDate }
+    : null
+}
+
+// "Sprint", "Release", "Program" or "Period", for headings like "Release Review"
+export function getReviewPeriodLabel(scope: ReviewPeriodScope): string {
+  return scope === "release" ? "Release" : scope === "program" ? "Program" : scope === "kanban" ? "Period" : "Sprint"
+}
+
 interface SprintContextValue {
   state: SprintState
   dispatch: React.Dispatch<SprintAction>
@@ -1,16 +1,22 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import { Check, ChevronsUpDown, Loader2, AlertCircle } from "lucide-react"
+import { useState, useEffect, useRef } from "react"
+import { Check, ChevronsUpDown, Loader2, AlertCircle, Radio } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { useSprintContext } from "@/components/sprint-context"
+import { KanbanPeriodSelector } from "@/components/kanban-period-selector"
 import { fetchJiraSprints, fetchJiraSprintIssues } from "@/lib/jira-api"
 import { createSprintComparisonFromJira, generateSprintTrendsFromJira } from "@/lib/sprint-comparison-utils"
 import { cn } from "@/lib/utils"
+import { useJiraIssueSearch, useJiraChangeNotifications } from "@/hooks/use-jira-api"
+import type { JiraChangeNotification } from "@/lib/jira-types"
+
+// Bulk edits in Jira arrive as a burst of webhooks; refresh once they settle
+const LIVE_REFRESH_DELAY = 1500
 
 export function SprintSelector() {
   const { state, dispatch } = useSprintContext()
@@ -18,10 +24,80 @@ export function SprintSelector() {
   const [upcomingOpen, setUpcomingOpen] = useState(false)
   const [sprints, setSprints] = useState<any[]>([])
   const [error, setError] = useState<string | null>(null)
+  const [searchWarning, setSearchWarning] = useState<string | null>(null)
+  const { search: searchIssues, cancel: cancelSearch, progress: searchProgress, loading: searchLoading } = useJiraIssueSearch()
+  const [liveUpdatedAt, setLiveUpdatedAt] = useState<Date | null>(null)
+  const pendingRefreshRef = useRef({ issues: false, upcomingIssues: false, sprints: false })
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // The timer calls the latest render's refresh so it sees the current selection
+  const liveRefreshRef = useRef<() => Promise<void>>(async () => {})
 
   useEffect(() => {
+    return () => {
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current)
+    }
+  }, [])
+
+  useJiraChangeNotifications((change: JiraChangeNotification) => {
+    // Changes from another Jira site do not concern this session
+    if (change.profileId && state.jiraProfileId && change.profileId !== state.jiraProfileId) return
+
+    const affects = (sprint: any, issues: { key: string }[]) =>
+      !!sprint &&
+      (change.sprintIds.includes(Number(sprint.id)) || (!!change.issueKey && issues.some((issue) => issue.key === change.issueKey)))
     const boardId = state.selectedBoard?.id ?? state.selectedProject?.boardId
-    if (state.selectedProject && boardId) {
+
+    const pending = pendingRefreshRef.current
+    pending.issues ||= affects(state.selectedSprint, state.issues)
+    pending.upcomingIssues ||= affects(state.upcomingSprint, state.upcomingIssues)
+    pending.sprints ||= !change.issueKey && (!change.boardId || String(change.boardId) === String(boardId))
+    if (!pending.issues && !pending.upcomingIssues && !pending.sprints) return
+
+    if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current)
+    refreshTimerRef.current = setTimeout(() => liveRefreshRef.current(), LIVE_REFRESH_DELAY)
+  }, !!state.selectedProject)
+
+  liveRefreshRef.current = async () => {
+    const pending = pendingRefreshRef.current
+    pendingRefreshRef.current = { issues: false, upcomingIssues: false, sprints: false }
+    console.log("🔔 Refreshing sprint data after Jira changes:", pending)
+
+    if (pending.sprints) {
+      loadSprints()
+    }
+
+    try {
+      if (pending.issues && state.selectedSprint) {
+        const result = await searchIssues({
+          sprintId: Number.parseInt(state.selectedSprint.id),
+          projectKey: state.selectedProject?.key,
+        })
+        if (result) {
+          dispatch({ type: "SET_ISSUES", payload: result.issues })
+          setSearchWarning(
+            result.truncated
+              ? `Only ${result.issues.length} of ${result.total ?? "more"} issues could be loaded from Jira. Metrics for this sprint are incomplete.`
+              : null
+          )
+        }
+      }
+      if (pending.upcomingIssues && state.upcomingSprint) {
+        const upcomingIssues = await fetchJiraSprintIssues(Number.parseInt(state.upcomingSprint.id), state.selectedProject?.key)
+        dispatch({ type: "SET_UPCOMING_ISSUES", payload: upcomingIssues })
+      }
+      setLiveUpdatedAt(new Date())
+    } catch (error) {
+      console.error("Failed to refresh sprint data after Jira changes:", error)
+    }
+  }
+
+  // Single-board projects only carry the board's ID, so look its type up among the project's boards
+  const boardId = state.selectedBoard?.id ?? state.selectedProject?.boardId
+  const board = state.selectedBoard ?? state.selectedProject?.boards?.find((b) => b.id === boardId)
+  const isKanban = board?.type === "kanban"
+
+  useEffect(() => {
+    if (state.selectedProject && boardId && !isKanban) {
       loadSprints()
     } else {
       setSprints([])
@@ -30,8 +106,7 @@ export function SprintSelector() {
   }, [state.selectedProject, state.selectedBoard])
 
   const loadSprints = async () => {
-    const boardId = state.selectedBoard?.id ?? state.selectedProject?.boardId
-    if (!boardId) return
+    if (!boardId || isKanban) return
 
     dispatch({ type: "SET_LOADING", payload: { key: "sprints", value: true } })
     setError(null)
@@ -54,9 +129,20 @@ export function SprintSelector() {
 
     // Load issues for selected sprint
     dispatch({ type: "SET_LOADING", payload: { key: "issues", value: true } })
+    setSearchWarning(null)
     try {
-      const issues = await fetchJiraSprintIssues(Number.parseInt(sprint.id))
-      dispatch({ type: "SET_ISSUES", payload: issues })
+      const result = await searchIssues({
+        sprintId: Number.parseInt(sprint.id),
+        projectKey: state.selectedProject?.key,
+      })
+      if (result) {
+        dispatch({ type: "SET_ISSUES", payload: result.issues })
+        if (result.truncated) {
+          setSearchWarning(
+            `Only ${result.issues.length} of ${result.total ?? "more"} issues could be loaded from Jira. Metrics for this sprint are incomplete.`
+          )
+        }
+      }
     } catch (error) {
       console.error("Failed to load sprint issues:", error)
       // Don't show error to user, just log it
@@ -76,14 +162,14 @@ export function SprintSelector() {
         const allSprintIssues: Record<string, any[]> = {}
         
         // Load issues for the current sprint
-        const currentIssues = await fetchJiraSprintIssues(Number.parseInt(sprint.id))
+        const currentIssues = await fetchJiraSprintIssues(Number.parseInt(sprint.id), state.selectedProject?.key)
         allSprintIssues[sprint.id] = currentIssues
         
         // Load issues for closed sprints (previous sprints)
         const closedSprints = allSprints.filter(s => s.state === "closed")
         for (const closedSprint of closedSprints.slice(0, 5)) { // Limit to 5 to avoid too many API calls
           try {
-            const issues = await fetchJiraSprintIssues(Number.parseInt(closedSprint.id))
+            const issues = await fetchJiraSprintIssues(Number.parseInt(closedSprint.id), state.selectedProject?.key)
             allSprintIssues[closedSprint.id] = issues
           } catch (error) {
             console.warn(`Failed to load issues for sprint ${closedSprint.id}:`, error)
@@ -98,6 +184,8 @@ export function SprintSelector() {
           state: sprint.state,
           startDate: sprint.startDate || null,
           endDate: sprint.endDate || null,
+          startedAt: sprint.startedAt || null,
+          endedAt: sprint.endedAt || null,
           boardId: sprint.boardId,
           goal: sprint.goal
         }
@@ -126,7 +214,7 @@ export function SprintSelector() {
 
     if (sprint) {
       try {
-        const upcomingIssues = await fetchJiraSprintIssues(Number.parseInt(sprint.id))
+        const upcomingIssues = await fetchJiraSprintIssues(Number.parseInt(sprint.id), state.selectedProject?.key)
         dispatch({ type: "SET_UPCOMING_ISSUES", payload: upcomingIssues })
       } catch (error) {
         console.error("Failed to load upcoming sprint issues:", error)
@@ -166,8 +254,6 @@ export function SprintSelector() {
     )
   }
 
-  const boardId = state.selectedBoard?.id ?? state.selectedProject?.boardId
-
   if (!boardId) {
     return (
       <div className="space-y-2">
@@ -182,6 +268,10 @@ export function SprintSelector() {
     )
   }
 
+  if (board && isKanban) {
+    return <KanbanPeriodSelector board={board} />
+  }
+
   if (error) {
     return (
       <div className="space-y-2">
@@ -260,6 +350,28 @@ export function SprintSelector() {
             </Command>
           </PopoverContent>
         </Popover>
+        {searchLoading && searchProgress && (
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Loaded {searchProgress.fetched}
+            {searchProgress.total !== undefined ? ` of ${searchProgress.total}` : ""} issues (page {searchProgress.page})
+            <Button variant="link" size="sm" className="h-auto p-0 ml-1 text-xs" onClick={cancelSearch}>
+              Cancel
+            </Button>
+          </p>
+        )}
+        {liveUpdatedAt && !searchLoading && (
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <Radio className="h-3 w-3" />
+            Updated from Jira at {liveUpdatedAt.toLocaleTimeString()}
+          </p>
+        )}
+        {searchWarning && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{searchWarning}</AlertDescription>
+          </Alert>
+        )}
       </div>
 
       <div className="space-y-2">
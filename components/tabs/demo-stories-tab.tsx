@@ -7,7 +7,8 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Search, CheckCircle2 } from "lucide-react"
-import { useSprintContext } from "@/components/sprint-context"
+import { useSprintContext, getReviewPeriod } from "@/components/sprint-context"
+import { isIssueCompleted } from "@/lib/utils"
 
 export function DemoStoriesTab() {
   const { state, dispatch } = useSprintContext()
@@ -64,7 +65,9 @@ export function DemoStoriesTab() {
     })
   }
 
-  if (!state.selectedSprint || state.issues.length === 0) {
+  const reviewPeriod = getReviewPeriod(state)
+
+  if (!reviewPeriod || state.issues.length === 0) {
     return (
       <div className="space-y-6">
         <div>
@@ -73,7 +76,7 @@ export function DemoStoriesTab() {
         </div>
         <Card>
           <CardContent className="pt-6">
-            <div className="text-center py-8 text-muted-foreground">Please select a sprint and load issues first</div>
+            <div className="text-center py-8 text-muted-foreground">Please select a sprint or release and load issues first</div>
           </CardContent>
         </Card>
       </div>
@@ -93,7 +96,7 @@ export function DemoStoriesTab() {
         <CardHeader>
           <CardTitle>Story Selection</CardTitle>
           <CardDescription>
-            Choose which stories from {state.selectedSprint.name} to showcase in your demo
+            Choose which stories from {reviewPeriod.name} to showcase in your demo
           </CardDescription>
         </CardHeader>
         <CardContent className="flex-1 flex flex-col space-y-4">
@@ -210,7 +213,7 @@ export function DemoStoriesTab() {
                           <Badge variant="outline">{issue.issueType}</Badge>
                           <Badge
                             className={
-                              issue.status === "Done" ? "bg-green-100 text-green-800" : "bg-blue-100 text-blue-800"
+                              isIssueCompleted(issue) ? "bg-green-100 text-green-800" : "bg-blue-100 text-blue-800"
                             }
                           >
                             {issue.status}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -8,12 +8,16 @@ import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
-import { Save, Calculator, CheckCircle, AlertCircle, Info } from "lucide-react"
+import { Save, Calculator, CheckCircle, AlertCircle, Info, GitCompare, Loader2 } from "lucide-react"
 import { SprintComparisonTable } from "@/components/sprint-comparison-table"
-import { enhanceSprintMetrics, createSprintComparisonFromJira } from "@/lib/sprint-comparison-utils"
-import { useSprintContext, SprintMetrics } from "@/components/sprint-context"
-import { fetchJiraSprints, fetchJiraSprintIssues } from "@/lib/jira-api"
+import { enhanceSprintMetrics, createSprintComparisonFromJira, calculateSprintMetricsFromIssues } from "@/lib/sprint-comparison-utils"
+import { useSprintContext, getReviewPeriod, SprintMetrics } from "@/components/sprint-context"
+import { fetchJiraSprints, fetchJiraSprintIssues, fetchJiraIssueChangelogs, fetchSprintScopeChange, fetchSprintBurndown, fetchSprintFlowMetrics, fetchEpicForecast } from "@/lib/jira-api"
+import type { SafeJiraChangelogEntry, SafeJiraSprint } from "@/lib/jira-types"
+import { CARRY_OVER_METRICS, type CarryOverIssue, type CarryOverMetric } from "@/lib/sprint-carry-over"
+import { useToast } from "@/hooks/use-toast"
 import { isIssueCompleted } from '@/lib/utils'
+import { getFacetBreakdown, getResolutionSummary, isBug, type IssueFacet } from "@/lib/issue-facets"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 
 type QualityScore = "yes" | "no" | "partial" | "na"
@@ -155,10 +159,84 @@ const qualityItems = [
   },
 ] as const
 
+const MAX_LISTED_ISSUES = 6
+
+// Context sprints keep optional dates; the Jira helpers expect nulls
+function toSafeSprint(sprint: {
+  id: string
+  name: string
+  state: SafeJiraSprint["state"]
+  startDate?: string
+  endDate?: string
+  startedAt?: string
+  endedAt?: string
+  boardId: string
+}): SafeJiraSprint {
+  return {
+    id: sprint.id,
+    name: sprint.name,
+    state: sprint.state,
+    startDate: sprint.startDate || null,
+    endDate: sprint.endDate || null,
+    startedAt: sprint.startedAt || null,
+    endedAt: sprint.endedAt || null,
+    boardId: sprint.boardId,
+    goal: undefined,
+  }
+}
+
+// Shows the issues behind a value derived from Jira, or that the user has entered it by hand
+function DerivedValueNote({
+  issues,
+  value,
+  manual,
+  hint,
+  onUseJiraValue,
+}: {
+  issues: CarryOverIssue[]
+  value: number
+  manual: boolean
+  hint?: string
+  onUseJiraValue: () => void
+}) {
+  if (manual) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Entered by hand; Jira says {value}.{" "}
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={onUseJiraValue}>
+          Use Jira value
+        </Button>
+      </p>
+    )
+  }
+
+  const source = hint ? `From Jira (${hint})` : "From Jira"
+  if (issues.length === 0) {
+    return <p className="text-xs text-muted-foreground">{source}: no issues</p>
+  }
+  const listed = issues.slice(0, MAX_LISTED_ISSUES)
+  return (
+    <p
+      className="text-xs text-muted-foreground"
+      title={issues.map((issue) => `${issue.key} ${issue.summary} (${issue.storyPoints} pts)`).join("\n")}
+    >
+      {source}: {listed.map((issue) => `${issue.key} (${issue.storyPoints})`).join(", ")}
+      {issues.length > listed.length && ` +${issues.length - listed.length} more`}
+    </p>
+  )
+}
+
 export function MetricsTab() {
   const { state, dispatch } = useSprintContext()
   const [formData, setFormData] = useState<MetricsFormData>(initialFormData)
   const [isSaved, setIsSaved] = useState(false)
+  const [loadingScope, setLoadingScope] = useState(false)
+  const [breakdownFacet, setBreakdownFacet] = useState<IssueFacet>("priority")
+  const [changelogs, setChangelogs] = useState<Record<string, SafeJiraChangelogEntry[]> | null>(null)
+  const [manualOverrides, setManualOverrides] = useState<CarryOverMetric[]>([])
+  const { toast } = useToast()
+
+  const selectedSprint = state.reviewScope === "sprint" ? state.selectedSprint : null
 
   // Load existing metrics data
   useEffect(() => {
@@ -199,26 +277,77 @@ export function MetricsTab() {
         releaseNotes: state.metrics.qualityChecklist?.releaseNotes || "na",
         howToVideos: state.metrics.qualityChecklist?.howToVideos || "na",
       })
+      // Metrics saved before carry-over was derived have no overrides list; their non-zero
+      // carry-over and buffer values were typed in, so keep them rather than replace them
+      const metrics = state.metrics
+      setManualOverrides(metrics.manualOverrides ?? CARRY_OVER_METRICS.filter((field) => (Number(metrics[field]) || 0) !== 0))
     }
   }, [state.metrics])
 
-  // Auto-populate sprint data from selected sprint
+  // The changelog shows which issues were moved into the sprint after it started, not just created then
+  useEffect(() => {
+    setChangelogs(null)
+    if (!selectedSprint?.startDate || state.issues.length === 0) return
+
+    let cancelled = false
+    const keys = state.issues.filter((issue) => !issue.isSubtask).map((issue) => issue.key)
+    fetchJiraIssueChangelogs(keys)
+      .then((result) => {
+        if (!cancelled) setChangelogs(result)
+      })
+      .catch((error) => console.warn("Failed to load changelogs for carry-over:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [selectedSprint?.id, selectedSprint?.startDate, state.issues])
+
+  const derivedMetrics = useMemo(
+    () =>
+      selectedSprint && state.issues.length > 0
+        ? calculateSprintMetricsFromIssues(toSafeSprint(selectedSprint), state.issues, changelogs || undefined)
+        : null,
+    [selectedSprint, state.issues, changelogs]
+  )
+  const carryOver = derivedMetrics?.carryOver
+
+  // Carry-over and buffer points follow Jira until entered by hand
+  useEffect(() => {
+    if (!derivedMetrics) return
+    setFormData((prev) => {
+      const next = { ...prev }
+      for (const field of CARRY_OVER_METRICS) {
+        if (!manualOverrides.includes(field)) next[field] = String(derivedMetrics[field])
+      }
+      return next
+    })
+  }, [derivedMetrics, manualOverrides])
+
+  // Auto-populate sprint data from the selected sprint, or the release's start and release dates
   useEffect(() => {
-    if (state.selectedSprint) {
+    const period = getReviewPeriod(state)
+    if (period) {
       setFormData((prev) => ({
         ...prev,
-        sprintStartDate: state.selectedSprint?.startDate || "",
-        sprintEndDate: state.selectedSprint?.endDate || "",
+        sprintStartDate: period.startDate || "",
+        sprintEndDate: period.endDate || "",
         sprintGoal: "", // Sprint interface doesn't have goal property
       }))
     }
-  }, [state.selectedSprint])
+  }, [state.selectedSprint, state.selectedRelease, state.kanbanPeriod])
 
   const handleInputChange = (field: keyof Omit<MetricsFormData, "qualityChecklist">, value: string | number) => {
     setFormData((prev) => ({
       ...prev,
       [field]: String(value),
     }))
+    if ((CARRY_OVER_METRICS as string[]).includes(field)) {
+      setManualOverrides((prev) => (prev.includes(field as CarryOverMetric) ? prev : [...prev, field as CarryOverMetric]))
+    }
+    setIsSaved(false)
+  }
+
+  const handleUseJiraValue = (field: CarryOverMetric) => {
+    setManualOverrides((prev) => prev.filter((override) => override !== field))
     setIsSaved(false)
   }
 
@@ -230,6 +359,81 @@ export function MetricsTab() {
     setIsSaved(false)
   }
 
+  // Pre-fill scope, burndown and flow metrics from the sprint's changelog
+  const handleLoadScopeChange = async () => {
+    if (!state.selectedSprint) return
+
+    setLoadingScope(true)
+    try {
+      const scopeChange = await fetchSprintScopeChange(
+        Number.parseInt(state.selectedSprint.id),
+        state.selectedProject?.key
+      )
+      dispatch({ type: "SET_SCOPE_CHANGE", payload: scopeChange })
+
+      // Burndown replays the same changelogs, which are cached by now
+      try {
+        const burndown = await fetchSprintBurndown(
+          Number.parseInt(state.selectedSprint.id),
+          state.selectedProject?.key
+        )
+        dispatch({ type: "SET_BURNDOWN", payload: burndown })
+      } catch (error) {
+        console.warn("Failed to build burndown:", error)
+      }
+
+      try {
+        const flowMetrics = await fetchSprintFlowMetrics(
+          Number.parseInt(state.selectedSprint.id),
+          state.selectedProject?.key
+        )
+        dispatch({ type: "SET_FLOW_METRICS", payload: flowMetrics })
+        if (flowMetrics.overall.cycleTime) {
+          setFormData((prev) => ({ ...prev, averageCycleTime: flowMetrics.overall.cycleTime!.average.toFixed(1) }))
+        }
+      } catch (error) {
+        console.warn("Failed to compute flow metrics:", error)
+      }
+
+      // Epic progress beyond this sprint's slice, for the epic breakdown slide and the digest
+      const epicKeys = state.issues.map((issue) => issue.epicKey).filter((key): key is string => !!key)
+      if (epicKeys.length > 0) {
+        try {
+          const epicForecast = await fetchEpicForecast(
+            Number.parseInt(state.selectedSprint.id),
+            epicKeys,
+            state.selectedProject?.key
+          )
+          dispatch({ type: "SET_EPIC_FORECAST", payload: epicForecast })
+        } catch (error) {
+          console.warn("Failed to forecast epics:", error)
+        }
+      }
+
+      const { totals } = scopeChange
+      setFormData((prev) => ({
+        ...prev,
+        sprintStoryPointCommitment: String(totals.plannedPoints),
+        plannedItems: String(scopeChange.planned.length),
+      }))
+      setIsSaved(false)
+
+      toast({
+        title: "Scope Changes Loaded",
+        description: `${scopeChange.planned.length} planned, ${scopeChange.added.length} added, ${scopeChange.removed.length} removed. Review and save the metrics.`,
+      })
+    } catch (error) {
+      console.error("Failed to load scope changes:", error)
+      toast({
+        title: "Scope Change Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setLoadingScope(false)
+    }
+  }
+
   const calculateOverallScore = (): number => {
     const qualityScores = [
       formData.sprintCommitment,
@@ -280,7 +484,7 @@ export function MetricsTab() {
       committedBufferPoints: Number(formData.committedBufferPoints),
       completedBufferPoints: Number(formData.completedBufferPoints),
       testCoverage: Number(formData.testCoveragePercent),
-      sprintNumber: state.selectedSprint?.name || "",
+      sprintNumber: getReviewPeriod(state)?.name || "",
       completedTotalPoints: Number(formData.completedTotalPoints),
       completedAdjustedPoints: Number(formData.completedAdjustedPoints),
       
@@ -292,6 +496,8 @@ export function MetricsTab() {
       sprintGoal: formData.sprintGoal,
       retrospectiveNotes: formData.retrospectiveNotes,
       boardId: state.selectedBoard?.id,
+      carryOver,
+      manualOverrides,
       
       // Quality checklist
       qualityChecklist: {
@@ -309,7 +515,8 @@ export function MetricsTab() {
     }
 
     // Enhance metrics with calculated values
-    const enhancedMetrics = enhanceSprintMetrics(metricsData)
+    const flowMetrics = state.flowMetrics?.sprintId === state.selectedSprint?.id ? state.flowMetrics : null
+    const enhancedMetrics = enhanceSprintMetrics(metricsData, flowMetrics)
     
     // Create sprint comparison using Jira API data if available
     let comparison = null
@@ -328,7 +535,7 @@ export function MetricsTab() {
           const closedSprints = allSprints.filter(s => s.state === "closed")
           for (const closedSprint of closedSprints.slice(0, 5)) { // Limit to 5 to avoid too many API calls
             try {
-              const issues = await fetchJiraSprintIssues(Number.parseInt(closedSprint.id))
+              const issues = await fetchJiraSprintIssues(Number.parseInt(closedSprint.id), state.selectedProject?.key)
               allSprintIssues[closedSprint.id] = issues
             } catch (error) {
               console.warn(`Failed to load issues for sprint ${closedSprint.id}:`, error)
@@ -336,19 +543,8 @@ export function MetricsTab() {
             }
           }
           
-          // Convert Sprint to SafeJiraSprint format
-          const safeSprint = {
-            id: state.selectedSprint.id,
-            name: state.selectedSprint.name,
-            state: state.selectedSprint.state,
-            startDate: state.selectedSprint.startDate || null,
-            endDate: state.selectedSprint.endDate || null,
-            boardId: state.selectedSprint.boardId,
-            goal: undefined
-          }
-          
           // Create sprint comparison using Jira data
-          comparison = createSprintComparisonFromJira(safeSprint, state.issues, allSprints, allSprintIssues)
+          comparison = createSprintComparisonFromJira(toSafeSprint(state.selectedSprint), state.issues, allSprints, allSprintIssues)
         }
       } catch (error) {
         console.error("Failed to create sprint comparison:", error)
@@ -365,9 +561,10 @@ export function MetricsTab() {
   }
 
   const overallScore = calculateOverallScore()
-  const isFormValid = state.selectedSprint?.name !== undefined
+  const reviewPeriod = getReviewPeriod(state)
+  const isFormValid = reviewPeriod !== null
 
-  if (!state.selectedSprint) {
+  if (!reviewPeriod) {
     return (
       <div className="space-y-6">
         <div>
@@ -377,7 +574,7 @@ export function MetricsTab() {
         <Card>
           <CardContent className="pt-6">
             <div className="text-center py-8 text-muted-foreground">
-              Please select a sprint first to configure metrics
+              Please select a sprint or release first to configure metrics
             </div>
           </CardContent>
         </Card>
@@ -390,7 +587,7 @@ export function MetricsTab() {
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold tracking-tight">Sprint Metrics</h2>
-          <p className="text-muted-foreground">Configure performance metrics for {state.selectedSprint.name}</p>
+          <p className="text-muted-foreground">Configure performance metrics for {reviewPeriod.name}</p>
         </div>
         <div className="flex items-center gap-4">
           <div className="flex items-center gap-2">
@@ -400,6 +597,15 @@ export function MetricsTab() {
               {overallScore}%
             </Badge>
           </div>
+          <Button
+            variant="outline"
+            onClick={handleLoadScopeChange}
+            disabled={loadingScope || !state.selectedSprint?.startDate}
+            className="gap-2"
+          >
+            {loadingScope ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitCompare className="h-4 w-4" />}
+            Load from Jira
+          </Button>
           <Button onClick={handleSave} disabled={!isFormValid} className="gap-2">
             {isSaved ? <CheckCircle className="h-4 w-4" /> : <Save className="h-4 w-4" />}
             {isSaved ? "Saved" : "Save Metrics"}
@@ -407,6 +613,151 @@ export function MetricsTab() {
         </div>
       </div>
 
+      {/* Scope Changes from the Jira changelog */}
+      {state.scopeChange && state.scopeChange.sprintId === state.selectedSprint?.id && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Scope Changes</CardTitle>
+            <CardDescription>
+              Rebuilt from the issue changelog on {new Date(state.scopeChange.generatedAt).toLocaleString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+              {[
+                { label: "Planned", count: state.scopeChange.planned.length, points: state.scopeChange.totals.plannedPoints },
+                { label: "Added", count: state.scopeChange.added.length, points: state.scopeChange.totals.addedPoints },
+                { label: "Removed", count: state.scopeChange.removed.length, points: state.scopeChange.totals.removedPoints },
+                { label: "Carried In", count: state.scopeChange.carriedIn.length, points: state.scopeChange.totals.carriedInPoints },
+                { label: "Carried Over", count: state.scopeChange.carriedOver.length, points: state.scopeChange.totals.carriedOverPoints },
+              ].map((item) => (
+                <div key={item.label} className="rounded-md border p-3">
+                  <div className="text-2xl font-bold">{item.points}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {item.label} · {item.count} issue{item.count !== 1 ? "s" : ""}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Flow Metrics from status transitions */}
+      {state.flowMetrics && state.flowMetrics.sprintId === state.selectedSprint?.id && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Flow Metrics</CardTitle>
+            <CardDescription>
+              Cycle time runs from the first in-progress status to done; lead time from creation to done (days)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Issue Type</th>
+                    <th className="py-2 pr-4 font-medium">Done</th>
+                    <th className="py-2 pr-4 font-medium">Cycle p50</th>
+                    <th className="py-2 pr-4 font-medium">Cycle p85</th>
+                    <th className="py-2 pr-4 font-medium">Cycle p95</th>
+                    <th className="py-2 pr-4 font-medium">Lead p50</th>
+                    <th className="py-2 pr-4 font-medium">Lead p85</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[["All", state.flowMetrics.overall] as const, ...Object.entries(state.flowMetrics.byType)].map(
+                    ([issueType, stats]) => (
+                      <tr key={issueType} className="border-b last:border-0">
+                        <td className="py-2 pr-4 font-medium">{issueType}</td>
+                        <td className="py-2 pr-4">{stats.cycleTime?.count ?? 0}</td>
+                        <td className="py-2 pr-4">{stats.cycleTime?.p50 ?? "–"}</td>
+                        <td className="py-2 pr-4">{stats.cycleTime?.p85 ?? "–"}</td>
+                        <td className="py-2 pr-4">{stats.cycleTime?.p95 ?? "–"}</td>
+                        <td className="py-2 pr-4">{stats.leadTime?.p50 ?? "–"}</td>
+                        <td className="py-2 pr-4">{stats.leadTime?.p85 ?? "–"}</td>
+                      </tr>
+                    )
+                  )}
+                </tbody>
+              </table>
+            </div>
+            {state.flowMetrics.outliers.length > 0 && (
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <AlertCircle className="h-4 w-4 text-orange-500" />
+                  Cycle time outliers
+                </div>
+                {state.flowMetrics.outliers.map((issue) => (
+                  <div key={issue.key} className="flex items-center justify-between text-sm">
+                    <span className="truncate">
+                      <span className="font-mono text-xs">{issue.key}</span> {issue.summary}
+                    </span>
+                    <Badge variant="outline">{issue.cycleTimeDays} days</Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Throughput and WIP for kanban boards, in place of sprint velocity */}
+      {state.kanbanPeriod && state.kanbanMetrics && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Throughput & WIP</CardTitle>
+            <CardDescription>
+              Issues resolved from {state.kanbanMetrics.from} to {state.kanbanMetrics.to}, and work in progress on the
+              board as of {new Date(state.kanbanMetrics.generatedAt).toLocaleString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+              {[
+                { label: "Resolved", value: state.kanbanMetrics.throughput.issues },
+                { label: "Per Week", value: state.kanbanMetrics.throughput.perWeek },
+                { label: "Points Resolved", value: state.kanbanMetrics.throughput.points },
+                { label: "In Progress", value: state.kanbanMetrics.wip.current },
+              ].map((item) => (
+                <div key={item.label} className="rounded-md border p-3">
+                  <div className="text-2xl font-bold">{item.value}</div>
+                  <div className="text-xs text-muted-foreground">{item.label}</div>
+                </div>
+              ))}
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <div className="text-sm font-medium">Weekly throughput</div>
+                {state.kanbanMetrics.throughput.weeks.map((week) => (
+                  <div key={week.weekStart} className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Week of {week.weekStart}</span>
+                    <span>
+                      {week.issues} issue{week.issues !== 1 ? "s" : ""} · {week.points} pts
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-1">
+                <div className="text-sm font-medium">WIP by column</div>
+                {state.kanbanMetrics.wip.columns.map((column) => (
+                  <div key={column.name} className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">{column.name}</span>
+                    <span className="flex items-center gap-2">
+                      {column.count}
+                      {column.max !== undefined && ` / ${column.max}`}
+                      {column.overLimit && <Badge className="bg-red-100 text-red-800">Over limit</Badge>}
+                      {column.underLimit && <Badge className="bg-yellow-100 text-yellow-800">Under minimum</Badge>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Sprint Planning Metrics */}
       <Card>
         <CardHeader>
@@ -431,7 +782,7 @@ export function MetricsTab() {
               </div>
               <Input
                 id="sprintNumber"
-                value={state.selectedSprint?.name || ""}
+                value={reviewPeriod.name}
                 disabled
                 placeholder="Auto-populated from selected sprint"
               />
@@ -511,7 +862,7 @@ export function MetricsTab() {
                       <Info className="h-4 w-4 text-muted-foreground" />
                     </TooltipTrigger>
                     <TooltipContent>
-                      <p>The story points your team carried over into the next sprint</p>
+                      <p>The story points your team carried over into the next sprint. Read from each issue's Sprint field unless entered by hand</p>
                     </TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
@@ -523,6 +874,14 @@ export function MetricsTab() {
                 onChange={(e) => handleInputChange("carryForwardPoints", Number.parseInt(e.target.value) || 0)}
                 placeholder="Points from previous sprint"
               />
+              {carryOver && (
+                <DerivedValueNote
+                  issues={carryOver.carriedForward}
+                  value={carryOver.totals.carryForwardPoints}
+                  manual={manualOverrides.includes("carryForwardPoints")}
+                  onUseJiraValue={() => handleUseJiraValue("carryForwardPoints")}
+                />
+              )}
             </div>
             <div className="space-y-2">
               <div className="flex items-center gap-2">
@@ -533,7 +892,7 @@ export function MetricsTab() {
                       <Info className="h-4 w-4 text-muted-foreground" />
                     </TooltipTrigger>
                     <TooltipContent>
-                      <p>The amount of story points your team commits to as buffer for production related issues</p>
+                      <p>The amount of story points your team commits to as buffer for production related issues. Read from Jira as the work added after the sprint started unless entered by hand</p>
                     </TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
@@ -545,6 +904,15 @@ export function MetricsTab() {
                 onChange={(e) => handleInputChange("committedBufferPoints", Number.parseInt(e.target.value) || 0)}
                 placeholder="Buffer at sprint start"
               />
+              {carryOver && (
+                <DerivedValueNote
+                  issues={carryOver.unplanned}
+                  value={carryOver.totals.unplannedPoints}
+                  manual={manualOverrides.includes("committedBufferPoints")}
+                  hint={carryOver.unplannedSource === "created-date" ? "by created date" : undefined}
+                  onUseJiraValue={() => handleUseJiraValue("committedBufferPoints")}
+                />
+              )}
             </div>
             <div className="space-y-2">
               <div className="flex items-center gap-2">
@@ -567,6 +935,15 @@ export function MetricsTab() {
                 onChange={(e) => handleInputChange("completedBufferPoints", Number.parseInt(e.target.value) || 0)}
                 placeholder="Buffer actually completed"
               />
+              {carryOver && (
+                <DerivedValueNote
+                  issues={carryOver.unplanned.filter((issue) => issue.completed)}
+                  value={carryOver.totals.completedUnplannedPoints}
+                  manual={manualOverrides.includes("completedBufferPoints")}
+                  hint={carryOver.unplannedSource === "created-date" ? "by created date" : undefined}
+                  onUseJiraValue={() => handleUseJiraValue("completedBufferPoints")}
+                />
+              )}
             </div>
             <div className="space-y-2">
               <div className="flex items-center gap-2">
@@ -835,7 +1212,7 @@ export function MetricsTab() {
                 <div className="text-2xl font-bold">
                   {(() => {
                     const bugIssues = state.issues.filter(issue => issue.issueType.toLowerCase() === 'bug')
-                    const resolvedBugs = bugIssues.filter(issue => isIssueCompleted(issue.status))
+                    const resolvedBugs = bugIssues.filter(issue => isIssueCompleted(issue))
                     return bugIssues.length > 0 ? Math.round((resolvedBugs.length / bugIssues.length) * 100) : 0
                   })()}%
                 </div>
@@ -851,6 +1228,83 @@ export function MetricsTab() {
         </Card>
       )}
 
+      {/* Issue Breakdown by priority, component, label and resolution */}
+      {state.issues.length > 0 && (() => {
+        // Priority is only broken down for bugs; the other facets cover all work
+        const buckets = getFacetBreakdown(
+          breakdownFacet === "priority" ? state.issues.filter(isBug) : state.issues,
+          breakdownFacet
+        )
+        const resolutionSummary = getResolutionSummary(state.issues)
+        const maxTotal = Math.max(...buckets.map((bucket) => bucket.total), 1)
+
+        return (
+          <Card>
+            <CardHeader>
+              <CardTitle>Issue Breakdown</CardTitle>
+              <CardDescription>Sprint issues grouped by Jira priority, component, label and resolution</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ToggleGroup
+                variant="outline"
+                type="single"
+                value={breakdownFacet}
+                onValueChange={(value: IssueFacet) => value && setBreakdownFacet(value)}
+                className="justify-start"
+              >
+                <ToggleGroupItem value="priority" size="sm" className="text-xs">Bugs by Priority</ToggleGroupItem>
+                <ToggleGroupItem value="component" size="sm" className="text-xs">Component</ToggleGroupItem>
+                <ToggleGroupItem value="label" size="sm" className="text-xs">Label</ToggleGroupItem>
+                <ToggleGroupItem value="resolution" size="sm" className="text-xs">Resolution</ToggleGroupItem>
+              </ToggleGroup>
+
+              {breakdownFacet === "resolution" && (
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-1">
+                    <Label className="text-sm font-medium text-muted-foreground">Delivered</Label>
+                    <div className="text-2xl font-bold text-green-600">{resolutionSummary.delivered}</div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-sm font-medium text-muted-foreground">Closed Without Delivery</Label>
+                    <div className="text-2xl font-bold text-orange-600">{resolutionSummary.notDelivered}</div>
+                    <p className="text-xs text-muted-foreground">Won't do, duplicate, cannot reproduce...</p>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-sm font-medium text-muted-foreground">Unresolved</Label>
+                    <div className="text-2xl font-bold">{resolutionSummary.unresolved}</div>
+                  </div>
+                </div>
+              )}
+
+              {buckets.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No bugs in this sprint.</p>
+              ) : (
+                <div className="space-y-2">
+                  {buckets.map((bucket) => (
+                    <div key={bucket.value} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="font-medium">{bucket.value}</span>
+                        <span className="text-muted-foreground">
+                          {bucket.completed}/{bucket.total} done · {bucket.completedPoints}/{bucket.points} pts
+                        </span>
+                      </div>
+                      <div className="h-2 rounded bg-muted overflow-hidden">
+                        <div className="h-full bg-primary" style={{ width: `${(bucket.total / maxTotal) * 100}%` }} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {(breakdownFacet === "component" || breakdownFacet === "label") && (
+                <p className="text-xs text-muted-foreground">
+                  Issues with several {breakdownFacet}s are counted under each of them. Sub-tasks count through their parent.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )
+      })()}
+
       {/* Quality & Standards Checklist */}
       <Card>
         <CardHeader>
@@ -32,12 +32,20 @@ import {
   MessageSquare,
   ChevronDown,
   Crown,
+  GitCompare,
+  TrendingDown,
+  Network,
+  ShieldCheck,
 } from "lucide-react"
-import { useSprintContext } from "@/components/sprint-context"
+import { useSprintContext, getReviewPeriod, getReviewPeriodLabel } from "@/components/sprint-context"
 import { useToast } from "@/hooks/use-toast"
 import { PresentationMode } from "@/components/presentation/presentation-mode"
 import { getEpicBreakdown, type EpicBreakdown, isIssueCompleted } from "@/lib/utils"
 import { calculateQualityScore } from "@/lib/utils"
+import { buildDependencyGraph } from "@/lib/dependency-graph"
+import { getProgramTotals, getTeamBreakdown, groupIssuesByTeam, isProgramReview } from "@/lib/program-review"
+import { adfToMarkdown, isADFDocument } from "@/lib/adf"
+import { checkIssueHygiene } from "@/lib/issue-hygiene"
 import { ExportProgressModal } from '../export/export-progress-modal'
 import { ExportOptionsPanel } from '../export/export-options-panel'
 import { CacheManagementDashboard } from '../export/cache-management-dashboard'
@@ -52,7 +60,7 @@ interface PresentationSlide {
   id: string
   title: string
   content: string
-  type: "title" | "summary" | "demo-story" | "custom" | "corporate" | "qa" | "executive" | "quarterly-plan" | "metrics"
+  type: "title" | "summary" | "demo-story" | "custom" | "corporate" | "qa" | "executive" | "quarterly-plan" | "metrics" | "scope-change" | "burndown" | "dependencies"
   order: number
   corporateSlideUrl?: string
   storyId?: string // Add the specific story ID for demo story slides
@@ -69,6 +77,7 @@ interface GeneratedPresentation {
     hasMetrics: boolean
     demoStoriesCount: number
     customSlidesCount: number
+    hygieneWarnings?: number // Data hygiene warnings open when it was generated
   }
 }
 
@@ -84,13 +93,8 @@ function safeContentToString(content: any): string {
   
   if (typeof content === 'object') {
     // Handle ADF objects
-    if (content.type === 'doc' && Array.isArray(content.content)) {
-      return content.content.map((node: any) => {
-        if (node.type === 'paragraph' && node.content) {
-          return node.content.map((child: any) => child.text || '').join('');
-        }
-        return '';
-      }).join('\n\n');
+    if (isADFDocument(content)) {
+      return adfToMarkdown(content);
     }
     
     // Handle other objects by converting to JSON string
@@ -120,7 +124,8 @@ export function PresentationTab() {
     quality: 'medium',
     includeImages: true,
     compression: true,
-    interactive: true
+    interactive: true,
+    includeEstimationAccuracy: true
   })
   const [exportProgress, setExportProgress] = useState<ExportProgress>({
     current: 0,
@@ -142,17 +147,29 @@ export function PresentationTab() {
   const presentation = state.generatedPresentation
 
   // Check if we have enough data to generate presentation
-  const canGenerate = state.selectedSprint && state.issues.length > 0
+  const reviewPeriod = getReviewPeriod(state)
+  const reviewLabel = getReviewPeriodLabel(reviewPeriod?.scope || "sprint")
+  const canGenerate = reviewPeriod && state.issues.length > 0
   const hasSummaries =
     state.summaries.currentSprint ||
     state.summaries.upcomingSprint ||
     (state.summaries.demoStories && Object.keys(state.summaries.demoStories).length > 0)
   const hasMetrics = state.metrics !== null
   const hasDemoStories = state.demoStories.length > 0
+  const hygiene = checkIssueHygiene(state.issues, state.demoStories, state.hygieneRules)
 
   const generatePresentation = async () => {
     if (!canGenerate) return
 
+    if (hygiene.blockers > 0) {
+      toast({
+        title: "Fix Jira Data First",
+        description: `${hygiene.blockers} blocking hygiene issue${hygiene.blockers !== 1 ? "s" : ""} found. See Data Hygiene on the Setup tab.`,
+        variant: "destructive",
+      })
+      return
+    }
+
     setIsGenerating(true)
 
     try {
@@ -183,14 +200,14 @@ export function PresentationTab() {
       // Title slide
       slides.push({
         id: `slide-${slideOrder}`,
-        title: `${state.selectedSprint!.name} Sprint Review`,
-        content: `# ${state.selectedProject?.name || 'Project'} Sprint Review
+        title: `${reviewPeriod!.name} ${reviewLabel} Review`,
+        content: `# ${state.selectedProject?.name || 'Project'} ${reviewLabel} Review
 
-**Sprint Period:** ${state.selectedSprint!.startDate || "N/A"} - ${state.selectedSprint!.endDate || "N/A"}
+**${reviewLabel} Period:** ${reviewPeriod!.startDate || "N/A"} - ${reviewPeriod!.endDate || "N/A"}
 
 **Team Performance Overview**
 - Total Issues: ${state.issues.length}
-- Completed Issues: ${state.issues.filter((i) => isIssueCompleted(i.status || "")).length}
+- Completed Issues: ${state.issues.filter((i) => isIssueCompleted(i)).length}
 - Demo Stories: ${state.demoStories.length}
 
 **Prepared by:** Sprint Review Generator
@@ -225,9 +242,113 @@ export function PresentationTab() {
         slideOrder++
       }
 
+      // Program review: a combined overview, then one slide per team
+      if (isProgramReview(state.issues)) {
+        const teams = getTeamBreakdown(state.issues)
+        const totals = getProgramTotals(state.issues)
+        slides.push({
+          id: `slide-${slideOrder}`,
+          title: "Program Overview",
+          content: `# Program Overview
+
+**Teams:** ${teams.length}  
+**Completed:** ${totals.completed}/${totals.issues} issues, ${totals.completedPoints}/${totals.points} points (${totals.completionRate}%)
+
+| Team | Sprint | Issues Done | Points Done | Completion | Bugs |
+|---|---|---|---|---|---|
+${teams
+  .map((team) => {
+    const sprint =
+      state.programTeams.find((t) => (team.teamId ? t.boardId === team.teamId : t.boardName === team.team))?.sprint.name || "N/A"
+    return `| ${team.team} | ${sprint} | ${team.completed}/${team.issues} | ${team.completedPoints}/${team.points} | ${team.completionRate}% | ${team.bugs} |`
+  })
+  .join("\n")}`,
+          type: "summary",
+          order: slideOrder,
+        })
+        slideOrder++
 
+        groupIssuesByTeam(state.issues).forEach((teamIssues, teamName) => {
+          const team = teams.find((t) => t.team === teamName)!
+          const topLevel = teamIssues.filter((issue) => !issue.isSubtask)
+          slides.push({
+            id: `slide-${slideOrder}`,
+            title: `Team: ${teamName}`,
+            content: `# ${teamName}
+
+**Completed:** ${team.completed}/${team.issues} issues, ${team.completedPoints}/${team.points} points (${team.completionRate}%)
 
+## Completed
+${topLevel.filter((issue) => isIssueCompleted(issue)).map((issue) => `- **${issue.key}:** ${issue.summary}`).join("\n") || "- None"}
 
+## In Progress / Not Done
+${topLevel.filter((issue) => !isIssueCompleted(issue)).map((issue) => `- **${issue.key}:** ${issue.summary} (${issue.status})`).join("\n") || "- None"}`,
+            type: "summary",
+            order: slideOrder,
+          })
+          slideOrder++
+        })
+      }
+
+      // Scope Change slide
+      const scopeChange = state.scopeChange
+      if (scopeChange && scopeChange.sprintId === state.selectedSprint?.id) {
+        slides.push({
+          id: `slide-${slideOrder}`,
+          title: "Scope Change",
+          content: `# Scope Change
+
+- **Planned:** ${scopeChange.totals.plannedPoints} points (${scopeChange.planned.length} issues)
+- **Added:** ${scopeChange.totals.addedPoints} points (${scopeChange.added.length} issues)
+- **Removed:** ${scopeChange.totals.removedPoints} points (${scopeChange.removed.length} issues)
+- **Carried Over:** ${scopeChange.totals.carriedOverPoints} points (${scopeChange.carriedOver.length} issues)
+- **Final Scope:** ${scopeChange.totals.finalScopePoints} points`,
+          type: "scope-change",
+          order: slideOrder,
+        })
+        slideOrder++
+      }
+
+      // Burndown / Burnup slide
+      const burndown = state.burndown
+      if (burndown && burndown.sprintId === state.selectedSprint?.id) {
+        slides.push({
+          id: `slide-${slideOrder}`,
+          title: "Sprint Burndown",
+          content: `# Sprint Burndown
+
+- **Scope:** ${burndown.totals.scopePoints} points
+- **Completed:** ${burndown.totals.completedPoints} points
+- **Remaining:** ${burndown.totals.remainingPoints} points
+
+${burndown.days
+  .filter((day) => day.remainingPoints !== null)
+  .map((day) => `- ${day.date}: ${day.remainingPoints} remaining (ideal ${day.idealRemaining})`)
+  .join("\n")}`,
+          type: "burndown",
+          order: slideOrder,
+        })
+        slideOrder++
+      }
+
+      // Dependencies slide, when the sprint's issues have blocking links
+      const dependencyGraph = buildDependencyGraph(state.issues, state.upcomingIssues)
+      if (dependencyGraph.edges.length > 0) {
+        slides.push({
+          id: `slide-${slideOrder}`,
+          title: "Dependencies & Blockers",
+          content: `# Dependencies & Blockers
+
+- **Blocking Links:** ${dependencyGraph.edges.length}
+- **Issues at Risk:** ${dependencyGraph.risks.length}
+- **Blockers Outside the Sprint:** ${dependencyGraph.externalBlockers}
+
+${dependencyGraph.risks.map((risk) => `- **${risk.issue.key}:** ${risk.issue.summary} (${risk.reason})`).join("\n")}`,
+          type: "dependencies",
+          order: slideOrder,
+        })
+        slideOrder++
+      }
 
       // Demo Stories slides
       if (hasDemoStories && state.summaries.demoStories) {
@@ -333,7 +454,7 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
 ## Thank you for your attention!
 
 **Sprint Summary:**
-- ✅ ${state.issues.filter((i) => i.status === "Done").length} items completed
+- ✅ ${state.issues.filter((i) => isIssueCompleted(i)).length} items completed
 - 🎯 ${state.demoStories.length} stories demonstrated
 - 📊 ${hasMetrics ? `${calculateQualityScore(state.metrics!.qualityChecklist)}% quality score` : "Metrics available"}
 
@@ -389,15 +510,15 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
           title: "Executive Performance Dashboard",
           content: `# Executive Performance Dashboard
 
-## Sprint Performance Overview
-- **Sprint:** ${state.selectedSprint!.name}
-- **Period:** ${state.selectedSprint!.startDate || "N/A"} - ${state.selectedSprint!.endDate || "N/A"}
+## ${reviewLabel} Performance Overview
+- **${reviewLabel}:** ${reviewPeriod!.name}
+- **Period:** ${reviewPeriod!.startDate || "N/A"} - ${reviewPeriod!.endDate || "N/A"}
 - **Team Performance:** Comprehensive metrics and business impact analysis
 
 ## Key Metrics
 - **Velocity Achievement:** ${Math.round((state.metrics.completedTotalPoints / state.metrics.estimatedPoints) * 100)}%
 - **Quality Score:** ${calculateQualityScore(state.metrics.qualityChecklist)}%
-- **Completion Rate:** ${Math.round((state.issues.filter((i) => isIssueCompleted(i.status || "")).length / state.issues.length) * 100)}%
+- **Completion Rate:** ${Math.round((state.issues.filter((i) => isIssueCompleted(i)).length / state.issues.length) * 100)}%
 
 ## Business Impact
 - High-value deliverables completed
@@ -417,15 +538,16 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
 
       const generatedPresentation: GeneratedPresentation = {
         id: `presentation-${Date.now()}`,
-        title: `${state.selectedSprint!.name} Sprint Review`,
+        title: `${reviewPeriod!.name} ${reviewLabel} Review`,
         slides,
         createdAt: new Date().toISOString(),
         metadata: {
-          sprintName: state.selectedSprint!.name,
+          sprintName: reviewPeriod!.name,
           totalSlides: slides.length,
           hasMetrics,
           demoStoriesCount: state.demoStories.length,
           customSlidesCount: state.additionalSlides.length,
+          hygieneWarnings: hygiene.warnings,
         },
       }
 
@@ -434,7 +556,9 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
 
       toast({
         title: "Presentation Generated",
-        description: `Created ${slides.length} slides for ${state.selectedSprint!.name}`,
+        description:
+          `Created ${slides.length} slides for ${reviewPeriod!.name}` +
+          (hygiene.warnings > 0 ? `, with ${hygiene.warnings} data hygiene warning${hygiene.warnings !== 1 ? "s" : ""} to review` : ""),
       })
     } catch (error) {
       console.error("Presentation generation error:", error)
@@ -467,7 +591,7 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
           allIssues: state.issues,
           upcomingIssues: state.upcomingIssues,
           sprintMetrics: state.metrics,
-          options: { format: 'markdown' }
+          options: { format: 'markdown', includeEstimationAccuracy: exportOptions.includeEstimationAccuracy }
         }),
       })
 
@@ -525,7 +649,8 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
           allIssues: state.issues,
           upcomingIssues: state.upcomingIssues || [],
           sprintMetrics: state.metrics,
-          options: { format: 'digest', quality: 'high' }
+          options: { format: 'digest', quality: 'high', includeEstimationAccuracy: exportOptions.includeEstimationAccuracy },
+          additionalData: { burndown: state.burndown, flowMetrics: state.flowMetrics }
         }),
       })
 
@@ -588,14 +713,16 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
           additionalData: {
             selectedProject: state.selectedProject,
             selectedBoard: state.selectedBoard,
-            selectedSprint: state.selectedSprint,
+            selectedSprint: reviewPeriod,
             upcomingSprint: state.upcomingSprint,
             sprintComparison: state.sprintComparison,
             sprintTrends: state.sprintTrends,
             summaries: state.summaries,
             corporateSlides: state.corporateSlides,
             additionalSlides: state.additionalSlides,
-            quarterlyPlanSlide: state.quarterlyPlanSlide
+            quarterlyPlanSlide: state.quarterlyPlanSlide,
+            burndown: state.burndown,
+            epicForecast: state.epicForecast
           }
         }),
       })
@@ -654,18 +781,20 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
           allIssues: state.issues,
           upcomingIssues: state.upcomingIssues || [],
           sprintMetrics: state.metrics,
-          options: { format: 'executive', quality: 'high' },
+          options: { format: 'executive', quality: 'high', includeEstimationAccuracy: exportOptions.includeEstimationAccuracy },
           additionalData: {
             selectedProject: state.selectedProject,
             selectedBoard: state.selectedBoard,
-            selectedSprint: state.selectedSprint,
+            selectedSprint: reviewPeriod,
             upcomingSprint: state.upcomingSprint,
             sprintComparison: state.sprintComparison,
             sprintTrends: state.sprintTrends,
             summaries: state.summaries,
             corporateSlides: state.corporateSlides,
             additionalSlides: state.additionalSlides,
-            quarterlyPlanSlide: state.quarterlyPlanSlide
+            quarterlyPlanSlide: state.quarterlyPlanSlide,
+            flowMetrics: state.flowMetrics,
+            kanbanMetrics: state.kanbanPeriod ? state.kanbanMetrics : null
           }
         }),
       })
@@ -881,7 +1010,7 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
                   Please complete the following steps before generating your presentation:
                 </p>
                 <ul className="text-sm text-muted-foreground mt-2 space-y-1">
-                  {!state.selectedSprint && <li>• Select a sprint</li>}
+                  {!reviewPeriod && <li>• Select a sprint or release</li>}
                   {state.issues.length === 0 && <li>• Load sprint issues</li>}
                   {!hasSummaries && <li>• Generate AI summaries</li>}
                 </ul>
@@ -914,13 +1043,13 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
           <h2 className="text-2xl font-bold tracking-tight">Presentation</h2>
           <p className="text-muted-foreground">
             {presentation 
-              ? `Generated presentation for ${state.selectedSprint?.name} (${presentation.metadata.totalSlides} slides)`
-              : `Generate and export your sprint review presentation for ${state.selectedSprint?.name}`
+              ? `Generated presentation for ${reviewPeriod?.name} (${presentation.metadata.totalSlides} slides)`
+              : `Generate and export your ${reviewLabel.toLowerCase()} review presentation for ${reviewPeriod?.name}`
             }
           </p>
         </div>
         {!presentation && (
-          <Button onClick={generatePresentation} disabled={isGenerating || !hasSummaries} className="gap-2">
+          <Button onClick={generatePresentation} disabled={isGenerating || !hasSummaries || hygiene.blockers > 0} className="gap-2">
             {isGenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Presentation className="h-4 w-4" />}
             Generate Presentation
           </Button>
@@ -934,7 +1063,7 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
               <Play className="h-4 w-4" />
               Go Live
             </Button>
-            <Button onClick={generatePresentation} disabled={isGenerating} className="gap-2">
+            <Button onClick={generatePresentation} disabled={isGenerating || hygiene.blockers > 0} className="gap-2">
               {isGenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
               Regenerate
             </Button>
@@ -949,7 +1078,7 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
           <CardDescription>Check your presentation components and data completeness</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
             <div className="flex items-center gap-3">
               <Calendar className="h-5 w-5 text-blue-500" />
               <div className="flex-1">
@@ -997,6 +1126,31 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
                 <div className="h-5 w-5 rounded-full border-2 border-gray-300" />
               )}
             </div>
+
+            <button
+              type="button"
+              className="flex items-center gap-3 text-left"
+              onClick={() => dispatch({ type: "SET_TAB", payload: "setup" })}
+            >
+              <ShieldCheck className="h-5 w-5 text-teal-500" />
+              <div className="flex-1">
+                <div className="font-medium">Data Hygiene</div>
+                <div className="text-sm text-muted-foreground">
+                  {hygiene.blockers > 0
+                    ? `${hygiene.blockers} blocking, ${hygiene.warnings} warnings`
+                    : hygiene.warnings > 0
+                      ? `${hygiene.warnings} warnings`
+                      : "No issues found"}
+                </div>
+              </div>
+              {hygiene.blockers > 0 ? (
+                <AlertCircle className="h-5 w-5 text-red-500" />
+              ) : hygiene.warnings > 0 ? (
+                <AlertCircle className="h-5 w-5 text-yellow-500" />
+              ) : (
+                <CheckCircle className="h-5 w-5 text-green-500" />
+              )}
+            </button>
           </div>
         </CardContent>
       </Card>
@@ -1172,6 +1326,9 @@ ${safeContentToString(story.releaseNotes)}` : ''}`
                             {slide.type === "qa" && <MessageSquare className="h-3 w-3" />}
                             {slide.type === "quarterly-plan" && <Calendar className="h-3 w-3" />}
                             {slide.type === "executive" && <Crown className="h-3 w-3" />}
+                            {slide.type === "scope-change" && <GitCompare className="h-3 w-3" />}
+                            {slide.type === "burndown" && <TrendingDown className="h-3 w-3" />}
+                            {slide.type === "dependencies" && <Network className="h-3 w-3" />}
                           </div>
                         </div>
                         <CardTitle className="text-sm truncate">{slide.title}</CardTitle>
@@ -4,11 +4,13 @@ import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { useSprintContext } from "@/components/sprint-context"
+import { useSprintContext, getReviewPeriod, getReviewPeriodLabel, type ReviewScope } from "@/components/sprint-context"
 import { useToast } from "@/hooks/use-toast"
 import { ProjectSelector } from "@/components/project-selector"
 import { BoardSelector } from "@/components/board-selector"
 import { SprintSelector } from "@/components/sprint-selector"
+import { ReleaseSelector } from "@/components/release-selector"
+import { ProgramSelector } from "@/components/program-selector"
 import { IssuesTable } from "@/components/issues-table"
 import { ReleaseNotesSection } from "@/components/release-notes/release-notes-section"
 import { AppOverviewModal } from "@/components/app-overview-modal"
@@ -23,10 +25,15 @@ import {
   Loader2,
   Bug,
   Lightbulb,
-  BookOpen
+  BookOpen,
+  Package,
+  Users
 } from "lucide-react"
 import { SessionManager } from "@/components/session-manager"
 import { PerformanceMonitor } from "@/components/performance-monitor"
+import { FieldMappingWizard } from "@/components/field-mapping-wizard"
+import { JiraProfileSelector } from "@/components/jira-profile-selector"
+import { HygieneReportPanel } from "@/components/hygiene-report"
 
 export function SetupTab() {
   const { state, dispatch } = useSprintContext()
@@ -44,6 +51,13 @@ export function SetupTab() {
     }
   }, [])
 
+  const reviewPeriod = getReviewPeriod(state)
+
+  const handleScopeChange = (scope: ReviewScope) => {
+    if (scope === state.reviewScope) return
+    dispatch({ type: "SET_REVIEW_SCOPE", payload: scope })
+  }
+
   const handleMarkAsRead = (version: string) => {
     setLastReadVersion(version)
     if (typeof window !== 'undefined') {
@@ -115,7 +129,8 @@ export function SetupTab() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
-          sprintId: parseInt(state.selectedSprint.id)
+          sprintId: parseInt(state.selectedSprint.id),
+          projectKey: state.selectedProject?.key,
         }),
       })
 
@@ -260,6 +275,7 @@ export function SetupTab() {
               How to Get Started
             </Button>
           </HowToGetStartedModal>
+          <FieldMappingWizard />
           <Button 
             onClick={testReleaseNotesField} 
             disabled={isAnalyzing || !state.selectedSprint}
@@ -303,6 +319,59 @@ export function SetupTab() {
         </div>
       </div>
 
+      <JiraProfileSelector />
+
+      {/* Review Scope */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Review Scope</CardTitle>
+          <CardDescription>
+            Review a single sprint, a release (fix version) that spans several sprints, or several teams' sprints
+            together as one program review
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Button
+              variant={state.reviewScope === "sprint" ? "default" : "outline"}
+              size="sm"
+              className="gap-2"
+              onClick={() => handleScopeChange("sprint")}
+            >
+              <Calendar className="h-4 w-4" />
+              Sprint
+            </Button>
+            <Button
+              variant={state.reviewScope === "release" ? "default" : "outline"}
+              size="sm"
+              className="gap-2"
+              onClick={() => handleScopeChange("release")}
+            >
+              <Package className="h-4 w-4" />
+              Release
+            </Button>
+            <Button
+              variant={state.reviewScope === "program" ? "default" : "outline"}
+              size="sm"
+              className="gap-2"
+              onClick={() => handleScopeChange("program")}
+            >
+              <Users className="h-4 w-4" />
+              Program
+            </Button>
+          </div>
+          {state.reviewScope === "release" ? (
+            <ReleaseSelector />
+          ) : state.reviewScope === "program" ? (
+            <ProgramSelector />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Choose the board and sprint in the sidebar. Kanban boards are reviewed over a date range instead.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       <SessionManager />
 
       {/* Release Notes */}
@@ -314,12 +383,12 @@ export function SetupTab() {
       )}
 
       {/* Sprint Issues */}
-      {state.selectedSprint && (
+      {reviewPeriod && (
         <Card>
           <CardHeader>
-            <CardTitle>Sprint Issues</CardTitle>
+            <CardTitle>{getReviewPeriodLabel(reviewPeriod.scope)} Issues</CardTitle>
             <CardDescription>
-              Issues from {state.selectedSprint.name}
+              Issues from {reviewPeriod.name}
               {state.issues.length > 0 && ` (${state.issues.length} items)`}
             </CardDescription>
           </CardHeader>
@@ -332,12 +401,15 @@ export function SetupTab() {
             ) : state.issues.length > 0 ? (
               <IssuesTable issues={state.issues} />
             ) : (
-              <div className="text-center py-8 text-muted-foreground">No issues found for this sprint</div>
+              <div className="text-center py-8 text-muted-foreground">No issues found for this {reviewPeriod.scope}</div>
             )}
           </CardContent>
         </Card>
       )}
 
+      {/* Data Hygiene */}
+      {reviewPeriod && state.issues.length > 0 && <HygieneReportPanel />}
+
       {/* Debug Information */}
       <Card>
         <CardHeader>
@@ -346,8 +418,13 @@ export function SetupTab() {
         </CardHeader>
         <CardContent>
           <div className="space-y-2 text-sm font-mono bg-gray-50 p-4 rounded">
+            <div>Jira Profile: {state.jiraProfileId || "default"}</div>
             <div>Selected Project: {state.selectedProject?.key || "None"}</div>
+            <div>Review Scope: {state.reviewScope}</div>
             <div>Selected Sprint: {state.selectedSprint?.name || "None"}</div>
+            <div>Selected Release: {state.selectedRelease?.name || "None"}</div>
+            <div>Kanban Period: {state.kanbanPeriod ? `${state.kanbanPeriod.startDate} to ${state.kanbanPeriod.endDate}` : "None"}</div>
+            <div>Program Teams: {state.programTeams.map((team) => team.boardName).join(", ") || "None"}</div>
             <div>Issues Loaded: {state.issues.length}</div>
             <div>Demo Stories: {state.demoStories.length}</div>
             <div>Session ID: {state.sessionId}</div>
@@ -7,9 +7,10 @@ import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Sparkles, Loader2, RefreshCw, Copy, AlertCircle, FileText, Target, Calendar, Zap, Presentation } from "lucide-react"
-import { useSprintContext } from "@/components/sprint-context"
+import { useSprintContext, getReviewPeriod } from "@/components/sprint-context"
 import { useToast } from "@/hooks/use-toast"
 import { ImageUpload } from "@/components/ui/image-upload"
+import { JiraWriteBack } from "@/components/jira-write-back"
 import ReactMarkdown from "react-markdown"
 
 interface GenerationStatus {
@@ -30,12 +31,13 @@ export function SummariesTab() {
   const [tempSummary, setTempSummary] = useState("")
 
   // Check if we have enough data to generate summaries
-  const canGenerate = state.selectedSprint && state.issues.length > 0
+  const reviewPeriod = getReviewPeriod(state)
+  const canGenerate = reviewPeriod && state.issues.length > 0
   const hasMetrics = state.metrics !== null
   const hasDemoStories = state.demoStories.length > 0
 
   const generateCurrentSprintSummary = async () => {
-    if (!state.selectedSprint || !state.issues.length) return
+    if (!reviewPeriod || !state.issues.length) return
 
     setGenerationStatus((prev) => ({ ...prev, currentSprint: "generating" }))
 
@@ -46,9 +48,10 @@ export function SummariesTab() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          sprintName: state.selectedSprint.name,
-          sprintStartDate: state.selectedSprint.startDate,
-          sprintEndDate: state.selectedSprint.endDate,
+          sprintName: reviewPeriod.name,
+          sprintStartDate: reviewPeriod.startDate,
+          sprintEndDate: reviewPeriod.endDate,
+          reviewScope: reviewPeriod.scope,
           issues: state.issues,
           metrics: state.metrics,
         }),
@@ -93,7 +96,7 @@ export function SummariesTab() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          sprintName: state.selectedSprint?.name,
+          sprintName: reviewPeriod?.name,
           upcomingSprintName: state.upcomingSprint.name,
           issues: state.issues,
           upcomingIssues: state.upcomingIssues,
@@ -139,7 +142,7 @@ export function SummariesTab() {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          sprintName: state.selectedSprint?.name,
+          sprintName: reviewPeriod?.name,
           issues: state.issues,
           demoStoryIds: state.demoStories,
         }),
@@ -187,15 +190,16 @@ export function SummariesTab() {
       const promises = []
 
       // Current sprint summary
-      if (state.selectedSprint && state.issues.length > 0) {
+      if (reviewPeriod && state.issues.length > 0) {
         promises.push(
           fetch("/api/generate-summaries/current-sprint", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
-              sprintName: state.selectedSprint.name,
-              sprintStartDate: state.selectedSprint.startDate,
-              sprintEndDate: state.selectedSprint.endDate,
+              sprintName: reviewPeriod.name,
+              sprintStartDate: reviewPeriod.startDate,
+              sprintEndDate: reviewPeriod.endDate,
+              reviewScope: reviewPeriod.scope,
               issues: state.issues,
               metrics: state.metrics,
             }),
@@ -214,7 +218,7 @@ export function SummariesTab() {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
-              sprintName: state.selectedSprint?.name,
+              sprintName: reviewPeriod?.name,
               upcomingSprintName: state.upcomingSprint.name,
               issues: state.issues,
               upcomingIssues: state.upcomingIssues,
@@ -234,7 +238,7 @@ export function SummariesTab() {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
-              sprintName: state.selectedSprint?.name,
+              sprintName: reviewPeriod?.name,
               issues: state.issues,
               demoStoryIds: state.demoStories,
             }),
@@ -417,7 +421,7 @@ export function SummariesTab() {
                   Please complete the following steps before generating summaries:
                 </p>
                 <ul className="text-sm text-muted-foreground mt-2 space-y-1">
-                  {!state.selectedSprint && <li>• Select a sprint</li>}
+                  {!reviewPeriod && <li>• Select a sprint or release</li>}
                   {state.issues.length === 0 && <li>• Load sprint issues</li>}
                 </ul>
               </div>
@@ -440,7 +444,7 @@ export function SummariesTab() {
             </Badge>
           </h2>
           <p className="text-muted-foreground">
-            Generate professional content summaries for {state.selectedSprint?.name}
+            Generate professional content summaries for {reviewPeriod?.name}
           </p>
         </div>
         <div className="flex items-center gap-3">
@@ -694,7 +698,7 @@ export function SummariesTab() {
             </div>
           </CardTitle>
           <CardDescription>
-            AI-generated summary of {state.selectedSprint?.name} performance and deliverables
+            AI-generated summary of {reviewPeriod?.name} performance and deliverables
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -988,6 +992,9 @@ export function SummariesTab() {
         </Card>
       )}
 
+      {/* Write-back to Jira (opt-in, JIRA_WRITE_BACK) */}
+      {(state.summaries.currentSprint || state.summaries.demoStories) && <JiraWriteBack />}
+
       {/* Generation Tips */}
       <Card>
         <CardHeader>
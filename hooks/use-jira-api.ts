@@ -1,6 +1,7 @@
 "use client"
 
-import { useState, useCallback, useRef, useMemo } from "react"
+import { useState, useCallback, useRef, useMemo, useEffect } from "react"
+import type { JiraChangeNotification } from "@/lib/jira-types"
 
 interface UseJiraApiState<T> {
   data: T | null
@@ -10,13 +11,15 @@ interface UseJiraApiState<T> {
 
 interface UseJiraApiReturn<T> extends UseJiraApiState<T> {
   execute: (...args: any[]) => Promise<T | null>
+  cancel: () => void
   clearError: () => void
   clearData: () => void
 }
 
-// 🚀 Optimized Jira API hook with caching and error handling
+// 🚀 Optimized Jira API hook with caching and error handling.
+// apiFunction receives an AbortSignal that fires when the call is superseded or cancelled.
 export function useJiraApi<T>(
-  apiFunction: (...args: any[]) => Promise<T>,
+  apiFunction: (signal: AbortSignal, ...args: any[]) => Promise<T>,
   cacheKey?: string
 ): UseJiraApiReturn<T> {
   const [state, setState] = useState<UseJiraApiState<T>>({
@@ -41,7 +44,8 @@ export function useJiraApi<T>(
       }
 
       // Create new abort controller
-      abortControllerRef.current = new AbortController()
+      const controller = new AbortController()
+      abortControllerRef.current = controller
 
       // Check cache if cacheKey is provided
       if (cacheKey) {
@@ -56,7 +60,7 @@ export function useJiraApi<T>(
       setState(prev => ({ ...prev, loading: true, error: null }))
 
       try {
-        const result = await apiFunctionRef.current(...args)
+        const result = await apiFunctionRef.current(controller.signal, ...args)
 
         // Cache the result if cacheKey is provided
         if (cacheKey) {
@@ -79,6 +83,12 @@ export function useJiraApi<T>(
     [cacheKey] // Only depend on cacheKey, not apiFunction
   )
 
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort()
+    abortControllerRef.current = null
+    setState(prev => ({ ...prev, loading: false }))
+  }, [])
+
   const clearError = useCallback(() => {
     setState(prev => ({ ...prev, error: null }))
   }, [])
@@ -90,6 +100,7 @@ export function useJiraApi<T>(
   return {
     ...state,
     execute,
+    cancel,
     clearError,
     clearData,
   }
@@ -141,30 +152,122 @@ export function useJiraBatchApi() {
   }
 }
 
-// 🚀 Optimized project loading hook
-export function useJiraProjects() {
-  const apiFunction = useMemo(() => async () => {
-    const response = await fetch('/api/jira-batch', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ operation: 'fetch-projects-with-boards' }),
-    })
+export interface JiraProjectDiscoveryProgress {
+  resolved: number // Projects whose boards have been fetched
+  total: number
+}
 
-    if (!response.ok) {
-      const errorData = await response.json()
-      throw new Error(errorData.error || `HTTP ${response.status}`)
+// 🚀 Streamed project loading: projects appear as their boards resolve (cached per connection profile).
+// A cancelled load keeps the projects found so far.
+export function useJiraProjects(profileId?: string | null) {
+  const [state, setState] = useState<UseJiraApiState<any[]>>({
+    data: null,
+    loading: false,
+    error: null,
+  })
+  const [progress, setProgress] = useState<JiraProjectDiscoveryProgress | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const cacheRef = useRef<Map<string, { data: any[]; timestamp: number }>>(new Map())
+  const cacheKey = `projects-with-boards:${profileId || 'default'}`
+  const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
+
+  const execute = useCallback(async (): Promise<any[] | null> => {
+    // Cancel previous load if still running
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort()
+    }
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    const cached = cacheRef.current.get(cacheKey)
+    if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+      console.log(`🚀 Cache hit for ${cacheKey}`)
+      setState({ data: cached.data, loading: false, error: null })
+      setProgress(null)
+      return cached.data
     }
 
-    const data = await response.json()
-    return data.projects
+    setState({ data: null, loading: true, error: null })
+    setProgress(null)
+
+    try {
+      const response = await fetch('/api/jira-batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ operation: 'fetch-projects-with-boards' }),
+        signal: controller.signal,
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || `HTTP ${response.status}`)
+      }
+
+      // Slots keep Jira's project order whatever order the boards resolve in
+      const slots: any[] = []
+      let complete = false
+      await readNdjsonStream(response, (message) => {
+        if (controller.signal.aborted) return
+        if (message.type === 'start') {
+          setProgress({ resolved: 0, total: message.total })
+        } else if (message.type === 'project') {
+          slots[message.index] = message.project
+          setProgress({ resolved: message.resolved, total: message.total })
+          setState(prev => ({ ...prev, data: slots.filter(Boolean) }))
+        } else if (message.type === 'complete') {
+          complete = true
+        } else if (message.type === 'error') {
+          throw new Error(message.error)
+        }
+      })
+
+      if (controller.signal.aborted) {
+        return null
+      }
+      if (!complete) {
+        throw new Error('Project loading ended before all boards were fetched')
+      }
+      const projects = slots.filter(Boolean)
+      cacheRef.current.set(cacheKey, { data: projects, timestamp: Date.now() })
+      setState({ data: projects, loading: false, error: null })
+      return projects
+    } catch (err) {
+      // Don't set error if request was aborted
+      if (err instanceof Error && err.name === 'AbortError') {
+        return null
+      }
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+      setState(prev => ({ ...prev, loading: false, error: errorMessage }))
+      return null
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+      }
+    }
+  }, [cacheKey])
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort()
+    abortControllerRef.current = null
+    setState(prev => ({ ...prev, loading: false }))
   }, [])
 
-  return useJiraApi(apiFunction, 'projects-with-boards')
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }))
+  }, [])
+
+  return {
+    ...state,
+    progress,
+    execute,
+    cancel,
+    clearError,
+  }
 }
 
 // 🚀 Optimized sprint loading hook
 export function useJiraSprintWithIssues() {
-  const apiFunction = useMemo(() => async (boardId: number, sprintId: number) => {
+  const apiFunction = useMemo(() => async (signal: AbortSignal, boardId: number, sprintId: number) => {
     const response = await fetch('/api/jira-batch', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -172,6 +275,7 @@ export function useJiraSprintWithIssues() {
         operation: 'fetch-sprint-with-issues',
         params: { boardId, sprintId }
       }),
+      signal,
     })
 
     if (!response.ok) {
@@ -184,4 +288,152 @@ export function useJiraSprintWithIssues() {
   }, [])
 
   return useJiraApi(apiFunction, 'sprint-with-issues')
-} 
\ No newline at end of file
+} 
+export interface JiraSearchProgressState {
+  fetched: number
+  total?: number
+  page: number
+}
+
+export interface JiraIssueSearchResult {
+  issues: any[]
+  total?: number
+  truncated: boolean
+  pages: number
+}
+
+// Reads a newline-delimited JSON response body, calling onMessage for each line
+async function readNdjsonStream(response: Response, onMessage: (message: any) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    for (const line of lines) {
+      if (line.trim()) onMessage(JSON.parse(line))
+    }
+  }
+
+  if (buffer.trim()) onMessage(JSON.parse(buffer))
+}
+
+// 🚀 Paginated issue search with per-page progress
+export function useJiraIssueSearch() {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<JiraSearchProgressState | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const search = useCallback(
+    async (params: {
+      jql?: string
+      sprintId?: number
+      fixVersionId?: number
+      projectKey?: string
+    }): Promise<JiraIssueSearchResult | null> => {
+      // Cancel previous search if still running
+      if (abortControllerRef.current) {
+        abortControllerRef.current.abort()
+      }
+      const controller = new AbortController()
+      abortControllerRef.current = controller
+
+      setLoading(true)
+      setError(null)
+      setProgress(null)
+
+      try {
+        const response = await fetch('/api/jira-batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ operation: 'search-issues', params }),
+          signal: controller.signal,
+        })
+
+        if (!response.ok) {
+          const errorData = await response.json()
+          throw new Error(errorData.error || `HTTP ${response.status}`)
+        }
+
+        let result: JiraIssueSearchResult | null = null
+        await readNdjsonStream(response, (message) => {
+          if (message.type === 'progress') {
+            setProgress({ fetched: message.fetched, total: message.total, page: message.page })
+          } else if (message.type === 'complete') {
+            result = { issues: message.issues, total: message.total, truncated: message.truncated, pages: message.pages }
+          } else if (message.type === 'error') {
+            throw new Error(message.error)
+          }
+        })
+
+        if (!result) {
+          throw new Error('Search ended without a result')
+        }
+        return result
+      } catch (err) {
+        // Don't set error if request was aborted
+        if (err instanceof Error && err.name === 'AbortError') {
+          return null
+        }
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+        setError(errorMessage)
+        throw err
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null
+          setLoading(false)
+        }
+      }
+    },
+    []
+  )
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort()
+    abortControllerRef.current = null
+    setLoading(false)
+  }, [])
+
+  return {
+    search,
+    cancel,
+    loading,
+    error,
+    progress,
+  }
+}
+
+// 🔔 Live Jira changes pushed by the webhook receiver over server-sent events.
+// EventSource reconnects on its own, so a dropped connection only delays updates.
+export function useJiraChangeNotifications(
+  onChange: (change: JiraChangeNotification) => void,
+  enabled: boolean = true
+) {
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return
+
+    const source = new EventSource('/api/jira-events')
+    source.addEventListener('jira-change', (event) => {
+      try {
+        onChangeRef.current(JSON.parse((event as MessageEvent).data))
+      } catch (err) {
+        console.warn('Failed to handle Jira change notification:', err)
+      }
+    })
+
+    return () => source.close()
+  }, [enabled])
+}
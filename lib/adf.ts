@@ -0,0 +1,426 @@
+// Atlassian Document Format (ADF) to Markdown conversion, and back for writes to Jira
+// https://developer.atlassian.com/cloud/jira/platform/apis/document/structure/
+
+export interface ADFMark {
+  type: string
+  attrs?: Record<string, any>
+}
+
+export interface ADFNode {
+  type: string
+  text?: string
+  attrs?: Record<string, any>
+  marks?: ADFMark[]
+  content?: ADFNode[]
+}
+
+const PANEL_LABELS: Record<string, string> = {
+  info: "ℹ️ Info",
+  note: "📝 Note",
+  warning: "⚠️ Warning",
+  error: "❌ Error",
+  success: "✅ Success",
+  tip: "💡 Tip",
+}
+
+export function isADFDocument(value: any): value is ADFNode {
+  return !!value && typeof value === "object" && value.type === "doc" && Array.isArray(value.content)
+}
+
+// Characters that would otherwise be read as Markdown syntax
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]#|<>])/g, "\\$1")
+}
+
+function applyMarks(text: string, marks: ADFMark[] = []): string {
+  if (!text) return text
+
+  // Code spans cannot contain other formatting
+  const code = marks.find((mark) => mark.type === "code")
+  if (code) {
+    const fence = text.includes("`") ? "``" : "`"
+    const span = `${fence}${text}${fence}`
+    const link = marks.find((mark) => mark.type === "link")
+    return link?.attrs?.href ? `[${span}](${link.attrs.href})` : span
+  }
+
+  // Keep surrounding whitespace outside the emphasis markers
+  const [, leading, core, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/) || ["", "", text, ""]
+  if (!core) return text
+
+  let result = escapeMarkdown(core)
+  for (const mark of marks) {
+    switch (mark.type) {
+      case "strong":
+        result = `**${result}**`
+        break
+      case "em":
+        result = `_${result}_`
+        break
+      case "strike":
+        result = `~~${result}~~`
+        break
+      case "subsup":
+        result = mark.attrs?.type === "sub" ? `~${result}~` : `^${result}^`
+        break
+      case "link":
+        if (mark.attrs?.href) result = `[${result}](${mark.attrs.href})`
+        break
+      // underline, textColor, backgroundColor and border have no Markdown equivalent
+    }
+  }
+  return `${leading}${result}${trailing}`
+}
+
+function renderInline(nodes: ADFNode[] = []): string {
+  return nodes.map(renderInlineNode).join("")
+}
+
+function renderInlineNode(node: ADFNode): string {
+  const attrs = node.attrs || {}
+  switch (node.type) {
+    case "text":
+      return applyMarks(node.text || "", node.marks)
+    case "hardBreak":
+      return "  \n"
+    case "mention":
+      return `@${(attrs.text || "unknown").replace(/^@/, "")}`
+    case "emoji":
+      return attrs.text || attrs.shortName || ""
+    case "inlineCard":
+      return attrs.url ? `<${attrs.url}>` : ""
+    case "date":
+      return attrs.timestamp ? new Date(Number(attrs.timestamp)).toISOString().split("T")[0] : ""
+    case "status":
+      return attrs.text ? `**[${attrs.text}]**` : ""
+    case "placeholder":
+      return attrs.text || ""
+    case "mediaInline":
+      return renderMedia(node)
+    default:
+      // Unknown inline node: keep whatever text it carries
+      return node.text ? escapeMarkdown(node.text) : renderInline(node.content)
+  }
+}
+
+function renderMedia(node: ADFNode): string {
+  const attrs = node.attrs || {}
+  const alt = attrs.alt || attrs.id || "attachment"
+  if (attrs.type === "external" && attrs.url) {
+    return `![${alt}](${attrs.url})`
+  }
+  // Jira-hosted media needs an authenticated download, so only name it
+  return `_[${attrs.type === "file" ? "Attachment" : "Media"}: ${alt}]_`
+}
+
+function prefixLines(text: string, prefix: string, firstPrefix: string = prefix): string {
+  return text
+    .split("\n")
+    .map((line, index) => (index === 0 ? firstPrefix : line ? prefix : prefix.trimEnd()) + line)
+    .join("\n")
+}
+
+function renderList(node: ADFNode, ordered: boolean): string {
+  let counter = Number(node.attrs?.order) || 1
+  return (node.content || [])
+    .map((item) => {
+      const marker = ordered ? `${counter++}. ` : "- "
+      const body = renderBlocks(item.content || [], "\n")
+      return prefixLines(body, " ".repeat(marker.length), marker)
+    })
+    .join("\n")
+}
+
+function renderTaskList(node: ADFNode): string {
+  return (node.content || [])
+    .map((item) => {
+      if (item.type === "taskList") return prefixLines(renderTaskList(item), "  ")
+      const checked = item.attrs?.state === "DONE" ? "x" : " "
+      return `- [${checked}] ${renderInline(item.content)}`
+    })
+    .join("\n")
+}
+
+function renderTable(node: ADFNode): string {
+  const rows = (node.content || []).filter((row) => row.type === "tableRow")
+  if (rows.length === 0) return ""
+
+  const cellText = (cell: ADFNode) =>
+    renderBlocks(cell.content || [], " ")
+      .replace(/\n+/g, " ")
+      .replace(/\|/g, "\\|")
+      .trim()
+
+  const matrix = rows.map((row) => (row.content || []).map(cellText))
+  const columns = Math.max(...matrix.map((cells) => cells.length))
+  const pad = (cells: string[]) => [...cells, ...Array(columns - cells.length).fill("")]
+
+  // Markdown tables need a header row; use the first row whether or not Jira marked it as one
+  const [header, ...body] = matrix
+  return [
+    `| ${pad(header).join(" | ")} |`,
+    `| ${Array(columns).fill("---").join(" | ")} |`,
+    ...body.map((cells) => `| ${pad(cells).join(" | ")} |`),
+  ].join("\n")
+}
+
+function renderBlock(node: ADFNode): string {
+  const attrs = node.attrs || {}
+  switch (node.type) {
+    case "paragraph":
+      return renderInline(node.content)
+    case "heading": {
+      const level = Math.min(Math.max(Number(attrs.level) || 1, 1), 6)
+      return `${"#".repeat(level)} ${renderInline(node.content)}`
+    }
+    case "bulletList":
+      return renderList(node, false)
+    case "orderedList":
+      return renderList(node, true)
+    case "listItem":
+      return renderBlocks(node.content || [], "\n")
+    case "taskList":
+      return renderTaskList(node)
+    case "decisionList":
+      return (node.content || []).map((item) => `- ✔️ ${renderInline(item.content)}`).join("\n")
+    case "codeBlock": {
+      const code = (node.content || []).map((child) => child.text || "").join("")
+      const fence = code.includes("```") ? "~~~" : "```"
+      return `${fence}${attrs.language || ""}\n${code}\n${fence}`
+    }
+    case "blockquote":
+      return prefixLines(renderBlocks(node.content || []), "> ")
+    case "panel": {
+      const label = PANEL_LABELS[attrs.panelType] || "Note"
+      return prefixLines(`**${label}:** ${renderBlocks(node.content || [])}`, "> ")
+    }
+    case "rule":
+      return "---"
+    case "table":
+      return renderTable(node)
+    case "mediaSingle":
+    case "mediaGroup":
+      return (node.content || []).map(renderMedia).join("\n")
+    case "media":
+      return renderMedia(node)
+    case "expand":
+    case "nestedExpand": {
+      const body = renderBlocks(node.content || [])
+      return attrs.title ? `**${escapeMarkdown(attrs.title)}**\n\n${body}` : body
+    }
+    case "blockCard":
+    case "embedCard":
+      return attrs.url ? `<${attrs.url}>` : ""
+    case "layoutSection":
+    case "layoutColumn":
+    case "doc":
+      return renderBlocks(node.content || [])
+    default:
+      // Inline node at block level, or a node type we do not know yet
+      return node.content ? renderBlocks(node.content) : renderInlineNode(node)
+  }
+}
+
+function renderBlocks(nodes: ADFNode[], separator: string = "\n\n"): string {
+  return nodes
+    .map(renderBlock)
+    .filter((block) => block.trim().length > 0)
+    .join(separator)
+}
+
+/**
+ * Converts an ADF document (or any ADF node) to Markdown, keeping headings, lists,
+ * code, tables, links, mentions and media references.
+ */
+export function adfToMarkdown(adf: any): string {
+  if (!adf || typeof adf !== "object") return ""
+  if (Array.isArray(adf)) return renderBlocks(adf).trim()
+  return renderBlock(adf).trim()
+}
+
+/**
+ * Returns rich text as Markdown whether Jira sent ADF (REST v3) or a plain string
+ */
+export function richTextToMarkdown(value: any): string | undefined {
+  if (value === null || value === undefined) return undefined
+  if (typeof value === "string") return value
+  if (typeof value === "object") return adfToMarkdown(value)
+  return String(value)
+}
+
+// Inline syntax adfToMarkdown writes, including escapes, for markdownToPlainText to unwrap
+const PLAIN_INLINE_PATTERN =
+  /!?\[((?:\\.|[^\]\\])*)\]\([^)\s]+\)|\*\*(.+?)\*\*|(?<![\w\\])_(.+?)_(?!\w)|~~(.+?)~~|(`+)(.+?)\5|<(https?:[^>\s]+)>|\\(.)/g
+
+function stripInline(text: string): string {
+  return text.replace(PLAIN_INLINE_PATTERN, (_match, label, strong, em, strike, _fence, code, url, escaped) => {
+    if (code !== undefined) return code
+    if (url !== undefined) return url
+    if (escaped !== undefined) return escaped
+    return stripInline(label ?? strong ?? em ?? strike ?? "")
+  })
+}
+
+/**
+ * Flattens Markdown from richTextToMarkdown to plain text for outputs that cannot render it,
+ * such as jsPDF. Line structure is kept; list items become bullets and table cells are spaced.
+ */
+export function markdownToPlainText(markdown: string): string {
+  let inCode = false
+  const lines: string[] = []
+  for (const rawLine of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      inCode = !inCode
+      continue
+    }
+    if (inCode) {
+      lines.push(rawLine)
+      continue
+    }
+
+    let line = rawLine.replace(/^(\s*>\s?)+/, "").replace(/\s+$/, "")
+    if (/^\s*(-{3,}|\|(\s*-{3,}\s*\|)+)$/.test(line)) continue // Rules and table separators
+
+    line = line
+      .replace(/^#{1,6}\s+/, "")
+      .replace(/^(\s*)- \[([ x])\] /, (_match, indent, checked) => `${indent}[${checked}] `)
+      .replace(/^(\s*)- /, "$1• ")
+    if (/^\|.*\|$/.test(line)) {
+      line = line
+        .slice(1, -1)
+        .split(/(?<!\\)\|/)
+        .map((cell) => cell.trim())
+        .join("   ")
+    }
+    lines.push(stripInline(line))
+  }
+  return lines.join("\n").trim()
+}
+
+// **bold**, _em_, `code`, [text](url) and backslash escapes, as adfToMarkdown writes them.
+// Underscores inside words (snake_case) are not emphasis.
+const INLINE_PATTERN = /\*\*(.+?)\*\*|(?<![\w\\])_(.+?)_(?!\w)|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\\(.)/g
+
+function parseInline(text: string): ADFNode[] {
+  const nodes: ADFNode[] = []
+  const pushText = (value: string, marks?: ADFMark[]) => {
+    if (!value) return
+    const previous = nodes[nodes.length - 1]
+    if (!marks && previous && previous.type === "text" && !previous.marks) {
+      previous.text += value
+    } else {
+      nodes.push(marks ? { type: "text", text: value, marks } : { type: "text", text: value })
+    }
+  }
+
+  let last = 0
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    pushText(text.slice(last, match.index))
+    const [, strong, em, code, linkText, href, escaped] = match
+    if (strong !== undefined) pushText(strong.replace(/\\(.)/g, "$1"), [{ type: "strong" }])
+    else if (em !== undefined) pushText(em.replace(/\\(.)/g, "$1"), [{ type: "em" }])
+    else if (code !== undefined) pushText(code, [{ type: "code" }])
+    else if (linkText !== undefined) pushText(linkText.replace(/\\(.)/g, "$1"), [{ type: "link", attrs: { href } }])
+    else pushText(escaped)
+    last = (match.index ?? 0) + match[0].length
+  }
+  pushText(text.slice(last))
+  return nodes
+}
+
+function parseParagraph(lines: string[]): ADFNode {
+  // adfToMarkdown ends hard-broken lines with two spaces
+  const content = lines.flatMap((line, index) => {
+    const text = index < lines.length - 1 ? line.replace(/ {2}$/, "") : line
+    return index === 0 ? parseInline(text) : [{ type: "hardBreak" }, ...parseInline(text)]
+  })
+  return { type: "paragraph", content }
+}
+
+/**
+ * Builds an ADF document from the Markdown the app edits: headings, bullet and numbered lists,
+ * and paragraphs with inline bold, emphasis, code and links. REST v3 needs ADF for rich text
+ * fields and comments. Other constructs come back as paragraph text; see canRebuildFromMarkdown.
+ */
+export function markdownToADF(markdown: string): ADFNode {
+  const content: ADFNode[] = []
+  let paragraph: string[] = []
+  let list: { type: "bulletList" | "orderedList"; order: number; items: string[] } | null = null
+
+  const flush = () => {
+    if (paragraph.length > 0) content.push(parseParagraph(paragraph))
+    if (list) {
+      content.push({
+        type: list.type,
+        ...(list.type === "orderedList" && list.order !== 1 ? { attrs: { order: list.order } } : {}),
+        content: list.items.map((item) => ({ type: "listItem", content: [parseParagraph(item.split("\n"))] })),
+      })
+    }
+    paragraph = []
+    list = null
+  }
+
+  for (const line of markdown.replace(/\r\n/g, "\n").split("\n")) {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/)
+    const item = line.match(/^\s*(?:([-*])|(\d+)[.)])\s+(.*)$/)
+
+    if (!line.trim()) {
+      flush()
+    } else if (heading) {
+      flush()
+      content.push({ type: "heading", attrs: { level: heading[1].length }, content: parseInline(heading[2]) })
+    } else if (item) {
+      const type = item[1] ? "bulletList" : "orderedList"
+      if (paragraph.length > 0 || (list && list.type !== type)) flush()
+      if (!list) list = { type, order: Number(item[2]) || 1, items: [] }
+      list.items.push(item[3])
+    } else if (list) {
+      // Lines after an item continue it
+      list.items[list.items.length - 1] += `\n${line.trim()}`
+    } else {
+      paragraph.push(line)
+    }
+  }
+  flush()
+
+  return { version: 1, type: "doc", content } as ADFNode
+}
+
+// The parts of a node the Markdown round trip must keep: IDs and other metadata Jira adds are ignored
+function normalizeForComparison(nodes: ADFNode[] = []): any[] {
+  const normalized: any[] = []
+  for (const node of nodes) {
+    if (node.type === "text") {
+      if (!node.text) continue
+      const marks = (node.marks || []).map((mark) => (mark.type === "link" ? `link:${mark.attrs?.href}` : mark.type)).sort()
+      const previous = normalized[normalized.length - 1]
+      if (previous?.type === "text" && previous.marks.join() === marks.join()) {
+        previous.text += node.text
+      } else {
+        normalized.push({ type: "text", text: node.text, marks })
+      }
+      continue
+    }
+
+    const attrs =
+      node.type === "heading" ? { level: Number(node.attrs?.level) || 1 }
+      : node.type === "orderedList" ? { order: Number(node.attrs?.order) || 1 }
+      : {}
+    const content = normalizeForComparison(node.content)
+    // Empty paragraphs are dropped from the Markdown
+    if (node.type === "paragraph" && content.length === 0) continue
+    normalized.push({ type: node.type, attrs, content })
+  }
+  return normalized
+}
+
+/**
+ * Whether an ADF document survives adfToMarkdown followed by markdownToADF unchanged. Code blocks,
+ * tables, panels, nested lists, mentions, media and the like are flattened by the Markdown editor,
+ * so writes must keep the original value when this is false.
+ */
+export function canRebuildFromMarkdown(adf: any): boolean {
+  if (!isADFDocument(adf)) return true
+  const rebuilt = markdownToADF(adfToMarkdown(adf))
+  return JSON.stringify(normalizeForComparison(rebuilt.content)) === JSON.stringify(normalizeForComparison(adf.content))
+}
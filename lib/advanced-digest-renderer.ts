@@ -11,8 +11,13 @@ import {
 } from './export-service';
 import * as fs from 'fs';
 import * as path from 'path';
-import { ChartGenerator, SprintChartData, VelocityChartData } from './chart-generator';
+import { ChartGenerator, SprintChartData, VelocityChartData, getBurndownChartData } from './chart-generator';
+import type { SprintBurndown } from './sprint-burndown';
 import { isIssueCompleted } from './utils'
+import { buildIssueHierarchy } from './issue-hierarchy';
+import { buildDependencyGraph, type DependencyGraph } from './dependency-graph';
+import type { EpicForecastSet } from './epic-forecast';
+import { getProgramTotals, getTeamBreakdown, groupIssuesByTeam, isProgramReview, type TeamSummary } from './program-review';
 
 const COLORS = {
   brandBlue: [21, 44, 83],
@@ -166,6 +171,8 @@ export class AdvancedDigestExportRenderer implements ExportRenderer {
       corporateSlides?: any[]
       additionalSlides?: any[]
       quarterlyPlanSlide?: any
+      burndown?: SprintBurndown | null
+      epicForecast?: EpicForecastSet | null
     }
   ): Promise<ExportResult> {
     const startTime = Date.now();
@@ -286,6 +293,8 @@ export class AdvancedDigestExportRenderer implements ExportRenderer {
       corporateSlides?: any[]
       additionalSlides?: any[]
       quarterlyPlanSlide?: any
+      burndown?: SprintBurndown | null
+      epicForecast?: EpicForecastSet | null
     }
   ): Promise<void> {
     let yPosition = 40;
@@ -322,6 +331,27 @@ export class AdvancedDigestExportRenderer implements ExportRenderer {
       yPosition = await this.addSprintSummary(doc, additionalData.summaries.currentSprint, yPosition, margin, contentWidth);
     }
     
+    // Add the program overview and per-team sections when several teams are reviewed together
+    if (isProgramReview(allIssues)) {
+      yPosition = this.addProgramOverview(doc, allIssues, yPosition, margin);
+    }
+    
+    // Add burndown and burnup charts when the sprint history was loaded
+    if (additionalData?.burndown) {
+      yPosition = await this.addBurndownCharts(doc, additionalData.burndown, yPosition, margin, contentWidth);
+    }
+
+    // Add the dependency risk table when issues are blocked by unfinished work
+    const dependencyGraph = buildDependencyGraph(allIssues, upcomingIssues);
+    if (dependencyGraph.risks.length > 0) {
+      yPosition = this.addDependencyRisks(doc, dependencyGraph, yPosition, margin);
+    }
+
+    // Add whole-epic progress and projected finish sprints when the epic forecast was loaded
+    if (additionalData?.epicForecast?.epics.length) {
+      yPosition = this.addEpicForecast(doc, additionalData.epicForecast, yPosition, margin);
+    }
+    
     this.updateProgress(onProgress, { 
       stage: 'processing', 
       current: 40,
@@ -389,6 +419,8 @@ export class AdvancedDigestExportRenderer implements ExportRenderer {
       corporateSlides?: any[]
       additionalSlides?: any[]
       quarterlyPlanSlide?: any
+      burndown?: SprintBurndown | null
+      epicForecast?: EpicForecastSet | null
     }
   ): Promise<number> {
     const demoImages = this.extractDemoImages(presentation, allIssues, demoStoryScreenshots);
@@ -450,6 +482,7 @@ export class AdvancedDigestExportRenderer implements ExportRenderer {
         assignee: issue.assignee || 'Unassigned',
         storyPoints: issue.storyPoints || 'Not estimated',
         status: issue.status,
+        completed: isIssueCompleted(issue),
         content: demoSummary || (typeof slide.content === 'string' ? slide.content : 'No content available'),
         hasScreenshot: demoImages.has(slide.storyId || '')
       });
@@ -508,6 +541,8 @@ export class AdvancedDigestExportRenderer implements ExportRenderer {
       corporateSlides?: any[]
       additionalSlides?: any[]
       quarterlyPlanSlide?: any
+      burndown?: SprintBurndown | null
+      epicForecast?: EpicForecastSet | null
     }
   ): Promise<number> {
     // Generate AI content
@@ -870,6 +905,270 @@ export class AdvancedDigestExportRenderer implements ExportRenderer {
 
 
 
+  private async addBurndownCharts(
+    doc: jsPDF,
+    burndown: SprintBurndown,
+    yPosition: number,
+    margin: number,
+    contentWidth: number
+  ): Promise<number> {
+    try {
+      const pageHeight = doc.internal.pageSize.getHeight();
+      if (yPosition > pageHeight - 120) {
+        doc.addPage();
+        yPosition = 40;
+      }
+
+      doc.setTextColor(COLORS.brandBlue[0], COLORS.brandBlue[1], COLORS.brandBlue[2]);
+      doc.setFontSize(FONT_SIZES.sectionHeader);
+      doc.setFont('helvetica', 'bold');
+      doc.text('Sprint Burndown', margin, yPosition);
+      yPosition += 8;
+
+      doc.setTextColor(COLORS.grayText[0], COLORS.grayText[1], COLORS.grayText[2]);
+      doc.setFontSize(FONT_SIZES.body);
+      doc.setFont('helvetica', 'normal');
+      doc.text(
+        `${burndown.totals.completedPoints} of ${burndown.totals.scopePoints} points completed, ${burndown.totals.remainingPoints} remaining`,
+        margin,
+        yPosition
+      );
+      yPosition += 6;
+
+      const chartData = getBurndownChartData(burndown);
+      const chartWidth = (contentWidth - 10) / 2;
+      const chartHeight = chartWidth * (400 / 600);
+
+      const burndownBuffer = await ChartGenerator.generateBurndownChart(chartData);
+      const burnupBuffer = await ChartGenerator.generateBurnupChart(chartData);
+      doc.addImage(`data:image/png;base64,${burndownBuffer.toString('base64')}`, 'PNG', margin, yPosition, chartWidth, chartHeight);
+      doc.addImage(`data:image/png;base64,${burnupBuffer.toString('base64')}`, 'PNG', margin + chartWidth + 10, yPosition, chartWidth, chartHeight);
+      yPosition += chartHeight + 15;
+    } catch (error) {
+      console.warn('Failed to generate burndown charts:', error);
+      // Continue without charts if generation fails
+    }
+
+    return yPosition;
+  }
+
+  private addProgramOverview(
+    doc: jsPDF,
+    allIssues: Issue[],
+    yPosition: number,
+    margin: number
+  ): number {
+    const pageHeight = doc.internal.pageSize.getHeight();
+    if (yPosition > pageHeight - 80) {
+      doc.addPage();
+      yPosition = 40;
+    }
+
+    doc.setTextColor(COLORS.brandBlue[0], COLORS.brandBlue[1], COLORS.brandBlue[2]);
+    doc.setFontSize(FONT_SIZES.sectionHeader);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Program Overview', margin, yPosition);
+    yPosition += 6;
+
+    const toRow = (team: TeamSummary) => [
+      team.team,
+      `${team.completed}/${team.issues}`,
+      `${team.completedPoints}/${team.points}`,
+      `${team.completionRate}%`,
+      team.bugs.toString()
+    ];
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Team', 'Issues Done', 'Points Done', 'Completion', 'Bugs']],
+      body: [...getTeamBreakdown(allIssues).map(toRow), toRow(getProgramTotals(allIssues))],
+      theme: 'grid',
+      headStyles: {
+        fillColor: [21, 44, 83],
+        textColor: 255,
+        fontStyle: 'bold'
+      },
+      styles: {
+        fontSize: FONT_SIZES.table,
+        cellPadding: 3
+      },
+      margin: { left: margin, right: margin }
+    });
+    yPosition = (doc as any).lastAutoTable.finalY + 12;
+
+    groupIssuesByTeam(allIssues).forEach((teamIssues, team) => {
+      if (yPosition > pageHeight - 60) {
+        doc.addPage();
+        yPosition = 40;
+      }
+
+      const delivered = teamIssues.filter(issue => !issue.isSubtask && isIssueCompleted(issue));
+      const open = teamIssues.filter(issue => !issue.isSubtask && !isIssueCompleted(issue));
+
+      doc.setTextColor(COLORS.brandOrange[0], COLORS.brandOrange[1], COLORS.brandOrange[2]);
+      doc.setFontSize(FONT_SIZES.body + 2);
+      doc.setFont('helvetica', 'bold');
+      doc.text(`Team: ${team}`, margin, yPosition);
+      yPosition += 6;
+
+      autoTable(doc, {
+        startY: yPosition,
+        head: [['Delivered', 'Not Finished']],
+        body: [[
+          delivered.map(issue => `${issue.key}: ${issue.summary}`).join('\n') || 'None',
+          open.map(issue => `${issue.key}: ${issue.summary} (${issue.status})`).join('\n') || 'None'
+        ]],
+        theme: 'grid',
+        headStyles: {
+          fillColor: [221, 79, 38],
+          textColor: 255,
+          fontStyle: 'bold'
+        },
+        styles: {
+          fontSize: FONT_SIZES.small + 1,
+          cellPadding: 3,
+          overflow: 'linebreak'
+        },
+        margin: { left: margin, right: margin }
+      });
+      yPosition = (doc as any).lastAutoTable.finalY + 10;
+    });
+
+    return yPosition + 5;
+  }
+
+  private addDependencyRisks(
+    doc: jsPDF,
+    graph: DependencyGraph,
+    yPosition: number,
+    margin: number
+  ): number {
+    const pageHeight = doc.internal.pageSize.getHeight();
+    if (yPosition > pageHeight - 80) {
+      doc.addPage();
+      yPosition = 40;
+    }
+
+    doc.setTextColor(COLORS.brandBlue[0], COLORS.brandBlue[1], COLORS.brandBlue[2]);
+    doc.setFontSize(FONT_SIZES.sectionHeader);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Dependency Risks', margin, yPosition);
+    yPosition += 8;
+
+    doc.setTextColor(COLORS.grayText[0], COLORS.grayText[1], COLORS.grayText[2]);
+    doc.setFontSize(FONT_SIZES.body);
+    doc.setFont('helvetica', 'normal');
+    doc.text(
+      `${graph.risks.length} issues blocked by unfinished work, ${graph.externalBlockers} blockers outside the current and upcoming sprint`,
+      margin,
+      yPosition
+    );
+    yPosition += 6;
+
+    const scopeLabels = { current: 'This sprint', upcoming: 'Upcoming', external: 'Outside sprint' };
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Risk', 'Issue', 'Sprint', 'Blocked By', 'Blocker Status']],
+      body: graph.risks.map(risk => [
+        risk.severity === 'high' ? 'High' : 'Medium',
+        `${risk.issue.key}: ${risk.issue.summary}`,
+        scopeLabels[risk.issue.scope],
+        risk.blockers.map(blocker => `${blocker.key} (${scopeLabels[blocker.scope]})`).join('\n'),
+        risk.blockers.map(blocker => blocker.status || 'Unknown').join('\n')
+      ]),
+      theme: 'grid',
+      headStyles: {
+        fillColor: [21, 44, 83],
+        textColor: 255,
+        fontStyle: 'bold'
+      },
+      styles: {
+        fontSize: FONT_SIZES.table,
+        cellPadding: 3
+      },
+      columnStyles: {
+        1: { cellWidth: 70 }
+      },
+      didParseCell: (data) => {
+        if (data.section === 'body' && data.column.index === 0) {
+          data.cell.styles.textColor = data.cell.raw === 'High' ? [239, 68, 68] : [217, 119, 6];
+          data.cell.styles.fontStyle = 'bold';
+        }
+      },
+      margin: { left: margin, right: margin }
+    });
+
+    return (doc as any).lastAutoTable.finalY + 15;
+  }
+
+  private addEpicForecast(
+    doc: jsPDF,
+    forecast: EpicForecastSet,
+    yPosition: number,
+    margin: number
+  ): number {
+    const pageHeight = doc.internal.pageSize.getHeight();
+    if (yPosition > pageHeight - 80) {
+      doc.addPage();
+      yPosition = 40;
+    }
+
+    doc.setTextColor(COLORS.brandBlue[0], COLORS.brandBlue[1], COLORS.brandBlue[2]);
+    doc.setFontSize(FONT_SIZES.sectionHeader);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Epic Forecast', margin, yPosition);
+    yPosition += 8;
+
+    doc.setTextColor(COLORS.grayText[0], COLORS.grayText[1], COLORS.grayText[2]);
+    doc.setFontSize(FONT_SIZES.body);
+    doc.setFont('helvetica', 'normal');
+    doc.text(
+      `Progress across every child issue of each epic; finish projected from points resolved in the last ${forecast.velocitySprints.length} closed sprints`,
+      margin,
+      yPosition,
+      { maxWidth: doc.internal.pageSize.getWidth() - margin * 2 }
+    );
+    yPosition += 10;
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Epic', 'Complete', 'Remaining', 'This Sprint', 'Pace', 'Projected Finish']],
+      body: forecast.epics.map(epic => [
+        `${epic.epicKey}: ${epic.epicName}`,
+        `${epic.completedPoints}/${epic.totalPoints} pts (${epic.percentPoints}%)`,
+        `${epic.remainingPoints} pts${epic.unestimated > 0 ? ` + ${epic.unestimated} unestimated` : ''}`,
+        `${epic.sprintPoints} pts`,
+        `${epic.velocity} pts/sprint`,
+        epic.sprintsRemaining === 0
+          ? 'Done'
+          : epic.projectedSprint
+            ? `${epic.projectedSprint}${epic.projectedEndDate ? ` (${new Date(epic.projectedEndDate).toLocaleDateString(undefined, { timeZone: 'UTC' })})` : ''}`
+            : 'No recent progress'
+      ]),
+      theme: 'grid',
+      headStyles: {
+        fillColor: [21, 44, 83],
+        textColor: 255,
+        fontStyle: 'bold'
+      },
+      styles: {
+        fontSize: FONT_SIZES.table,
+        cellPadding: 3
+      },
+      columnStyles: {
+        0: { cellWidth: 50 }
+      },
+      didParseCell: (data) => {
+        if (data.section === 'body' && data.column.index === 5 && data.cell.raw === 'No recent progress') {
+          data.cell.styles.textColor = [217, 119, 6];
+        }
+      },
+      margin: { left: margin, right: margin }
+    });
+
+    return (doc as any).lastAutoTable.finalY + 15;
+  }
+
   private async addPerformanceCharts(
     doc: jsPDF,
     sprintMetrics: SprintMetrics,
@@ -928,10 +1227,9 @@ export class AdvancedDigestExportRenderer implements ExportRenderer {
   private generateEpicChartData(allIssues: Issue[]): SprintChartData {
     const epicMap = new Map<string, number>();
     
-    allIssues.forEach(issue => {
-      const epicName = issue.epicName || 'No Epic';
-      const points = issue.storyPoints || 0;
-      epicMap.set(epicName, (epicMap.get(epicName) || 0) + points);
+    buildIssueHierarchy(allIssues).forEach(node => {
+      const epicName = node.issue.epicName || 'No Epic';
+      epicMap.set(epicName, (epicMap.get(epicName) || 0) + node.storyPoints);
     });
 
     const labels = Array.from(epicMap.keys());
@@ -948,7 +1246,7 @@ export class AdvancedDigestExportRenderer implements ExportRenderer {
 
   private generateTeamPerformanceData(sprintMetrics: SprintMetrics, allIssues: Issue[]): SprintChartData {
     const completedIssues = allIssues.filter(issue => 
-      isIssueCompleted(issue.status)
+      isIssueCompleted(issue)
     ).length;
     const completionRate = allIssues.length > 0 ? (completedIssues / allIssues.length) * 100 : 0;
     const velocityRate = sprintMetrics.estimatedPoints > 0 ? 
@@ -1166,11 +1464,11 @@ Strategic alignment remains strong with business objectives, ensuring continued
   }
 
   private generateDemoStoryContent(context: Record<string, any>): string {
-    const { issueKey, issueSummary, assignee, storyPoints, status } = context;
+    const { issueKey, issueSummary, assignee, storyPoints, completed } = context;
     
     return `**${issueKey}** - ${issueSummary}
 
-This ${storyPoints}-point story was completed by ${assignee} and delivers ${status === 'Done' ? 'successful' : 'ongoing'} implementation of key functionality. The feature enhances user experience and aligns with our technical standards.
+This ${storyPoints}-point story was completed by ${assignee} and delivers ${completed ? 'successful' : 'ongoing'} implementation of key functionality. The feature enhances user experience and aligns with our technical standards.
 
 **Key Impact:** Improved user workflow and system performance.`;
   }
@@ -1370,7 +1668,7 @@ Strategic initiatives remain on track, with clear business impact metrics and st
   private calculateTeamPerformance(allIssues: Issue[]): string {
     const totalIssues = allIssues.length;
     const completedIssues = allIssues.filter(issue => 
-      isIssueCompleted(issue.status)
+      isIssueCompleted(issue)
     ).length;
     const completionRate = totalIssues > 0 ? Math.round((completedIssues / totalIssues) * 100) : 0;
     
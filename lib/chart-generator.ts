@@ -1,5 +1,6 @@
 import { Chart, registerables } from 'chart.js';
 import { Canvas } from 'canvas';
+import type { SprintBurndown } from './sprint-burndown';
 
 // Register Chart.js components
 Chart.register(...registerables);
@@ -22,6 +23,27 @@ export interface VelocityChartData {
   velocity: number[];
 }
 
+export interface BurndownChartData {
+  labels: string[];
+  remaining: (number | null)[];
+  ideal: number[];
+  scope: number[];
+  completed: (number | null)[];
+}
+
+/**
+ * Convert a sprint burndown series into chart datasets
+ */
+export function getBurndownChartData(burndown: SprintBurndown): BurndownChartData {
+  return {
+    labels: burndown.days.map(day => day.date.slice(5)),
+    remaining: burndown.days.map(day => day.remainingPoints),
+    ideal: burndown.days.map(day => day.idealRemaining),
+    scope: burndown.days.map(day => day.scopePoints),
+    completed: burndown.days.map(day => (day.remainingPoints === null ? null : day.completedPoints))
+  };
+}
+
 export class ChartGenerator {
   private static readonly COLORS = {
     primary: '#1e40af',
@@ -267,4 +289,144 @@ export class ChartGenerator {
       }, 100);
     });
   }
-} 
\ No newline at end of file
+
+  /**
+   * Generate a daily burndown chart of remaining story points against the ideal line
+   */
+  static async generateBurndownChart(data: BurndownChartData): Promise<Buffer> {
+    const canvas = new Canvas(600, 400);
+    const ctx = canvas.getContext('2d');
+
+    const chart = new Chart(ctx as any, {
+      type: 'line',
+      data: {
+        labels: data.labels,
+        datasets: [
+          {
+            label: 'Remaining Points',
+            data: data.remaining,
+            borderColor: this.COLORS.primary,
+            backgroundColor: this.COLORS.primary + '20',
+            borderWidth: 3,
+            fill: true,
+            stepped: true,
+            spanGaps: false
+          },
+          {
+            label: 'Ideal',
+            data: data.ideal,
+            borderColor: this.COLORS.dark,
+            borderWidth: 1,
+            borderDash: [6, 4],
+            pointRadius: 0,
+            fill: false
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          title: {
+            display: true,
+            text: 'Sprint Burndown',
+            font: {
+              size: 16,
+              weight: 'bold'
+            }
+          },
+          legend: {
+            position: 'top'
+          }
+        },
+        scales: {
+          y: {
+            beginAtZero: true,
+            title: {
+              display: true,
+              text: 'Story Points'
+            }
+          }
+        }
+      }
+    });
+
+    return new Promise((resolve) => {
+      setTimeout(() => {
+        const buffer = canvas.toBuffer('image/png');
+        chart.destroy();
+        resolve(buffer);
+      }, 100);
+    });
+  }
+
+  /**
+   * Generate a burnup chart of completed story points against total scope
+   */
+  static async generateBurnupChart(data: BurndownChartData): Promise<Buffer> {
+    const canvas = new Canvas(600, 400);
+    const ctx = canvas.getContext('2d');
+
+    const chart = new Chart(ctx as any, {
+      type: 'line',
+      data: {
+        labels: data.labels,
+        datasets: [
+          {
+            label: 'Completed Points',
+            data: data.completed,
+            borderColor: this.COLORS.success,
+            backgroundColor: this.COLORS.success + '20',
+            borderWidth: 3,
+            fill: true,
+            stepped: true,
+            spanGaps: false
+          },
+          {
+            label: 'Scope',
+            data: data.scope,
+            borderColor: this.COLORS.warning,
+            borderWidth: 2,
+            pointRadius: 0,
+            stepped: true,
+            fill: false
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          title: {
+            display: true,
+            text: 'Sprint Burnup',
+            font: {
+              size: 16,
+              weight: 'bold'
+            }
+          },
+          legend: {
+            position: 'top'
+          }
+        },
+        scales: {
+          y: {
+            beginAtZero: true,
+            title: {
+              display: true,
+              text: 'Story Points'
+            }
+          }
+        }
+      }
+    });
+
+    return new Promise((resolve) => {
+      setTimeout(() => {
+        const buffer = canvas.toBuffer('image/png');
+        chart.destroy();
+        resolve(buffer);
+      }, 100);
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,184 @@
+// Blocker and dependency graph for the current and upcoming sprint, from Jira issue links
+
+import type { SafeJiraIssueLink } from "./jira-types"
+import { isIssueCompleted, type CompletableIssue } from "./utils"
+
+// Where an issue in the graph lives; "external" is neither the current nor the upcoming sprint
+export type DependencyScope = "current" | "upcoming" | "external"
+
+export type DependencyRiskSeverity = "high" | "medium"
+
+export interface DependencyIssue extends CompletableIssue {
+  key: string
+  summary: string
+  issueType: string
+  assignee?: string
+  links?: SafeJiraIssueLink[]
+}
+
+export interface DependencyNode {
+  key: string
+  summary: string
+  issueType: string
+  status?: string
+  assignee?: string
+  completed: boolean
+  scope: DependencyScope
+}
+
+export interface DependencyEdge {
+  blocker: string // Issue key
+  blocked: string // Issue key
+  relationship: string // Wording from the blocked issue's side, e.g. "is blocked by"
+  crossProject: boolean
+}
+
+export interface DependencyRisk {
+  issue: DependencyNode
+  blockers: DependencyNode[] // Unfinished blockers only
+  severity: DependencyRiskSeverity
+  reason: string
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[] // Only issues with at least one blocking link
+  edges: DependencyEdge[]
+  risks: DependencyRisk[] // Most severe first, current sprint before upcoming
+  externalBlockers: number // Unfinished blockers outside both sprints
+  generatedAt: string
+}
+
+// Link wording varies by site; "Blocks" and "Dependency" types are the common ones
+const BLOCKED_BY_PATTERN = /blocked by|depends on|dependent on|requires|waiting (on|for)/i
+const BLOCKS_PATTERN = /\bblocks\b|blocking|depended on by|required by|dependency (of|for)/i
+
+/**
+ * Which way a link blocks, seen from the issue that holds it, or null for links that are
+ * not about blocking (relates to, duplicates, clones...)
+ */
+export function getBlockingDirection(link: SafeJiraIssueLink): "blocked-by" | "blocks" | null {
+  if (BLOCKED_BY_PATTERN.test(link.relationship)) return "blocked-by"
+  if (BLOCKS_PATTERN.test(link.relationship)) return "blocks"
+  return null
+}
+
+function projectKeyOf(issueKey: string): string {
+  return issueKey.split("-")[0]
+}
+
+function toNode(issue: DependencyIssue, scope: DependencyScope): DependencyNode {
+  return {
+    key: issue.key,
+    summary: issue.summary,
+    issueType: issue.issueType,
+    status: issue.status,
+    assignee: issue.assignee,
+    completed: isIssueCompleted(issue),
+    scope,
+  }
+}
+
+function toExternalNode(link: SafeJiraIssueLink): DependencyNode {
+  return {
+    key: link.key,
+    summary: link.summary,
+    issueType: link.issueType,
+    status: link.status,
+    completed: link.statusCategory === "done",
+    scope: "external",
+  }
+}
+
+/**
+ * Builds the blocking graph for the sprint's issues and the upcoming sprint's. Both ends of
+ * a link usually report it, so edges are de-duplicated. An unfinished issue is at risk when
+ * any of its blockers is unfinished; blockers outside both sprints are the most severe since
+ * nobody on the team is planned to work on them.
+ */
+export function buildDependencyGraph<T extends DependencyIssue>(
+  currentIssues: T[],
+  upcomingIssues: T[] = []
+): DependencyGraph {
+  const known = new Map<string, DependencyNode>()
+  currentIssues.forEach((issue) => known.set(issue.key, toNode(issue, "current")))
+  upcomingIssues.forEach((issue) => {
+    if (!known.has(issue.key)) known.set(issue.key, toNode(issue, "upcoming"))
+  })
+
+  const edges = new Map<string, DependencyEdge>()
+  for (const issue of [...currentIssues, ...upcomingIssues]) {
+    for (const link of issue.links || []) {
+      const direction = getBlockingDirection(link)
+      if (!direction) continue
+
+      if (!known.has(link.key)) known.set(link.key, toExternalNode(link))
+      const [blocker, blocked] = direction === "blocked-by" ? [link.key, issue.key] : [issue.key, link.key]
+      const id = `${blocker}->${blocked}`
+      if (edges.has(id)) continue
+      edges.set(id, {
+        blocker,
+        blocked,
+        relationship: direction === "blocked-by" ? link.relationship : "is blocked by",
+        crossProject: projectKeyOf(blocker) !== projectKeyOf(blocked),
+      })
+    }
+  }
+
+  const edgeList = Array.from(edges.values())
+  const linkedKeys = new Set(edgeList.flatMap((edge) => [edge.blocker, edge.blocked]))
+  const nodes = Array.from(known.values()).filter((node) => linkedKeys.has(node.key))
+
+  const risks: DependencyRisk[] = []
+  for (const node of nodes) {
+    if (node.scope === "external" || node.completed) continue
+
+    const blockers = edgeList
+      .filter((edge) => edge.blocked === node.key)
+      .map((edge) => known.get(edge.blocker)!)
+      .filter((blocker) => !blocker.completed)
+    if (blockers.length === 0) continue
+
+    const external = blockers.filter((blocker) => blocker.scope === "external")
+    // A current-sprint issue waiting on upcoming work cannot finish this sprint either
+    const later = node.scope === "current" ? blockers.filter((blocker) => blocker.scope === "upcoming") : []
+    if (external.length > 0) {
+      risks.push({
+        issue: node,
+        blockers,
+        severity: "high",
+        reason: `Blocked by ${external.map((blocker) => blocker.key).join(", ")} outside this sprint`,
+      })
+    } else if (later.length > 0) {
+      risks.push({
+        issue: node,
+        blockers,
+        severity: "high",
+        reason: `Blocked by ${later.map((blocker) => blocker.key).join(", ")} planned for the upcoming sprint`,
+      })
+    } else {
+      risks.push({
+        issue: node,
+        blockers,
+        severity: "medium",
+        reason: `Waiting on ${blockers.map((blocker) => blocker.key).join(", ")}`,
+      })
+    }
+  }
+
+  const severityRank: Record<DependencyRiskSeverity, number> = { high: 0, medium: 1 }
+  risks.sort(
+    (a, b) =>
+      severityRank[a.severity] - severityRank[b.severity] ||
+      Number(a.issue.scope === "upcoming") - Number(b.issue.scope === "upcoming")
+  )
+
+  return {
+    nodes,
+    edges: edgeList,
+    risks,
+    externalBlockers: nodes.filter(
+      (node) => node.scope === "external" && !node.completed && edgeList.some((edge) => edge.blocker === node.key)
+    ).length,
+    generatedAt: new Date().toISOString(),
+  }
+}
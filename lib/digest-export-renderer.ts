@@ -12,6 +12,12 @@ import {
 import * as fs from 'fs';
 import * as path from 'path';
 import { isIssueCompleted } from './utils'
+import { buildIssueHierarchy, type IssueHierarchyNode } from './issue-hierarchy';
+import { ChartGenerator, getBurndownChartData } from './chart-generator';
+import type { SprintBurndown } from './sprint-burndown';
+import type { FlowMetrics } from './flow-metrics';
+import { buildEstimationAccuracyReport, formatHours, type EstimationAccuracyReport, type EstimationAccuracyStats } from './estimation-accuracy';
+import { getProgramTotals, getTeamBreakdown, groupIssuesByTeam, isProgramReview, type TeamSummary } from './program-review';
 
 const COLORS = {
   brandBlue: [21, 44, 83],
@@ -35,7 +41,11 @@ export class DigestExportRenderer implements ExportRenderer {
     upcomingIssues: Issue[],
     sprintMetrics: SprintMetrics | null | undefined,
     options: ExportOptions,
-    onProgress?: (progress: ExportProgress) => void
+    onProgress?: (progress: ExportProgress) => void,
+    additionalData?: {
+      burndown?: SprintBurndown | null
+      flowMetrics?: FlowMetrics | null
+    }
   ): Promise<ExportResult> {
     const startTime = Date.now();
 
@@ -58,7 +68,8 @@ export class DigestExportRenderer implements ExportRenderer {
         upcomingIssues,
         sprintMetrics,
         options,
-        onProgress
+        onProgress,
+        additionalData
       );
 
       const pdfBlob = doc.output('blob');
@@ -157,7 +168,11 @@ export class DigestExportRenderer implements ExportRenderer {
     upcomingIssues: Issue[],
     sprintMetrics: SprintMetrics | null | undefined,
     options: ExportOptions,
-    onProgress?: (progress: ExportProgress) => void
+    onProgress?: (progress: ExportProgress) => void,
+    additionalData?: {
+      burndown?: SprintBurndown | null
+      flowMetrics?: FlowMetrics | null
+    }
   ): Promise<void> {
     let yPosition = 40; // Start below the header (increased for larger header)
     const pageWidth = doc.internal.pageSize.getWidth();
@@ -183,6 +198,11 @@ export class DigestExportRenderer implements ExportRenderer {
       'No sprint summary available';
     yPosition = this.addSprintSummary(doc, summaryContent, pageHeight, margin, contentWidth, yPosition);
 
+    // 4b. Program overview and per-team sections when several teams are reviewed together
+    if (isProgramReview(allIssues)) {
+      yPosition = this.addProgramSection(doc, allIssues, yPosition, margin, contentWidth);
+    }
+
     // 5. Detailed Demo Story Summaries
     yPosition = this.addDemoStoriesSection(doc, presentation, allIssues, yPosition, margin, contentWidth);
 
@@ -192,6 +212,22 @@ export class DigestExportRenderer implements ExportRenderer {
     // 7. Sprint Metrics (copy-paste friendly tables)
     yPosition = this.addMetricsSection(doc, sprintMetrics, allIssues, yPosition, margin, contentWidth);
 
+    // 8. Burndown / Burnup charts
+    if (additionalData?.burndown) {
+      yPosition = await this.addBurndownSection(doc, additionalData.burndown, yPosition, margin, contentWidth);
+    }
+
+    // 9. Flow metrics (cycle and lead time)
+    if (additionalData?.flowMetrics) {
+      yPosition = this.addFlowMetricsSection(doc, additionalData.flowMetrics, yPosition, margin, contentWidth);
+    }
+
+    // 10. Estimation accuracy (original estimate vs. time spent)
+    const estimationAccuracy = options.includeEstimationAccuracy !== false ? buildEstimationAccuracyReport(allIssues) : null;
+    if (estimationAccuracy?.overall) {
+      yPosition = this.addEstimationAccuracySection(doc, estimationAccuracy, yPosition, margin, contentWidth);
+    }
+
     // 7. Footer
     this.addFooter(doc, presentation);
   }
@@ -215,10 +251,10 @@ export class DigestExportRenderer implements ExportRenderer {
     
     // Calculate sprint health metrics
     const totalIssues = allIssues.length;
-    const completedIssues = allIssues.filter(issue => isIssueCompleted(issue.status)).length;
+    const completedIssues = allIssues.filter(issue => isIssueCompleted(issue)).length;
     const totalStoryPoints = allIssues.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
     const completedStoryPoints = allIssues
-      .filter(issue => isIssueCompleted(issue.status))
+      .filter(issue => isIssueCompleted(issue))
       .reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
     
     const sprintHealthPercentage = sprintMetrics && sprintMetrics.estimatedPoints > 0 
@@ -337,6 +373,90 @@ export class DigestExportRenderer implements ExportRenderer {
   }
   
 
+  private addProgramSection(
+    doc: jsPDF,
+    allIssues: Issue[],
+    yPosition: number,
+    margin: number,
+    contentWidth: number
+  ): number {
+    // Check if we need a new page
+    if (yPosition > 200) {
+      doc.addPage();
+      yPosition = 40;
+    }
+
+    yPosition = this.addSectionHeader(doc, 'Program Overview', margin, yPosition);
+
+    const toRow = (team: TeamSummary) => [
+      team.team,
+      `${team.completed}/${team.issues}`,
+      `${team.completedPoints}/${team.points}`,
+      `${team.completionRate}%`,
+      team.bugs.toString()
+    ];
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Team', 'Issues Done', 'Points Done', 'Completion', 'Bugs']],
+      body: [...getTeamBreakdown(allIssues).map(toRow), toRow(getProgramTotals(allIssues))],
+      theme: 'grid',
+      headStyles: {
+        fillColor: [21, 44, 83],
+        textColor: 255,
+        fontStyle: 'bold'
+      },
+      styles: {
+        fontSize: 10,
+        cellPadding: 3
+      },
+      didParseCell: (data) => {
+        // The last row is the combined total
+        if (data.section === 'body' && data.row.index === data.table.body.length - 1) {
+          data.cell.styles.fontStyle = 'bold';
+        }
+      },
+      margin: { left: margin, right: margin }
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 15;
+
+    groupIssuesByTeam(allIssues).forEach((teamIssues, team) => {
+      if (yPosition > 230) {
+        doc.addPage();
+        yPosition = 40;
+      }
+      yPosition = this.addSectionHeader(doc, `Team: ${team}`, margin, yPosition, FONT_SIZES.body + 2);
+
+      autoTable(doc, {
+        startY: yPosition,
+        head: [['Issue', 'Summary', 'Status', 'Points']],
+        body: teamIssues
+          .filter(issue => !issue.isSubtask)
+          .map(issue => [issue.key, issue.summary, issue.status, (issue.storyPoints || 0).toString()]),
+        theme: 'grid',
+        headStyles: {
+          fillColor: [221, 79, 38],
+          textColor: 255,
+          fontStyle: 'bold'
+        },
+        styles: {
+          fontSize: 9,
+          cellPadding: 2,
+          overflow: 'linebreak'
+        },
+        columnStyles: {
+          1: { cellWidth: contentWidth * 0.55 }
+        },
+        margin: { left: margin, right: margin }
+      });
+
+      yPosition = (doc as any).lastAutoTable.finalY + 12;
+    });
+
+    return yPosition;
+  }
+
   private addDemoStoriesSection(
     doc: jsPDF,
     presentation: GeneratedPresentation,
@@ -646,6 +766,209 @@ export class DigestExportRenderer implements ExportRenderer {
     return yPosition;
   }
 
+  private addFlowMetricsSection(
+    doc: jsPDF,
+    flowMetrics: FlowMetrics,
+    yPosition: number,
+    margin: number,
+    contentWidth: number
+  ): number {
+    // Check if we need a new page
+    if (yPosition > 200) {
+      doc.addPage();
+      yPosition = 40;
+    }
+
+    yPosition = this.addSectionHeader(doc, 'Flow Metrics', margin, yPosition);
+
+    const formatStats = (stats: FlowMetrics['overall']['cycleTime']) =>
+      stats ? `${stats.average} / ${stats.p50} / ${stats.p85} / ${stats.p95}` : 'N/A';
+
+    const flowData = [['Issue Type', 'Done', 'Cycle Time (avg / p50 / p85 / p95)', 'Lead Time (avg / p50 / p85 / p95)']];
+    flowData.push(['All', (flowMetrics.overall.cycleTime?.count ?? 0).toString(), formatStats(flowMetrics.overall.cycleTime), formatStats(flowMetrics.overall.leadTime)]);
+    Object.entries(flowMetrics.byType).forEach(([issueType, stats]) => {
+      flowData.push([issueType, (stats.cycleTime?.count ?? 0).toString(), formatStats(stats.cycleTime), formatStats(stats.leadTime)]);
+    });
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [flowData[0]],
+      body: flowData.slice(1),
+      theme: 'grid',
+      headStyles: {
+        fillColor: [21, 44, 83],
+        textColor: 255,
+        fontStyle: 'bold'
+      },
+      styles: {
+        fontSize: 9,
+        cellPadding: 2
+      },
+      margin: { left: margin, right: margin }
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+    if (flowMetrics.outliers.length > 0) {
+      const outlierData = [['Outlier', 'Type', 'Cycle Time (days)']];
+      flowMetrics.outliers.forEach(issue => {
+        outlierData.push([`${issue.key}: ${issue.summary}`, issue.issueType, String(issue.cycleTimeDays ?? '')]);
+      });
+
+      autoTable(doc, {
+        startY: yPosition,
+        head: [outlierData[0]],
+        body: outlierData.slice(1),
+        theme: 'grid',
+        headStyles: {
+          fillColor: [221, 79, 38],
+          textColor: 255,
+          fontStyle: 'bold'
+        },
+        styles: {
+          fontSize: 9,
+          cellPadding: 2,
+          overflow: 'linebreak'
+        },
+        margin: { left: margin, right: margin },
+        columnStyles: {
+          0: { cellWidth: contentWidth * 0.6 }
+        }
+      });
+
+      yPosition = (doc as any).lastAutoTable.finalY + 15;
+    }
+
+    return yPosition;
+  }
+
+  private addEstimationAccuracySection(
+    doc: jsPDF,
+    report: EstimationAccuracyReport,
+    yPosition: number,
+    margin: number,
+    contentWidth: number
+  ): number {
+    // Check if we need a new page
+    if (yPosition > 200) {
+      doc.addPage();
+      yPosition = 40;
+    }
+
+    yPosition = this.addSectionHeader(doc, 'Estimation Accuracy', margin, yPosition);
+
+    const toRow = (label: string, stats: EstimationAccuracyStats) => [
+      label,
+      stats.count.toString(),
+      formatHours(stats.estimatedHours),
+      formatHours(stats.spentHours),
+      `${stats.ratio}x`,
+      `${stats.onTargetPercent}%`
+    ];
+
+    const accuracyData = [['Group', 'Issues', 'Estimated', 'Spent', 'Spent / Estimate', 'On Target']];
+    accuracyData.push(toRow('All', report.overall!));
+    Object.entries(report.byType).forEach(([issueType, stats]) => accuracyData.push(toRow(`Type: ${issueType}`, stats)));
+    Object.entries(report.byEpic).forEach(([epic, stats]) => accuracyData.push(toRow(`Epic: ${epic}`, stats)));
+    Object.entries(report.byAssignee).forEach(([assignee, stats]) => accuracyData.push(toRow(`Assignee: ${assignee}`, stats)));
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [accuracyData[0]],
+      body: accuracyData.slice(1),
+      theme: 'grid',
+      headStyles: {
+        fillColor: [21, 44, 83],
+        textColor: 255,
+        fontStyle: 'bold'
+      },
+      styles: {
+        fontSize: 9,
+        cellPadding: 2,
+        overflow: 'linebreak'
+      },
+      margin: { left: margin, right: margin },
+      columnStyles: {
+        0: { cellWidth: contentWidth * 0.35 }
+      }
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 6;
+
+    doc.setTextColor(100, 100, 100);
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    const note = `Completed issues with an original estimate and logged time. On target means within 20% of the estimate.` +
+      (report.unestimated > 0 ? ` ${report.unestimated} completed issue(s) had time logged without an estimate.` : '') +
+      (report.noTimeLogged > 0 ? ` ${report.noTimeLogged} completed issue(s) had an estimate but no time logged.` : '');
+    const noteLines = doc.splitTextToSize(note, contentWidth);
+    doc.text(noteLines, margin, yPosition);
+
+    return yPosition + noteLines.length * 5 + 10;
+  }
+
+  private async addBurndownSection(
+    doc: jsPDF,
+    burndown: SprintBurndown,
+    yPosition: number,
+    margin: number,
+    contentWidth: number
+  ): Promise<number> {
+    // Check if we need a new page
+    if (yPosition > 180) {
+      doc.addPage();
+      yPosition = 40;
+    }
+
+    yPosition = this.addSectionHeader(doc, 'Sprint Burndown', margin, yPosition);
+
+    // Daily numbers stay available even if chart rendering fails
+    const burndownData = [['Metric', 'Points']];
+    burndownData.push(['Scope', burndown.totals.scopePoints.toString()]);
+    burndownData.push(['Completed', burndown.totals.completedPoints.toString()]);
+    burndownData.push(['Remaining', burndown.totals.remainingPoints.toString()]);
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [burndownData[0]],
+      body: burndownData.slice(1),
+      theme: 'grid',
+      headStyles: {
+        fillColor: [21, 44, 83],
+        textColor: 255,
+        fontStyle: 'bold'
+      },
+      styles: {
+        fontSize: 9,
+        cellPadding: 2
+      },
+      margin: { left: margin, right: margin }
+    });
+
+    yPosition = (doc as any).lastAutoTable.finalY + 10;
+
+    try {
+      const chartData = getBurndownChartData(burndown);
+      const chartWidth = (contentWidth - 10) / 2;
+      const chartHeight = chartWidth * (400 / 600);
+
+      if (yPosition + chartHeight > doc.internal.pageSize.getHeight() - 20) {
+        doc.addPage();
+        yPosition = 40;
+      }
+
+      const burndownBuffer = await ChartGenerator.generateBurndownChart(chartData);
+      const burnupBuffer = await ChartGenerator.generateBurnupChart(chartData);
+      doc.addImage(`data:image/png;base64,${burndownBuffer.toString('base64')}`, 'PNG', margin, yPosition, chartWidth, chartHeight);
+      doc.addImage(`data:image/png;base64,${burnupBuffer.toString('base64')}`, 'PNG', margin + chartWidth + 10, yPosition, chartWidth, chartHeight);
+      yPosition += chartHeight + 15;
+    } catch (error) {
+      console.warn('Failed to generate burndown charts:', error);
+    }
+
+    return yPosition;
+  }
+
   private addFooter(doc: jsPDF, presentation: GeneratedPresentation): void {
     const pageCount = doc.getNumberOfPages();
     
@@ -742,14 +1065,15 @@ export class DigestExportRenderer implements ExportRenderer {
     totalPoints: number;
     percent: number;
   }> {
-    const epicGroups = new Map<string, Issue[]>();
+    const epicGroups = new Map<string, IssueHierarchyNode<Issue>[]>();
     
-    allIssues.forEach(issue => {
-      const epic = issue.epicName || 'No Epic';
+    // Sub-tasks count towards their parent story, not as issues of their own
+    buildIssueHierarchy(allIssues).forEach(node => {
+      const epic = node.issue.epicName || 'No Epic';
       if (!epicGroups.has(epic)) {
         epicGroups.set(epic, []);
       }
-      epicGroups.get(epic)!.push(issue);
+      epicGroups.get(epic)!.push(node);
     });
 
     const breakdown: Array<{
@@ -761,20 +1085,18 @@ export class DigestExportRenderer implements ExportRenderer {
       percent: number;
     }> = [];
 
-    epicGroups.forEach((issues, epic) => {
-      const completed = issues.filter(issue => isIssueCompleted(issue.status)).length;
-      const totalPoints = issues.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
-      const completedPoints = issues
-        .filter(issue => isIssueCompleted(issue.status))
-        .reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
+    epicGroups.forEach((nodes, epic) => {
+      const completed = nodes.filter(node => isIssueCompleted(node.issue)).length;
+      const totalPoints = nodes.reduce((sum, node) => sum + node.storyPoints, 0);
+      const completedPoints = nodes.reduce((sum, node) => sum + node.completedPoints, 0);
       
       breakdown.push({
         name: epic,
         completed,
-        total: issues.length,
+        total: nodes.length,
         completedPoints,
         totalPoints,
-        percent: issues.length > 0 ? Math.round((completed / issues.length) * 100) : 0
+        percent: nodes.length > 0 ? Math.round((completed / nodes.length) * 100) : 0
       });
     });
 
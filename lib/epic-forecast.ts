@@ -0,0 +1,171 @@
+// Whole-epic progress and completion forecasts, from every child issue rather than the sprint's slice
+
+import type { SafeJiraSprint } from "./jira-types"
+import { buildIssueHierarchy, type HierarchyIssue, type IssueHierarchyNode } from "./issue-hierarchy"
+import { isIssueCompleted } from "./utils"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_SPRINT_DAYS = 14
+
+// Closed sprints the epic velocity is measured over
+export const EPIC_VELOCITY_SPRINTS = 3
+
+export interface EpicForecastIssue extends HierarchyIssue {
+  epicKey?: string
+  epicName?: string
+  resolutionDate?: string
+}
+
+export interface EpicForecast {
+  epicKey: string
+  epicName: string
+  total: number
+  completed: number
+  totalPoints: number
+  completedPoints: number
+  remainingPoints: number
+  unestimated: number // Open issues without points; not in remainingPoints
+  percent: number
+  percentPoints: number
+  sprintPoints: number // Points of the epic's slice in the reviewed sprint
+  velocity: number // Epic points resolved per sprint over the recent closed sprints
+  sprintsRemaining: number | null // null when no points were resolved recently
+  projectedSprint: string | null // Sprint the remaining points are projected to finish in
+  projectedEndDate: string | null // YYYY-MM-DD
+}
+
+export interface EpicForecastSet {
+  sprintId: string
+  velocitySprints: string[] // Names of the closed sprints velocity was measured over
+  epics: EpicForecast[]
+  generatedAt: string
+}
+
+function getSprintDays(sprint: SafeJiraSprint): number | null {
+  if (!sprint.startDate || !sprint.endDate) return null
+  return Math.max(1, Math.round((new Date(sprint.endDate).getTime() - new Date(sprint.startDate).getTime()) / DAY_MS))
+}
+
+// Day-only end dates are midnight at the start of the last day, so prefer the completion instant
+function getSprintEnd(sprint: SafeJiraSprint): string {
+  return sprint.endedAt || new Date(new Date(sprint.endDate!).getTime() + DAY_MS).toISOString()
+}
+
+// The active sprint counts as the first one work can finish in, then future sprints, then the
+// board's cadence past the last planned sprint
+function projectSprint(
+  sprintsRemaining: number,
+  upcoming: SafeJiraSprint[],
+  fallback: SafeJiraSprint,
+  cadenceDays: number
+): { name: string; endDate: string | null } {
+  if (sprintsRemaining <= upcoming.length) {
+    const sprint = upcoming[sprintsRemaining - 1]
+    return { name: sprint.name, endDate: sprint.endDate }
+  }
+
+  const last = upcoming[upcoming.length - 1] || fallback
+  const extra = sprintsRemaining - upcoming.length
+  const endDate = last.endDate
+    ? new Date(new Date(last.endDate).getTime() + extra * cadenceDays * DAY_MS).toISOString().split("T")[0]
+    : null
+  return { name: `${extra} sprint${extra !== 1 ? "s" : ""} after ${last.name}`, endDate }
+}
+
+/**
+ * Progress over all of each epic's children, and when the rest should be done at the pace the
+ * epic has been burning down: its points resolved in each of the last few closed sprints.
+ * Sub-tasks are counted through their parent, as in the sprint's own epic breakdown.
+ *
+ * @param epicIssues - every child issue of the epics, from all sprints and the backlog
+ * @param sprintIssueKeys - issues in the reviewed sprint, for its slice of each epic
+ */
+export function buildEpicForecasts<T extends EpicForecastIssue>(
+  sprint: SafeJiraSprint,
+  boardSprints: SafeJiraSprint[],
+  epicIssues: T[],
+  sprintIssueKeys: string[]
+): EpicForecastSet {
+  const now = Date.now()
+  const byStart = (a: SafeJiraSprint, b: SafeJiraSprint) =>
+    new Date(a.startDate || 0).getTime() - new Date(b.startDate || 0).getTime()
+
+  const velocitySprints = boardSprints
+    .filter((candidate) => candidate.state === "closed" && candidate.startDate && candidate.endDate)
+    .filter((candidate) => new Date(candidate.endDate!).getTime() <= now)
+    .sort(byStart)
+    .slice(-EPIC_VELOCITY_SPRINTS)
+  const upcoming = boardSprints
+    .filter((candidate) => candidate.state === "active" || candidate.state === "future")
+    .sort((a, b) => (a.state === b.state ? byStart(a, b) : a.state === "active" ? -1 : 1))
+  // Back-to-back windows ending at each sprint's completion, so work resolved on a sprint's last
+  // day or between two sprints still counts towards one of them
+  const velocityWindows = velocitySprints.map((closed, index) => ({
+    start: new Date(index > 0 ? getSprintEnd(velocitySprints[index - 1]) : closed.startedAt || closed.startDate!).getTime(),
+    end: new Date(getSprintEnd(closed)).getTime(),
+  }))
+  const cadenceDays = getSprintDays(sprint) ?? (velocitySprints.length > 0 ? getSprintDays(velocitySprints[0]) : null) ?? DEFAULT_SPRINT_DAYS
+
+  const sprintKeys = new Set(sprintIssueKeys)
+  const byEpic = new Map<string, { name: string; nodes: IssueHierarchyNode<T>[] }>()
+  for (const node of buildIssueHierarchy(epicIssues)) {
+    const epicKey = node.issue.epicKey
+    if (!epicKey) continue
+    if (!byEpic.has(epicKey)) byEpic.set(epicKey, { name: node.issue.epicName || epicKey, nodes: [] })
+    byEpic.get(epicKey)!.nodes.push(node)
+  }
+
+  const epics: EpicForecast[] = Array.from(byEpic.entries()).map(([epicKey, { name, nodes }]) => {
+    const completedNodes = nodes.filter((node) => isIssueCompleted(node.issue))
+    const totalPoints = nodes.reduce((sum, node) => sum + node.storyPoints, 0)
+    const completedPoints = nodes.reduce((sum, node) => sum + node.completedPoints, 0)
+    const remainingPoints = totalPoints - completedPoints
+
+    const resolvedInWindow = velocityWindows.reduce((sum, { start, end }) => {
+      return (
+        sum +
+        nodes
+          .filter((node) => node.issue.resolutionDate)
+          .filter((node) => {
+            const resolved = new Date(node.issue.resolutionDate!).getTime()
+            return resolved > start && resolved <= end
+          })
+          .reduce((points, node) => points + node.completedPoints, 0)
+      )
+    }, 0)
+    const velocity = velocitySprints.length > 0 ? Math.round((resolvedInWindow / velocitySprints.length) * 10) / 10 : 0
+
+    const sprintsRemaining = remainingPoints <= 0 ? 0 : velocity > 0 ? Math.ceil(remainingPoints / velocity) : null
+    const projection = sprintsRemaining ? projectSprint(sprintsRemaining, upcoming, sprint, cadenceDays) : null
+
+    return {
+      epicKey,
+      epicName: name,
+      total: nodes.length,
+      completed: completedNodes.length,
+      totalPoints,
+      completedPoints,
+      remainingPoints,
+      unestimated: nodes.filter((node) => !isIssueCompleted(node.issue) && node.storyPoints === 0).length,
+      percent: nodes.length > 0 ? Math.round((completedNodes.length / nodes.length) * 100) : 0,
+      percentPoints: totalPoints > 0 ? Math.round((completedPoints / totalPoints) * 100) : 0,
+      sprintPoints: nodes
+        .filter((node) => sprintKeys.has(node.issue.key))
+        .reduce((sum, node) => sum + node.storyPoints, 0),
+      velocity,
+      sprintsRemaining,
+      projectedSprint: projection?.name ?? null,
+      projectedEndDate: projection?.endDate ?? null,
+    }
+  })
+
+  // Soonest to finish first; epics with no recent progress last
+  epics.sort((a, b) => (a.sprintsRemaining ?? Infinity) - (b.sprintsRemaining ?? Infinity) || b.remainingPoints - a.remainingPoints)
+
+  return {
+    sprintId: sprint.id,
+    velocitySprints: velocitySprints.map((closed) => closed.name),
+    epics,
+    generatedAt: new Date().toISOString(),
+  }
+}
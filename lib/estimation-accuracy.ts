@@ -0,0 +1,129 @@
+// Original estimate versus time spent, from Jira time tracking
+
+import { isIssueCompleted, type CompletableIssue } from "./utils"
+
+const HOUR_SECONDS = 60 * 60
+const ON_TARGET_TOLERANCE = 0.2 // Within 20% of the estimate either way counts as on target
+
+export interface EstimatedIssue extends CompletableIssue {
+  key: string
+  summary: string
+  issueType: string
+  assignee?: string
+  epicName?: string
+  originalEstimateSeconds?: number
+  timeSpentSeconds?: number
+}
+
+export interface IssueEstimationAccuracy {
+  key: string
+  summary: string
+  issueType: string
+  assignee?: string
+  epicName?: string
+  estimatedHours: number
+  spentHours: number
+  ratio: number // Time spent / original estimate; above 1 means the issue ran over
+}
+
+export interface EstimationAccuracyStats {
+  count: number
+  estimatedHours: number
+  spentHours: number
+  ratio: number // Total time spent / total original estimate
+  onTargetPercent: number // Issues finished within ON_TARGET_TOLERANCE of their estimate
+}
+
+export interface EstimationAccuracyReport {
+  overall: EstimationAccuracyStats | null
+  byType: Record<string, EstimationAccuracyStats>
+  byEpic: Record<string, EstimationAccuracyStats>
+  byAssignee: Record<string, EstimationAccuracyStats>
+  issues: IssueEstimationAccuracy[] // Biggest misses first
+  unestimated: number // Completed issues with time logged but no original estimate
+  noTimeLogged: number // Completed issues with an original estimate but no time logged
+  generatedAt: string
+}
+
+function toHours(seconds: number): number {
+  return Math.round((seconds / HOUR_SECONDS) * 10) / 10
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function formatHours(hours: number): string {
+  return `${hours}h`
+}
+
+export function getEstimationAccuracyStats(issues: IssueEstimationAccuracy[]): EstimationAccuracyStats | null {
+  if (issues.length === 0) return null
+
+  const estimatedHours = issues.reduce((sum, issue) => sum + issue.estimatedHours, 0)
+  const spentHours = issues.reduce((sum, issue) => sum + issue.spentHours, 0)
+  const onTarget = issues.filter((issue) => Math.abs(issue.ratio - 1) <= ON_TARGET_TOLERANCE).length
+  return {
+    count: issues.length,
+    estimatedHours: Math.round(estimatedHours * 10) / 10,
+    spentHours: Math.round(spentHours * 10) / 10,
+    ratio: estimatedHours > 0 ? round(spentHours / estimatedHours) : 0,
+    onTargetPercent: Math.round((onTarget / issues.length) * 100),
+  }
+}
+
+function groupStats(
+  issues: IssueEstimationAccuracy[],
+  getGroup: (issue: IssueEstimationAccuracy) => string
+): Record<string, EstimationAccuracyStats> {
+  const groups = new Map<string, IssueEstimationAccuracy[]>()
+  for (const issue of issues) {
+    const group = getGroup(issue)
+    groups.set(group, [...(groups.get(group) || []), issue])
+  }
+
+  const stats: Record<string, EstimationAccuracyStats> = {}
+  groups.forEach((groupIssues, group) => {
+    stats[group] = getEstimationAccuracyStats(groupIssues)!
+  })
+  return stats
+}
+
+/**
+ * Compares completed issues' original estimates with the time logged against them. Issues
+ * still in progress are left out since their time spent is not final; completed issues
+ * missing either side are counted rather than measured. Each issue counts its
+ * own worklog only, so sub-tasks and their parents are not double counted.
+ */
+export function buildEstimationAccuracyReport(issues: EstimatedIssue[]): EstimationAccuracyReport {
+  const completed = issues.filter((issue) => isIssueCompleted(issue))
+  const hasEstimate = (issue: EstimatedIssue) => (issue.originalEstimateSeconds || 0) > 0
+  const hasTimeLogged = (issue: EstimatedIssue) => (issue.timeSpentSeconds || 0) > 0
+
+  // Sort on the exact ratio; the rounded one can reach 0 and break the log
+  const measured: IssueEstimationAccuracy[] = completed
+    .filter((issue) => hasEstimate(issue) && hasTimeLogged(issue))
+    .map((issue) => ({ issue, exactRatio: issue.timeSpentSeconds! / issue.originalEstimateSeconds! }))
+    .sort((a, b) => Math.abs(Math.log(b.exactRatio)) - Math.abs(Math.log(a.exactRatio)))
+    .map(({ issue, exactRatio }) => ({
+      key: issue.key,
+      summary: issue.summary,
+      issueType: issue.issueType,
+      assignee: issue.assignee,
+      epicName: issue.epicName,
+      estimatedHours: toHours(issue.originalEstimateSeconds!),
+      spentHours: toHours(issue.timeSpentSeconds!),
+      ratio: round(exactRatio),
+    }))
+
+  return {
+    overall: getEstimationAccuracyStats(measured),
+    byType: groupStats(measured, (issue) => issue.issueType),
+    byEpic: groupStats(measured, (issue) => issue.epicName || "No Epic"),
+    byAssignee: groupStats(measured, (issue) => issue.assignee || "Unassigned"),
+    issues: measured,
+    unestimated: completed.filter((issue) => !hasEstimate(issue) && hasTimeLogged(issue)).length,
+    noTimeLogged: completed.filter((issue) => hasEstimate(issue) && !hasTimeLogged(issue)).length,
+    generatedAt: new Date().toISOString(),
+  }
+}
@@ -15,6 +15,10 @@ import {
 } from './export-service';
 
 import { isIssueCompleted } from './utils'
+import type { FlowMetrics } from './flow-metrics'
+import type { KanbanMetrics } from './kanban-metrics'
+import { buildEstimationAccuracyReport, formatHours, type EstimationAccuracyReport } from './estimation-accuracy'
+import { getProgramTotals, getTeamBreakdown, groupIssuesByTeam, isProgramReview } from './program-review'
 
 export class ExecutiveExportRenderer implements ExportRenderer {
   async render(
@@ -27,7 +31,7 @@ export class ExecutiveExportRenderer implements ExportRenderer {
     additionalData?: {
       selectedProject?: { id: string; key: string; name: string } | null
       selectedBoard?: { id: string; name: string; type: string } | null
-      selectedSprint?: { id: string; name: string; startDate?: string; endDate?: string } | null
+      selectedSprint?: { id: string; name: string; startDate?: string; endDate?: string; scope?: 'sprint' | 'release' | 'program' | 'kanban' } | null // The review period; a fix version in release reviews
       upcomingSprint?: { id: string; name: string; startDate?: string; endDate?: string } | null
       sprintComparison?: any
       sprintTrends?: any
@@ -39,6 +43,8 @@ export class ExecutiveExportRenderer implements ExportRenderer {
       corporateSlides?: any[]
       additionalSlides?: any[]
       quarterlyPlanSlide?: any
+      flowMetrics?: FlowMetrics | null
+      kanbanMetrics?: KanbanMetrics | null // Kanban date-range reviews; replaces sprint velocity
     }
   ): Promise<ExportResult> {
     const startTime = Date.now();
@@ -105,7 +111,7 @@ export class ExecutiveExportRenderer implements ExportRenderer {
     additionalData?: {
       selectedProject?: { id: string; key: string; name: string } | null
       selectedBoard?: { id: string; name: string; type: string } | null
-      selectedSprint?: { id: string; name: string; startDate?: string; endDate?: string } | null
+      selectedSprint?: { id: string; name: string; startDate?: string; endDate?: string; scope?: 'sprint' | 'release' | 'program' | 'kanban' } | null
       upcomingSprint?: { id: string; name: string; startDate?: string; endDate?: string } | null
       sprintComparison?: any
       sprintTrends?: any
@@ -117,6 +123,8 @@ export class ExecutiveExportRenderer implements ExportRenderer {
       corporateSlides?: any[]
       additionalSlides?: any[]
       quarterlyPlanSlide?: any
+      flowMetrics?: FlowMetrics | null
+      kanbanMetrics?: KanbanMetrics | null // Kanban date-range reviews; replaces sprint velocity
     }
   ): Promise<string> {
     // Update progress
@@ -132,6 +140,7 @@ export class ExecutiveExportRenderer implements ExportRenderer {
     const executiveMetrics = this.calculateExecutiveMetrics(sprintMetrics, allIssues);
     const businessImpact = this.analyzeBusinessImpact(allIssues);
     const recommendations = this.generateRecommendations(sprintMetrics, allIssues);
+    const estimationAccuracy = options.includeEstimationAccuracy !== false ? buildEstimationAccuracyReport(allIssues) : null;
 
     // Update progress
     this.updateProgress(onProgress, {
@@ -282,6 +291,29 @@ export class ExecutiveExportRenderer implements ExportRenderer {
             font-size: 0.9rem;
         }
 
+        .flow-table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 0.9rem;
+        }
+
+        .flow-table th,
+        .flow-table td {
+            padding: 0.75rem 1rem;
+            text-align: left;
+            border-bottom: 1px solid #e5e7eb;
+        }
+
+        .flow-table th {
+            background: #f8fafc;
+            color: #374151;
+            font-weight: 600;
+        }
+
+        .flow-outlier {
+            color: #92400e;
+        }
+
         .recommendations {
             background: #f0f9ff;
             padding: 2rem;
@@ -562,7 +594,7 @@ export class ExecutiveExportRenderer implements ExportRenderer {
                 ${additionalData?.selectedProject?.key ? `Project Key: ${additionalData.selectedProject.key}` : ''}
                 ${additionalData?.selectedBoard?.name ? ` | Board: ${additionalData.selectedBoard.name}` : ''}
                 ${additionalData?.selectedSprint?.startDate && additionalData?.selectedSprint?.endDate ? 
-                  ` | Sprint Period: ${additionalData.selectedSprint.startDate} - ${additionalData.selectedSprint.endDate}` : ''}
+                  ` | ${additionalData.selectedSprint.scope === 'release' ? 'Release' : additionalData.selectedSprint.scope === 'program' ? 'Program' : additionalData.selectedSprint.scope === 'kanban' ? 'Review' : 'Sprint'} Period: ${additionalData.selectedSprint.startDate} - ${additionalData.selectedSprint.endDate}` : ''}
             </div>
         </div>
 
@@ -571,11 +603,12 @@ export class ExecutiveExportRenderer implements ExportRenderer {
             <div class="section">
                 <h2>Key Performance Indicators</h2>
                 <div class="metrics-grid">
+                    ${additionalData?.kanbanMetrics ? this.generateThroughputCardHTML(additionalData.kanbanMetrics) : `
                     <div class="metric-card">
                         <div class="metric-value">${executiveMetrics.velocity}%</div>
                         <div class="metric-label">Sprint Velocity</div>
                         <div class="metric-status status-${executiveMetrics.velocityStatus}">${executiveMetrics.velocityStatus.toUpperCase()}</div>
-                    </div>
+                    </div>`}
                     <div class="metric-card">
                         <div class="metric-value">${executiveMetrics.qualityScore}%</div>
                         <div class="metric-label">Quality Score</div>
@@ -617,6 +650,18 @@ export class ExecutiveExportRenderer implements ExportRenderer {
                 </div>
             </div>
 
+            <!-- Program Overview -->
+            ${isProgramReview(allIssues) ? this.generateProgramHTML(allIssues) : ''}
+
+            <!-- Throughput & WIP -->
+            ${additionalData?.kanbanMetrics ? this.generateKanbanHTML(additionalData.kanbanMetrics) : ''}
+
+            <!-- Flow Metrics -->
+            ${additionalData?.flowMetrics ? this.generateFlowMetricsHTML(additionalData.flowMetrics) : ''}
+
+            <!-- Estimation Accuracy -->
+            ${estimationAccuracy?.overall ? this.generateEstimationAccuracyHTML(estimationAccuracy) : ''}
+
             <!-- Quality & Standards Overview -->
             <div class="section">
                 <h2>Quality & Standards Overview</h2>
@@ -742,7 +787,7 @@ export class ExecutiveExportRenderer implements ExportRenderer {
     const qualityStatus = qualityScore >= 80 ? 'excellent' : qualityScore >= 60 ? 'good' : qualityScore >= 40 ? 'fair' : 'poor';
 
     // Calculate completion rate
-    const completedIssues = allIssues.filter(issue => isIssueCompleted(issue.status));
+    const completedIssues = allIssues.filter(issue => isIssueCompleted(issue));
     const completionRate = Math.round((completedIssues.length / allIssues.length) * 100);
     const completionStatus = completionRate >= 90 ? 'excellent' : completionRate >= 75 ? 'good' : completionRate >= 60 ? 'fair' : 'poor';
 
@@ -763,7 +808,7 @@ export class ExecutiveExportRenderer implements ExportRenderer {
   }
 
   private analyzeBusinessImpact(allIssues: Issue[]): any {
-    const completedIssues = allIssues.filter(issue => isIssueCompleted(issue.status));
+    const completedIssues = allIssues.filter(issue => isIssueCompleted(issue));
     const highValueIssues = completedIssues.filter(issue => (issue.storyPoints || 0) >= 8);
     const totalStoryPoints = completedIssues.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
     const highValuePoints = highValueIssues.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
@@ -787,7 +832,7 @@ export class ExecutiveExportRenderer implements ExportRenderer {
 
     const velocity = (sprintMetrics.completedTotalPoints / sprintMetrics.estimatedPoints) * 100;
     const qualityScore = this.calculateQualityScore(sprintMetrics.qualityChecklist);
-    const completionRate = (allIssues.filter(issue => isIssueCompleted(issue.status)).length / allIssues.length) * 100;
+    const completionRate = (allIssues.filter(issue => isIssueCompleted(issue)).length / allIssues.length) * 100;
 
     if (velocity < 75) {
       recommendations.push('Review sprint planning process to improve estimation accuracy and scope management');
@@ -826,6 +871,249 @@ export class ExecutiveExportRenderer implements ExportRenderer {
     return `Executive_Summary_${sprintName}_${timestamp}.html`;
   }
 
+  // Kanban boards have no sprint commitment, so the velocity card shows throughput instead
+  private generateThroughputCardHTML(kanbanMetrics: KanbanMetrics): string {
+    const status = kanbanMetrics.wip.columnsOverLimit === 0 ? 'good' : 'fair';
+    return `
+                    <div class="metric-card">
+                        <div class="metric-value">${kanbanMetrics.throughput.perWeek}</div>
+                        <div class="metric-label">Throughput / Week</div>
+                        <div class="metric-status status-${status}">${kanbanMetrics.throughput.issues} RESOLVED · ${kanbanMetrics.wip.current} WIP</div>
+                    </div>`;
+  }
+
+  private generateKanbanHTML(kanbanMetrics: KanbanMetrics): string {
+    const weeks = kanbanMetrics.throughput.weeks
+      .map(week => `
+                        <tr>
+                            <td>${week.weekStart}</td>
+                            <td>${week.issues}</td>
+                            <td>${week.points}</td>
+                        </tr>`)
+      .join('');
+    const columns = kanbanMetrics.wip.columns
+      .map(column => `
+                        <tr>
+                            <td>${column.name}</td>
+                            <td>${column.count}</td>
+                            <td>${column.max !== undefined ? column.max : '–'}</td>
+                            <td>${column.overLimit ? 'Over limit' : column.underLimit ? 'Under minimum' : 'OK'}</td>
+                        </tr>`)
+      .join('');
+
+    return `
+            <div class="section">
+                <h2>Throughput & WIP</h2>
+                <p>${kanbanMetrics.throughput.issues} issues (${kanbanMetrics.throughput.points} story points) resolved from ${kanbanMetrics.from} to ${kanbanMetrics.to}; ${kanbanMetrics.wip.current} in progress on the board.</p>
+                <table class="flow-table">
+                    <thead>
+                        <tr>
+                            <th>Week Of</th>
+                            <th>Resolved</th>
+                            <th>Points</th>
+                        </tr>
+                    </thead>
+                    <tbody>${weeks}
+                    </tbody>
+                </table>
+                ${columns ? `
+                <table class="flow-table">
+                    <thead>
+                        <tr>
+                            <th>Column</th>
+                            <th>Issues</th>
+                            <th>WIP Limit</th>
+                            <th>Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>${columns}
+                    </tbody>
+                </table>` : ''}
+            </div>`;
+  }
+
+  private generateFlowMetricsHTML(flowMetrics: FlowMetrics): string {
+    const { cycleTime, leadTime } = flowMetrics.overall;
+    const rows = Object.entries(flowMetrics.byType)
+      .map(([issueType, stats]) => `
+                        <tr>
+                            <td>${issueType}</td>
+                            <td>${stats.cycleTime?.count ?? 0}</td>
+                            <td>${stats.cycleTime ? `${stats.cycleTime.p50} / ${stats.cycleTime.p85} / ${stats.cycleTime.p95}` : '–'}</td>
+                            <td>${stats.leadTime ? `${stats.leadTime.p50} / ${stats.leadTime.p85} / ${stats.leadTime.p95}` : '–'}</td>
+                        </tr>`)
+      .join('');
+    const outliers = flowMetrics.outliers
+      .map(issue => `<li class="flow-outlier">• ${issue.key}: ${issue.summary} (${issue.cycleTimeDays} days)</li>`)
+      .join('');
+
+    return `
+            <div class="section">
+                <h2>Flow Metrics</h2>
+                <div class="metrics-grid">
+                    <div class="metric-card">
+                        <div class="metric-value">${cycleTime ? cycleTime.average : '–'}</div>
+                        <div class="metric-label">Avg Cycle Time (days)</div>
+                    </div>
+                    <div class="metric-card">
+                        <div class="metric-value">${cycleTime ? cycleTime.p85 : '–'}</div>
+                        <div class="metric-label">85th Percentile Cycle Time</div>
+                    </div>
+                    <div class="metric-card">
+                        <div class="metric-value">${leadTime ? leadTime.average : '–'}</div>
+                        <div class="metric-label">Avg Lead Time (days)</div>
+                    </div>
+                    <div class="metric-card">
+                        <div class="metric-value">${flowMetrics.outliers.length}</div>
+                        <div class="metric-label">Cycle Time Outliers</div>
+                    </div>
+                </div>
+                <table class="flow-table">
+                    <thead>
+                        <tr>
+                            <th>Issue Type</th>
+                            <th>Done</th>
+                            <th>Cycle Time p50 / p85 / p95</th>
+                            <th>Lead Time p50 / p85 / p95</th>
+                        </tr>
+                    </thead>
+                    <tbody>${rows}
+                    </tbody>
+                </table>
+                ${outliers ? `
+                <div class="recommendations" style="margin-top: 2rem;">
+                    <h3>Outliers to Discuss</h3>
+                    <ul>${outliers}</ul>
+                </div>` : ''}
+            </div>`;
+  }
+
+  private generateProgramHTML(allIssues: Issue[]): string {
+    const totals = getProgramTotals(allIssues);
+    const teams = getTeamBreakdown(allIssues);
+    const rows = [...teams, totals]
+      .map(team => `
+                        <tr${team === totals ? ' style="font-weight: 600;"' : ''}>
+                            <td>${team.team}</td>
+                            <td>${team.completed}/${team.issues}</td>
+                            <td>${team.completedPoints}/${team.points}</td>
+                            <td>${team.completionRate}%</td>
+                            <td>${team.bugs}</td>
+                        </tr>`)
+      .join('');
+
+    const teamSections = Array.from(groupIssuesByTeam(allIssues).entries())
+      .map(([team, teamIssues]) => {
+        const delivered = teamIssues.filter(issue => !issue.isSubtask && isIssueCompleted(issue));
+        const open = teamIssues.filter(issue => !issue.isSubtask && !isIssueCompleted(issue));
+        return `
+                    <div class="impact-item">
+                        <h3>${team}</h3>
+                        <p>${delivered.length} items delivered${delivered.length > 0 ? `: ${delivered.slice(0, 5).map(issue => issue.summary).join('; ')}${delivered.length > 5 ? '…' : ''}` : ''}.</p>
+                        <p>${open.length} items not finished.</p>
+                    </div>`;
+      })
+      .join('');
+
+    return `
+            <div class="section">
+                <h2>Program Overview</h2>
+                <div class="metrics-grid">
+                    <div class="metric-card">
+                        <div class="metric-value">${teams.length}</div>
+                        <div class="metric-label">Teams</div>
+                    </div>
+                    <div class="metric-card">
+                        <div class="metric-value">${totals.completed}/${totals.issues}</div>
+                        <div class="metric-label">Issues Completed</div>
+                    </div>
+                    <div class="metric-card">
+                        <div class="metric-value">${totals.completedPoints}/${totals.points}</div>
+                        <div class="metric-label">Points Completed</div>
+                    </div>
+                    <div class="metric-card">
+                        <div class="metric-value">${totals.completionRate}%</div>
+                        <div class="metric-label">Program Completion</div>
+                    </div>
+                </div>
+                <table class="flow-table">
+                    <thead>
+                        <tr>
+                            <th>Team</th>
+                            <th>Issues Done</th>
+                            <th>Points Done</th>
+                            <th>Completion</th>
+                            <th>Bugs</th>
+                        </tr>
+                    </thead>
+                    <tbody>${rows}
+                    </tbody>
+                </table>
+                <div class="impact-grid" style="margin-top: 1.5rem;">${teamSections}
+                </div>
+            </div>`;
+  }
+
+  private generateEstimationAccuracyHTML(report: EstimationAccuracyReport): string {
+    const overall = report.overall!;
+    const rows = [
+      ...Object.entries(report.byType).map(([group, stats]) => ({ label: `Type: ${group}`, stats })),
+      ...Object.entries(report.byEpic).map(([group, stats]) => ({ label: `Epic: ${group}`, stats })),
+      ...Object.entries(report.byAssignee).map(([group, stats]) => ({ label: `Assignee: ${group}`, stats })),
+    ]
+      .map(({ label, stats }) => `
+                        <tr>
+                            <td>${label}</td>
+                            <td>${stats.count}</td>
+                            <td>${formatHours(stats.estimatedHours)}</td>
+                            <td>${formatHours(stats.spentHours)}</td>
+                            <td>${stats.ratio}x</td>
+                            <td>${stats.onTargetPercent}%</td>
+                        </tr>`)
+      .join('');
+
+    return `
+            <div class="section">
+                <h2>Estimation Accuracy</h2>
+                <div class="metrics-grid">
+                    <div class="metric-card">
+                        <div class="metric-value">${overall.count}</div>
+                        <div class="metric-label">Issues Measured</div>
+                    </div>
+                    <div class="metric-card">
+                        <div class="metric-value">${formatHours(overall.estimatedHours)}</div>
+                        <div class="metric-label">Original Estimate</div>
+                    </div>
+                    <div class="metric-card">
+                        <div class="metric-value">${formatHours(overall.spentHours)}</div>
+                        <div class="metric-label">Time Spent (${overall.ratio}x)</div>
+                    </div>
+                    <div class="metric-card">
+                        <div class="metric-value">${overall.onTargetPercent}%</div>
+                        <div class="metric-label">Within 20% of Estimate</div>
+                    </div>
+                </div>
+                <table class="flow-table">
+                    <thead>
+                        <tr>
+                            <th>Group</th>
+                            <th>Issues</th>
+                            <th>Estimated</th>
+                            <th>Spent</th>
+                            <th>Spent / Estimate</th>
+                            <th>On Target</th>
+                        </tr>
+                    </thead>
+                    <tbody>${rows}
+                    </tbody>
+                </table>
+                ${report.unestimated > 0 ? `
+                <p style="margin-top: 1rem; color: #6b7280;">${report.unestimated} completed issue(s) had time logged without an original estimate.</p>` : ''}
+                ${report.noTimeLogged > 0 ? `
+                <p style="margin-top: 0.5rem; color: #6b7280;">${report.noTimeLogged} completed issue(s) had an original estimate but no time logged.</p>` : ''}
+            </div>`;
+  }
+
   private generateQualityStandardsHTML(sprintMetrics: SprintMetrics | null | undefined): string {
     if (!sprintMetrics?.qualityChecklist) {
       return '<p>No quality checklist data available</p>';
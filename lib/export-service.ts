@@ -3,6 +3,7 @@ import html2canvas from 'html2canvas';
 import { saveAs } from 'file-saver';
 import { exportQualityAssurance } from './export-quality-assurance';
 import { exportErrorHandler } from './export-error-handler';
+import type { SafeJiraIssueLink } from './jira-types';
 import { exportCache } from './export-cache';
 
 // Enhanced types for export functionality
@@ -16,6 +17,7 @@ export interface ExportOptions {
   interactive?: boolean;
   batchSize?: number;
   progressive?: boolean;
+  includeEstimationAccuracy?: boolean; // Estimate vs. time spent section; shown when issues have time tracking unless false
 }
 
 export interface ExportProgress {
@@ -45,7 +47,7 @@ export interface PresentationSlide {
     type: string;
     data: any;
   };
-  type: "title" | "summary" | "metrics" | "demo-story" | "custom" | "corporate" | "qa" | "executive" | "quarterly-plan";
+  type: "title" | "summary" | "metrics" | "demo-story" | "custom" | "corporate" | "qa" | "executive" | "quarterly-plan" | "scope-change" | "burndown" | "dependencies";
   order: number;
   corporateSlideUrl?: string;
   storyId?: string;
@@ -57,14 +59,25 @@ export interface Issue {
   summary: string;
   description?: string;
   status: string;
+  statusCategory?: string;
+  completed?: boolean;
   assignee?: string;
   storyPoints?: number;
   issueType: string;
   isSubtask: boolean;
+  parentKey?: string;
   epicKey?: string;
   epicName?: string;
   epicColor?: string;
   releaseNotes?: string;
+  originalEstimateSeconds?: number;
+  timeSpentSeconds?: number;
+  components?: string[];
+  labels?: string[];
+  priority?: string;
+  resolution?: string;
+  links?: SafeJiraIssueLink[];
+  team?: string; // Board name; only set in program reviews
 }
 
 export interface SprintMetrics {
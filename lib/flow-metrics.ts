@@ -0,0 +1,161 @@
+// Cycle time and lead time from status transition history
+
+import type { SafeJiraChangelogEntry, SafeJiraIssue } from "./jira-types"
+import { getCompletionDate } from "./sprint-burndown"
+import { getEffectiveStatusCategory, type CompletionRule } from "./issue-completion"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MIN_GROUP_SIZE = 4 // Smaller issue-type groups use the sprint-wide distribution for outliers
+
+export interface IssueFlowTime {
+  key: string
+  summary: string
+  issueType: string
+  storyPoints: number
+  startedAt?: string
+  completedAt?: string
+  cycleTimeDays?: number // First "in progress" to done
+  leadTimeDays?: number // Created to done
+  isOutlier: boolean
+}
+
+export interface FlowTimeStats {
+  count: number
+  average: number
+  p50: number
+  p85: number
+  p95: number
+  max: number
+}
+
+export interface FlowMetrics {
+  issues: IssueFlowTime[]
+  overall: {
+    cycleTime: FlowTimeStats | null
+    leadTime: FlowTimeStats | null
+  }
+  byType: Record<string, { cycleTime: FlowTimeStats | null; leadTime: FlowTimeStats | null }>
+  outliers: IssueFlowTime[]
+  generatedAt: string
+}
+
+export interface SprintFlowMetrics extends FlowMetrics {
+  sprintId: string
+}
+
+function toDays(from: string, to: string): number {
+  return Math.round(((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS) * 10) / 10
+}
+
+// Linear interpolation between closest ranks
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const rank = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  const value = sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+  return Math.round(value * 10) / 10
+}
+
+export function getFlowTimeStats(values: number[]): FlowTimeStats | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  return {
+    count: sorted.length,
+    average: Math.round((sorted.reduce((sum, value) => sum + value, 0) / sorted.length) * 10) / 10,
+    p50: percentile(sorted, 50),
+    p85: percentile(sorted, 85),
+    p95: percentile(sorted, 95),
+    max: sorted[sorted.length - 1],
+  }
+}
+
+// Tukey's upper fence: Q3 + 1.5 * IQR
+function getOutlierThreshold(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const q1 = percentile(sorted, 25)
+  const q3 = percentile(sorted, 75)
+  return q3 + 1.5 * (q3 - q1)
+}
+
+/**
+ * Returns when work first moved into an in-progress status, if it ever did
+ */
+export function getStartDate(changelog: SafeJiraChangelogEntry[], completionRule: CompletionRule | null): string | null {
+  for (const entry of changelog) {
+    for (const item of entry.items) {
+      if (item.field.toLowerCase() !== "status") continue
+      const category = getEffectiveStatusCategory(completionRule, item.to, item.toText)
+      if (category !== "new" && category !== "done") return entry.created
+    }
+  }
+  return null
+}
+
+/**
+ * Computes per-issue cycle and lead time, percentiles by issue type and outliers.
+ * Only completed issues have flow times; open issues are listed without them.
+ */
+export function computeFlowMetrics(
+  issues: SafeJiraIssue[],
+  changelogs: Record<string, SafeJiraChangelogEntry[]>,
+  completionRule: CompletionRule | null,
+): FlowMetrics {
+  const flowTimes: IssueFlowTime[] = issues.map((issue) => {
+    const changelog = changelogs[issue.key] || []
+    const completedAt = getCompletionDate(issue, changelog, completionRule) ?? undefined
+    const startedAt = getStartDate(changelog, completionRule) ?? undefined
+
+    return {
+      key: issue.key,
+      summary: issue.summary,
+      issueType: issue.issueType,
+      storyPoints: issue.storyPoints || 0,
+      startedAt,
+      completedAt,
+      cycleTimeDays: startedAt && completedAt ? Math.max(0, toDays(startedAt, completedAt)) : undefined,
+      leadTimeDays: issue.created && completedAt ? Math.max(0, toDays(issue.created, completedAt)) : undefined,
+      isOutlier: false,
+    }
+  })
+
+  const cycleTimes = (items: IssueFlowTime[]) =>
+    items.filter((item) => item.cycleTimeDays !== undefined).map((item) => item.cycleTimeDays as number)
+  const leadTimes = (items: IssueFlowTime[]) =>
+    items.filter((item) => item.leadTimeDays !== undefined).map((item) => item.leadTimeDays as number)
+
+  const byType: FlowMetrics["byType"] = {}
+  const groups = new Map<string, IssueFlowTime[]>()
+  flowTimes.forEach((item) => {
+    groups.set(item.issueType, [...(groups.get(item.issueType) || []), item])
+  })
+
+  const overallCycleTimes = cycleTimes(flowTimes)
+  const overallThreshold = overallCycleTimes.length >= MIN_GROUP_SIZE ? getOutlierThreshold(overallCycleTimes) : Infinity
+
+  groups.forEach((items, issueType) => {
+    const typeCycleTimes = cycleTimes(items)
+    byType[issueType] = {
+      cycleTime: getFlowTimeStats(typeCycleTimes),
+      leadTime: getFlowTimeStats(leadTimes(items)),
+    }
+
+    const threshold = typeCycleTimes.length >= MIN_GROUP_SIZE ? getOutlierThreshold(typeCycleTimes) : overallThreshold
+    items.forEach((item) => {
+      item.isOutlier = item.cycleTimeDays !== undefined && item.cycleTimeDays > threshold
+    })
+  })
+
+  return {
+    issues: flowTimes,
+    overall: {
+      cycleTime: getFlowTimeStats(overallCycleTimes),
+      leadTime: getFlowTimeStats(leadTimes(flowTimes)),
+    },
+    byType,
+    outliers: flowTimes
+      .filter((item) => item.isOutlier)
+      .sort((a, b) => (b.cycleTimeDays || 0) - (a.cycleTimeDays || 0)),
+    generatedAt: new Date().toISOString(),
+  }
+}
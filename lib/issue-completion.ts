@@ -0,0 +1,85 @@
+// Issue completion rule: status category by default, optionally the board's column layout
+
+export type StatusCategoryKey = "new" | "indeterminate" | "done"
+
+export type CompletionRuleSource = "status-category" | "board-columns"
+
+export interface JiraStatusInfo {
+  id: string
+  name: string
+  category: StatusCategoryKey
+}
+
+export interface BoardColumn {
+  name: string
+  statusIds: string[]
+}
+
+/**
+ * Effective category for every known status. With the board-columns source the first
+ * column counts as not started and the last column as done, whatever Jira's category says.
+ */
+export interface CompletionRule {
+  source: CompletionRuleSource
+  boardId?: number
+  statusCategories: Record<string, StatusCategoryKey> // By status ID
+  statusNames: Record<string, StatusCategoryKey> // By lower-case status name, for changelog entries without IDs
+}
+
+export function toStatusCategoryKey(value: any): StatusCategoryKey | undefined {
+  return value === "new" || value === "indeterminate" || value === "done" ? value : undefined
+}
+
+export function buildStatusCategoryRule(statuses: JiraStatusInfo[]): CompletionRule {
+  const rule: CompletionRule = { source: "status-category", statusCategories: {}, statusNames: {} }
+  for (const status of statuses) {
+    rule.statusCategories[status.id] = status.category
+    rule.statusNames[status.name.toLowerCase()] = status.category
+  }
+  return rule
+}
+
+/**
+ * Overrides the status categories with the board's columns. Statuses that are not on the
+ * board keep their category from the base rule.
+ */
+export function buildBoardColumnRule(
+  boardId: number,
+  columns: BoardColumn[],
+  statuses: JiraStatusInfo[]
+): CompletionRule {
+  const rule = { ...buildStatusCategoryRule(statuses), source: "board-columns" as const, boardId }
+  const mapped = columns.filter((column) => column.statusIds.length > 0)
+  if (mapped.length === 0) return rule
+
+  const namesById = new Map(statuses.map((status) => [status.id, status.name.toLowerCase()]))
+  mapped.forEach((column, index) => {
+    const category: StatusCategoryKey =
+      index === mapped.length - 1 ? "done" : index === 0 && mapped.length > 1 ? "new" : "indeterminate"
+    for (const statusId of column.statusIds) {
+      rule.statusCategories[statusId] = category
+      const name = namesById.get(statusId)
+      if (name) rule.statusNames[name] = category
+    }
+  })
+  return rule
+}
+
+/**
+ * Category of a status under the rule, or the fallback (usually Jira's own category) when
+ * the rule does not know the status
+ */
+export function getEffectiveStatusCategory(
+  rule: CompletionRule | null | undefined,
+  statusId?: string | null,
+  statusName?: string | null,
+  fallback?: StatusCategoryKey
+): StatusCategoryKey | undefined {
+  if (rule && statusId && rule.statusCategories[statusId]) return rule.statusCategories[statusId]
+  if (rule && statusName && rule.statusNames[statusName.toLowerCase()]) return rule.statusNames[statusName.toLowerCase()]
+  return fallback
+}
+
+export function isDoneStatus(rule: CompletionRule | null | undefined, statusId?: string | null, statusName?: string | null): boolean {
+  return getEffectiveStatusCategory(rule, statusId, statusName) === "done"
+}
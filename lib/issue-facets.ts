@@ -0,0 +1,119 @@
+// Faceted breakdowns: issues grouped by priority, component, label or resolution
+
+import { buildIssueHierarchy, type HierarchyIssue } from "./issue-hierarchy"
+import { isIssueCompleted } from "./utils"
+
+export type IssueFacet = "priority" | "component" | "label" | "resolution"
+
+export interface FacetIssue extends HierarchyIssue {
+  issueType: string
+  components?: string[]
+  labels?: string[]
+  priority?: string
+  resolution?: string
+}
+
+export interface FacetBucket {
+  value: string
+  total: number
+  completed: number
+  points: number
+  completedPoints: number
+}
+
+export interface ResolutionSummary {
+  delivered: number // Resolved as done/fixed
+  notDelivered: number // Resolved without doing the work: won't do, duplicate, cannot reproduce...
+  unresolved: number
+}
+
+export const FACET_LABELS: Record<IssueFacet, string> = {
+  priority: "Priority",
+  component: "Component",
+  label: "Label",
+  resolution: "Resolution",
+}
+
+// Bucket for issues with no value, always listed last
+export const FACET_EMPTY_VALUES: Record<IssueFacet, string> = {
+  priority: "No Priority",
+  component: "No Component",
+  label: "No Label",
+  resolution: "Unresolved",
+}
+
+// Jira Cloud and Data Center default schemes, most urgent first
+const PRIORITY_ORDER = ["blocker", "highest", "critical", "high", "major", "medium", "minor", "low", "trivial", "lowest"]
+
+const NOT_DELIVERED_RESOLUTION = /won'?t|duplicate|cannot reproduce|can't reproduce|invalid|declined|obsolete|incomplete|rejected/i
+
+export function isBug(issue: { issueType: string }): boolean {
+  return issue.issueType.toLowerCase() === "bug"
+}
+
+export function isNotDeliveredResolution(resolution?: string): boolean {
+  return !!resolution && NOT_DELIVERED_RESOLUTION.test(resolution)
+}
+
+function getFacetValues(issue: FacetIssue, facet: IssueFacet): string[] {
+  switch (facet) {
+    case "priority":
+      return issue.priority ? [issue.priority] : []
+    case "component":
+      return issue.components || []
+    case "label":
+      return issue.labels || []
+    case "resolution":
+      return issue.resolution ? [issue.resolution] : []
+  }
+}
+
+function priorityRank(value: string): number {
+  const index = PRIORITY_ORDER.indexOf(value.toLowerCase())
+  return index === -1 ? PRIORITY_ORDER.length : index
+}
+
+/**
+ * Groups issues by one facet. Sub-tasks are counted through their parents so points are not
+ * double counted. Issues with several components or labels count once in each of their buckets,
+ * so bucket totals can add up to more than the number of issues.
+ */
+export function getFacetBreakdown<T extends FacetIssue>(issues: T[], facet: IssueFacet): FacetBucket[] {
+  const buckets = new Map<string, FacetBucket>()
+  for (const node of buildIssueHierarchy(issues)) {
+    const values = getFacetValues(node.issue, facet)
+    const completed = isIssueCompleted(node.issue)
+    for (const value of values.length > 0 ? values : [FACET_EMPTY_VALUES[facet]]) {
+      const bucket = buckets.get(value) || { value, total: 0, completed: 0, points: 0, completedPoints: 0 }
+      bucket.total++
+      if (completed) bucket.completed++
+      bucket.points += node.storyPoints
+      bucket.completedPoints += node.completedPoints
+      buckets.set(value, bucket)
+    }
+  }
+
+  const empty = FACET_EMPTY_VALUES[facet]
+  return Array.from(buckets.values()).sort((a, b) => {
+    if (a.value === empty || b.value === empty) return a.value === empty ? 1 : -1
+    if (facet === "priority") {
+      const rank = priorityRank(a.value) - priorityRank(b.value)
+      if (rank !== 0) return rank
+    }
+    return b.total - a.total || a.value.localeCompare(b.value)
+  })
+}
+
+/**
+ * Splits resolved issues into work that was delivered and work closed without doing it
+ * (won't fix, duplicate...), which still counts as completed on the board
+ */
+export function getResolutionSummary<T extends FacetIssue>(issues: T[]): ResolutionSummary {
+  const summary: ResolutionSummary = { delivered: 0, notDelivered: 0, unresolved: 0 }
+  for (const node of buildIssueHierarchy(issues)) {
+    if (!node.issue.resolution) summary.unresolved++
+    else if (isNotDeliveredResolution(node.issue.resolution)) summary.notDelivered++
+    else summary.delivered++
+  }
+  return summary
+}
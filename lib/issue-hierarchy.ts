@@ -0,0 +1,96 @@
+// Sub-task hierarchy: nests sub-tasks under their parent issues and rolls up their progress
+
+import { isIssueCompleted, type CompletableIssue } from "./utils"
+
+export interface HierarchyIssue extends CompletableIssue {
+  key: string
+  isSubtask?: boolean
+  parentKey?: string
+  storyPoints?: number
+  assignee?: string
+}
+
+export interface SubtaskRollup {
+  total: number
+  completed: number
+  points: number
+  completedPoints: number
+  assignees: string[] // Everyone working on the issue: the parent's assignee first
+}
+
+export interface IssueHierarchyNode<T extends HierarchyIssue> {
+  issue: T
+  subtasks: T[]
+  rollup: SubtaskRollup | null // null when the issue has no sub-tasks in the list
+  // Points counted once per parent: its own estimate, or the sub-task total when it has none
+  storyPoints: number
+  completedPoints: number
+}
+
+function isSubtaskOf(issue: HierarchyIssue, keys: Set<string>): boolean {
+  return !!issue.isSubtask && !!issue.parentKey && keys.has(issue.parentKey)
+}
+
+function buildRollup<T extends HierarchyIssue>(parent: T, subtasks: T[]): SubtaskRollup | null {
+  if (subtasks.length === 0) return null
+
+  const assignees = [parent.assignee, ...subtasks.map((subtask) => subtask.assignee)].filter(
+    (assignee): assignee is string => !!assignee
+  )
+  const completed = subtasks.filter((subtask) => isIssueCompleted(subtask))
+  return {
+    total: subtasks.length,
+    completed: completed.length,
+    points: subtasks.reduce((sum, subtask) => sum + (subtask.storyPoints || 0), 0),
+    completedPoints: completed.reduce((sum, subtask) => sum + (subtask.storyPoints || 0), 0),
+    assignees: Array.from(new Set(assignees)),
+  }
+}
+
+/**
+ * Nests sub-tasks under their parents, keeping the original order. Sub-tasks whose parent is
+ * not in the list (e.g. it lives in another sprint) stay at the top level on their own.
+ */
+export function buildIssueHierarchy<T extends HierarchyIssue>(issues: T[]): IssueHierarchyNode<T>[] {
+  const keys = new Set(issues.map((issue) => issue.key))
+  const subtasksByParent = new Map<string, T[]>()
+  for (const issue of issues) {
+    if (isSubtaskOf(issue, keys)) {
+      subtasksByParent.set(issue.parentKey!, [...(subtasksByParent.get(issue.parentKey!) || []), issue])
+    }
+  }
+
+  return issues
+    .filter((issue) => !isSubtaskOf(issue, keys))
+    .map((issue) => {
+      const subtasks = subtasksByParent.get(issue.key) || []
+      const rollup = buildRollup(issue, subtasks)
+      const completed = isIssueCompleted(issue)
+
+      // An unestimated parent is sized by its sub-tasks and progresses as they finish
+      if (!issue.storyPoints && rollup && rollup.points > 0) {
+        return {
+          issue,
+          subtasks,
+          rollup,
+          storyPoints: rollup.points,
+          completedPoints: completed ? rollup.points : rollup.completedPoints,
+        }
+      }
+
+      const storyPoints = issue.storyPoints || 0
+      return { issue, subtasks, rollup, storyPoints, completedPoints: completed ? storyPoints : 0 }
+    })
+}
+
+/**
+ * Sub-task progress for one issue, or null when it has no sub-tasks in the list
+ */
+export function getSubtaskRollup<T extends HierarchyIssue>(issues: T[], parentKey: string): SubtaskRollup | null {
+  const parent = issues.find((issue) => issue.key === parentKey)
+  if (!parent) return null
+  return buildRollup(
+    parent,
+    issues.filter((issue) => issue.isSubtask && issue.parentKey === parentKey)
+  )
+}
@@ -0,0 +1,128 @@
+// Jira data hygiene checks run before a review is generated: gaps that would otherwise surface in the meeting
+
+import { isIssueCompleted, type CompletableIssue } from "./utils"
+
+export type HygieneRuleId = "unestimated" | "missing-epic" | "demo-missing-release-notes" | "done-with-open-subtasks"
+
+// "block" stops presentation generation until fixed; "warn" only flags the issue
+export type HygieneSeverity = "off" | "warn" | "block"
+
+export type HygieneRuleConfig = Record<HygieneRuleId, HygieneSeverity>
+
+export interface HygieneRule {
+  id: HygieneRuleId
+  label: string
+  description: string
+}
+
+export const HYGIENE_RULES: HygieneRule[] = [
+  { id: "unestimated", label: "Unestimated", description: "Stories and tasks without story points" },
+  { id: "missing-epic", label: "Missing epic", description: "Issues not linked to an epic" },
+  {
+    id: "demo-missing-release-notes",
+    label: "Demo story without release notes",
+    description: "Selected demo stories with an empty release notes field",
+  },
+  {
+    id: "done-with-open-subtasks",
+    label: "Done with open sub-tasks",
+    description: "Completed issues whose sub-tasks are still open",
+  },
+]
+
+export const DEFAULT_HYGIENE_RULES: HygieneRuleConfig = {
+  unestimated: "warn",
+  "missing-epic": "warn",
+  "demo-missing-release-notes": "warn",
+  "done-with-open-subtasks": "warn",
+}
+
+// Epics group the estimated work, so the estimate and epic link rules skip them
+const EPIC_ISSUE_TYPES = ["epic"]
+
+export interface HygieneIssue extends CompletableIssue {
+  id: string
+  key: string
+  summary: string
+  issueType: string
+  isSubtask: boolean
+  parentKey?: string
+  storyPoints?: number
+  epicKey?: string
+  epicName?: string
+  releaseNotes?: string
+}
+
+export interface HygieneFinding {
+  ruleId: HygieneRuleId
+  severity: Exclude<HygieneSeverity, "off">
+  issueKey: string
+  summary: string
+  detail?: string
+}
+
+export interface HygieneReport {
+  findings: HygieneFinding[]
+  warnings: number
+  blockers: number
+  checkedIssues: number
+}
+
+function isEpic(issue: HygieneIssue): boolean {
+  return EPIC_ISSUE_TYPES.includes(issue.issueType.toLowerCase())
+}
+
+/**
+ * Checks the review's issues against each enabled rule. Sub-tasks are estimated and linked to
+ * epics through their parent, so only the open sub-task rule looks at them; it can only see
+ * sub-tasks loaded with the review.
+ *
+ * @param demoStoryIds - IDs of the selected demo stories, for the release notes rule
+ */
+export function checkIssueHygiene(
+  issues: HygieneIssue[],
+  demoStoryIds: string[],
+  rules: HygieneRuleConfig = DEFAULT_HYGIENE_RULES
+): HygieneReport {
+  const findings: HygieneFinding[] = []
+  const add = (ruleId: HygieneRuleId, issue: HygieneIssue, detail?: string) => {
+    const severity = rules[ruleId] ?? DEFAULT_HYGIENE_RULES[ruleId]
+    if (severity === "off") return
+    findings.push({ ruleId, severity, issueKey: issue.key, summary: issue.summary, detail })
+  }
+
+  const openSubtasks = new Map<string, string[]>()
+  for (const issue of issues) {
+    if (issue.isSubtask && issue.parentKey && !isIssueCompleted(issue)) {
+      openSubtasks.set(issue.parentKey, [...(openSubtasks.get(issue.parentKey) || []), issue.key])
+    }
+  }
+
+  for (const issue of issues) {
+    if (!issue.isSubtask && !isEpic(issue)) {
+      if (!issue.storyPoints) add("unestimated", issue)
+      if (!issue.epicKey && !issue.epicName) add("missing-epic", issue)
+    }
+
+    if (demoStoryIds.includes(issue.id) && !issue.releaseNotes?.trim()) {
+      add("demo-missing-release-notes", issue)
+    }
+
+    const open = openSubtasks.get(issue.key)
+    if (open && isIssueCompleted(issue)) {
+      add("done-with-open-subtasks", issue, `Open: ${open.join(", ")}`)
+    }
+  }
+
+  return {
+    findings,
+    warnings: findings.filter((finding) => finding.severity === "warn").length,
+    blockers: findings.filter((finding) => finding.severity === "block").length,
+    checkedIssues: issues.length,
+  }
+}
+
+// Opens the issue in Jira to fix it there
+export function getJiraIssueUrl(baseUrl: string, issueKey: string): string {
+  return `${baseUrl.replace(/\/+$/, "")}/browse/${encodeURIComponent(issueKey)}`
+}
@@ -1,21 +1,78 @@
 "use server"
 
-import { validateEnv, getJiraHeaders, handleJiraResponse, env } from "./jira-env"
+import { cookies } from "next/headers"
+import {
+  validateEnv,
+  getJiraHeaders,
+  getJiraApiUrl,
+  handleJiraResponse,
+  isDataCenter,
+  getJiraProfile,
+  getJiraProfiles,
+  toJiraProfileSummary,
+  isWriteBackEnabled,
+  type JiraConnectionProfile,
+} from "./jira-env"
 import {
   isValidJiraProjectsResponse,
   isValidJiraSprintsResponse,
   isValidJiraSearchResponse,
   isValidJiraBoardsResponse,
+  isValidJiraChangelogResponse,
+  isValidJiraVersionsResponse,
   extractSafeProject,
   extractSafeSprint,
   extractSafeIssue,
   extractSafeUser,
+  extractSafeChangelog,
+  extractSafeVersion,
   type SafeJiraSprint,
+  type SafeJiraVersion,
   type SafeJiraIssue,
   type SafeJiraUser,
-  JIRA_FIELDS,
+  type JiraIssue,
+  type JiraChangelogHistory,
+  type SafeJiraChangelogEntry,
+  type JiraFieldMapping,
+  type JiraProfileSummary,
+  type JiraChangeNotification,
   getAllJiraFields,
+  JIRA_PROFILE_COOKIE,
 } from "./jira-types"
+import { getFieldMappingEntry, setFieldMappingEntry } from "./jira-field-mapping-store"
+import {
+  discoverFieldMapping,
+  detectReleaseNotesFields,
+  type JiraFieldMetadata,
+  type JiraFieldMappingEntry,
+  type JiraFieldDiscoveryResult,
+  type ReleaseNotesFieldCandidate,
+} from "./jira-field-mapping"
+import { jiraRequest, getJiraClientStats, type JiraClientStats } from "./jira-http-client"
+import { handleMockJiraRequest } from "./jira-mock"
+import { createJiraCacheStore, getCacheKey, getCachePolicy, type JiraCacheEntry } from "./jira-cache"
+import {
+  buildBoardColumnRule,
+  buildStatusCategoryRule,
+  toStatusCategoryKey,
+  type CompletionRule,
+  type CompletionRuleSource,
+  type JiraStatusInfo,
+} from "./issue-completion"
+import { buildSprintScopeChange, type SprintScopeChange } from "./sprint-scope"
+import { buildSprintBurndown, type SprintBurndown } from "./sprint-burndown"
+import { computeFlowMetrics, type SprintFlowMetrics } from "./flow-metrics"
+import { buildKanbanMetrics, type KanbanColumn, type KanbanMetrics } from "./kanban-metrics"
+import { buildEpicForecasts, type EpicForecastSet } from "./epic-forecast"
+import { canRebuildFromMarkdown, markdownToADF, richTextToMarkdown } from "./adf"
+import { recordJiraWrite, getJiraWriteAudit } from "./jira-write-audit"
+import {
+  type JiraWriteAction,
+  type JiraWriteAuditEntry,
+  type JiraWriteResult,
+  type ReleaseNotesChange,
+  type SprintOverviewTarget,
+} from "./jira-write-back"
 
 export interface JiraProjectsResult {
   key: string
@@ -33,39 +90,52 @@ export interface JiraSprintsResult {
 
 export interface JiraIssuesResult {
   issues: SafeJiraIssue[]
+  total?: number
+  truncated: boolean
+  pages: number
+}
+
+export interface JiraSearchProgress {
+  fetched: number
+  total?: number
+  page: number
+}
+
+type JiraSearchMode = "token" | "offset"
+
+interface JiraSearchPage {
+  issues: JiraIssue[]
+  page: number
+  fetched: number
+  total?: number
+  isLast: boolean
+  stalled: boolean
+}
+
+export interface JiraFieldMappingDiscovery extends JiraFieldDiscoveryResult {
+  projectKey: string
+  current: JiraFieldMappingEntry
+  releaseNotesSamples: ReleaseNotesFieldCandidate[]
 }
 
 export interface JiraConnectionResult {
   success: boolean
+  profile?: JiraProfileSummary
   user?: SafeJiraUser
   error?: string
 }
 
 // 🚀 Performance optimizations
-const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
-const REQUEST_TIMEOUT = 15000 // 15 seconds (reduced from 30-45s)
 const MAX_CONCURRENT_REQUESTS = 5
+const SEARCH_PAGE_SIZE = 100 // Jira caps search pages at 100 issues
+const MAX_SEARCH_RESULTS = 5000
+const CHANGELOG_PAGE_SIZE = 100
+const MAX_REMOVAL_CANDIDATES = 500
 
-// Simple in-memory cache
-const cache = new Map<string, { data: any; timestamp: number }>()
-
-function getCacheKey(operation: string, params?: Record<string, any>): string {
-  const paramString = params ? JSON.stringify(params) : ""
-  return `${operation}:${paramString}`
-}
-
-function getCachedData<T>(key: string): T | null {
-  const cached = cache.get(key)
-  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-    return cached.data as T
-  }
-  cache.delete(key)
-  return null
-}
-
-function setCachedData(key: string, data: any): void {
-  cache.set(key, { data, timestamp: Date.now() })
-}
+// Persistent response cache (see lib/jira-cache.ts for backends and TTLs)
+const cacheStore = createJiraCacheStore()
+const cacheCounters = { hits: 0, staleHits: 0, misses: 0, revalidations: 0, notModified: 0 }
+const revalidating = new Set<string>()
 
 // 🔒 Safe cloning utility (optimized)
 function safeClone<T>(obj: T): T {
@@ -84,25 +154,117 @@ function freezeInDev<T>(obj: T): T {
   return obj
 }
 
-// 🚀 Optimized fetch with caching and timeout
-async function optimizedFetch(url: string, options: RequestInit = {}, operation: string): Promise<any> {
-  const cacheKey = getCacheKey(operation, { url, method: options.method })
-  const cached = getCachedData(cacheKey)
-  if (cached) {
-    console.log(`🚀 Cache hit for ${operation}`)
-    return cached
+// Server / Data Center has no token-based /search/jql, so it always pages with startAt
+function getSearchMode(profile: JiraConnectionProfile): JiraSearchMode {
+  return isDataCenter(profile) || process.env.JIRA_SEARCH_MODE === "offset" ? "offset" : "token"
+}
+
+// JIRA_COMPLETION_RULE=board-columns makes a board's last column the definition of done
+function getCompletionRuleSource(): CompletionRuleSource {
+  return process.env.JIRA_COMPLETION_RULE === "board-columns" ? "board-columns" : "status-category"
+}
+
+// 🔌 Connection profile chosen for this session (see JIRA_PROFILE_COOKIE), validated before use
+async function getActiveJiraProfile(): Promise<JiraConnectionProfile> {
+  let profileId: string | undefined
+  try {
+    profileId = (await cookies()).get(JIRA_PROFILE_COOKIE)?.value
+  } catch {
+    // Called outside a request (e.g. from a script); use the default profile
   }
 
-  const response = await fetch(url, {
-    ...options,
-    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
-  })
+  const profile = getJiraProfile(profileId ? decodeURIComponent(profileId) : undefined)
+  validateEnv(profile)
+  return profile
+}
+
+// Fetches from Jira (or the offline simulator for mock profiles) and stores the result; a cached
+// entry turns this into a conditional request
+async function fetchAndCache(
+  profile: JiraConnectionProfile,
+  url: string,
+  init: RequestInit,
+  operation: string,
+  cacheKey: string,
+  cached: JiraCacheEntry | null,
+  signal?: AbortSignal
+): Promise<any> {
+  let response: Response
+  if (profile.mock) {
+    response = await handleMockJiraRequest(url, init)
+  } else {
+    const headers: Record<string, string> = { ...(getJiraHeaders(profile) as Record<string, string>) }
+    if (cached?.etag) headers["If-None-Match"] = cached.etag
+    if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified
 
-  const data = await handleJiraResponse(response, operation)
-  setCachedData(cacheKey, data)
+    response = await jiraRequest(url, { ...init, headers }, { operation, profileId: profile.id, signal })
+  }
+
+  const policy = getCachePolicy(operation)
+  const now = Date.now()
+
+  let data: any
+  if (response.status === 304 && cached) {
+    cacheCounters.notModified++
+    data = cached.data
+  } else {
+    data = await handleJiraResponse(response, operation)
+  }
+
+  try {
+    await cacheStore.set({
+      key: cacheKey,
+      operation,
+      profileId: profile.id,
+      data,
+      storedAt: now,
+      freshUntil: now + policy.ttl,
+      staleUntil: now + policy.ttl + policy.staleWhileRevalidate,
+      etag: response.headers.get("ETag") ?? cached?.etag,
+      lastModified: response.headers.get("Last-Modified") ?? cached?.lastModified,
+    })
+  } catch (error) {
+    console.warn(`⚠️ Failed to write Jira cache entry for ${operation}:`, error)
+  }
   return data
 }
 
+// 🚀 Optimized fetch with caching, retries and rate limiting; cache entries are keyed by profile and request body
+async function optimizedFetch(
+  profile: JiraConnectionProfile,
+  url: string,
+  options: RequestInit = {},
+  operation: string
+): Promise<any> {
+  const { signal, ...init } = options
+  const cacheKey = getCacheKey(operation, { profile: profile.id, url, method: init.method, body: init.body })
+  const cached = await cacheStore.get(cacheKey)
+  const now = Date.now()
+
+  if (cached && now < cached.freshUntil) {
+    console.log(`🚀 Cache hit for ${operation}`)
+    cacheCounters.hits++
+    return cached.data
+  }
+
+  // Stale-while-revalidate: answer from cache now and refresh it once in the background
+  if (cached && now < cached.staleUntil) {
+    console.log(`🚀 Stale cache hit for ${operation}, revalidating`)
+    cacheCounters.staleHits++
+    if (!revalidating.has(cacheKey)) {
+      revalidating.add(cacheKey)
+      cacheCounters.revalidations++
+      fetchAndCache(profile, url, init, operation, cacheKey, cached)
+        .catch((error) => console.warn(`⚠️ Background revalidation failed for ${operation}:`, error))
+        .finally(() => revalidating.delete(cacheKey))
+    }
+    return cached.data
+  }
+
+  cacheCounters.misses++
+  return fetchAndCache(profile, url, init, operation, cacheKey, cached, signal ?? undefined)
+}
+
 // 🚀 Parallel request executor with concurrency limit
 async function executeParallelRequests<T>(
   requests: (() => Promise<T>)[],
@@ -130,20 +292,17 @@ async function executeParallelRequests<T>(
 export async function testJiraConnection(): Promise<JiraConnectionResult> {
   try {
     console.log("🔍 Testing Jira connection...")
-    console.log("Environment check:")
-    console.log("- JIRA_BASE_URL:", env.JIRA_BASE_URL ? "✓ Set" : "✗ Missing")
-    console.log("- JIRA_EMAIL:", env.JIRA_EMAIL ? "✓ Set" : "✗ Missing")
-    console.log("- JIRA_API_TOKEN:", env.JIRA_API_TOKEN ? "✓ Set" : "✗ Missing")
+    const profile = await getActiveJiraProfile()
+    console.log(`Profile: ${profile.name} (${profile.id}) - ${profile.baseUrl} [${profile.deployment}]`)
 
-    validateEnv()
-
-    const url = `${env.JIRA_BASE_URL}/rest/api/3/myself`
-    const userData = await optimizedFetch(url, { headers: getJiraHeaders() }, "connection_test")
+    const url = getJiraApiUrl(profile, "/myself")
+    const userData = await optimizedFetch(profile, url, {}, "connection_test")
     const safeUser = extractSafeUser(userData)
 
     console.log("✅ Jira connection successful")
     return {
       success: true,
+      profile: toJiraProfileSummary(profile),
       user: freezeInDev(safeUser),
     }
   } catch (error) {
@@ -155,13 +314,18 @@ export async function testJiraConnection(): Promise<JiraConnectionResult> {
   }
 }
 
-export async function fetchJiraProjects(): Promise<JiraProjectsResult[]> {
+// Configured connection profiles, without credentials, for the Setup tab
+export async function fetchJiraProfiles(): Promise<JiraProfileSummary[]> {
+  return getJiraProfiles().map(toJiraProfileSummary)
+}
+
+export async function fetchJiraProjects(signal?: AbortSignal): Promise<JiraProjectsResult[]> {
   try {
     console.log("🔍 Fetching Jira projects...")
-    validateEnv()
+    const profile = await getActiveJiraProfile()
 
-    const url = `${env.JIRA_BASE_URL}/rest/api/3/project`
-    const data = await optimizedFetch(url, { headers: getJiraHeaders() }, "fetch_projects")
+    const url = getJiraApiUrl(profile, "/project")
+    const data = await optimizedFetch(profile, url, { signal }, "fetch_projects")
 
     if (!isValidJiraProjectsResponse(data)) {
       throw new Error("Invalid response format from JIRA projects API")
@@ -190,19 +354,19 @@ export async function fetchJiraProjects(): Promise<JiraProjectsResult[]> {
   }
 }
 
-export async function fetchJiraBoards(projectKey?: string): Promise<any[]> {
+export async function fetchJiraBoards(projectKey?: string, signal?: AbortSignal): Promise<any[]> {
   try {
     console.log(`🔍 Fetching boards${projectKey ? ` for project ${projectKey}` : ""}...`)
-    validateEnv()
+    const profile = await getActiveJiraProfile()
 
     let url: string
     if (projectKey) {
-      url = `${env.JIRA_BASE_URL}/rest/agile/1.0/board?projectKeyOrId=${encodeURIComponent(projectKey)}`
+      url = `${profile.baseUrl}/rest/agile/1.0/board?projectKeyOrId=${encodeURIComponent(projectKey)}`
     } else {
-      url = `${env.JIRA_BASE_URL}/rest/agile/1.0/board` // fallback
+      url = `${profile.baseUrl}/rest/agile/1.0/board` // fallback
     }
 
-    const data = await optimizedFetch(url, { headers: getJiraHeaders() }, `fetch_boards_${projectKey || 'all'}`)
+    const data = await optimizedFetch(profile, url, { signal }, `fetch_boards_${projectKey || 'all'}`)
 
     if (!isValidJiraBoardsResponse(data)) {
       throw new Error("Invalid response format from JIRA boards API")
@@ -226,25 +390,26 @@ export async function fetchJiraBoards(projectKey?: string): Promise<any[]> {
 }
 
 // Enhanced board fetching that tries both project key and project ID
-export async function fetchJiraBoardsRobust(projectKey: string, projectId?: string): Promise<any[]> {
+export async function fetchJiraBoardsRobust(projectKey: string, projectId?: string, signal?: AbortSignal): Promise<any[]> {
   try {
     console.log(`🔍 Fetching boards robustly for project ${projectKey} (ID: ${projectId})...`)
     
     // First try with project key
     try {
-      const boardsWithKey = await fetchJiraBoards(projectKey)
+      const boardsWithKey = await fetchJiraBoards(projectKey, signal)
       if (boardsWithKey.length > 0) {
         console.log(`✅ Found ${boardsWithKey.length} boards using project key`)
         return boardsWithKey
       }
     } catch (error) {
+      if (signal?.aborted) throw error
       console.log(`⚠️ Failed to fetch boards with project key: ${error}`)
     }
     
     // If no boards found with key and we have project ID, try with project ID
     if (projectId) {
       try {
-        const boardsWithId = await fetchJiraBoards(projectId)
+        const boardsWithId = await fetchJiraBoards(projectId, signal)
         if (boardsWithId.length > 0) {
           console.log(`✅ Found ${boardsWithId.length} boards using project ID`)
           return boardsWithId
@@ -257,6 +422,7 @@ export async function fetchJiraBoardsRobust(projectKey: string, projectId?: stri
     console.log(`❌ No boards found for project ${projectKey} using either key or ID`)
     return []
   } catch (error) {
+    if (signal?.aborted) throw error
     console.error(`❌ Failed to fetch boards robustly for project ${projectKey}:`, error)
     return []
   }
@@ -265,13 +431,14 @@ export async function fetchJiraBoardsRobust(projectKey: string, projectId?: stri
 export async function boardHasSprints(boardId: number, boardType?: string): Promise<boolean> {
   // Company-managed (scrum / kanban) boards throw 400 on the features endpoint.
   if (boardType && boardType !== "simple") {
-    // Assume scrum boards have sprints; kanban usually doesn't but we still allow it.
-    return boardType === "scrum" || boardType === "kanban"
+    // Kanban boards have no sprints; they are reviewed by date range instead (see fetchKanbanPeriod)
+    return boardType === "scrum"
   }
 
   try {
-    const url = `${env.JIRA_BASE_URL}/rest/agile/1.0/board/${boardId}/features`
-    const data = await optimizedFetch(url, { headers: getJiraHeaders() }, `board_features_${boardId}`)
+    const profile = await getActiveJiraProfile()
+    const url = `${profile.baseUrl}/rest/agile/1.0/board/${boardId}/features`
+    const data = await optimizedFetch(profile, url, {}, `board_features_${boardId}`)
     if (!data || !Array.isArray(data.features)) return false
     return data.features.some((f: any) => f.feature === "sprints" && f.enabled)
   } catch (error: any) {
@@ -288,16 +455,16 @@ export async function boardHasSprints(boardId: number, boardType?: string): Prom
 export async function fetchJiraBoardsForProjects(projectKeys: string[]): Promise<Record<string, any[]>> {
   try {
     console.log(`🔍 Fetching boards for ${projectKeys.length} projects in parallel...`)
-    validateEnv()
+    await getActiveJiraProfile()
 
     const boardRequests = projectKeys.map((projectKey) => async () => {
       const boards = await fetchJiraBoards(projectKey)
 
-      // Filter boards that have Sprints enabled
+      // Keep boards with Sprints enabled, plus kanban boards for date-range reviews
       const usableBoards = await executeParallelRequests(
         boards.map((b: any) => async () => {
           const hasSprints = await boardHasSprints(b.id, b.type)
-          return hasSprints ? b : null
+          return hasSprints || b.type === "kanban" ? b : null
         })
       )
 
@@ -321,10 +488,10 @@ export async function fetchJiraBoardsForProjects(projectKeys: string[]): Promise
   }
 }
 
-export async function fetchJiraSprints(boardId: number): Promise<SafeJiraSprint[]> {
+export async function fetchJiraSprints(boardId: number, signal?: AbortSignal): Promise<SafeJiraSprint[]> {
   try {
     console.log(`🔍 Fetching sprints for board ${boardId}...`)
-    validateEnv()
+    const profile = await getActiveJiraProfile()
 
     if (!boardId || isNaN(boardId)) {
       throw new Error("Valid board ID is required")
@@ -334,8 +501,8 @@ export async function fetchJiraSprints(boardId: number): Promise<SafeJiraSprint[
     const pageSize = 50
 
     while (true) {
-      const url = `${env.JIRA_BASE_URL}/rest/agile/1.0/board/${boardId}/sprint?maxResults=${pageSize}&startAt=${startAt}`
-      const page = await optimizedFetch(url, { headers: getJiraHeaders() }, `fetch_sprints_${boardId}_${startAt}`)
+      const url = `${profile.baseUrl}/rest/agile/1.0/board/${boardId}/sprint?maxResults=${pageSize}&startAt=${startAt}`
+      const page = await optimizedFetch(profile, url, { signal }, `fetch_sprints_${boardId}_${startAt}`)
 
       if (!isValidJiraSprintsResponse(page)) {
         throw new Error("Invalid response format from JIRA sprints API")
@@ -356,6 +523,8 @@ export async function fetchJiraSprints(boardId: number): Promise<SafeJiraSprint[
         state: safeSprint.state,
         startDate: safeSprint.startDate,
         endDate: safeSprint.endDate,
+        startedAt: safeSprint.startedAt,
+        endedAt: safeSprint.endedAt,
         boardId: safeSprint.boardId,
         goal: safeSprint.goal,
       }
@@ -382,102 +551,645 @@ export async function fetchJiraSprints(boardId: number): Promise<SafeJiraSprint[
   }
 }
 
-export async function fetchJiraSprintIssues(sprintId: number): Promise<SafeJiraIssue[]> {
+export async function fetchJiraSprintIssues(
+  sprintId: number,
+  projectKey?: string,
+  signal?: AbortSignal
+): Promise<SafeJiraIssue[]> {
   try {
     console.log(`🔍 Fetching issues for sprint ${sprintId}...`)
-    validateEnv()
+    await getActiveJiraProfile()
 
     if (!sprintId || isNaN(sprintId)) {
       throw new Error("Valid sprint ID is required")
     }
 
-    const jql = `sprint = ${sprintId}`
-    const url = `${env.JIRA_BASE_URL}/rest/api/3/search`
+    const result = await searchJiraIssues(`sprint = ${sprintId}`, {
+      projectKey,
+      operation: `fetch_sprint_issues_${sprintId}`,
+      signal,
+      sprintId,
+    })
+    assertCompleteSearch(result, `sprint ${sprintId}`)
 
-    const data = await optimizedFetch(
-      url,
-      {
-        method: "POST",
-        headers: getJiraHeaders(),
-        body: JSON.stringify({
-          jql,
-          maxResults: 1000,
-          fields: getAllJiraFields(),
-        }),
-      },
-      `fetch_sprint_issues_${sprintId}`
-    )
+    console.log(`✅ Found ${result.issues.length} issues for sprint ${sprintId}`)
+    return result.issues
+  } catch (error) {
+    console.error("❌ Failed to fetch sprint issues:", error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch JIRA sprint issues: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while fetching JIRA sprint issues")
+  }
+}
 
-    if (!isValidJiraSearchResponse(data)) {
-      throw new Error("Invalid response format from JIRA search API")
+// Unreleased versions first, soonest release first; then released versions, newest first
+export async function fetchJiraVersions(projectKey: string, signal?: AbortSignal): Promise<SafeJiraVersion[]> {
+  try {
+    console.log(`🔍 Fetching fix versions for project ${projectKey}...`)
+    const profile = await getActiveJiraProfile()
+
+    if (!projectKey) {
+      throw new Error("Project key is required")
     }
 
-    const safeIssues = data.issues.map((issue) => extractSafeIssue(issue))
+    const url = getJiraApiUrl(profile, `/project/${encodeURIComponent(projectKey)}/versions`)
+    const data = await optimizedFetch(profile, url, { signal }, `fetch_versions_${projectKey}`)
+
+    if (!isValidJiraVersionsResponse(data)) {
+      throw new Error("Invalid response format from JIRA versions API")
+    }
+
+    const versions = data
+      .map((version) => extractSafeVersion(version, projectKey))
+      .filter((version) => !version.archived)
+      .sort((a, b) => {
+        if (a.released !== b.released) return a.released ? 1 : -1
+        const aDate = a.releaseDate ? new Date(a.releaseDate).getTime() : Number.POSITIVE_INFINITY
+        const bDate = b.releaseDate ? new Date(b.releaseDate).getTime() : Number.POSITIVE_INFINITY
+        return a.released ? bDate - aDate : aDate - bDate
+      })
 
-    console.log(`✅ Found ${safeIssues.length} issues for sprint ${sprintId}`)
-    return freezeInDev(safeIssues)
+    console.log(`✅ Found ${versions.length} fix versions`)
+    return freezeInDev(versions)
   } catch (error) {
-    console.error("❌ Failed to fetch sprint issues:", error)
+    console.error("❌ Failed to fetch fix versions:", error)
     if (error instanceof Error) {
-      throw new Error(`Failed to fetch JIRA sprint issues: ${error.message}`)
+      throw new Error(`Failed to fetch JIRA fix versions: ${error.message}`)
     }
-    throw new Error("Unknown error occurred while fetching JIRA sprint issues")
+    throw new Error("Unknown error occurred while fetching JIRA fix versions")
+  }
+}
+
+export async function fetchJiraVersionIssues(
+  versionId: number,
+  projectKey?: string,
+  signal?: AbortSignal
+): Promise<SafeJiraIssue[]> {
+  try {
+    console.log(`🔍 Fetching issues for fix version ${versionId}...`)
+    await getActiveJiraProfile()
+
+    if (!versionId || isNaN(versionId)) {
+      throw new Error("Valid version ID is required")
+    }
+
+    const result = await searchJiraIssues(`fixVersion = ${versionId}`, {
+      projectKey,
+      operation: `fetch_version_issues_${versionId}`,
+      signal,
+    })
+    assertCompleteSearch(result, `fix version ${versionId}`)
+
+    console.log(`✅ Found ${result.issues.length} issues for fix version ${versionId}`)
+    return result.issues
+  } catch (error) {
+    console.error("❌ Failed to fetch fix version issues:", error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch JIRA fix version issues: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while fetching JIRA fix version issues")
   }
 }
 
-export async function fetchJiraIssuesByJQL(jql: string): Promise<SafeJiraIssue[]> {
+export async function fetchJiraIssuesByJQL(jql: string, projectKey?: string): Promise<SafeJiraIssue[]> {
   try {
     console.log(`🔍 Fetching issues with JQL: ${jql}`)
-    validateEnv()
+    await getActiveJiraProfile()
 
     if (!jql.trim()) {
       throw new Error("JQL query is required")
     }
 
-    const url = `${env.JIRA_BASE_URL}/rest/api/3/search`
+    const result = await searchJiraIssues(jql, {
+      projectKey,
+      operation: `fetch_jql_issues_${Buffer.from(jql).toString('base64').slice(0, 20)}`,
+    })
+    assertCompleteSearch(result, "JQL query")
+
+    // Debug logging for epic information
+    if (process.env.NODE_ENV === 'development') {
+      result.issues.forEach((safeIssue) => {
+        console.log(`🔍 Epic debug for ${safeIssue.key}:`, {
+          epicKey: safeIssue.epicKey,
+          epicName: safeIssue.epicName,
+          epicColor: safeIssue.epicColor,
+        });
+      })
+    }
+
+    console.log(`✅ Found ${result.issues.length} issues with JQL query`)
+    return result.issues
+  } catch (error) {
+    console.error("❌ Failed to fetch issues by JQL:", error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch JIRA issues by JQL: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while fetching JIRA issues by JQL")
+  }
+}
+
+// 🚀 Paginated search: token-based /search/jql, or startAt paging where the token API is unavailable
+async function* iterateJiraSearch(
+  profile: JiraConnectionProfile,
+  jql: string,
+  fields: string[],
+  operation: string,
+  signal?: AbortSignal,
+  mode: JiraSearchMode = getSearchMode(profile)
+): AsyncGenerator<JiraSearchPage> {
+  let page = 0
+  let fetched = 0
+  let startAt = 0
+  let nextPageToken: string | undefined = undefined
+
+  while (true) {
+    const body: Record<string, any> = { jql, fields, maxResults: SEARCH_PAGE_SIZE }
+    let url: string
+    if (mode === "token") {
+      url = getJiraApiUrl(profile, "/search/jql")
+      if (nextPageToken) body.nextPageToken = nextPageToken
+    } else {
+      url = getJiraApiUrl(profile, "/search")
+      body.startAt = startAt
+    }
+
     const data = await optimizedFetch(
+      profile,
       url,
-      {
-        method: "POST",
-        headers: getJiraHeaders(),
-        body: JSON.stringify({
-          jql,
-          maxResults: 1000,
-          fields: getAllJiraFields(),
-        }),
-      },
-      `fetch_jql_issues_${Buffer.from(jql).toString('base64').slice(0, 20)}`
+      { method: "POST", body: JSON.stringify(body), signal },
+      `${operation}_page_${page}`
     )
 
     if (!isValidJiraSearchResponse(data)) {
       throw new Error("Invalid response format from JIRA search API")
     }
 
-    const safeIssues = data.issues.map((issue) => {
-      const safeIssue = extractSafeIssue(issue)
-      
-      // Debug logging for epic information
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`🔍 Epic debug for ${issue.key}:`, {
-          epicKey: safeIssue.epicKey,
-          epicName: safeIssue.epicName,
-          epicColor: safeIssue.epicColor,
-          rawEpicField: issue.fields.epic,
-          parent: issue.fields.parent
-        });
+    const dataAny: any = data
+    page++
+    fetched += data.issues.length
+
+    // Offset search reports a total; token search only tells us whether more pages exist
+    const total: number | undefined = typeof dataAny.total === "number" ? dataAny.total : undefined
+    let isLast: boolean
+    if (mode === "token") {
+      nextPageToken = dataAny.nextPageToken
+      isLast = dataAny.isLast === true || (!nextPageToken && dataAny.isLast !== false)
+    } else {
+      startAt += data.issues.length
+      isLast = data.issues.length === 0 || (total !== undefined ? startAt >= total : data.issues.length < SEARCH_PAGE_SIZE)
+    }
+
+    // Jira says there is more but gave us no way to fetch it
+    const stalled = !isLast && (mode === "token" ? !nextPageToken : data.issues.length === 0)
+
+    yield { issues: data.issues, page, fetched, total, isLast, stalled }
+
+    if (isLast || stalled) return
+  }
+}
+
+// Collects every page of a search into SafeJiraIssue[] and flags incomplete results
+export async function searchJiraIssues(
+  jql: string,
+  options: {
+    projectKey?: string
+    operation?: string
+    maxResults?: number
+    onProgress?: (progress: JiraSearchProgress) => void
+    signal?: AbortSignal
+    // Board whose columns decide completion under JIRA_COMPLETION_RULE=board-columns, given directly or via its sprint
+    boardId?: number
+    sprintId?: number
+  } = {}
+): Promise<JiraIssuesResult> {
+  const profile = await getActiveJiraProfile()
+
+  const fieldMapping = await resolveFieldMapping(profile, options.projectKey)
+  let boardId = options.boardId
+  if (!boardId && options.sprintId && getCompletionRuleSource() === "board-columns") {
+    boardId = await getSprintBoardId(profile, options.sprintId, options.signal)
+  }
+  const completionRule = await resolveCompletionRule(profile, boardId, options.signal)
+  const maxResults = options.maxResults ?? MAX_SEARCH_RESULTS
+  const operation = options.operation ?? `search_${Buffer.from(jql).toString("base64").slice(0, 20)}`
+
+  const issues: SafeJiraIssue[] = []
+  let total: number | undefined = undefined
+  let truncated = false
+  let pages = 0
+
+  for await (const page of iterateJiraSearch(profile, jql, getAllJiraFields(fieldMapping), operation, options.signal)) {
+    issues.push(...page.issues.map((issue) => extractSafeIssue(issue, fieldMapping, completionRule)))
+    total = page.total ?? total
+    pages = page.page
+
+    options.onProgress?.({ fetched: issues.length, total, page: page.page })
+
+    if (page.stalled) {
+      console.warn(`⚠️ Jira search stopped returning pages after ${issues.length} issues: ${jql}`)
+      truncated = true
+      break
+    }
+    if (!page.isLast && issues.length >= maxResults) {
+      console.warn(`⚠️ Jira search hit the ${maxResults} issue limit: ${jql}`)
+      truncated = true
+      break
+    }
+  }
+
+  if (total !== undefined && issues.length < total) {
+    truncated = true
+  }
+
+  return {
+    issues: freezeInDev(issues),
+    total: total ?? (truncated ? undefined : issues.length),
+    truncated,
+    pages,
+  }
+}
+
+function assertCompleteSearch(result: JiraIssuesResult, description: string): void {
+  if (result.truncated) {
+    const expected = result.total !== undefined ? `${result.total}` : `more than ${result.issues.length}`
+    throw new Error(
+      `Search for ${description} is incomplete: received ${result.issues.length} of ${expected} issues`
+    )
+  }
+}
+
+async function getSprintBoardId(profile: JiraConnectionProfile, sprintId: number, signal?: AbortSignal): Promise<number | undefined> {
+  const url = `${profile.baseUrl}/rest/agile/1.0/sprint/${sprintId}`
+  const sprint = await optimizedFetch(profile, url, { signal }, `fetch_sprint_${sprintId}`)
+  return sprint?.originBoardId || undefined
+}
+
+interface BoardConfiguration {
+  filterId?: string
+  subQuery?: string // Kanban boards hide issues outside this JQL, e.g. released work
+  columns: KanbanColumn[]
+}
+
+async function fetchBoardConfiguration(
+  profile: JiraConnectionProfile,
+  boardId: number,
+  signal?: AbortSignal
+): Promise<BoardConfiguration> {
+  const url = `${profile.baseUrl}/rest/agile/1.0/board/${boardId}/configuration`
+  const config = await optimizedFetch(profile, url, { signal }, `fetch_board_configuration_${boardId}`)
+  return {
+    filterId: config?.filter?.id ? String(config.filter.id) : undefined,
+    subQuery: config?.subQuery?.query || undefined,
+    columns: (config?.columnConfig?.columns || []).map((column: any) => ({
+      name: String(column.name || ""),
+      statusIds: (column.statuses || []).map((status: any) => String(status.id)),
+      min: typeof column.min === "number" ? column.min : undefined,
+      max: typeof column.max === "number" ? column.max : undefined,
+    })),
+  }
+}
+
+/**
+ * Resolves how completion is decided (see lib/issue-completion.ts): every status's category,
+ * overridden by the board's columns when JIRA_COMPLETION_RULE=board-columns. Returns null when
+ * the status list is unavailable, which leaves each issue's own status category in charge.
+ */
+async function resolveCompletionRule(
+  profile: JiraConnectionProfile,
+  boardId?: number,
+  signal?: AbortSignal
+): Promise<CompletionRule | null> {
+  let statuses: JiraStatusInfo[]
+  try {
+    const data = await optimizedFetch(profile, getJiraApiUrl(profile, "/status"), { signal }, "fetch_statuses")
+    statuses = (Array.isArray(data) ? data : [])
+      .map((status: any) => ({
+        id: String(status.id),
+        name: String(status.name || ""),
+        category: toStatusCategoryKey(status.statusCategory?.key),
+      }))
+      .filter((status): status is JiraStatusInfo => !!status.category)
+  } catch (error) {
+    if (signal?.aborted) throw error
+    console.warn("⚠️ Failed to load Jira statuses; using each issue's status category:", error)
+    return null
+  }
+
+  if (getCompletionRuleSource() === "board-columns" && boardId) {
+    try {
+      const { columns } = await fetchBoardConfiguration(profile, boardId, signal)
+      return buildBoardColumnRule(boardId, columns, statuses)
+    } catch (error) {
+      if (signal?.aborted) throw error
+      console.warn(`⚠️ Failed to load columns for board ${boardId}; using status categories:`, error)
+    }
+  }
+
+  return buildStatusCategoryRule(statuses)
+}
+
+// Server / Data Center has no paged changelog endpoint; the issue changelog expand returns every history
+async function fetchDataCenterChangelog(profile: JiraConnectionProfile, key: string): Promise<JiraChangelogHistory[]> {
+  const url = `${getJiraApiUrl(profile, `/issue/${encodeURIComponent(key)}`)}?fields=created&expand=changelog`
+  const data = await optimizedFetch(profile, url, {}, `fetch_changelog_${key}`)
+
+  const changelog = { values: data?.changelog?.histories }
+  if (!isValidJiraChangelogResponse(changelog)) {
+    throw new Error(`Invalid response format from JIRA changelog API for ${key}`)
+  }
+  return changelog.values
+}
+
+// 🔍 Full changelog for each issue, paging through /issue/{key}/changelog
+export async function fetchJiraIssueChangelogs(
+  issueKeys: string[]
+): Promise<Record<string, SafeJiraChangelogEntry[]>> {
+  try {
+    console.log(`🔍 Fetching changelogs for ${issueKeys.length} issues...`)
+    const profile = await getActiveJiraProfile()
+
+    const requests = issueKeys.map((key) => async () => {
+      if (isDataCenter(profile)) {
+        return { key, changelog: extractSafeChangelog(await fetchDataCenterChangelog(profile, key)) }
       }
-      
-      return safeIssue;
+
+      const histories: JiraChangelogHistory[] = []
+      let startAt = 0
+
+      while (true) {
+        const url = `${getJiraApiUrl(profile, `/issue/${encodeURIComponent(key)}/changelog`)}?startAt=${startAt}&maxResults=${CHANGELOG_PAGE_SIZE}`
+        const page = await optimizedFetch(profile, url, {}, `fetch_changelog_${key}_${startAt}`)
+
+        if (!isValidJiraChangelogResponse(page)) {
+          throw new Error(`Invalid response format from JIRA changelog API for ${key}`)
+        }
+
+        histories.push(...page.values)
+        startAt += page.values.length
+        if (page.isLast || page.values.length === 0) break
+      }
+
+      return { key, changelog: extractSafeChangelog(histories) }
     })
 
-    console.log(`✅ Found ${safeIssues.length} issues with JQL query`)
-    return freezeInDev(safeIssues)
+    const results = await executeParallelRequests(requests)
+    const changelogs: Record<string, SafeJiraChangelogEntry[]> = {}
+    results.forEach(({ key, changelog }) => {
+      changelogs[key] = changelog
+    })
+
+    console.log(`✅ Fetched changelogs for ${results.length} issues`)
+    return changelogs
   } catch (error) {
-    console.error("❌ Failed to fetch issues by JQL:", error)
+    console.error("❌ Failed to fetch issue changelogs:", error)
     if (error instanceof Error) {
-      throw new Error(`Failed to fetch JIRA issues by JQL: ${error.message}`)
+      throw new Error(`Failed to fetch JIRA issue changelogs: ${error.message}`)
     }
-    throw new Error("Unknown error occurred while fetching JIRA issues by JQL")
+    throw new Error("Unknown error occurred while fetching JIRA issue changelogs")
+  }
+}
+
+// Sprint details, its issues, likely removals and every changelog needed to replay them
+async function loadSprintHistory(sprintId: number, projectKey?: string) {
+  const profile = await getActiveJiraProfile()
+  const sprintUrl = `${profile.baseUrl}/rest/agile/1.0/sprint/${sprintId}`
+  const sprint = extractSafeSprint(await optimizedFetch(profile, sprintUrl, {}, `fetch_sprint_${sprintId}`))
+  if (!sprint.startDate) {
+    throw new Error(`Sprint ${sprint.name} has not started yet`)
+  }
+
+  const sprintIssues = await fetchJiraSprintIssues(sprintId, projectKey)
+
+  // Issues removed from the sprint no longer match `sprint = id`, so look at everything
+  // in the project touched since the sprint started and let the changelog decide
+  let candidateIssues: SafeJiraIssue[] = []
+  if (projectKey) {
+    const since = sprint.startDate.split("T")[0]
+    const candidates = await searchJiraIssues(
+      `project = "${projectKey}" AND updated >= "${since}" AND (sprint != ${sprintId} OR sprint is EMPTY)`,
+      {
+        projectKey,
+        operation: `scope_candidates_${sprintId}`,
+        maxResults: MAX_REMOVAL_CANDIDATES,
+        boardId: Number(sprint.boardId) || undefined,
+      }
+    )
+    if (candidates.truncated) {
+      console.warn(`⚠️ Only checked ${candidates.issues.length} issues for removals from sprint ${sprintId}`)
+    }
+    candidateIssues = candidates.issues
+  } else {
+    console.warn("⚠️ No project key provided; removed issues cannot be detected")
+  }
+
+  const changelogs = await fetchJiraIssueChangelogs([
+    ...sprintIssues.map((issue) => issue.key),
+    ...candidateIssues.map((issue) => issue.key),
+  ])
+
+  return {
+    sprintIssues,
+    changelogs,
+    completionRule: await resolveCompletionRule(profile, Number(sprint.boardId) || undefined),
+    scopeChange: buildSprintScopeChange(sprint, sprintIssues, candidateIssues, changelogs),
+  }
+}
+
+// 🔍 Planned, added, removed and carried-over work for a sprint, rebuilt from the changelog
+export async function fetchSprintScopeChange(sprintId: number, projectKey?: string): Promise<SprintScopeChange> {
+  try {
+    console.log(`🔍 Rebuilding scope changes for sprint ${sprintId}...`)
+    await getActiveJiraProfile()
+
+    if (!sprintId || isNaN(sprintId)) {
+      throw new Error("Valid sprint ID is required")
+    }
+
+    const { scopeChange } = await loadSprintHistory(sprintId, projectKey)
+    console.log(
+      `✅ Sprint ${sprintId} scope: ${scopeChange.planned.length} planned, ${scopeChange.added.length} added, ${scopeChange.removed.length} removed`
+    )
+    return freezeInDev(scopeChange)
+  } catch (error) {
+    console.error("❌ Failed to rebuild sprint scope:", error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch sprint scope changes: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while fetching sprint scope changes")
+  }
+}
+
+// 🔍 Day-by-day remaining and completed points from status transitions
+export async function fetchSprintBurndown(sprintId: number, projectKey?: string): Promise<SprintBurndown> {
+  try {
+    console.log(`🔍 Building burndown for sprint ${sprintId}...`)
+    await getActiveJiraProfile()
+
+    if (!sprintId || isNaN(sprintId)) {
+      throw new Error("Valid sprint ID is required")
+    }
+
+    const { sprintIssues, changelogs, scopeChange, completionRule } = await loadSprintHistory(sprintId, projectKey)
+    const burndown = buildSprintBurndown(sprintIssues, changelogs, scopeChange, completionRule)
+
+    console.log(`✅ Burndown for sprint ${sprintId}: ${burndown.days.length} days, ${burndown.totals.remainingPoints} points remaining`)
+    return freezeInDev(burndown)
+  } catch (error) {
+    console.error("❌ Failed to build sprint burndown:", error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch sprint burndown: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while fetching sprint burndown")
+  }
+}
+
+// 🔍 Cycle and lead time for the sprint's issues from their status transitions
+export async function fetchSprintFlowMetrics(sprintId: number, projectKey?: string): Promise<SprintFlowMetrics> {
+  try {
+    console.log(`🔍 Computing flow metrics for sprint ${sprintId}...`)
+    const profile = await getActiveJiraProfile()
+
+    if (!sprintId || isNaN(sprintId)) {
+      throw new Error("Valid sprint ID is required")
+    }
+
+    const issues = (await fetchJiraSprintIssues(sprintId, projectKey)).filter((issue) => !issue.isSubtask)
+    const changelogs = await fetchJiraIssueChangelogs(issues.map((issue) => issue.key))
+    const completionRule = await resolveCompletionRule(profile, await getSprintBoardId(profile, sprintId))
+    const flowMetrics = { ...computeFlowMetrics(issues, changelogs, completionRule), sprintId: sprintId.toString() }
+
+    console.log(
+      `✅ Flow metrics for sprint ${sprintId}: average cycle time ${flowMetrics.overall.cycleTime?.average ?? "n/a"} days, ${flowMetrics.outliers.length} outliers`
+    )
+    return freezeInDev(flowMetrics)
+  } catch (error) {
+    console.error("❌ Failed to compute flow metrics:", error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch sprint flow metrics: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while fetching sprint flow metrics")
+  }
+}
+
+const ISSUE_KEY_PATTERN = /^[A-Z][A-Z0-9_]*-\d+$/
+
+// 🔍 Every child of the sprint's epics, across sprints and the backlog, with a forecast from the board's recent sprints
+export async function fetchEpicForecast(
+  sprintId: number,
+  epicKeys: string[],
+  projectKey?: string
+): Promise<EpicForecastSet> {
+  try {
+    console.log(`🔍 Forecasting ${epicKeys.length} epics for sprint ${sprintId}...`)
+    const profile = await getActiveJiraProfile()
+
+    if (!sprintId || isNaN(sprintId)) {
+      throw new Error("Valid sprint ID is required")
+    }
+    const keys = Array.from(new Set(epicKeys)).filter((key) => ISSUE_KEY_PATTERN.test(key)).sort()
+    if (keys.length === 0) {
+      throw new Error("The sprint has no issues in an epic")
+    }
+
+    const boardId = await getSprintBoardId(profile, sprintId)
+    if (!boardId) {
+      throw new Error(`Sprint ${sprintId} has no board`)
+    }
+    const boardSprints = await fetchJiraSprints(boardId)
+    const sprint = boardSprints.find((candidate) => candidate.id === sprintId.toString())
+    if (!sprint) {
+      throw new Error(`Sprint ${sprintId} not found on board ${boardId}`)
+    }
+
+    // Data Center links stories to epics through the Epic Link field; Cloud makes the epic their parent
+    const jql = isDataCenter(profile)
+      ? `"Epic Link" in (${keys.join(", ")})`
+      : `parent in (${keys.join(", ")})`
+    const result = await searchJiraIssues(jql, {
+      projectKey,
+      operation: `fetch_epic_issues_${keys.join("_")}`,
+      boardId,
+    })
+    assertCompleteSearch(result, `epics ${keys.join(", ")}`)
+
+    const sprintIssues = await fetchJiraSprintIssues(sprintId, projectKey)
+    const forecast = buildEpicForecasts(
+      sprint,
+      boardSprints,
+      result.issues,
+      sprintIssues.map((issue) => issue.key)
+    )
+
+    console.log(
+      `✅ Forecast ${forecast.epics.length} epics from ${result.issues.length} issues over ${forecast.velocitySprints.length} closed sprints`
+    )
+    return freezeInDev(forecast)
+  } catch (error) {
+    console.error("❌ Failed to forecast epics:", error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch JIRA epic forecast: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while fetching JIRA epic forecast")
+  }
+}
+
+export interface KanbanPeriodResult {
+  completedIssues: SafeJiraIssue[] // Resolved within the period
+  boardIssues: SafeJiraIssue[] // Unfinished issues on the board now
+  metrics: KanbanMetrics
+}
+
+const DATE_INPUT_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// 🔍 Date-range review for a kanban board: issues resolved in the window, the board's open work, throughput and WIP
+export async function fetchKanbanPeriod(
+  boardId: number,
+  from: string,
+  to: string,
+  projectKey?: string
+): Promise<KanbanPeriodResult> {
+  try {
+    console.log(`🔍 Loading kanban board ${boardId} from ${from} to ${to}...`)
+    const profile = await getActiveJiraProfile()
+
+    if (!boardId || isNaN(boardId)) {
+      throw new Error("Valid board ID is required")
+    }
+    if (!DATE_INPUT_PATTERN.test(from) || !DATE_INPUT_PATTERN.test(to) || from > to) {
+      throw new Error("A start date on or before the end date is required (YYYY-MM-DD)")
+    }
+
+    const { filterId, subQuery, columns } = await fetchBoardConfiguration(profile, boardId)
+    if (!filterId) {
+      throw new Error(`Board ${boardId} has no saved filter`)
+    }
+
+    // Resolved work stays in the period even if the board's sub-filter now hides it
+    const completed = await searchJiraIssues(
+      `filter = ${filterId} AND resolved >= "${from}" AND resolved <= "${to} 23:59" ORDER BY resolved ASC`,
+      { projectKey, boardId, operation: `fetch_kanban_completed_${boardId}_${from}_${to}` }
+    )
+    assertCompleteSearch(completed, `board ${boardId} resolved ${from} to ${to}`)
+
+    const board = await searchJiraIssues(
+      `filter = ${filterId}${subQuery ? ` AND (${subQuery})` : ""} AND statusCategory != Done ORDER BY Rank ASC`,
+      { projectKey, boardId, operation: `fetch_kanban_board_${boardId}` }
+    )
+    assertCompleteSearch(board, `board ${boardId}`)
+
+    const metrics = buildKanbanMetrics(boardId.toString(), completed.issues, board.issues, columns, from, to)
+
+    console.log(
+      `✅ Kanban board ${boardId}: ${metrics.throughput.issues} resolved (${metrics.throughput.perWeek}/week), ${metrics.wip.current} in progress`
+    )
+    return freezeInDev({ completedIssues: completed.issues, boardIssues: board.issues, metrics })
+  } catch (error) {
+    console.error("❌ Failed to load kanban period:", error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch JIRA kanban period: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while fetching JIRA kanban period")
   }
 }
 
@@ -485,21 +1197,21 @@ export async function fetchJiraIssuesByJQL(jql: string): Promise<SafeJiraIssue[]
 export async function analyzeJiraFields(sprintId: number): Promise<any> {
   try {
     console.log(`🔍 Analyzing JIRA fields for sprint ${sprintId}...`)
-    validateEnv()
+    const profile = await getActiveJiraProfile()
 
     if (!sprintId || isNaN(sprintId)) {
       throw new Error("Valid sprint ID is required")
     }
 
     const jql = `sprint = ${sprintId}`
-    const url = `${env.JIRA_BASE_URL}/rest/api/3/search`
+    const url = getJiraApiUrl(profile, "/search")
 
     // Request all fields to analyze what's available
     const data = await optimizedFetch(
+      profile,
       url,
       {
         method: "POST",
-        headers: getJiraHeaders(),
         body: JSON.stringify({
           jql,
           maxResults: 10, // Just get a few issues for analysis
@@ -589,25 +1301,506 @@ export async function analyzeJiraFields(sprintId: number): Promise<any> {
   }
 }
 
+// Returns the project's saved field mapping. Until one is confirmed in the field mapping wizard,
+// reads use the discovered fields without saving them.
+async function resolveFieldMapping(profile: JiraConnectionProfile, projectKey?: string): Promise<JiraFieldMapping> {
+  const entry = await getFieldMappingEntry(profile.baseUrl, projectKey)
+  if (entry.source !== "default") return entry.mapping
+
+  if (projectKey) {
+    try {
+      const { mapping } = discoverFieldMapping(await fetchJiraFieldMetadata())
+      console.warn(`⚠️ Using unconfirmed discovered field mapping for ${projectKey}; review it in the field mapping wizard:`, mapping)
+      return mapping
+    } catch (error) {
+      console.warn(`⚠️ Field discovery failed for ${projectKey}, using default field mapping:`, error)
+    }
+  }
+
+  console.warn(
+    `⚠️ Using default Jira field mapping${projectKey ? ` for ${projectKey}` : ""}; story points and release notes may be empty on other sites`
+  )
+  return entry.mapping
+}
+
+export async function fetchJiraFieldMetadata(): Promise<JiraFieldMetadata[]> {
+  try {
+    console.log("🔍 Fetching Jira field metadata...")
+    const profile = await getActiveJiraProfile()
+
+    const url = getJiraApiUrl(profile, "/field")
+    const data = await optimizedFetch(profile, url, {}, "fetch_field_metadata")
+
+    if (!Array.isArray(data)) {
+      throw new Error("Invalid response format from JIRA field API")
+    }
+
+    const fields: JiraFieldMetadata[] = data
+      .filter((field: any) => field && typeof field.id === "string" && typeof field.name === "string")
+      .map((field: any) => ({
+        id: field.id,
+        name: field.name,
+        custom: !!field.custom,
+        schema: field.schema,
+      }))
+
+    console.log(`✅ Found ${fields.length} Jira fields`)
+    return fields
+  } catch (error) {
+    console.error("❌ Failed to fetch field metadata:", error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch JIRA field metadata: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while fetching JIRA field metadata")
+  }
+}
+
+// Runs discovery without saving so the setup wizard can review the result
+export async function discoverJiraFieldMapping(
+  projectKey: string,
+  sprintId?: number
+): Promise<JiraFieldMappingDiscovery> {
+  console.log(`🔍 Discovering field mapping for ${projectKey}...`)
+  const profile = await getActiveJiraProfile()
+
+  const fields = await fetchJiraFieldMetadata()
+  const discovery = discoverFieldMapping(fields)
+
+  // Sample real issue values to confirm which field actually holds release notes
+  let releaseNotesSamples: ReleaseNotesFieldCandidate[] = []
+  if (sprintId) {
+    try {
+      const fieldAnalysis = await analyzeJiraFields(sprintId)
+      releaseNotesSamples = detectReleaseNotesFields(fieldAnalysis.allCustomFields || {})
+    } catch (error) {
+      console.warn(`⚠️ Could not sample sprint ${sprintId} for release notes fields:`, error)
+    }
+  }
+
+  const fieldNames = new Map(fields.map((field) => [field.id, field.name]))
+  for (const sample of releaseNotesSamples) {
+    if (!discovery.candidates.releaseNotes.some((c) => c.fieldId === sample.fieldName)) {
+      discovery.candidates.releaseNotes.push({
+        fieldId: sample.fieldName,
+        fieldName: fieldNames.get(sample.fieldName) || sample.fieldName,
+        reason: `${sample.reason} (${sample.count} sampled issue${sample.count !== 1 ? "s" : ""})`,
+        score: sample.count,
+      })
+    }
+  }
+  if (discovery.candidates.releaseNotes.length === 0 && releaseNotesSamples.length > 0) {
+    discovery.mapping.releaseNotes = releaseNotesSamples[0].fieldName
+  }
+
+  return {
+    ...discovery,
+    projectKey,
+    current: await getFieldMappingEntry(profile.baseUrl, projectKey),
+    releaseNotesSamples,
+  }
+}
+
+export async function getJiraFieldMapping(projectKey: string): Promise<JiraFieldMappingEntry> {
+  const profile = await getActiveJiraProfile()
+  return getFieldMappingEntry(profile.baseUrl, projectKey)
+}
+
+export async function saveJiraFieldMapping(
+  projectKey: string,
+  mapping: JiraFieldMapping
+): Promise<JiraFieldMappingEntry> {
+  const profile = await getActiveJiraProfile()
+
+  if (!projectKey) {
+    throw new Error("Project key is required")
+  }
+
+  const entry = await setFieldMappingEntry(profile.baseUrl, projectKey, mapping, "manual")
+
+  // Cached searches were made with the old field list
+  await clearJiraCache("issues")
+
+  console.log(`✅ Saved field mapping for ${projectKey}:`, mapping)
+  return entry
+}
+
+export interface JiraWriteBackStatus {
+  enabled: boolean
+  profile: JiraProfileSummary
+}
+
+export interface JiraReleaseNotesValue {
+  issueKey: string
+  releaseNotes: string // Markdown; empty when the field is not set
+  writable: boolean // False when the field holds formatting the Markdown editor would flatten
+}
+
+// Writes go straight to Jira, never through the cache. Comments are posted without retries so a
+// timed-out request can't add the same comment twice.
+async function sendJiraWrite(
+  profile: JiraConnectionProfile,
+  url: string,
+  init: RequestInit,
+  operation: string,
+  maxRetries?: number
+): Promise<any> {
+  const response = profile.mock
+    ? await handleMockJiraRequest(url, init)
+    : await jiraRequest(url, { ...init, headers: getJiraHeaders(profile) }, { operation, profileId: profile.id, maxRetries })
+
+  // Issue edits answer 204 No Content
+  if (response.status === 204) {
+    console.log(`✅ Successfully completed ${operation}`)
+    return null
+  }
+  return handleJiraResponse(response, operation)
+}
+
+async function getWriteBackProfile(): Promise<JiraConnectionProfile> {
+  const profile = await getActiveJiraProfile()
+  if (!isWriteBackEnabled(profile)) {
+    throw new Error("Writing to Jira is disabled; set JIRA_WRITE_BACK=true to enable it")
+  }
+  return profile
+}
+
+// The Jira user writes are made as, for the audit log
+async function getWriteActor(profile: JiraConnectionProfile): Promise<string | undefined> {
+  try {
+    const user = extractSafeUser(await optimizedFetch(profile, getJiraApiUrl(profile, "/myself"), {}, "connection_test"))
+    return user.displayName
+  } catch (error) {
+    console.warn("⚠️ Could not resolve the Jira user for the write audit:", error)
+    return undefined
+  }
+}
+
+// Current values, read uncached so a preview never diffs against stale text
+async function readReleaseNotes(
+  profile: JiraConnectionProfile,
+  issueKeys: string[],
+  fieldId: string
+): Promise<JiraReleaseNotesValue[]> {
+  return executeParallelRequests(
+    issueKeys.map((issueKey) => async () => {
+      const url = getJiraApiUrl(profile, `/issue/${encodeURIComponent(issueKey)}?fields=${fieldId}`)
+      const data = await sendJiraWrite(profile, url, {}, `read_release_notes_${issueKey}`)
+      const value = data?.fields?.[fieldId]
+      return { issueKey, releaseNotes: richTextToMarkdown(value) || "", writable: canRebuildFromMarkdown(value) }
+    })
+  )
+}
+
+// Cloud takes rich text as ADF for paragraph fields; single-line text fields and Data Center take strings
+async function toReleaseNotesValue(profile: JiraConnectionProfile, fieldId: string, markdown: string): Promise<any> {
+  if (isDataCenter(profile)) return markdown
+  const field = (await fetchJiraFieldMetadata()).find((candidate) => candidate.id === fieldId)
+  const isRichText = field?.schema?.type === "doc" || !!field?.schema?.custom?.endsWith(":textarea")
+  return isRichText ? markdownToADF(markdown) : markdown
+}
+
+async function auditWriteResult(
+  profile: JiraConnectionProfile,
+  actor: string | undefined,
+  action: JiraWriteAction,
+  result: JiraWriteResult,
+  after: string,
+  before?: string
+): Promise<JiraWriteResult> {
+  await recordJiraWrite({ profileId: profile.id, actor, action, target: result.target, before, after, status: result.status, error: result.error })
+  return result
+}
+
+// Whether the active profile accepts writes, so the UI can explain why write-back is off
+export async function fetchJiraWriteBackStatus(): Promise<JiraWriteBackStatus> {
+  const profile = await getActiveJiraProfile()
+  return { enabled: isWriteBackEnabled(profile), profile: toJiraProfileSummary(profile) }
+}
+
+// 🔍 Current release notes of the given issues, as the "before" side of the write-back preview
+export async function fetchJiraReleaseNotes(issueKeys: string[], projectKey?: string): Promise<JiraReleaseNotesValue[]> {
+  try {
+    const profile = await getActiveJiraProfile()
+    const keys = Array.from(new Set(issueKeys)).filter((key) => ISSUE_KEY_PATTERN.test(key))
+    if (keys.length === 0) {
+      throw new Error("At least one valid issue key is required")
+    }
+
+    const mapping = await resolveFieldMapping(profile, projectKey)
+    console.log(`🔍 Reading release notes (${mapping.releaseNotes}) of ${keys.length} issues...`)
+    const values = await readReleaseNotes(profile, keys, mapping.releaseNotes)
+    return freezeInDev(values)
+  } catch (error) {
+    console.error("❌ Failed to read release notes:", error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch JIRA release notes: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while fetching JIRA release notes")
+  }
+}
+
+/**
+ * Writes edited release notes to each issue's release notes field. An issue whose field changed
+ * in Jira since the preview (it no longer matches `expected`) is skipped as a conflict rather
+ * than overwritten, and one whose ADF can't be rebuilt from Markdown is left untouched. Every attempt is
+ * audited; one failed issue does not stop the rest.
+ */
+export async function updateJiraReleaseNotes(
+  changes: ReleaseNotesChange[],
+  projectKey?: string
+): Promise<JiraWriteResult[]> {
+  try {
+    const profile = await getWriteBackProfile()
+    const valid = changes.filter((change) => ISSUE_KEY_PATTERN.test(change.issueKey))
+    if (valid.length === 0) {
+      throw new Error("At least one valid issue key is required")
+    }
+
+    // Writing to a guessed field could overwrite something else, so the mapping must be confirmed
+    const entry = await getFieldMappingEntry(profile.baseUrl, projectKey)
+    if (entry.source !== "manual") {
+      throw new Error("Confirm the release notes field in the field mapping wizard before writing to Jira")
+    }
+    const mapping = entry.mapping
+    const actor = await getWriteActor(profile)
+    console.log(`✍️ Writing release notes to ${valid.length} issues as ${actor || "unknown user"}...`)
+
+    const current = await readReleaseNotes(profile, valid.map((change) => change.issueKey), mapping.releaseNotes)
+    const results: JiraWriteResult[] = []
+    for (const change of valid) {
+      const value = current.find((candidate) => candidate.issueKey === change.issueKey)
+      const before = value?.releaseNotes ?? ""
+      const audit = (result: JiraWriteResult) => auditWriteResult(profile, actor, "release-notes", result, change.releaseNotes, before)
+
+      if (before.trim() !== change.expected.trim()) {
+        results.push(await audit({ target: change.issueKey, status: "conflict", error: "Release notes changed in Jira since the preview" }))
+        continue
+      }
+      // Rewriting from Markdown would flatten tables, code blocks, panels and the like; keep the original
+      if (value && !value.writable) {
+        results.push(await audit({ target: change.issueKey, status: "failed", error: "Release notes use Jira formatting the editor can't keep; edit them in Jira" }))
+        continue
+      }
+
+      const result: JiraWriteResult = { target: change.issueKey, status: "updated" }
+      try {
+        const url = getJiraApiUrl(profile, `/issue/${encodeURIComponent(change.issueKey)}`)
+        const value = await toReleaseNotesValue(profile, mapping.releaseNotes, change.releaseNotes)
+        await sendJiraWrite(
+          profile,
+          url,
+          { method: "PUT", body: JSON.stringify({ fields: { [mapping.releaseNotes]: value } }) },
+          `update_release_notes_${change.issueKey}`
+        )
+      } catch (error) {
+        result.status = "failed"
+        result.error = error instanceof Error ? error.message : "Unknown error"
+      }
+      results.push(await audit(result))
+
+      await invalidateJiraCacheForChange({
+        id: `write-back-${change.issueKey}-${Date.now()}`,
+        type: "issue-updated",
+        webhookEvent: "write_back",
+        profileId: profile.id,
+        issueKey: change.issueKey,
+        projectKey,
+        sprintIds: [],
+        changedFields: [mapping.releaseNotes],
+        receivedAt: new Date().toISOString(),
+      })
+    }
+
+    const updated = results.filter((result) => result.status === "updated").length
+    console.log(`✅ Updated release notes on ${updated} of ${results.length} issues`)
+    return results
+  } catch (error) {
+    console.error("❌ Failed to write release notes:", error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to update JIRA release notes: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while updating JIRA release notes")
+  }
+}
+
+// Reads a sprint's goal uncached, as the "before" side of the sprint goal preview
+async function readSprintGoal(profile: JiraConnectionProfile, sprintId: number): Promise<string> {
+  const url = `${profile.baseUrl}/rest/agile/1.0/sprint/${sprintId}`
+  return extractSafeSprint(await sendJiraWrite(profile, url, {}, `read_sprint_goal_${sprintId}`)).goal || ""
+}
+
+function toSprintId(value: string): number {
+  const sprintId = Number(value)
+  if (!sprintId || isNaN(sprintId)) {
+    throw new Error("Valid sprint ID is required")
+  }
+  return sprintId
+}
+
+// 🔍 Current goal of a sprint, so posting the overview as the goal can show what it replaces
+export async function fetchJiraSprintGoal(sprintId: string): Promise<string> {
+  try {
+    const profile = await getActiveJiraProfile()
+    return await readSprintGoal(profile, toSprintId(sprintId))
+  } catch (error) {
+    console.error("❌ Failed to read sprint goal:", error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to fetch JIRA sprint goal: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while fetching JIRA sprint goal")
+  }
+}
+
+/**
+ * ✍️ Publishes the sprint overview as a comment on an issue or as the sprint's goal, and audits it.
+ * A goal changed in Jira since the preview (it no longer matches `expected`) is left as a conflict.
+ */
+export async function postJiraSprintOverview(target: SprintOverviewTarget, overview: string): Promise<JiraWriteResult> {
+  try {
+    const profile = await getWriteBackProfile()
+    if (!overview.trim()) {
+      throw new Error("The sprint overview is empty")
+    }
+    const actor = await getWriteActor(profile)
+
+    if (target.type === "comment") {
+      if (!ISSUE_KEY_PATTERN.test(target.issueKey)) {
+        throw new Error(`Invalid issue key: ${target.issueKey}`)
+      }
+      const result: JiraWriteResult = { target: target.issueKey, status: "updated" }
+      try {
+        const url = getJiraApiUrl(profile, `/issue/${encodeURIComponent(target.issueKey)}/comment`)
+        const body = isDataCenter(profile) ? overview : markdownToADF(overview)
+        await sendJiraWrite(profile, url, { method: "POST", body: JSON.stringify({ body }) }, `post_comment_${target.issueKey}`, 0)
+      } catch (error) {
+        result.status = "failed"
+        result.error = error instanceof Error ? error.message : "Unknown error"
+      }
+      return await auditWriteResult(profile, actor, "comment", result, overview)
+    }
+
+    const sprintId = toSprintId(target.sprintId)
+    const url = `${profile.baseUrl}/rest/agile/1.0/sprint/${sprintId}`
+    const goal = await readSprintGoal(profile, sprintId)
+    if (goal.trim() !== target.expected.trim()) {
+      const conflict: JiraWriteResult = { target: target.sprintId, status: "conflict", error: "Sprint goal changed in Jira since the preview" }
+      return await auditWriteResult(profile, actor, "sprint-goal", conflict, overview, goal)
+    }
+
+    const result: JiraWriteResult = { target: target.sprintId, status: "updated" }
+    try {
+      // Jira Software's partial sprint update; PUT would replace the whole sprint
+      await sendJiraWrite(profile, url, { method: "POST", body: JSON.stringify({ goal: overview }) }, `update_sprint_goal_${sprintId}`)
+    } catch (error) {
+      result.status = "failed"
+      result.error = error instanceof Error ? error.message : "Unknown error"
+    }
+
+    await invalidateJiraCacheForChange({
+      id: `write-back-sprint-${sprintId}-${Date.now()}`,
+      type: "sprint-updated",
+      webhookEvent: "write_back",
+      profileId: profile.id,
+      sprintIds: [sprintId],
+      changedFields: ["goal"],
+      receivedAt: new Date().toISOString(),
+    })
+    return await auditWriteResult(profile, actor, "sprint-goal", result, overview, goal)
+  } catch (error) {
+    console.error("❌ Failed to post sprint overview:", error)
+    if (error instanceof Error) {
+      throw new Error(`Failed to post JIRA sprint overview: ${error.message}`)
+    }
+    throw new Error("Unknown error occurred while posting JIRA sprint overview")
+  }
+}
+
+// Recent writes made through the active profile, newest first
+export async function fetchJiraWriteAudit(): Promise<JiraWriteAuditEntry[]> {
+  const profile = await getActiveJiraProfile()
+  return getJiraWriteAudit(profile.id)
+}
+
 // 🚀 New: Clear cache function for manual cache management
 export async function clearJiraCache(pattern?: string): Promise<void> {
   if (pattern) {
-    for (const key of cache.keys()) {
-      if (key.includes(pattern)) {
-        cache.delete(key)
-      }
-    }
-    console.log(`🧹 Cleared cache entries matching: ${pattern}`)
+    const keys = await cacheStore.keys()
+    const matching = keys.filter((key) => key.includes(pattern))
+    await Promise.all(matching.map((key) => cacheStore.delete(key)))
+    console.log(`🧹 Cleared ${matching.length} cache entries matching: ${pattern}`)
   } else {
-    cache.clear()
+    await cacheStore.clear()
     console.log("🧹 Cleared all Jira API cache")
   }
 }
 
-// 🚀 New: Get cache statistics
-export async function getCacheStats(): Promise<{ size: number; entries: string[] }> {
+// 🔔 Drops the cache entries a webhook change makes stale. Operation names are matched exactly or
+// by "<name>_" prefix (page suffixes), so sprint 12 never clears sprint 123.
+export async function invalidateJiraCacheForChange(change: JiraChangeNotification): Promise<number> {
+  const exact: string[] = []
+  const prefixes: string[] = []
+
+  for (const sprintId of change.sprintIds) {
+    exact.push(`fetch_sprint_${sprintId}`)
+    prefixes.push(`fetch_sprint_issues_${sprintId}_`, `scope_candidates_${sprintId}_`)
+  }
+
+  if (change.issueKey) {
+    exact.push(`fetch_changelog_${change.issueKey}`)
+    prefixes.push(`fetch_changelog_${change.issueKey}_`)
+    // Free-form JQL results may include the issue, and without sprint IDs any sprint might
+    prefixes.push("search_", "fetch_jql_issues_", "fetch_version_issues_", "fetch_kanban_", "fetch_epic_issues_")
+    if (change.sprintIds.length === 0) {
+      prefixes.push("fetch_sprint_issues_", "scope_candidates_")
+    }
+  } else {
+    // Sprint lifecycle changes show up in the board's sprint list
+    prefixes.push(change.boardId ? `fetch_sprints_${change.boardId}_` : "fetch_sprints_")
+  }
+
+  const keys = await cacheStore.keys()
+  const candidates = keys.filter((key) => {
+    const operation = key.slice(0, key.lastIndexOf(":"))
+    return exact.includes(operation) || prefixes.some((prefix) => operation.startsWith(prefix))
+  })
+
+  // Profiles share operation names, so only the sending site's entries go. A change from an
+  // unknown site, or entries cached before they recorded their profile, can't be told apart.
+  const matching: string[] = []
+  for (const key of candidates) {
+    if (!change.profileId) {
+      matching.push(key)
+      continue
+    }
+    const entry = await cacheStore.get(key)
+    if (entry && (!entry.profileId || entry.profileId === change.profileId)) matching.push(key)
+  }
+  await Promise.all(matching.map((key) => cacheStore.delete(key)))
+
+  console.log(`🧹 Invalidated ${matching.length} cache entries for ${change.webhookEvent} (${change.issueKey || `sprint ${change.sprintIds.join(", ")}`})`)
+  return matching.length
+}
+
+export interface JiraCacheStats {
+  backend: string
+  size: number
+  entries: string[]
+  hits: number
+  staleHits: number
+  misses: number
+  revalidations: number
+  notModified: number
+  client: JiraClientStats
+}
+
+// 🚀 New: Get cache statistics, plus request/throttling stats from the HTTP client
+export async function getCacheStats(): Promise<JiraCacheStats> {
+  const entries = await cacheStore.keys()
   return {
-    size: cache.size,
-    entries: Array.from(cache.keys()),
+    backend: cacheStore.name,
+    size: entries.length,
+    entries,
+    ...cacheCounters,
+    client: getJiraClientStats(),
   }
 }
@@ -0,0 +1,154 @@
+// Persistent Jira response cache with per-operation TTLs and stale-while-revalidate
+
+import { createHash } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+
+export interface JiraCacheEntry {
+  key: string
+  operation: string
+  profileId?: string // Profile the response came from, so a webhook only clears its own site
+  data: any
+  storedAt: number
+  freshUntil: number // Served without revalidation until this time
+  staleUntil: number // Served while revalidating in the background until this time
+  etag?: string
+  lastModified?: string
+}
+
+// Storage backend; every method is async so that remote or on-disk stores fit the same shape
+export interface JiraCacheStore {
+  readonly name: string
+  get(key: string): Promise<JiraCacheEntry | null>
+  set(entry: JiraCacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+  keys(): Promise<string[]>
+  clear(): Promise<void>
+}
+
+export interface JiraCachePolicy {
+  ttl: number
+  staleWhileRevalidate: number
+}
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+
+// Most specific prefix first; operation names come from the optimizedFetch call sites
+const CACHE_POLICIES: Array<{ prefix: string; policy: JiraCachePolicy }> = [
+  { prefix: "connection_test", policy: { ttl: 1 * MINUTE, staleWhileRevalidate: 0 } },
+  { prefix: "fetch_projects", policy: { ttl: 30 * MINUTE, staleWhileRevalidate: 24 * HOUR } },
+  { prefix: "fetch_boards", policy: { ttl: 30 * MINUTE, staleWhileRevalidate: 24 * HOUR } },
+  { prefix: "board_features", policy: { ttl: 1 * HOUR, staleWhileRevalidate: 24 * HOUR } },
+  { prefix: "fetch_field_metadata", policy: { ttl: 1 * HOUR, staleWhileRevalidate: 24 * HOUR } },
+  { prefix: "fetch_statuses", policy: { ttl: 1 * HOUR, staleWhileRevalidate: 24 * HOUR } },
+  { prefix: "fetch_board_configuration", policy: { ttl: 30 * MINUTE, staleWhileRevalidate: 24 * HOUR } },
+  { prefix: "fetch_sprint_issues", policy: { ttl: 2 * MINUTE, staleWhileRevalidate: 15 * MINUTE } },
+  { prefix: "fetch_version_issues", policy: { ttl: 2 * MINUTE, staleWhileRevalidate: 15 * MINUTE } },
+  { prefix: "fetch_kanban_", policy: { ttl: 2 * MINUTE, staleWhileRevalidate: 15 * MINUTE } },
+  { prefix: "fetch_epic_issues", policy: { ttl: 2 * MINUTE, staleWhileRevalidate: 15 * MINUTE } },
+  { prefix: "fetch_versions", policy: { ttl: 30 * MINUTE, staleWhileRevalidate: 24 * HOUR } },
+  { prefix: "fetch_sprints", policy: { ttl: 5 * MINUTE, staleWhileRevalidate: 1 * HOUR } },
+  { prefix: "fetch_sprint_", policy: { ttl: 5 * MINUTE, staleWhileRevalidate: 1 * HOUR } },
+  { prefix: "fetch_changelog", policy: { ttl: 10 * MINUTE, staleWhileRevalidate: 1 * HOUR } },
+  { prefix: "analyze_fields", policy: { ttl: 10 * MINUTE, staleWhileRevalidate: 0 } },
+]
+const DEFAULT_POLICY: JiraCachePolicy = { ttl: 2 * MINUTE, staleWhileRevalidate: 15 * MINUTE }
+
+export function getCachePolicy(operation: string): JiraCachePolicy {
+  return CACHE_POLICIES.find(({ prefix }) => operation.startsWith(prefix))?.policy ?? DEFAULT_POLICY
+}
+
+/**
+ * Builds a cache key from the operation and the full request, including the body,
+ * so POST searches with different JQL or fields never share an entry
+ */
+export function getCacheKey(operation: string, request: Record<string, any>): string {
+  const digest = createHash("sha256").update(JSON.stringify(request)).digest("hex").slice(0, 32)
+  return `${operation}:${digest}`
+}
+
+export class MemoryCacheStore implements JiraCacheStore {
+  readonly name = "memory"
+  private entries = new Map<string, JiraCacheEntry>()
+
+  async get(key: string): Promise<JiraCacheEntry | null> {
+    return this.entries.get(key) ?? null
+  }
+
+  async set(entry: JiraCacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry)
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.entries.keys())
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+}
+
+// One JSON file per entry; survives restarts and can be shared by instances on a common volume
+export class FileCacheStore implements JiraCacheStore {
+  readonly name = "file"
+
+  constructor(private readonly directory: string) {}
+
+  // Keys are "operation:digest", so the encoded key is a safe, listable file name
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`)
+  }
+
+  async get(key: string): Promise<JiraCacheEntry | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(key), "utf8"))
+    } catch {
+      return null
+    }
+  }
+
+  async set(entry: JiraCacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+    // Write then rename so concurrent readers never see a partial file
+    const file = this.fileFor(entry.key)
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`
+    await fs.writeFile(tempFile, JSON.stringify(entry), "utf8")
+    await fs.rename(tempFile, file)
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true })
+  }
+
+  async keys(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory)
+      return files.filter((file) => file.endsWith(".json")).map((file) => decodeURIComponent(file.slice(0, -".json".length)))
+    } catch {
+      return []
+    }
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Picks the backend from JIRA_CACHE_BACKEND ("file" or "memory", default "file")
+ */
+export function createJiraCacheStore(): JiraCacheStore {
+  const backend = (process.env.JIRA_CACHE_BACKEND || "file").toLowerCase()
+  if (backend === "memory") {
+    return new MemoryCacheStore()
+  }
+  if (backend !== "file") {
+    console.warn(`⚠️ Unknown JIRA_CACHE_BACKEND "${backend}", using the file cache`)
+  }
+  return new FileCacheStore(process.env.JIRA_CACHE_DIR || path.join(process.cwd(), ".cache", "jira"))
+}
@@ -1,30 +1,180 @@
 // Environment validation and header utilities
 
+import type { JiraDeploymentType, JiraProfileSummary } from "./jira-types"
+
+export type { JiraDeploymentType } from "./jira-types"
+
+// A named Jira site connection. Credentials never leave the server; see toJiraProfileSummary.
+// Cloud uses Basic auth (email + API token) and REST v3 with ADF rich text.
+// Server / Data Center uses a Bearer Personal Access Token and REST v2 with plain-text fields.
+// Mock profiles need no credentials; their requests are answered by lib/jira-mock.ts.
+export interface JiraConnectionProfile extends JiraProfileSummary {
+  email?: string
+  apiToken?: string
+  pat?: string
+}
+
+export const DEFAULT_PROFILE_ID = "default"
+export const MOCK_PROFILE_ID = "mock"
+export const MOCK_JIRA_BASE_URL = "https://jira-mock.local"
+
+function parseDeploymentType(value: string | undefined): JiraDeploymentType {
+  const normalized = (value || "").trim().toLowerCase()
+  return normalized === "server" || normalized === "datacenter" || normalized === "data-center" || normalized === "dc"
+    ? "datacenter"
+    : "cloud"
+}
+
 export const env = {
   JIRA_BASE_URL: process.env.JIRA_BASE_URL,
   JIRA_EMAIL: process.env.JIRA_EMAIL,
   JIRA_API_TOKEN: process.env.JIRA_API_TOKEN,
+  JIRA_PAT: process.env.JIRA_PAT,
+  JIRA_DEPLOYMENT: parseDeploymentType(process.env.JIRA_DEPLOYMENT),
+  JIRA_PROFILES: process.env.JIRA_PROFILES,
+  JIRA_MOCK: process.env.JIRA_MOCK === "true" || process.env.JIRA_MOCK === "1",
+  JIRA_WRITE_BACK: process.env.JIRA_WRITE_BACK === "true" || process.env.JIRA_WRITE_BACK === "1",
+}
+
+// The single-site variables become the "default" profile; JIRA_PROFILES adds more as a JSON array
+// of { id, name, baseUrl, deployment?, email?, apiToken?, pat? }. JIRA_MOCK=true adds the offline
+// simulator, which is the default profile when no real site is configured.
+function loadProfiles(): JiraConnectionProfile[] {
+  const profiles: JiraConnectionProfile[] = []
+
+  if (env.JIRA_BASE_URL) {
+    profiles.push({
+      id: DEFAULT_PROFILE_ID,
+      name: process.env.JIRA_PROFILE_NAME || "Default",
+      baseUrl: env.JIRA_BASE_URL.replace(/\/+$/, ""),
+      deployment: env.JIRA_DEPLOYMENT,
+      email: env.JIRA_EMAIL,
+      apiToken: env.JIRA_API_TOKEN,
+      pat: env.JIRA_PAT,
+    })
+  }
+
+  if (env.JIRA_PROFILES) {
+    try {
+      const parsed = JSON.parse(env.JIRA_PROFILES)
+      if (!Array.isArray(parsed)) {
+        throw new Error("expected a JSON array")
+      }
+      parsed.forEach((profile: any, index: number) => {
+        if (!profile?.id || !profile?.baseUrl) {
+          console.warn(`⚠️ Skipping JIRA_PROFILES entry ${index}: id and baseUrl are required`)
+          return
+        }
+        if (profiles.some((existing) => existing.id === String(profile.id))) {
+          console.warn(`⚠️ Skipping duplicate Jira profile "${profile.id}"`)
+          return
+        }
+        profiles.push({
+          id: String(profile.id),
+          name: String(profile.name || profile.id),
+          baseUrl: String(profile.baseUrl).replace(/\/+$/, ""),
+          deployment: parseDeploymentType(profile.deployment),
+          email: profile.email,
+          apiToken: profile.apiToken,
+          pat: profile.pat,
+        })
+      })
+    } catch (error) {
+      console.error("❌ Invalid JIRA_PROFILES configuration:", error)
+    }
+  }
+
+  if (env.JIRA_MOCK) {
+    profiles.push({
+      id: MOCK_PROFILE_ID,
+      name: process.env.JIRA_MOCK_PROFILE_NAME || "Offline Demo",
+      baseUrl: MOCK_JIRA_BASE_URL,
+      deployment: "cloud",
+      mock: true,
+    })
+  }
+
+  return profiles
+}
+
+const profiles = loadProfiles()
+
+export function getJiraProfiles(): JiraConnectionProfile[] {
+  return profiles
+}
+
+/**
+ * Returns the requested profile, falling back to the first configured one when the
+ * ID is missing or no longer configured (e.g. a stale saved session)
+ */
+export function getJiraProfile(profileId?: string | null): JiraConnectionProfile {
+  if (profiles.length === 0) {
+    throw new Error("JIRA_BASE_URL environment variable is not configured (or set JIRA_MOCK=true for offline demo data)")
+  }
+  if (profileId) {
+    const profile = profiles.find((candidate) => candidate.id === profileId)
+    if (profile) return profile
+    console.warn(`⚠️ Unknown Jira profile "${profileId}", using "${profiles[0].id}"`)
+  }
+  return profiles[0]
+}
+
+export function toJiraProfileSummary(profile: JiraConnectionProfile): JiraProfileSummary {
+  return {
+    id: profile.id,
+    name: profile.name,
+    baseUrl: profile.baseUrl,
+    deployment: profile.deployment,
+    ...(profile.mock ? { mock: true } : {}),
+  }
 }
 
-export function validateEnv(): void {
-  if (!env.JIRA_BASE_URL) {
-    throw new Error("JIRA_BASE_URL environment variable is not configured")
+export function isDataCenter(profile: JiraConnectionProfile): boolean {
+  return profile.deployment === "datacenter"
+}
+
+// Writes to Jira are off unless JIRA_WRITE_BACK=true; the offline simulator always accepts them
+export function isWriteBackEnabled(profile: JiraConnectionProfile): boolean {
+  return env.JIRA_WRITE_BACK || !!profile.mock
+}
+
+export function getJiraApiVersion(profile: JiraConnectionProfile): "2" | "3" {
+  return isDataCenter(profile) ? "2" : "3"
+}
+
+// Builds a platform REST API URL for the profile's deployment, e.g. getJiraApiUrl(profile, "/myself")
+export function getJiraApiUrl(profile: JiraConnectionProfile, path: string): string {
+  return `${profile.baseUrl}/rest/api/${getJiraApiVersion(profile)}${path}`
+}
+
+export function validateEnv(profile: JiraConnectionProfile): void {
+  if (profile.mock) return
+  if (!profile.baseUrl) {
+    throw new Error(`Jira profile "${profile.id}" has no base URL configured`)
+  }
+  if (isDataCenter(profile)) {
+    if (!profile.pat && !profile.apiToken) {
+      throw new Error(`Jira profile "${profile.id}" needs a Personal Access Token (JIRA_PAT) for Jira Server / Data Center`)
+    }
+    return
   }
-  if (!env.JIRA_EMAIL) {
-    throw new Error("JIRA_EMAIL environment variable is not configured")
+  if (!profile.email) {
+    throw new Error(`Jira profile "${profile.id}" has no email configured (JIRA_EMAIL)`)
   }
-  if (!env.JIRA_API_TOKEN) {
-    throw new Error("JIRA_API_TOKEN environment variable is not configured")
+  if (!profile.apiToken) {
+    throw new Error(`Jira profile "${profile.id}" has no API token configured (JIRA_API_TOKEN)`)
   }
 }
 
-export function getJiraHeaders(): HeadersInit {
-  validateEnv()
+export function getJiraHeaders(profile: JiraConnectionProfile): HeadersInit {
+  validateEnv(profile)
 
-  const auth = Buffer.from(`${env.JIRA_EMAIL}:${env.JIRA_API_TOKEN}`).toString("base64")
+  const authorization = isDataCenter(profile)
+    ? `Bearer ${profile.pat || profile.apiToken}`
+    : `Basic ${Buffer.from(`${profile.email}:${profile.apiToken}`).toString("base64")}`
 
   return {
-    Authorization: `Basic ${auth}`,
+    Authorization: authorization,
     Accept: "application/json",
     "Content-Type": "application/json",
   }
@@ -0,0 +1,67 @@
+// Saved field mappings, one JSON file per site and project, so they survive restarts and are
+// shared by instances on a common volume
+
+import { promises as fs } from "fs"
+import path from "path"
+import { DEFAULT_FIELD_MAPPING, type JiraFieldMapping } from "./jira-types"
+import type { JiraFieldMappingEntry } from "./jira-field-mapping"
+
+function getStoreDirectory(): string {
+  return process.env.JIRA_FIELD_MAPPING_DIR || path.join(process.cwd(), ".cache", "field-mappings")
+}
+
+function getEntryFile(siteUrl: string, projectKey: string): string {
+  const key = `${siteUrl.replace(/\/+$/, "").toLowerCase()}::${projectKey.toUpperCase()}`
+  return path.join(getStoreDirectory(), `${encodeURIComponent(key)}.json`)
+}
+
+async function readEntry(siteUrl: string, projectKey: string): Promise<JiraFieldMappingEntry | null> {
+  try {
+    return JSON.parse(await fs.readFile(getEntryFile(siteUrl, projectKey), "utf8"))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Returns the stored mapping for a site/project, falling back to the defaults
+ */
+export async function getFieldMappingEntry(siteUrl: string, projectKey?: string): Promise<JiraFieldMappingEntry> {
+  const stored = projectKey ? await readEntry(siteUrl, projectKey) : null
+  if (stored) {
+    // Mappings saved before a logical field existed keep its default
+    return { ...stored, mapping: { ...DEFAULT_FIELD_MAPPING, ...stored.mapping } }
+  }
+
+  return {
+    siteUrl,
+    projectKey: projectKey || "",
+    mapping: { ...DEFAULT_FIELD_MAPPING },
+    source: "default",
+    updatedAt: new Date(0).toISOString(),
+  }
+}
+
+// Only mappings confirmed in the wizard are saved; discovered ones are used unsaved until then
+export async function setFieldMappingEntry(
+  siteUrl: string,
+  projectKey: string,
+  mapping: JiraFieldMapping,
+  source: JiraFieldMappingEntry["source"],
+): Promise<JiraFieldMappingEntry> {
+  const entry: JiraFieldMappingEntry = {
+    siteUrl,
+    projectKey: projectKey.toUpperCase(),
+    mapping: { ...DEFAULT_FIELD_MAPPING, ...mapping },
+    source,
+    updatedAt: new Date().toISOString(),
+  }
+
+  await fs.mkdir(getStoreDirectory(), { recursive: true })
+  // Write then rename so concurrent readers never see a partial file
+  const file = getEntryFile(siteUrl, projectKey)
+  const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`
+  await fs.writeFile(tempFile, JSON.stringify(entry, null, 2), "utf8")
+  await fs.rename(tempFile, file)
+  return entry
+}
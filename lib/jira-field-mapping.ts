@@ -0,0 +1,221 @@
+// Jira custom field mappings: per-site / per-project entries and auto-discovery
+
+import { DEFAULT_FIELD_MAPPING, type JiraFieldMapping } from "./jira-types"
+
+export type JiraFieldMappingKey = keyof JiraFieldMapping
+
+export interface JiraFieldMappingEntry {
+  siteUrl: string
+  projectKey: string
+  mapping: JiraFieldMapping
+  source: "default" | "discovered" | "manual" // "discovered": saved unconfirmed by earlier versions
+  updatedAt: string
+}
+
+// Metadata returned by Jira's /field endpoint
+export interface JiraFieldMetadata {
+  id: string
+  name: string
+  custom: boolean
+  schema?: {
+    type: string
+    custom?: string
+    customId?: number
+  }
+}
+
+export interface JiraFieldCandidate {
+  fieldId: string
+  fieldName: string
+  reason: string
+  score: number
+}
+
+export interface JiraFieldDiscoveryResult {
+  mapping: JiraFieldMapping
+  candidates: Record<JiraFieldMappingKey, JiraFieldCandidate[]>
+  totalFields: number
+}
+
+// Release notes candidate detected from sampled issue values
+export interface ReleaseNotesFieldCandidate {
+  fieldName: string
+  fieldValue: string
+  type: string
+  count: number
+  reason: string
+}
+
+export const FIELD_MAPPING_LABELS: Record<JiraFieldMappingKey, string> = {
+  storyPoints: "Story Points",
+  epicName: "Epic Name",
+  epicLink: "Epic Link",
+  releaseNotes: "Release Notes",
+  sprint: "Sprint",
+}
+
+// Known custom field types and anchored name patterns for each logical field, strongest first.
+// A field must also hold the right kind of value, so "Release Date" can't become the release notes.
+const FIELD_MATCHERS: Record<JiraFieldMappingKey, { schemaCustom: string[]; names: RegExp[]; schemaTypes: string[] }> = {
+  storyPoints: {
+    schemaCustom: [
+      "com.pyxis.greenhopper.jira:jsw-story-points",
+      "com.atlassian.jira.plugin.system.customfieldtypes:float",
+    ],
+    names: [/^story points?$/i, /^story point estimate$/i],
+    schemaTypes: ["number"],
+  },
+  epicName: {
+    schemaCustom: ["com.pyxis.greenhopper.jira:gh-epic-label"],
+    names: [/^epic name$/i],
+    schemaTypes: ["string"],
+  },
+  epicLink: {
+    schemaCustom: ["com.pyxis.greenhopper.jira:gh-epic-link"],
+    names: [/^epic link$/i],
+    schemaTypes: ["any", "string"],
+  },
+  releaseNotes: {
+    schemaCustom: [],
+    names: [/^release notes?$/i],
+    schemaTypes: ["string", "doc"],
+  },
+  sprint: {
+    schemaCustom: ["com.pyxis.greenhopper.jira:gh-sprint"],
+    names: [/^sprints?$/i],
+    schemaTypes: ["array"],
+  },
+}
+
+/**
+ * Ranks the site's fields against each logical field and picks the best match.
+ * Falls back to the default field ID when nothing plausible is found.
+ */
+export function discoverFieldMapping(fields: JiraFieldMetadata[]): JiraFieldDiscoveryResult {
+  const candidates = {} as Record<JiraFieldMappingKey, JiraFieldCandidate[]>
+  const mapping = { ...DEFAULT_FIELD_MAPPING }
+  const fieldIds = new Set(fields.map((field) => field.id))
+
+  for (const key of Object.keys(FIELD_MATCHERS) as JiraFieldMappingKey[]) {
+    const matcher = FIELD_MATCHERS[key]
+    const ranked: JiraFieldCandidate[] = []
+
+    for (const field of fields) {
+      if (!field.custom) continue
+      if (field.schema?.type && !matcher.schemaTypes.includes(field.schema.type)) continue
+
+      const schemaIndex = field.schema?.custom ? matcher.schemaCustom.indexOf(field.schema.custom) : -1
+      const nameIndex = matcher.names.findIndex((pattern) => pattern.test(field.name))
+
+      // Generic float fields only count when the name also matches
+      const schemaIsGeneric = schemaIndex > 0
+      if (schemaIndex === -1 && nameIndex === -1) continue
+      if (schemaIsGeneric && nameIndex === -1) continue
+
+      let score = 0
+      const reasons: string[] = []
+      if (schemaIndex === 0) {
+        score += 100
+        reasons.push(`Field type ${field.schema?.custom}`)
+      }
+      if (nameIndex !== -1) {
+        score += 50 - nameIndex * 10
+        reasons.push(`Name "${field.name}"`)
+      }
+
+      ranked.push({ fieldId: field.id, fieldName: field.name, reason: reasons.join(", "), score })
+    }
+
+    ranked.sort((a, b) => b.score - a.score)
+    candidates[key] = ranked
+
+    if (ranked.length > 0) {
+      mapping[key] = ranked[0].fieldId
+    } else if (!fieldIds.has(mapping[key])) {
+      console.warn(`⚠️ No ${FIELD_MAPPING_LABELS[key]} field found on this Jira site; keeping ${mapping[key]}`)
+    }
+  }
+
+  return { mapping, candidates, totalFields: fields.length }
+}
+
+/**
+ * Looks for release notes fields in the custom field sample produced by analyzeJiraFields
+ */
+export function detectReleaseNotesFields(
+  allCustomFields: Record<string, { value: any; type: string; count: number }>,
+): ReleaseNotesFieldCandidate[] {
+  const potentialReleaseNotesFields: ReleaseNotesFieldCandidate[] = []
+
+  // Check all custom fields for potential release notes
+  Object.entries(allCustomFields).forEach(([fieldName, fieldInfo]) => {
+    const fieldValue = fieldInfo.value
+
+    // Look for fields that might contain release notes
+    if (typeof fieldValue === "string" && fieldValue.length > 0) {
+      const lowerValue = fieldValue.toLowerCase()
+
+      // Check if the field value contains release note indicators
+      if (
+        lowerValue.includes("release") ||
+        lowerValue.includes("note") ||
+        lowerValue.includes("description") ||
+        lowerValue.includes("summary") ||
+        lowerValue.includes("details")
+      ) {
+        potentialReleaseNotesFields.push({
+          fieldName,
+          fieldValue: fieldValue.substring(0, 200) + (fieldValue.length > 200 ? "..." : ""),
+          type: fieldInfo.type,
+          count: fieldInfo.count,
+          reason: "Contains release note keywords",
+        })
+      }
+    }
+  })
+
+  // Also check for fields with names that suggest release notes
+  Object.entries(allCustomFields).forEach(([fieldName, fieldInfo]) => {
+    const fieldValue = fieldInfo.value
+
+    // Check if the field name suggests it might be release notes
+    if (
+      fieldName.toLowerCase().includes("release") ||
+      fieldName.toLowerCase().includes("note") ||
+      fieldName.toLowerCase().includes("description")
+    ) {
+      // Avoid duplicates
+      if (!potentialReleaseNotesFields.find((f) => f.fieldName === fieldName)) {
+        potentialReleaseNotesFields.push({
+          fieldName,
+          fieldValue:
+            typeof fieldValue === "string"
+              ? fieldValue.substring(0, 200) + (fieldValue.length > 200 ? "..." : "")
+              : String(fieldValue),
+          type: fieldInfo.type,
+          count: fieldInfo.count,
+          reason: "Field name suggests release notes",
+        })
+      }
+    }
+  })
+
+  // Sort by relevance (count and reason)
+  potentialReleaseNotesFields.sort((a, b) => {
+    // Prioritize fields with content
+    if (a.fieldValue && !b.fieldValue) return -1
+    if (!a.fieldValue && b.fieldValue) return 1
+
+    // Then by count
+    if (a.count !== b.count) return b.count - a.count
+
+    // Then by reason priority
+    const reasonPriority: Record<string, number> = {
+      "Field name suggests release notes": 1,
+      "Contains release note keywords": 2,
+    }
+    return (reasonPriority[a.reason] || 0) - (reasonPriority[b.reason] || 0)
+  })
+
+  return potentialReleaseNotesFields
+}
@@ -0,0 +1,245 @@
+// Rate-limit aware HTTP layer for Jira: shared token bucket, Retry-After and exponential backoff
+
+const REQUEST_TIMEOUT = 15000 // 15 seconds per attempt
+const MAX_RETRIES = 4
+const BASE_BACKOFF_MS = 500
+const MAX_BACKOFF_MS = 30000
+// A longer Retry-After fails the request, and every other request until then, instead of waiting
+const MAX_RETRY_AFTER_MS = Number(process.env.JIRA_MAX_RETRY_AFTER_SECONDS) * 1000 || 120000
+const MAX_RECENT_EVENTS = 50
+
+// Jira Cloud starts returning 429s well before this on busy sites; override per deployment
+const RATE_LIMIT_PER_SECOND = Number(process.env.JIRA_RATE_LIMIT_PER_SECOND) || 10
+const RATE_LIMIT_BURST = Number(process.env.JIRA_RATE_LIMIT_BURST) || 20
+
+export interface JiraThrottleEvent {
+  timestamp: string
+  operation: string
+  profileId: string
+  reason: "rate-limited" | "server-error" | "network-error" | "queued"
+  status?: number
+  attempt: number
+  delayMs: number
+}
+
+export interface JiraClientStats {
+  requests: number
+  retries: number
+  throttled: number
+  failures: number
+  averageResponseTime: number
+  bucket: {
+    capacity: number
+    available: number
+    refillPerSecond: number
+  }
+  recentEvents: JiraThrottleEvent[]
+}
+
+export interface JiraRequestOptions {
+  operation: string
+  profileId: string
+  signal?: AbortSignal
+  maxRetries?: number
+}
+
+// One bucket for every call path so that parallel board/sprint loading shares the same budget
+class TokenBucket {
+  private tokens: number
+  private lastRefill = Date.now()
+  private pausedUntil = 0 // No tokens before this time, set from a 429's Retry-After
+
+  constructor(
+    readonly capacity: number,
+    readonly refillPerSecond: number
+  ) {
+    this.tokens = capacity
+  }
+
+  get available(): number {
+    this.refill()
+    return Math.floor(this.tokens)
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond)
+    this.lastRefill = now
+  }
+
+  // Resolves with how long the caller waited for a token
+  async take(signal?: AbortSignal): Promise<number> {
+    const startedAt = Date.now()
+    while (true) {
+      const paused = this.pausedUntil - Date.now()
+      // Fail fast rather than hold every caller open for a long Retry-After
+      if (paused > MAX_RETRY_AFTER_MS) {
+        throw new Error(`Jira is rate limiting requests until ${new Date(this.pausedUntil).toISOString()}`)
+      }
+      if (paused > 0) {
+        await sleep(paused, signal)
+        continue
+      }
+      this.refill()
+      if (this.tokens >= 1) {
+        this.tokens -= 1
+        return Date.now() - startedAt
+      }
+      await sleep(((1 - this.tokens) / this.refillPerSecond) * 1000, signal)
+    }
+  }
+
+  // After a 429 Jira wants silence, so hand out no tokens to any caller until the deadline
+  pause(ms: number): void {
+    this.refill()
+    this.tokens = Math.min(this.tokens, 0)
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+  }
+}
+
+const bucket = new TokenBucket(RATE_LIMIT_BURST, RATE_LIMIT_PER_SECOND)
+
+const stats = {
+  requests: 0,
+  retries: 0,
+  throttled: 0,
+  failures: 0,
+  totalResponseTime: 0,
+  recentEvents: [] as JiraThrottleEvent[],
+}
+
+function abortError(): Error {
+  const error = new Error("The Jira request was cancelled")
+  error.name = "AbortError"
+  return error
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError())
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+function recordEvent(event: Omit<JiraThrottleEvent, "timestamp">): void {
+  stats.recentEvents.unshift({ ...event, timestamp: new Date().toISOString() })
+  stats.recentEvents.length = Math.min(stats.recentEvents.length, MAX_RECENT_EVENTS)
+}
+
+/**
+ * Parses Retry-After as either delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+// Full jitter: a random delay up to the exponential ceiling
+function getBackoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt)
+  return Math.round(Math.random() * ceiling)
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || (status >= 500 && status !== 501)
+}
+
+/**
+ * Sends a Jira request through the shared token bucket, retrying 429 and 5xx responses
+ * and network failures. Returns the final response, which may still be an error response.
+ */
+export async function jiraRequest(url: string, init: RequestInit, options: JiraRequestOptions): Promise<Response> {
+  const { operation, profileId, signal } = options
+  const maxRetries = options.maxRetries ?? MAX_RETRIES
+
+  for (let attempt = 0; ; attempt++) {
+    const waited = await bucket.take(signal)
+    if (waited > 1000) {
+      recordEvent({ operation, profileId, reason: "queued", attempt, delayMs: waited })
+    }
+
+    stats.requests++
+    const startedAt = Date.now()
+    let response: Response
+    try {
+      const timeout = AbortSignal.timeout(REQUEST_TIMEOUT)
+      response = await fetch(url, { ...init, signal: signal ? AbortSignal.any([signal, timeout]) : timeout })
+    } catch (error) {
+      stats.totalResponseTime += Date.now() - startedAt
+      if (signal?.aborted) throw abortError()
+      if (attempt >= maxRetries) {
+        stats.failures++
+        throw error
+      }
+
+      const delayMs = getBackoffDelay(attempt)
+      console.warn(`⚠️ Network error during ${operation}, retrying in ${delayMs}ms (attempt ${attempt + 1}/${maxRetries})`)
+      stats.retries++
+      recordEvent({ operation, profileId, reason: "network-error", attempt: attempt + 1, delayMs })
+      await sleep(delayMs, signal)
+      continue
+    }
+    stats.totalResponseTime += Date.now() - startedAt
+
+    if (!isRetryableStatus(response.status)) {
+      return response
+    }
+
+    // Jira's Retry-After is honoured as sent; only the computed backoff is capped
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"))
+    const delayMs = retryAfter ?? getBackoffDelay(attempt)
+    const reason = response.status === 429 ? "rate-limited" : "server-error"
+    if (response.status === 429) {
+      stats.throttled++
+      bucket.pause(delayMs)
+    }
+
+    if (attempt >= maxRetries || (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS)) {
+      if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) {
+        console.warn(`⚠️ Jira asked to wait ${Math.round(retryAfter / 1000)}s during ${operation}; giving up`)
+      }
+      stats.failures++
+      return response
+    }
+
+    console.warn(
+      `⚠️ Jira returned ${response.status} during ${operation}, retrying in ${delayMs}ms (attempt ${attempt + 1}/${maxRetries})`
+    )
+    stats.retries++
+    recordEvent({ operation, profileId, reason, status: response.status, attempt: attempt + 1, delayMs })
+
+    // Release the connection before waiting
+    await response.body?.cancel().catch(() => {})
+    await sleep(delayMs, signal)
+  }
+}
+
+export function getJiraClientStats(): JiraClientStats {
+  return {
+    requests: stats.requests,
+    retries: stats.retries,
+    throttled: stats.throttled,
+    failures: stats.failures,
+    averageResponseTime: stats.requests > 0 ? Math.round(stats.totalResponseTime / stats.requests) : 0,
+    bucket: {
+      capacity: bucket.capacity,
+      available: bucket.available,
+      refillPerSecond: bucket.refillPerSecond,
+    },
+    recentEvents: [...stats.recentEvents],
+  }
+}
@@ -0,0 +1,806 @@
+// Demo data for the offline Jira simulator (see lib/jira-mock.ts), kept in Jira's own REST shapes
+
+import { readFileSync } from "fs"
+import path from "path"
+import { JIRA_FIELDS, type JiraChangelogHistory, type JiraProject, type JiraSprint, type JiraVersion } from "./jira-types"
+
+export interface JiraMockStatus {
+  id: string
+  name: string
+  statusCategory: { key: string; name: string }
+}
+
+// Boards select their issues with a saved filter, as in Jira; kanban boards can narrow it with a sub-filter
+export interface JiraMockBoard {
+  id: number
+  name: string
+  type: "scrum" | "kanban"
+  location: { projectId: number; projectKey: string; projectName: string }
+  filter: { id: string; name: string; jql: string }
+  subQuery?: string
+  columns: Array<{ name: string; statuses: Array<{ id: string }>; min?: number; max?: number }>
+}
+
+export interface JiraMockVersion extends JiraVersion {
+  projectKey: string
+}
+
+// A raw issue with every field set, including those only JQL reads (project, fixVersions, sprint, updated)
+export interface JiraMockIssue {
+  id: string
+  key: string
+  fields: Record<string, any>
+}
+
+export interface JiraMockDataset {
+  user: { accountId: string; displayName: string; emailAddress: string; timeZone: string }
+  projects: JiraProject[]
+  boards: JiraMockBoard[]
+  sprints: JiraSprint[]
+  versions: JiraMockVersion[]
+  statuses: JiraMockStatus[]
+  fields: Array<{ id: string; name: string; custom: boolean; schema?: { type: string; custom?: string; system?: string } }>
+  issues: JiraMockIssue[]
+  changelogs: Record<string, JiraChangelogHistory[]> // By issue key, oldest first
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+const SPRINT_DAYS = 14
+const CLOSED_SPRINTS = 4 // Followed by one active and one future sprint per scrum board
+const KANBAN_HISTORY_DAYS = 60
+
+const STATUSES = {
+  todo: { id: "10000", name: "To Do", statusCategory: { key: "new", name: "To Do" } },
+  inProgress: { id: "3", name: "In Progress", statusCategory: { key: "indeterminate", name: "In Progress" } },
+  inReview: { id: "10001", name: "In Review", statusCategory: { key: "indeterminate", name: "In Progress" } },
+  done: { id: "10002", name: "Done", statusCategory: { key: "done", name: "Done" } },
+} satisfies Record<string, JiraMockStatus>
+
+type StatusName = keyof typeof STATUSES
+
+const ISSUE_TYPES = {
+  Epic: { id: "10000", name: "Epic", subtask: false, hierarchyLevel: 1 },
+  Story: { id: "10001", name: "Story", subtask: false, hierarchyLevel: 0 },
+  Task: { id: "10002", name: "Task", subtask: false, hierarchyLevel: 0 },
+  "Sub-task": { id: "10003", name: "Sub-task", subtask: true, hierarchyLevel: -1 },
+  Bug: { id: "10004", name: "Bug", subtask: false, hierarchyLevel: 0 },
+}
+
+type IssueTypeName = keyof typeof ISSUE_TYPES
+
+const PRIORITIES = [
+  { id: "1", name: "Highest" },
+  { id: "2", name: "High" },
+  { id: "3", name: "Medium" },
+  { id: "4", name: "Low" },
+]
+
+const RESOLUTIONS = {
+  done: { id: "10000", name: "Done" },
+  wontDo: { id: "10001", name: "Won't Do" },
+}
+
+const MOCK_USER = { accountId: "mock-demo.user", displayName: "Demo User", emailAddress: "demo.user@example.com", timeZone: "UTC" }
+
+const LABELS = ["customer-request", "tech-debt", "security", "performance", "ux", "quick-win"]
+const POINT_SCALE = [1, 2, 3, 3, 5, 5, 8]
+
+interface MockTeam {
+  projectKey: string
+  board: string
+  type: "scrum" | "kanban"
+  sprintPrefix: string
+  components: string[]
+  people: string[]
+  epics: string[]
+  stories: string[]
+  bugs: string[]
+  tasks: string[]
+}
+
+const PROJECTS: Array<JiraProject & { versions: string[] }> = [
+  { id: "10000", key: "DEMO", name: "Demo Platform", projectTypeKey: "software", versions: ["2.2.0", "2.3.0", "2.4.0", "2.5.0"] },
+  { id: "10001", key: "MOB", name: "Mobile App", projectTypeKey: "software", versions: ["5.0", "5.1", "5.2", "5.3"] },
+  { id: "10002", key: "OPS", name: "Operations", projectTypeKey: "software", versions: [] },
+]
+
+const TEAMS: MockTeam[] = [
+  {
+    projectKey: "DEMO",
+    board: "Platform Team",
+    type: "scrum",
+    sprintPrefix: "Platform Sprint",
+    components: ["API", "Auth"],
+    people: ["Avery Chen", "Jordan Patel", "Sam Okafor", "Riley Novak"],
+    epics: ["Public API v2", "Single sign-on", "Audit logging"],
+    stories: [
+      "Add pagination to the projects endpoint",
+      "Support SAML login for enterprise workspaces",
+      "Record sign-in attempts in the audit log",
+      "Expose webhooks for issue changes",
+      "Let admins enforce two-factor authentication",
+      "Rate limit public API keys per workspace",
+      "Add OpenAPI schema for the v2 endpoints",
+      "Allow API tokens with read-only scope",
+      "Export the audit log as CSV",
+      "Show active sessions in account settings",
+      "Rotate signing keys without downtime",
+      "Filter the audit log by actor and action",
+      "Add SCIM user provisioning",
+      "Return ETags from list endpoints",
+      "Let users revoke API tokens",
+      "Document error codes for the v2 API",
+    ],
+    bugs: [
+      "Login redirect loops when the session cookie expires",
+      "API returns 500 for projects with an empty description",
+      "Audit log misses password reset events",
+      "Token expiry shown in the wrong time zone",
+      "Rate limit headers missing on 429 responses",
+      "SSO users can change their email address",
+    ],
+    tasks: [
+      "Upgrade the auth library to the latest major version",
+      "Add load test for the search endpoint",
+      "Move session storage to Redis",
+      "Remove deprecated v1 token endpoint",
+    ],
+  },
+  {
+    projectKey: "DEMO",
+    board: "Payments Team",
+    type: "scrum",
+    sprintPrefix: "Payments Sprint",
+    components: ["Billing", "Checkout"],
+    people: ["Morgan Silva", "Casey Lindqvist", "Taylor Brooks", "Jamie Rossi"],
+    epics: ["Usage-based billing", "Checkout redesign", "Invoice automation"],
+    stories: [
+      "Charge metered usage at the end of each billing cycle",
+      "Show a usage meter on the billing page",
+      "Redesign the checkout summary step",
+      "Support Apple Pay in checkout",
+      "Email invoices as PDF attachments",
+      "Let customers download past invoices",
+      "Apply coupon codes at checkout",
+      "Prorate plan changes mid-cycle",
+      "Retry failed card payments automatically",
+      "Add VAT numbers to invoices",
+      "Show tax breakdown before payment",
+      "Notify admins when a payment fails",
+      "Allow annual billing for team plans",
+      "Save multiple payment methods",
+    ],
+    bugs: [
+      "Checkout button stays disabled after fixing a card error",
+      "Invoice totals round incorrectly for three-decimal currencies",
+      "Coupon applied twice when the page is refreshed",
+      "Usage meter shows last month's numbers",
+      "Proration credit missing on downgrade",
+    ],
+    tasks: [
+      "Migrate webhooks to the new payment provider API",
+      "Add monitoring for failed invoice jobs",
+      "Archive invoices older than seven years",
+      "Reconcile payouts with the ledger nightly",
+    ],
+  },
+  {
+    projectKey: "MOB",
+    board: "Mobile Team",
+    type: "scrum",
+    sprintPrefix: "Mobile Sprint",
+    components: ["iOS", "Android"],
+    people: ["Drew Castillo", "Alex Kim", "Quinn Adeyemi", "Harper Wells", "Rowan Fischer"],
+    epics: ["Offline mode", "Push notifications", "Accessibility pass"],
+    stories: [
+      "Cache the project list for offline use",
+      "Queue edits made offline and sync on reconnect",
+      "Send a push notification when an issue is assigned",
+      "Let users mute notifications per project",
+      "Support dynamic type on all screens",
+      "Add VoiceOver labels to the board view",
+      "Show sync status in the navigation bar",
+      "Deep link from notifications to the issue",
+      "Add dark mode to the settings screen",
+      "Resolve conflicts between offline and server edits",
+      "Add a notification inbox",
+      "Support TalkBack on Android lists",
+      "Swipe to change issue status",
+      "Show attachments in the issue view",
+    ],
+    bugs: [
+      "App crashes when opening an issue without a description",
+      "Push notifications arrive twice on Android 14",
+      "Board view scrolls to the top after a status change",
+      "Offline banner stays visible after reconnecting",
+      "Contrast too low on disabled buttons",
+    ],
+    tasks: [
+      "Update the Android target SDK",
+      "Set up crash reporting for release builds",
+      "Automate App Store screenshots",
+    ],
+  },
+  {
+    projectKey: "OPS",
+    board: "Operations",
+    type: "kanban",
+    sprintPrefix: "",
+    components: ["Infrastructure", "Support"],
+    people: ["Emerson Hale", "Parker Nwosu", "Sidney Moreau"],
+    epics: [],
+    stories: [],
+    bugs: [
+      "Nightly backup job times out",
+      "Disk usage alert firing on the build agents",
+      "Customer cannot reset password from the mobile app",
+      "Status page shows an outage that was resolved",
+      "Slow queries on the reporting database",
+      "Certificate renewal failed for the staging domain",
+      "Support inbox not receiving replies",
+      "Log shipping stopped on two web nodes",
+    ],
+    tasks: [
+      "Rotate database credentials",
+      "Add a runbook for the payment provider outage",
+      "Grant contractor access to the staging cluster",
+      "Resize the search cluster",
+      "Clean up unused load balancers",
+      "Renew the support tool licence",
+      "Patch the bastion hosts",
+      "Set up alerting for queue backlog",
+      "Export data for a customer audit request",
+      "Review on-call escalation policy",
+      "Migrate cron jobs to the scheduler",
+      "Archive old log indices",
+    ],
+  },
+]
+
+const MOCK_FIELDS: JiraMockDataset["fields"] = [
+  { id: "summary", name: "Summary", custom: false, schema: { type: "string", system: "summary" } },
+  { id: "description", name: "Description", custom: false, schema: { type: "string", system: "description" } },
+  { id: "status", name: "Status", custom: false, schema: { type: "status", system: "status" } },
+  { id: "assignee", name: "Assignee", custom: false, schema: { type: "user", system: "assignee" } },
+  { id: "reporter", name: "Reporter", custom: false, schema: { type: "user", system: "reporter" } },
+  { id: "issuetype", name: "Issue Type", custom: false, schema: { type: "issuetype", system: "issuetype" } },
+  { id: "project", name: "Project", custom: false, schema: { type: "project", system: "project" } },
+  { id: "parent", name: "Parent", custom: false },
+  { id: "issuelinks", name: "Linked Issues", custom: false, schema: { type: "array", system: "issuelinks" } },
+  { id: "created", name: "Created", custom: false, schema: { type: "datetime", system: "created" } },
+  { id: "updated", name: "Updated", custom: false, schema: { type: "datetime", system: "updated" } },
+  { id: "priority", name: "Priority", custom: false, schema: { type: "priority", system: "priority" } },
+  { id: "labels", name: "Labels", custom: false, schema: { type: "array", system: "labels" } },
+  { id: "components", name: "Components", custom: false, schema: { type: "array", system: "components" } },
+  { id: "fixVersions", name: "Fix versions", custom: false, schema: { type: "array", system: "fixVersions" } },
+  { id: "resolution", name: "Resolution", custom: false, schema: { type: "resolution", system: "resolution" } },
+  { id: "resolutiondate", name: "Resolved", custom: false, schema: { type: "datetime", system: "resolutiondate" } },
+  { id: "timetracking", name: "Time tracking", custom: false, schema: { type: "timetracking", system: "timetracking" } },
+  { id: "timeoriginalestimate", name: "Original estimate", custom: false, schema: { type: "number", system: "timeoriginalestimate" } },
+  { id: "timespent", name: "Time Spent", custom: false, schema: { type: "number", system: "timespent" } },
+  {
+    id: JIRA_FIELDS.STORY_POINTS,
+    name: "Story Points",
+    custom: true,
+    schema: { type: "number", custom: "com.pyxis.greenhopper.jira:jsw-story-points" },
+  },
+  {
+    id: JIRA_FIELDS.EPIC_NAME,
+    name: "Epic Name",
+    custom: true,
+    schema: { type: "string", custom: "com.pyxis.greenhopper.jira:gh-epic-label" },
+  },
+  {
+    id: JIRA_FIELDS.EPIC_LINK,
+    name: "Epic Link",
+    custom: true,
+    schema: { type: "any", custom: "com.pyxis.greenhopper.jira:gh-epic-link" },
+  },
+  {
+    id: JIRA_FIELDS.RELEASE_NOTES,
+    name: "Release Notes",
+    custom: true,
+    schema: { type: "string", custom: "com.atlassian.jira.plugin.system.customfieldtypes:textarea" },
+  },
+  {
+    id: JIRA_FIELDS.SPRINT,
+    name: "Sprint",
+    custom: true,
+    schema: { type: "array", custom: "com.pyxis.greenhopper.jira:gh-sprint" },
+  },
+]
+
+// mulberry32: tiny and gives the same sequence for the same seed on every machine
+function createRandom(seed: number) {
+  let state = seed >>> 0
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  return {
+    next,
+    between: (min: number, max: number) => min + next() * (max - min),
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+    chance: (probability: number) => next() < probability,
+  }
+}
+
+type Random = ReturnType<typeof createRandom>
+
+const iso = (time: number) => new Date(time).toISOString().replace("Z", "+0000")
+
+function toAdf(text: string) {
+  return { type: "doc", version: 1, content: [{ type: "paragraph", content: [{ type: "text", text }] }] }
+}
+
+function toUser(displayName: string) {
+  const handle = displayName.toLowerCase().replace(/[^a-z]+/g, ".")
+  return { accountId: `mock-${handle}`, displayName, emailAddress: `${handle}@example.com`, active: true }
+}
+
+// Hands out titles in a shuffled order so a team repeats itself as late as possible
+function createTitlePool(random: Random, titles: string[]) {
+  let queue: string[] = []
+  return () => {
+    if (queue.length === 0) {
+      queue = [...titles].sort(() => random.next() - 0.5)
+    }
+    return queue.shift() || "Follow-up work"
+  }
+}
+
+/**
+ * Builds the demo site: three projects, three scrum boards on a shared two-week cadence with
+ * four closed sprints, the one running today and the next one, plus a kanban board with two
+ * months of flow. Each issue's changelog replays what happened to it (planning, scope added
+ * and removed mid-sprint, carry-over, status transitions), so every history-based view has
+ * something to show. The same seed and day always give the same site.
+ */
+export function generateMockDataset(seed = 42, now = Date.now()): JiraMockDataset {
+  const random = createRandom(seed)
+  const today = Math.floor(now / DAY_MS) * DAY_MS
+  const activeSprintStart = today - (Math.floor(today / DAY_MS) % SPRINT_DAYS) * DAY_MS
+
+  const boards: JiraMockBoard[] = []
+  const sprints: JiraSprint[] = []
+  const versions: JiraMockVersion[] = []
+  const issues: JiraMockIssue[] = []
+  const changelogs: Record<string, JiraChangelogHistory[]> = {}
+  const keyCounters: Record<string, number> = {}
+  let nextIssueId = 10100
+  let nextHistoryId = 50000
+  let nextSprintId = 101
+  let nextLinkId = 20000
+
+  const record = (issue: JiraMockIssue, at: number, author: string, items: JiraChangelogHistory["items"]) => {
+    ;(changelogs[issue.key] ||= []).push({
+      id: String(nextHistoryId++),
+      created: iso(at),
+      author: { displayName: author },
+      items,
+    })
+    if (at > new Date(issue.fields.updated).getTime()) {
+      issue.fields.updated = iso(at)
+    }
+  }
+
+  const setStatus = (issue: JiraMockIssue, to: StatusName, at: number, author: string) => {
+    const from = issue.fields.status
+    const status = STATUSES[to]
+    if (from.id === status.id) return
+    const items: JiraChangelogHistory["items"] = [
+      { field: "status", fieldId: "status", fieldtype: "jira", from: from.id, fromString: from.name, to: status.id, toString: status.name },
+    ]
+    issue.fields.status = status
+    if (to === "done") {
+      const resolution = issue.fields.issuetype.name === "Bug" && random.chance(0.1) ? RESOLUTIONS.wontDo : RESOLUTIONS.done
+      issue.fields.resolution = resolution
+      issue.fields.resolutiondate = iso(at)
+      items.push({ field: "resolution", fieldId: "resolution", fieldtype: "jira", from: null, fromString: null, to: resolution.id, toString: resolution.name })
+    }
+    record(issue, at, author, items)
+  }
+
+  // Sub-tasks follow their parent between sprints, as they do in Jira
+  const setSprints = (issue: JiraMockIssue, to: JiraSprint[], at: number, author: string) => {
+    for (const target of [issue, ...(issue.fields.subtasks || []).map((ref: { key: string }) => findIssue(ref.key)!)]) {
+      const from: Array<{ id: number; name: string }> = target.fields[JIRA_FIELDS.SPRINT]
+      record(target, at, author, [
+        {
+          field: "Sprint",
+          fieldId: JIRA_FIELDS.SPRINT,
+          fieldtype: "custom",
+          from: from.map((sprint) => sprint.id).join(", ") || null,
+          fromString: from.map((sprint) => sprint.name).join(", ") || null,
+          to: to.map((sprint) => sprint.id).join(", ") || null,
+          toString: to.map((sprint) => sprint.name).join(", ") || null,
+        },
+      ])
+      target.fields[JIRA_FIELDS.SPRINT] = to.map((sprint) => ({ ...sprint, boardId: sprint.originBoardId }))
+    }
+  }
+
+  const issueIndex = new Map<string, JiraMockIssue>()
+  const findIssue = (key: string) => issueIndex.get(key)
+
+  const createIssue = (
+    team: MockTeam,
+    type: IssueTypeName,
+    summary: string,
+    created: number,
+    options: { parent?: JiraMockIssue; assignee?: string | null; points?: number } = {}
+  ): JiraMockIssue => {
+    const project = PROJECTS.find((candidate) => candidate.key === team.projectKey)!
+    keyCounters[project.key] = (keyCounters[project.key] || 0) + 1
+    const assignee = options.assignee === undefined ? random.pick(team.people) : options.assignee
+    const labelCount = random.chance(0.35) ? random.int(1, 2) : 0
+    const component = random.pick(team.components)
+    const issue: JiraMockIssue = {
+      id: String(nextIssueId++),
+      key: `${project.key}-${keyCounters[project.key]}`,
+      fields: {
+        summary,
+        description: toAdf(`${summary}. Acceptance criteria are agreed with the product owner before work starts.`),
+        project: { id: project.id, key: project.key, name: project.name, projectTypeKey: "software" },
+        issuetype: ISSUE_TYPES[type],
+        status: STATUSES.todo,
+        created: iso(created),
+        updated: iso(created),
+        reporter: toUser(team.people[0]),
+        assignee: assignee ? toUser(assignee) : null,
+        priority: type === "Bug" ? random.pick(PRIORITIES.slice(0, 3)) : random.pick(PRIORITIES.slice(1)),
+        components: [{ id: String(10100 + TEAMS.flatMap((candidate) => candidate.components).indexOf(component)), name: component }],
+        labels: Array.from(new Set(Array.from({ length: labelCount }, () => random.pick(LABELS)))),
+        resolution: null,
+        resolutiondate: null,
+        fixVersions: [],
+        issuelinks: [],
+        subtasks: [],
+        timetracking: {},
+        timeoriginalestimate: null,
+        timespent: null,
+        [JIRA_FIELDS.STORY_POINTS]: options.points ?? null,
+        [JIRA_FIELDS.EPIC_NAME]: type === "Epic" ? summary : null,
+        [JIRA_FIELDS.RELEASE_NOTES]: null,
+        [JIRA_FIELDS.SPRINT]: [],
+      },
+    }
+    if (options.parent) {
+      issue.fields.parent = {
+        id: options.parent.id,
+        key: options.parent.key,
+        fields: {
+          summary: options.parent.fields.summary,
+          status: options.parent.fields.status,
+          issuetype: options.parent.fields.issuetype,
+        },
+      }
+      if (type === "Sub-task") {
+        options.parent.fields.subtasks.push({ id: issue.id, key: issue.key })
+      }
+    }
+    issues.push(issue)
+    issueIndex.set(issue.key, issue)
+    return issue
+  }
+
+  const estimate = (type: IssueTypeName) => {
+    if (type === "Bug") return random.chance(0.3) ? undefined : random.pick([1, 1, 2, 3])
+    return random.chance(0.05) ? undefined : random.pick(POINT_SCALE)
+  }
+
+  /**
+   * Moves an issue along the workflow from `from`, recording each transition that happens
+   * before `until`. Stalled issues stop short of Done. Returns when each status was reached.
+   */
+  const work = (issue: JiraMockIssue, from: number, until: number, span: number, stalled: boolean) => {
+    const author = issue.fields.assignee?.displayName || issue.fields.reporter.displayName
+    const reached: Partial<Record<StatusName, number>> = {}
+    let at = Math.max(from, new Date(issue.fields.created).getTime())
+    const steps: Array<[StatusName, number]> = [
+      ["inProgress", random.between(0.05, 0.55)],
+      ["inReview", random.between(0.15, 0.45)],
+      ["done", random.between(0.05, 0.2)],
+    ]
+    const current = ["todo", "inProgress", "inReview", "done"].indexOf(
+      (Object.keys(STATUSES) as StatusName[]).find((name) => STATUSES[name].id === issue.fields.status.id)!
+    )
+    const lastStep = stalled ? random.int(1, 2) : 3
+    for (const [index, [status, share]] of steps.entries()) {
+      if (index + 1 <= current) continue
+      if (index + 1 > lastStep) break
+      at += share * span + random.between(1, 6) * HOUR_MS
+      if (at > until) break
+      setStatus(issue, status, at, author)
+      reached[status] = at
+    }
+    return reached
+  }
+
+  const logTime = (issue: JiraMockIssue) => {
+    const points = issue.fields[JIRA_FIELDS.STORY_POINTS]
+    if (!points || !random.chance(0.5)) return
+    const original = Math.round((points * 3 * random.between(0.8, 1.2)) * 2) * 1800
+    const done = issue.fields.status.statusCategory.key === "done"
+    const spent = Math.round((original * random.between(done ? 0.6 : 0.2, done ? 1.7 : 0.9)) / 1800) * 1800
+    if (issue.fields.status.statusCategory.key === "new") return
+    issue.fields.timetracking = {
+      originalEstimateSeconds: original,
+      remainingEstimateSeconds: done ? 0 : Math.max(original - spent, 0),
+      timeSpentSeconds: spent,
+    }
+    issue.fields.timeoriginalestimate = original
+    issue.fields.timespent = spent
+  }
+
+  for (const project of PROJECTS) {
+    const releaseSprintIndexes = [-1, 1, 3, 5] // Sprint each version ships at the end of
+    project.versions.forEach((name, index) => {
+      const releaseDate = activeSprintStart + (releaseSprintIndexes[index] - CLOSED_SPRINTS) * SPRINT_DAYS * DAY_MS + 11 * DAY_MS
+      const startDate = index === 0 ? releaseDate - 4 * SPRINT_DAYS * DAY_MS : activeSprintStart + (releaseSprintIndexes[index - 1] - CLOSED_SPRINTS + 1) * SPRINT_DAYS * DAY_MS
+      versions.push({
+        id: String(10200 + versions.length),
+        name,
+        description: index === project.versions.length - 1 ? "Next release" : `${project.name} ${name}`,
+        released: releaseDate < now,
+        archived: index === 0,
+        startDate: new Date(startDate).toISOString().slice(0, 10),
+        releaseDate: new Date(releaseDate).toISOString().slice(0, 10),
+        projectId: Number(project.id),
+        projectKey: project.key,
+      })
+    })
+  }
+
+  const versionFor = (projectKey: string, sprintIndex: number) => {
+    const projectVersions = versions.filter((version) => version.projectKey === projectKey)
+    if (projectVersions.length === 0) return []
+    const version = projectVersions[sprintIndex <= 1 ? 1 : sprintIndex <= 3 ? 2 : 3]
+    return [{ id: version.id, name: version.name, released: version.released, releaseDate: version.releaseDate }]
+  }
+
+  const scrumTeamIssues = new Map<MockTeam, { active: JiraMockIssue[]; future: JiraMockIssue[] }>()
+
+  for (const team of TEAMS) {
+    const project = PROJECTS.find((candidate) => candidate.key === team.projectKey)!
+    const boardId = boards.length + 1
+    const nextStory = createTitlePool(random, team.stories.length > 0 ? team.stories : team.tasks)
+    const nextBug = createTitlePool(random, team.bugs)
+    const nextTask = createTitlePool(random, team.tasks)
+
+    if (team.type === "kanban") {
+      boards.push({
+        id: boardId,
+        name: team.board,
+        type: "kanban",
+        location: { projectId: Number(project.id), projectKey: project.key, projectName: project.name },
+        filter: { id: String(10000 + boardId), name: `Filter for ${team.board}`, jql: `project = ${project.key} ORDER BY Rank ASC` },
+        subQuery: "resolved >= -8w OR resolution is EMPTY",
+        columns: [
+          { name: "To Do", statuses: [{ id: STATUSES.todo.id }] },
+          { name: "In Progress", statuses: [{ id: STATUSES.inProgress.id }], max: 3 },
+          { name: "In Review", statuses: [{ id: STATUSES.inReview.id }], max: 2 },
+          { name: "Done", statuses: [{ id: STATUSES.done.id }] },
+        ],
+      })
+
+      // Steady arrivals over two months; the recent ones are still on the board
+      const arrivals = Array.from({ length: 46 }, () => now - random.between(0.5, KANBAN_HISTORY_DAYS) * DAY_MS).sort((a, b) => a - b)
+      for (const created of arrivals) {
+        const type: IssueTypeName = random.chance(0.4) ? "Bug" : "Task"
+        const issue = createIssue(team, type, type === "Bug" ? nextBug() : nextTask(), created, {
+          points: random.chance(0.25) ? undefined : random.pick([1, 1, 2, 3]),
+        })
+        work(issue, created, now, random.between(3, 9) * DAY_MS, random.chance(0.1))
+        logTime(issue)
+      }
+      continue
+    }
+
+    boards.push({
+      id: boardId,
+      name: team.board,
+      type: "scrum",
+      location: { projectId: Number(project.id), projectKey: project.key, projectName: project.name },
+      filter: {
+        id: String(10000 + boardId),
+        name: `Filter for ${team.board}`,
+        jql: `project = ${project.key} AND component in (${team.components.map((name) => `"${name}"`).join(", ")}) ORDER BY Rank ASC`,
+      },
+      columns: [
+        { name: "To Do", statuses: [{ id: STATUSES.todo.id }] },
+        { name: "In Progress", statuses: [{ id: STATUSES.inProgress.id }] },
+        { name: "In Review", statuses: [{ id: STATUSES.inReview.id }] },
+        { name: "Done", statuses: [{ id: STATUSES.done.id }] },
+      ],
+    })
+
+    const teamSprints: JiraSprint[] = Array.from({ length: CLOSED_SPRINTS + 2 }, (_, index) => {
+      const start = activeSprintStart + (index - CLOSED_SPRINTS) * SPRINT_DAYS * DAY_MS + 9 * HOUR_MS
+      const end = start + (SPRINT_DAYS - 3) * DAY_MS + 8 * HOUR_MS
+      const state = index < CLOSED_SPRINTS ? "closed" : index === CLOSED_SPRINTS ? "active" : "future"
+      return {
+        id: nextSprintId++,
+        name: `${team.sprintPrefix} ${20 + index}`,
+        state,
+        startDate: state === "future" ? undefined : iso(start),
+        endDate: state === "future" ? undefined : iso(end),
+        completeDate: state === "closed" ? iso(end + 2 * HOUR_MS) : undefined,
+        originBoardId: boardId,
+        goal: `Deliver the next slice of ${random.pick(team.epics)}`,
+      }
+    })
+    // Planned dates for the future sprint are still useful for alignment in program reviews
+    const futureStart = activeSprintStart + SPRINT_DAYS * DAY_MS + 9 * HOUR_MS
+    teamSprints[CLOSED_SPRINTS + 1].startDate = iso(futureStart)
+    teamSprints[CLOSED_SPRINTS + 1].endDate = iso(futureStart + (SPRINT_DAYS - 3) * DAY_MS + 8 * HOUR_MS)
+    sprints.push(...teamSprints)
+
+    const epicCreated = activeSprintStart - (CLOSED_SPRINTS + 2) * SPRINT_DAYS * DAY_MS
+    const epics = team.epics.map((name) => createIssue(team, "Epic", name, epicCreated + random.between(0, 5) * DAY_MS, { assignee: team.people[0] }))
+
+    const newWorkItem = (created: number, sprintIndex: number) => {
+      const roll = random.next()
+      const type: IssueTypeName = roll < 0.6 ? "Story" : roll < 0.85 ? "Bug" : "Task"
+      const summary = type === "Story" ? nextStory() : type === "Bug" ? nextBug() : nextTask()
+      // The furthest epic only gets work once the first two are under way
+      const epicPool = sprintIndex < 2 ? epics.slice(0, 2) : epics
+      const parent = type !== "Bug" || random.chance(0.4) ? (random.chance(0.8) ? random.pick(epicPool) : undefined) : undefined
+      const issue = createIssue(team, type, summary, created, {
+        parent,
+        points: estimate(type),
+        assignee: sprintIndex > CLOSED_SPRINTS && random.chance(0.3) ? null : undefined,
+      })
+      if (type === "Story" && random.chance(0.3)) {
+        for (const part of ["Backend", "Frontend"]) {
+          createIssue(team, "Sub-task", `${part}: ${summary.toLowerCase()}`, created, { parent: issue })
+        }
+      }
+      return issue
+    }
+
+    let carried: JiraMockIssue[] = []
+    for (const [index, sprint] of teamSprints.entries()) {
+      const start = new Date(sprint.startDate!).getTime()
+      const end = new Date(sprint.endDate!).getTime()
+      const scrumMaster = team.people[0]
+      const planningAt = sprint.state === "future" ? Math.min(start - 2 * DAY_MS, now - 3 * HOUR_MS) : start - 2 * HOUR_MS
+
+      const planned = Array.from({ length: random.int(7, 10) }, () =>
+        newWorkItem(planningAt - random.between(2, 30) * DAY_MS, index)
+      )
+      planned.forEach((issue) => setSprints(issue, [sprint], planningAt, scrumMaster))
+
+      if (sprint.state === "future") {
+        scrumTeamIssues.get(team)!.future = planned
+        continue
+      }
+
+      const limit = sprint.state === "closed" ? end : now
+      // Scope added after the sprint started
+      const added = Array.from({ length: random.int(1, 2) }, () => random.between(1, 7) * DAY_MS + start)
+        .filter((at) => at < limit)
+        .map((at) => {
+          const issue = newWorkItem(at - random.between(0, 2) * HOUR_MS, index)
+          setSprints(issue, [sprint], at, scrumMaster)
+          return issue
+        })
+
+      // One planned issue dropped back to the backlog in most sprints
+      let removed: JiraMockIssue | undefined
+      const removedAt = start + random.between(2, 6) * DAY_MS
+      if (random.chance(0.6) && removedAt < limit) {
+        removed = planned.pop()!
+        setSprints(removed, [], removedAt, scrumMaster)
+      }
+
+      const inSprint = [...carried, ...planned, ...added]
+      for (const issue of inSprint) {
+        const from = carried.includes(issue) ? start : Math.max(start, new Date(issue.fields.created).getTime())
+        // Paced a little slower than the sprint so some work is always carried over
+        const reached = work(issue, from, limit, (end - start) * 1.3, random.chance(0.15))
+        const subtasks: JiraMockIssue[] = issue.fields.subtasks.map((ref: { key: string }) => findIssue(ref.key)!)
+        subtasks.forEach((subtask, position) => {
+          const author = subtask.fields.assignee?.displayName || scrumMaster
+          if (reached.inProgress) setStatus(subtask, "inProgress", reached.inProgress + (position + 1) * HOUR_MS, author)
+          const finishedAt = reached.inReview ?? reached.done
+          if (finishedAt) setStatus(subtask, "done", finishedAt - (position + 1) * HOUR_MS, author)
+        })
+        if (issue.fields.status.statusCategory.key === "done") {
+          issue.fields.fixVersions = versionFor(team.projectKey, index)
+          if (issue.fields.issuetype.name === "Story" && random.chance(0.4)) {
+            issue.fields[JIRA_FIELDS.RELEASE_NOTES] = `You can now ${issue.fields.summary.charAt(0).toLowerCase()}${issue.fields.summary.slice(1)}.`
+          }
+        }
+        logTime(issue)
+      }
+
+      if (sprint.state === "active") {
+        const open = inSprint.filter((issue) => issue.fields.status.statusCategory.key !== "done")
+        open.forEach((issue) => (issue.fields.fixVersions = versionFor(team.projectKey, index)))
+        scrumTeamIssues.set(team, { active: inSprint, future: [] })
+        continue
+      }
+
+      // Unfinished work rolls into the next sprint when this one closes
+      const completeAt = new Date(sprint.completeDate!).getTime()
+      carried = inSprint.filter((issue) => issue.fields.status.statusCategory.key !== "done")
+      carried.forEach((issue) => setSprints(issue, [sprint, teamSprints[index + 1]], completeAt, scrumMaster))
+    }
+
+    // A small unplanned backlog, some of it not yet estimated
+    for (let count = random.int(4, 7); count > 0; count--) {
+      const issue = newWorkItem(now - random.between(1, 20) * DAY_MS, CLOSED_SPRINTS + 1)
+      if (random.chance(0.4)) issue.fields[JIRA_FIELDS.STORY_POINTS] = null
+    }
+
+    // Epics follow their children
+    for (const epic of epics) {
+      const children = issues.filter((issue) => issue.fields.parent?.key === epic.key)
+      const started = children
+        .flatMap((child) => (changelogs[child.key] || []).filter((history) => history.items.some((item) => item.field === "status")))
+        .map((history) => new Date(history.created).getTime())
+        .sort((a, b) => a - b)
+      if (started.length > 0) setStatus(epic, "inProgress", started[0] - HOUR_MS, team.people[0])
+      if (children.length > 0 && children.every((child) => child.fields.status.statusCategory.key === "done")) {
+        setStatus(epic, "done", started[started.length - 1] + HOUR_MS, team.people[0])
+      }
+    }
+  }
+
+  // Blockers: inside the sprint, on next sprint's work and on another team's project
+  const linkRef = (issue: JiraMockIssue) => ({
+    id: issue.id,
+    key: issue.key,
+    fields: { summary: issue.fields.summary, status: issue.fields.status, priority: issue.fields.priority, issuetype: issue.fields.issuetype },
+  })
+  const addLink = (blocker: JiraMockIssue, blocked: JiraMockIssue, type = { id: "10000", name: "Blocks", inward: "is blocked by", outward: "blocks" }) => {
+    const id = String(nextLinkId++)
+    blocker.fields.issuelinks.push({ id, type, outwardIssue: linkRef(blocked) })
+    blocked.fields.issuelinks.push({ id, type, inwardIssue: linkRef(blocker) })
+  }
+  const isOpen = (issue: JiraMockIssue) => issue.fields.status.statusCategory.key !== "done" && !issue.fields.issuetype.subtask
+  const otherProjectWork = issues.filter((issue) => isOpen(issue) && issue.fields.issuetype.name !== "Epic")
+  for (const [team, { active, future }] of scrumTeamIssues) {
+    const open = active.filter(isOpen)
+    if (open.length >= 2) addLink(open[0], open[1])
+    if (open.length >= 3 && future.length > 0) addLink(future[0], open[2])
+    const external = otherProjectWork.filter((issue) => issue.fields.project.key !== team.projectKey)
+    if (open.length >= 4 && external.length > 0) addLink(random.pick(external), open[3])
+    if (open.length >= 5) {
+      addLink(random.pick(active), open[4], { id: "10003", name: "Relates", inward: "relates to", outward: "relates to" })
+    }
+  }
+
+  Object.values(changelogs).forEach((histories) =>
+    histories.sort((a, b) => new Date(a.created).getTime() - new Date(b.created).getTime())
+  )
+
+  return {
+    user: MOCK_USER,
+    projects: PROJECTS.map(({ versions: _versions, ...project }) => project),
+    boards,
+    sprints,
+    versions,
+    statuses: Object.values(STATUSES),
+    fields: MOCK_FIELDS,
+    issues,
+    changelogs,
+  }
+}
+
+// Fixture files hold a JiraMockDataset as JSON, e.g. one saved from /api/jira-mock and edited by hand
+export function loadMockDatasetFile(file: string): JiraMockDataset {
+  const data = JSON.parse(readFileSync(path.resolve(process.cwd(), file), "utf8"))
+  const lists: Array<keyof JiraMockDataset> = ["projects", "boards", "sprints", "versions", "statuses", "fields", "issues"]
+  const missing = lists.filter((name) => !Array.isArray(data?.[name]))
+  if (missing.length > 0) {
+    throw new Error(`Jira mock fixture ${file} is missing ${missing.join(", ")}`)
+  }
+  return { ...data, user: data.user || MOCK_USER, changelogs: data.changelogs || {} }
+}
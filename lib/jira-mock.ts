@@ -0,0 +1,737 @@
+// Offline Jira simulator: answers the REST calls made by lib/jira-api.ts from demo data, so the
+// app can be developed and demoed without a Jira site (JIRA_MOCK=true; see lib/jira-env.ts)
+
+import {
+  generateMockDataset,
+  loadMockDatasetFile,
+  type JiraMockDataset,
+  type JiraMockIssue,
+} from "./jira-mock-data"
+import { richTextToMarkdown } from "./adf"
+import { JIRA_FIELDS } from "./jira-types"
+
+const MAX_PAGE_SIZE = 100
+const DEFAULT_PAGE_SIZE = 50
+const DEFAULT_SEED = 42
+
+// Development servers re-evaluate modules on change, so the dataset lives on globalThis
+const globalForMock = globalThis as typeof globalThis & { jiraMockDataset?: JiraMockDataset }
+
+// JIRA_MOCK_FIXTURES loads a dataset file; otherwise one is generated from JIRA_MOCK_SEED
+export function getMockDataset(): JiraMockDataset {
+  if (!globalForMock.jiraMockDataset) {
+    const fixtures = process.env.JIRA_MOCK_FIXTURES
+    const seed = Number.parseInt(process.env.JIRA_MOCK_SEED || "", 10)
+    globalForMock.jiraMockDataset = fixtures
+      ? loadMockDatasetFile(fixtures)
+      : generateMockDataset(Number.isNaN(seed) ? DEFAULT_SEED : seed)
+    const { projects, issues } = globalForMock.jiraMockDataset
+    console.log(`🧪 Jira mock ready: ${projects.length} projects, ${issues.length} issues${fixtures ? ` from ${fixtures}` : ""}`)
+  }
+  return globalForMock.jiraMockDataset
+}
+
+// Query errors become 400 responses with Jira's { errorMessages } body
+class JqlError extends Error {}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), { status, headers: { "Content-Type": "application/json" } })
+}
+
+function errorResponse(status: number, message: string): Response {
+  return json({ errorMessages: [message], errors: {} }, status)
+}
+
+// JQL: enough of the language for the queries the app builds and typical hand-written ones
+
+interface Token {
+  type: "word" | "string" | "operator" | "symbol"
+  value: string
+}
+
+const TOKEN_PATTERN = /\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(!=|>=|<=|!~|=|>|<|~)|([(),])|([^\s"'(),=!<>~]+))/y
+
+function tokenize(jql: string): Token[] {
+  const tokens: Token[] = []
+  TOKEN_PATTERN.lastIndex = 0
+  while (TOKEN_PATTERN.lastIndex < jql.length) {
+    const position = TOKEN_PATTERN.lastIndex
+    const match = TOKEN_PATTERN.exec(jql)
+    if (!match) {
+      if (!jql.slice(position).trim()) break
+      throw new JqlError(`Error in the JQL Query: unexpected character at position ${position}.`)
+    }
+    const [, doubleQuoted, singleQuoted, operator, symbol, word] = match
+    if (doubleQuoted !== undefined || singleQuoted !== undefined) {
+      tokens.push({ type: "string", value: (doubleQuoted ?? singleQuoted).replace(/\\(.)/g, "$1") })
+    } else if (operator) {
+      tokens.push({ type: "operator", value: operator })
+    } else if (symbol) {
+      tokens.push({ type: "symbol", value: symbol })
+    } else if (word) {
+      tokens.push({ type: "word", value: word })
+    }
+  }
+  return tokens
+}
+
+type Predicate = (issue: JiraMockIssue) => boolean
+
+interface OrderBy {
+  field: string
+  descending: boolean
+}
+
+const FIELD_ALIASES: Record<string, string> = {
+  type: "issuetype",
+  issuekey: "key",
+  id: "key",
+  label: "labels",
+  components: "component",
+  fixversions: "fixversion",
+  resolutiondate: "resolved",
+  text: "summary",
+  "story points": "storypoints",
+  "epic link": "parent", // Demo epics are their stories' parents, as in Cloud
+  [`cf[${JIRA_FIELDS.STORY_POINTS.replace("customfield_", "")}]`]: "storypoints",
+  [JIRA_FIELDS.STORY_POINTS]: "storypoints",
+}
+
+const DATE_FIELDS: Record<string, string> = {
+  created: "created",
+  updated: "updated",
+  resolved: "resolutiondate",
+}
+
+const TEXT_FIELDS = new Set([
+  "project",
+  "key",
+  "sprint",
+  "fixversion",
+  "status",
+  "statuscategory",
+  "issuetype",
+  "assignee",
+  "reporter",
+  "labels",
+  "component",
+  "priority",
+  "resolution",
+  "parent",
+  "summary",
+  "storypoints",
+])
+
+function normalizeField(name: string): string {
+  const lower = name.toLowerCase()
+  return FIELD_ALIASES[lower] || lower
+}
+
+function getFieldValues(issue: JiraMockIssue, field: string): string[] {
+  const fields = issue.fields
+  const named = (value: { id?: string; name: string } | null | undefined) => (value ? [value.name, value.id || ""] : [])
+  switch (field) {
+    case "project":
+      return [fields.project.key, fields.project.id, fields.project.name]
+    case "key":
+      return [issue.key, issue.id]
+    case "sprint":
+      return (fields[JIRA_FIELDS.SPRINT] || []).flatMap((sprint: { id: number; name: string }) => [String(sprint.id), sprint.name])
+    case "fixversion":
+      return (fields.fixVersions || []).flatMap(named)
+    case "status":
+      return named(fields.status)
+    case "statuscategory":
+      return [fields.status.statusCategory.key, fields.status.statusCategory.name]
+    case "issuetype":
+      return named(fields.issuetype)
+    case "assignee":
+    case "reporter":
+      return fields[field] ? [fields[field].displayName, fields[field].accountId] : []
+    case "labels":
+      return fields.labels || []
+    case "component":
+      return (fields.components || []).flatMap(named)
+    case "priority":
+    case "resolution":
+      return named(fields[field])
+    case "parent":
+      return fields.parent ? [fields.parent.key, fields.parent.id] : []
+    case "summary":
+      return [fields.summary]
+    case "storypoints":
+      return typeof fields[JIRA_FIELDS.STORY_POINTS] === "number" ? [String(fields[JIRA_FIELDS.STORY_POINTS])] : []
+    default:
+      return []
+  }
+}
+
+function getFieldTime(issue: JiraMockIssue, field: string): number | null {
+  const value = issue.fields[DATE_FIELDS[field]]
+  return value ? new Date(value).getTime() : null
+}
+
+const DATE_UNITS: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 }
+
+// "2024-05-01", "2024/05/01 17:30" or relative to now: "-2w", "-7d", "4h"
+function parseJqlDate(value: string): number {
+  const relative = value.trim().match(/^([+-]?\d+)([mhdw])$/i)
+  if (relative) {
+    return Date.now() + Number(relative[1]) * DATE_UNITS[relative[2].toLowerCase()]
+  }
+  const absolute = value.trim().match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:\s+(\d{1,2}):(\d{2}))?$/)
+  if (absolute) {
+    const [, year, month, day, hours = "0", minutes = "0"] = absolute
+    return Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes))
+  }
+  throw new JqlError(`Date value '${value}' is invalid. Valid formats include: 'yyyy/MM/dd HH:mm', 'yyyy-MM-dd HH:mm', 'yyyy/MM/dd', 'yyyy-MM-dd', or a period format e.g. '-5d', '4w 2d'.`)
+}
+
+function formatJqlDate(time: number, endOfDay = false): string {
+  return `${new Date(time).toISOString().slice(0, 10)}${endOfDay ? " 23:59" : ""}`
+}
+
+function evaluateFunction(data: JiraMockDataset, name: string, args: string[]): string[] {
+  const sprintIds = (state: string) => data.sprints.filter((sprint) => sprint.state === state).map((sprint) => String(sprint.id))
+  const versionIds = (released: boolean) =>
+    data.versions
+      .filter((version) => !!version.released === released && !version.archived)
+      .filter((version) => args.length === 0 || args.some((arg) => arg.toLowerCase() === version.projectKey.toLowerCase()))
+      .map((version) => version.id)
+
+  switch (name.toLowerCase()) {
+    case "opensprints":
+      return sprintIds("active")
+    case "closedsprints":
+      return sprintIds("closed")
+    case "futuresprints":
+      return sprintIds("future")
+    case "releasedversions":
+      return versionIds(true)
+    case "unreleasedversions":
+      return versionIds(false)
+    case "currentuser":
+      return [data.user.accountId, data.user.displayName]
+    case "now":
+      return ["0m"]
+    case "startofday":
+      return [formatJqlDate(Date.now())]
+    case "endofday":
+      return [formatJqlDate(Date.now(), true)]
+    default:
+      throw new JqlError(`Unable to find JQL function '${name}(${args.join(", ")})'.`)
+  }
+}
+
+/**
+ * Compiles JQL into a filter and sort order over the dataset. Supports AND / OR / NOT with
+ * parentheses, the usual operators, EMPTY checks, saved board filters and the sprint, version,
+ * user and date functions. Like Jira, != and NOT IN never match issues where the field is empty.
+ */
+function compileJql(
+  data: JiraMockDataset,
+  jql: string,
+  seenFilters: string[] = []
+): { matches: Predicate; orderBy: OrderBy[] } {
+  const allTokens = tokenize(jql)
+  const orderIndex = allTokens.findIndex(
+    (token, index) =>
+      token.type === "word" &&
+      token.value.toLowerCase() === "order" &&
+      allTokens[index + 1]?.type === "word" &&
+      allTokens[index + 1].value.toLowerCase() === "by"
+  )
+  const tokens = orderIndex === -1 ? allTokens : allTokens.slice(0, orderIndex)
+  let position = 0
+
+  const peek = () => tokens[position]
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.type === "word" && token.value.toLowerCase() === keyword
+  const expectSymbol = (symbol: string) => {
+    const token = tokens[position++]
+    if (token?.type !== "symbol" || token.value !== symbol) {
+      throw new JqlError(`Error in the JQL Query: expecting '${symbol}' but got '${token?.value ?? "end of query"}'.`)
+    }
+  }
+
+  const parseValue = (): string[] => {
+    const token = tokens[position++]
+    if (!token || (token.type !== "word" && token.type !== "string")) {
+      throw new JqlError(`Error in the JQL Query: expecting a value but got '${token?.value ?? "end of query"}'.`)
+    }
+    if (token.type === "word" && peek()?.type === "symbol" && peek().value === "(") {
+      position++
+      const args: string[] = []
+      while (!(peek()?.type === "symbol" && peek().value === ")")) {
+        args.push(...parseValue())
+        if (peek()?.type === "symbol" && peek().value === ",") position++
+      }
+      expectSymbol(")")
+      return evaluateFunction(data, token.value, args)
+    }
+    return [token.value]
+  }
+
+  const parseList = (): string[] => {
+    if (!(peek()?.type === "symbol" && peek().value === "(")) {
+      return parseValue() // A function such as openSprints()
+    }
+    position++
+    const values: string[] = []
+    while (true) {
+      values.push(...parseValue())
+      const token = tokens[position++]
+      if (token?.type === "symbol" && token.value === ")") return values
+      if (!(token?.type === "symbol" && token.value === ",")) {
+        throw new JqlError("Error in the JQL Query: expecting ',' or ')' in the list of values.")
+      }
+    }
+  }
+
+  const parseOperator = (): string => {
+    const token = tokens[position++]
+    if (token?.type === "operator") return token.value
+    if (isKeyword(token, "in")) return "in"
+    if (isKeyword(token, "is")) {
+      if (isKeyword(peek(), "not")) {
+        position++
+        return "is not"
+      }
+      return "is"
+    }
+    if (isKeyword(token, "not") && isKeyword(peek(), "in")) {
+      position++
+      return "not in"
+    }
+    throw new JqlError(`Error in the JQL Query: expecting an operator but got '${token?.value ?? "end of query"}'.`)
+  }
+
+  const buildFilterClause = (operator: string, values: string[]): Predicate => {
+    const predicates = values.map((value) => {
+      const board = data.boards.find(
+        (candidate) => candidate.filter.id === value || candidate.filter.name.toLowerCase() === value.toLowerCase()
+      )
+      if (!board) {
+        throw new JqlError(`A value with ID '${value}' does not exist for the field 'filter'.`)
+      }
+      if (seenFilters.includes(board.filter.id)) {
+        throw new JqlError(`Filter '${board.filter.name}' refers to itself.`)
+      }
+      return compileJql(data, board.filter.jql, [...seenFilters, board.filter.id]).matches
+    })
+    const matchesAny: Predicate = (issue) => predicates.some((predicate) => predicate(issue))
+    if (operator === "=" || operator === "in") return matchesAny
+    if (operator === "!=" || operator === "not in") return (issue) => !matchesAny(issue)
+    throw new JqlError(`The operator '${operator}' is not supported by the 'filter' field.`)
+  }
+
+  const buildDateClause = (field: string, operator: string, values: string[]): Predicate => {
+    const [target] = values.map(parseJqlDate)
+    const compare: Record<string, (time: number) => boolean> = {
+      ">": (time) => time > target,
+      ">=": (time) => time >= target,
+      "<": (time) => time < target,
+      "<=": (time) => time <= target,
+      "=": (time) => time === target,
+      "!=": (time) => time !== target,
+    }
+    if (!compare[operator]) {
+      throw new JqlError(`The operator '${operator}' is not supported by the '${field}' field.`)
+    }
+    return (issue) => {
+      const time = getFieldTime(issue, field)
+      return time !== null && compare[operator](time)
+    }
+  }
+
+  const parseClause = (): Predicate => {
+    const fieldToken = tokens[position++]
+    if (fieldToken.type !== "word" && fieldToken.type !== "string") {
+      throw new JqlError(`Error in the JQL Query: expecting a field name but got '${fieldToken.value}'.`)
+    }
+    const field = normalizeField(fieldToken.value)
+    const isDate = field in DATE_FIELDS
+    if (field !== "filter" && !isDate && !TEXT_FIELDS.has(field)) {
+      throw new JqlError(`Field '${fieldToken.value}' does not exist or you do not have permission to view it.`)
+    }
+
+    const operator = parseOperator()
+    if (operator === "is" || operator === "is not") {
+      const value = tokens[position++]
+      if (!isKeyword(value, "empty") && !isKeyword(value, "null")) {
+        throw new JqlError(`Error in the JQL Query: expecting EMPTY or NULL after '${operator.toUpperCase()}'.`)
+      }
+      const isEmpty: Predicate = isDate
+        ? (issue) => getFieldTime(issue, field) === null
+        : (issue) => getFieldValues(issue, field).length === 0
+      return operator === "is" ? isEmpty : (issue) => !isEmpty(issue)
+    }
+
+    const values = operator === "in" || operator === "not in" ? parseList() : parseValue()
+    if (field === "filter") return buildFilterClause(operator, values)
+    if (isDate) return buildDateClause(field, operator, values)
+
+    const wanted = values.map((value) => value.toLowerCase())
+    const matchesAny = (issue: JiraMockIssue) =>
+      getFieldValues(issue, field).some((value) => wanted.includes(value.toLowerCase()))
+    const containsAny = (issue: JiraMockIssue) =>
+      getFieldValues(issue, field).some((value) => wanted.some((text) => value.toLowerCase().includes(text)))
+    const hasValue = (issue: JiraMockIssue) => getFieldValues(issue, field).length > 0
+
+    switch (operator) {
+      case "=":
+      case "in":
+        return matchesAny
+      case "!=":
+      case "not in":
+        return (issue) => hasValue(issue) && !matchesAny(issue)
+      case "~":
+        return containsAny
+      case "!~":
+        return (issue) => hasValue(issue) && !containsAny(issue)
+      default:
+        throw new JqlError(`The operator '${operator}' is not supported by the '${fieldToken.value}' field.`)
+    }
+  }
+
+  const parsePrimary = (): Predicate => {
+    const token = peek()
+    if (!token) {
+      throw new JqlError("Error in the JQL Query: the query ends unexpectedly.")
+    }
+    if (token.type === "symbol" && token.value === "(") {
+      position++
+      const inner = parseOr()
+      expectSymbol(")")
+      return inner
+    }
+    return parseClause()
+  }
+
+  const parseNot = (): Predicate => {
+    if (isKeyword(peek(), "not")) {
+      position++
+      const inner = parseNot()
+      return (issue) => !inner(issue)
+    }
+    return parsePrimary()
+  }
+
+  const parseAnd = (): Predicate => {
+    let left = parseNot()
+    while (isKeyword(peek(), "and")) {
+      position++
+      const previous = left
+      const right = parseNot()
+      left = (issue) => previous(issue) && right(issue)
+    }
+    return left
+  }
+
+  function parseOr(): Predicate {
+    let left = parseAnd()
+    while (isKeyword(peek(), "or")) {
+      position++
+      const previous = left
+      const right = parseAnd()
+      left = (issue) => previous(issue) || right(issue)
+    }
+    return left
+  }
+
+  const matches: Predicate = tokens.length === 0 ? () => true : parseOr()
+  if (position < tokens.length) {
+    throw new JqlError(`Error in the JQL Query: unexpected '${tokens[position].value}' at the end of the query.`)
+  }
+
+  const orderBy: OrderBy[] = []
+  if (orderIndex !== -1) {
+    const orderTokens = allTokens.slice(orderIndex + 2)
+    for (let index = 0; index < orderTokens.length; index++) {
+      const token = orderTokens[index]
+      if (token.type === "symbol" && token.value === ",") continue
+      const direction = orderTokens[index + 1]
+      const descending = isKeyword(direction, "desc")
+      if (descending || isKeyword(direction, "asc")) index++
+      orderBy.push({ field: normalizeField(token.value), descending })
+    }
+  }
+
+  return { matches, orderBy }
+}
+
+function sortIssues(data: JiraMockDataset, issues: JiraMockIssue[], orderBy: OrderBy[]): JiraMockIssue[] {
+  const rank = new Map(data.issues.map((issue, index) => [issue.key, index]))
+  const sortValue = (issue: JiraMockIssue, field: string): number | string | null => {
+    if (field === "rank") return rank.get(issue.key) ?? 0
+    if (field in DATE_FIELDS) return getFieldTime(issue, field)
+    if (field === "key") return rank.get(issue.key) ?? 0
+    return getFieldValues(issue, field)[0]?.toLowerCase() ?? null
+  }
+
+  return [...issues].sort((a, b) => {
+    for (const { field, descending } of orderBy) {
+      const left = sortValue(a, field)
+      const right = sortValue(b, field)
+      if (left === right) continue
+      // Empty values sort last in either direction, as in Jira
+      if (left === null) return 1
+      if (right === null) return -1
+      const difference = left < right ? -1 : 1
+      return descending ? -difference : difference
+    }
+    return 0
+  })
+}
+
+// Linked issues and parents report their current status, even after the dataset changes
+function hydrateIssue(data: JiraMockDataset, issue: JiraMockIssue): Record<string, any> {
+  const byKey = (key: string) => data.issues.find((candidate) => candidate.key === key)
+  const summaryOf = (ref: { key: string; fields?: Record<string, any> }) => {
+    const current = byKey(ref.key)
+    return current
+      ? { ...ref, fields: { ...ref.fields, summary: current.fields.summary, status: current.fields.status } }
+      : ref
+  }
+  return {
+    ...issue.fields,
+    parent: issue.fields.parent ? summaryOf(issue.fields.parent) : undefined,
+    issuelinks: (issue.fields.issuelinks || []).map((link: Record<string, any>) => ({
+      ...link,
+      ...(link.outwardIssue ? { outwardIssue: summaryOf(link.outwardIssue) } : {}),
+      ...(link.inwardIssue ? { inwardIssue: summaryOf(link.inwardIssue) } : {}),
+    })),
+  }
+}
+
+function toResponseIssue(data: JiraMockDataset, issue: JiraMockIssue, fields?: string[]) {
+  const allFields = hydrateIssue(data, issue)
+  if (!fields || fields.some((field) => field === "*all" || field === "*navigable")) {
+    return { id: issue.id, key: issue.key, fields: allFields }
+  }
+  const selected: Record<string, any> = {}
+  for (const field of fields) {
+    if (field in allFields && allFields[field] !== undefined) selected[field] = allFields[field]
+  }
+  return { id: issue.id, key: issue.key, fields: selected }
+}
+
+function searchIssues(data: JiraMockDataset, body: Record<string, any>, mode: "token" | "offset"): Response {
+  const { matches, orderBy } = compileJql(data, String(body.jql || ""))
+  const found = sortIssues(data, data.issues.filter(matches), orderBy)
+  const maxResults = Math.min(Number(body.maxResults) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+  const fields: string[] | undefined = Array.isArray(body.fields) ? body.fields : undefined
+
+  const startAt = mode === "token" ? Number(body.nextPageToken) || 0 : Number(body.startAt) || 0
+  const issues = found.slice(startAt, startAt + maxResults).map((issue) => toResponseIssue(data, issue, fields))
+  const isLast = startAt + maxResults >= found.length
+
+  // Token search does not report a total, like Jira Cloud's /search/jql
+  return mode === "token"
+    ? json({ issues, isLast, ...(isLast ? {} : { nextPageToken: String(startAt + maxResults) }) })
+    : json({ startAt, maxResults, total: found.length, issues })
+}
+
+function paginate<T>(items: T[], params: URLSearchParams) {
+  const startAt = Number(params.get("startAt")) || 0
+  const maxResults = Math.min(Number(params.get("maxResults")) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+  const values = items.slice(startAt, startAt + maxResults)
+  return { startAt, maxResults, total: items.length, isLast: startAt + maxResults >= items.length, values }
+}
+
+function routeAgile(
+  data: JiraMockDataset,
+  method: string,
+  path: string,
+  params: URLSearchParams,
+  body: Record<string, any>
+): Response {
+  const boardMatch = path.match(/^board\/(\d+)(?:\/(features|configuration|sprint))?$/)
+  if (boardMatch) {
+    const board = data.boards.find((candidate) => candidate.id === Number(boardMatch[1]))
+    if (!board) return errorResponse(404, `Board with id ${boardMatch[1]} does not exist.`)
+
+    switch (boardMatch[2]) {
+      case "features":
+        return json({ features: [{ feature: "sprints", enabled: board.type === "scrum" }] })
+      case "configuration":
+        return json({
+          id: board.id,
+          name: board.name,
+          type: board.type,
+          filter: { id: board.filter.id },
+          ...(board.subQuery ? { subQuery: { query: board.subQuery } } : {}),
+          columnConfig: { columns: board.columns, constraintType: "issueCount" },
+        })
+      case "sprint": {
+        if (board.type !== "scrum") return errorResponse(400, "The board does not support sprints")
+        const states = params.get("state")?.split(",")
+        const sprints = data.sprints.filter(
+          (sprint) => sprint.originBoardId === board.id && (!states || states.includes(sprint.state))
+        )
+        return json(paginate(sprints, params))
+      }
+      default:
+        return json({ id: board.id, name: board.name, type: board.type, location: board.location })
+    }
+  }
+
+  if (path === "board") {
+    const project = params.get("projectKeyOrId")?.toLowerCase()
+    const type = params.get("type")
+    const boards = data.boards
+      .filter(
+        (board) =>
+          !project ||
+          board.location.projectKey.toLowerCase() === project ||
+          String(board.location.projectId) === project
+      )
+      .filter((board) => !type || board.type === type)
+      .map(({ id, name, type, location }) => ({ id, name, type, location }))
+    return json(paginate(boards, params))
+  }
+
+  const sprintMatch = path.match(/^sprint\/(\d+)$/)
+  if (sprintMatch) {
+    const sprint = data.sprints.find((candidate) => candidate.id === Number(sprintMatch[1]))
+    if (!sprint) return errorResponse(404, `Sprint with id ${sprintMatch[1]} does not exist.`)
+    // POST is a partial update; only the goal is writable here
+    if (method === "POST" && typeof body.goal === "string") sprint.goal = body.goal
+    return json(sprint)
+  }
+
+  return errorResponse(404, `No mock for /rest/agile/1.0/${path}`)
+}
+
+// Written values are kept as sent, ADF or plain text, and recorded in the changelog like Jira does
+function editIssue(data: JiraMockDataset, key: string, body: Record<string, any>): Response {
+  const issue = data.issues.find((candidate) => candidate.key === key || candidate.id === key)
+  if (!issue) return errorResponse(404, "Issue does not exist or you do not have permission to see it.")
+
+  const updates: Record<string, any> = body.fields || {}
+  const unknown = Object.keys(updates).filter((fieldId) => !data.fields.some((field) => field.id === fieldId))
+  if (unknown.length > 0) {
+    return json({ errorMessages: [], errors: Object.fromEntries(unknown.map((fieldId) => [fieldId, `Field '${fieldId}' cannot be set.`])) }, 400)
+  }
+
+  const now = new Date().toISOString()
+  const items = Object.entries(updates).map(([fieldId, value]) => ({
+    field: data.fields.find((field) => field.id === fieldId)!.name,
+    fieldId,
+    fieldtype: fieldId.startsWith("customfield_") ? "custom" : "jira",
+    from: null,
+    fromString: richTextToMarkdown(issue.fields[fieldId]) ?? null,
+    to: null,
+    toString: richTextToMarkdown(value) ?? null,
+  }))
+  Object.assign(issue.fields, updates)
+  issue.fields.updated = now
+  ;(data.changelogs[issue.key] ||= []).push({
+    id: String(Date.now()),
+    created: now,
+    author: { displayName: data.user.displayName },
+    items,
+  })
+  return new Response(null, { status: 204 })
+}
+
+function addComment(data: JiraMockDataset, key: string, body: Record<string, any>): Response {
+  const issue = data.issues.find((candidate) => candidate.key === key || candidate.id === key)
+  if (!issue) return errorResponse(404, "Issue does not exist or you do not have permission to see it.")
+  if (!body.body) return json({ errorMessages: [], errors: { comment: "Comment body can not be empty!" } }, 400)
+
+  const now = new Date().toISOString()
+  const comment = {
+    id: String(Date.now()),
+    author: { displayName: data.user.displayName },
+    body: body.body,
+    created: now,
+    updated: now,
+  }
+  issue.fields.comment = { comments: [...(issue.fields.comment?.comments || []), comment] }
+  return json(comment, 201)
+}
+
+function routePlatform(
+  data: JiraMockDataset,
+  method: string,
+  path: string,
+  params: URLSearchParams,
+  body: Record<string, any>
+): Response {
+  if (method === "POST" && (path === "search/jql" || path === "search")) {
+    return searchIssues(data, body, path === "search/jql" ? "token" : "offset")
+  }
+  if (method === "PUT" && /^issue\/[^/]+$/.test(path)) {
+    return editIssue(data, decodeURIComponent(path.slice("issue/".length)), body)
+  }
+  if (method === "POST" && /^issue\/[^/]+\/comment$/.test(path)) {
+    return addComment(data, decodeURIComponent(path.split("/")[1]), body)
+  }
+  if (method !== "GET") {
+    return errorResponse(405, `The mock Jira does not support ${method} /${path}`)
+  }
+
+  if (path === "myself") return json(data.user)
+  if (path === "project") return json(data.projects)
+  if (path === "status") return json(data.statuses)
+  if (path === "field") return json(data.fields)
+
+  const projectMatch = path.match(/^project\/([^/]+)(\/versions)?$/)
+  if (projectMatch) {
+    const keyOrId = decodeURIComponent(projectMatch[1]).toLowerCase()
+    const project = data.projects.find((candidate) => candidate.key.toLowerCase() === keyOrId || candidate.id === keyOrId)
+    if (!project) return errorResponse(404, `No project could be found with key '${projectMatch[1]}'.`)
+    if (!projectMatch[2]) return json(project)
+    return json(
+      data.versions
+        .filter((version) => version.projectKey === project.key)
+        .map(({ projectKey: _projectKey, ...version }) => version)
+    )
+  }
+
+  const issueMatch = path.match(/^issue\/([^/]+)(\/changelog)?$/)
+  if (issueMatch) {
+    const key = decodeURIComponent(issueMatch[1])
+    const issue = data.issues.find((candidate) => candidate.key === key || candidate.id === key)
+    if (!issue) return errorResponse(404, "Issue does not exist or you do not have permission to see it.")
+    const histories = data.changelogs[issue.key] || []
+
+    if (issueMatch[2]) return json(paginate(histories, params))
+
+    const fields = params.get("fields")?.split(",")
+    return json({
+      ...toResponseIssue(data, issue, fields),
+      ...(params.get("expand")?.includes("changelog")
+        ? { changelog: { startAt: 0, maxResults: histories.length, total: histories.length, histories } }
+        : {}),
+    })
+  }
+
+  return errorResponse(404, `No mock for /rest/api/${path}`)
+}
+
+/**
+ * Answers one Jira REST request from the mock dataset. Paths are matched without the site URL,
+ * so both API versions work; unsupported endpoints return 404 like an unknown Jira resource.
+ */
+export async function handleMockJiraRequest(url: string, init: RequestInit = {}): Promise<Response> {
+  const { pathname, searchParams } = new URL(url)
+  const method = (init.method || "GET").toUpperCase()
+  const data = getMockDataset()
+
+  try {
+    const body = typeof init.body === "string" && init.body ? JSON.parse(init.body) : {}
+
+    const agile = pathname.match(/^\/rest\/agile\/1\.0\/(.+)$/)
+    if (agile) return routeAgile(data, method, agile[1], searchParams, body)
+
+    const platform = pathname.match(/^\/rest\/api\/[23]\/(.+)$/)
+    if (platform) return routePlatform(data, method, platform[1], searchParams, body)
+
+    return errorResponse(404, `No mock for ${pathname}`)
+  } catch (error) {
+    if (error instanceof JqlError) return errorResponse(400, error.message)
+    throw error
+  }
+}
@@ -1,5 +1,8 @@
 // Type definitions and validation functions for Jira API responses
 
+import { richTextToMarkdown } from "./adf"
+import { getEffectiveStatusCategory, toStatusCategoryKey, type CompletionRule, type StatusCategoryKey } from "./issue-completion"
+
 // Centralized Jira field mapping
 export const JIRA_FIELDS = {
   // Standard fields
@@ -11,20 +14,90 @@ export const JIRA_FIELDS = {
   PARENT: "parent",
   ISSUE_LINKS: "issuelinks",
   EPIC: "epic",
+  CREATED: "created",
+  TIME_TRACKING: "timetracking",
+  TIME_ORIGINAL_ESTIMATE: "timeoriginalestimate",
+  TIME_SPENT: "timespent",
+  COMPONENTS: "components",
+  LABELS: "labels",
+  PRIORITY: "priority",
+  RESOLUTION: "resolution",
+  RESOLUTION_DATE: "resolutiondate",
 
   // Custom fields with their mappings
   STORY_POINTS: "customfield_10127",
   EPIC_NAME: "customfield_10015",
+  EPIC_LINK: "customfield_10014",
   RELEASE_NOTES: "customfield_10113",
+  SPRINT: "customfield_10020",
 } as const;
 
 // Type for field mapping
 export type JiraFieldKey = keyof typeof JIRA_FIELDS;
 export type JiraFieldValue = typeof JIRA_FIELDS[JiraFieldKey];
 
-// Helper function to get all field values
-export function getAllJiraFields(): string[] {
-  return Object.values(JIRA_FIELDS);
+// Logical custom fields whose Jira field ID differs between sites and projects
+export interface JiraFieldMapping {
+  storyPoints: string
+  epicName: string
+  epicLink: string // Company-managed / Data Center epic membership; holds the epic's issue key
+  releaseNotes: string
+  sprint: string // Every sprint the issue has been in, not just the current one
+}
+
+// Mapping used when no site/project mapping has been discovered or saved
+export const DEFAULT_FIELD_MAPPING: JiraFieldMapping = {
+  storyPoints: JIRA_FIELDS.STORY_POINTS,
+  epicName: JIRA_FIELDS.EPIC_NAME,
+  epicLink: JIRA_FIELDS.EPIC_LINK,
+  releaseNotes: JIRA_FIELDS.RELEASE_NOTES,
+  sprint: JIRA_FIELDS.SPRINT,
+};
+
+// Helper function to get all field values, with custom fields taken from the active mapping
+export function getAllJiraFields(mapping: JiraFieldMapping = DEFAULT_FIELD_MAPPING): string[] {
+  const standardFields = Object.values(JIRA_FIELDS).filter(
+    (field) => !Object.values(DEFAULT_FIELD_MAPPING).includes(field),
+  );
+  return Array.from(new Set([...standardFields, ...Object.values(mapping)]));
+}
+
+// Jira connection profiles; the selected profile ID travels to the server in this cookie
+export const JIRA_PROFILE_COOKIE = "jira-profile"
+
+export type JiraDeploymentType = "cloud" | "datacenter"
+
+// Client-safe view of a connection profile (no credentials)
+export interface JiraProfileSummary {
+  id: string
+  name: string
+  baseUrl: string
+  deployment: JiraDeploymentType
+  mock?: boolean // Offline simulator (JIRA_MOCK); see lib/jira-mock.ts
+}
+
+// Change pushed to open sessions when a Jira webhook arrives (see app/api/jira-webhook)
+export type JiraChangeType =
+  | "issue-created"
+  | "issue-updated"
+  | "issue-deleted"
+  | "sprint-created"
+  | "sprint-updated"
+  | "sprint-started"
+  | "sprint-closed"
+  | "sprint-deleted"
+
+export interface JiraChangeNotification {
+  id: string
+  type: JiraChangeType
+  webhookEvent: string
+  profileId?: string // Set when the payload's site matches a configured profile
+  issueKey?: string
+  projectKey?: string
+  sprintIds: number[] // Sprints the issue is in or just left, or the sprint itself
+  boardId?: number
+  changedFields: string[]
+  receivedAt: string
 }
 
 export interface JiraProject {
@@ -40,18 +113,33 @@ export interface JiraSprint {
   state: "active" | "closed" | "future"
   startDate?: string
   endDate?: string
+  activatedDate?: string // When it was actually started, which can differ from the planned start
   completeDate?: string
   originBoardId?: number
   goal?: string
 }
 
+// Fix version, as returned by /project/{key}/versions
+export interface JiraVersion {
+  id: string
+  name: string
+  description?: string
+  released?: boolean
+  archived?: boolean
+  startDate?: string
+  releaseDate?: string
+  projectId?: number
+}
+
 export interface JiraIssue {
   id: string
   key: string
   fields: {
     summary: string
     description?: string
+    created?: string
     status: {
+      id?: string
       name: string
       statusCategory?: {
         key: string
@@ -65,7 +153,29 @@ export interface JiraIssue {
     issuetype: {
       name: string
       iconUrl?: string
+      subtask?: boolean
+    }
+    timetracking?: {
+      originalEstimateSeconds?: number
+      remainingEstimateSeconds?: number
+      timeSpentSeconds?: number
     }
+    timeoriginalestimate?: number | null // Seconds
+    timespent?: number | null // Seconds
+    components?: Array<{
+      id?: string
+      name: string
+    }>
+    labels?: string[]
+    priority?: {
+      id?: string
+      name: string
+    } | null
+    resolution?: {
+      id?: string
+      name: string
+    } | null // null while the issue is unresolved
+    resolutiondate?: string | null
     [JIRA_FIELDS.STORY_POINTS]?: number
     [JIRA_FIELDS.EPIC_NAME]?: string
     [JIRA_FIELDS.RELEASE_NOTES]?: string
@@ -90,6 +200,13 @@ export interface JiraIssue {
           issuetype: {
             name: string
           }
+          status?: {
+            id?: string
+            name: string
+            statusCategory?: {
+              key: string
+            }
+          }
         }
       }
       inwardIssue?: {
@@ -99,6 +216,13 @@ export interface JiraIssue {
           issuetype: {
             name: string
           }
+          status?: {
+            id?: string
+            name: string
+            statusCategory?: {
+              key: string
+            }
+          }
         }
       }
     }>
@@ -143,6 +267,9 @@ export interface SafeJiraSprint {
   state: "active" | "closed" | "future"
   startDate: string | null
   endDate: string | null
+  // Full timestamps; the dates above are days, which can't tell planning-day work from additions
+  startedAt?: string | null
+  endedAt?: string | null // Completed, or the planned end while open
   boardId: string
   goal?: string
 }
@@ -153,6 +280,9 @@ export interface SafeJiraIssue {
   summary: string
   description?: string
   status: string
+  statusId?: string
+  statusCategory?: StatusCategoryKey
+  completed: boolean // See lib/issue-completion.ts
   assignee?: string
   storyPoints?: number
   issueType: string
@@ -162,6 +292,82 @@ export interface SafeJiraIssue {
   epicName?: string
   epicColor?: string
   releaseNotes?: string
+  created?: string
+  // Time tracking in seconds; undefined when nothing is estimated or logged
+  originalEstimateSeconds?: number
+  remainingEstimateSeconds?: number
+  timeSpentSeconds?: number
+  components?: string[]
+  labels?: string[]
+  priority?: string
+  resolution?: string // e.g. "Done", "Won't Do", "Duplicate"; undefined while unresolved
+  resolutionDate?: string
+  links?: SafeJiraIssueLink[]
+  sprints?: SafeJiraSprintRef[] // Every sprint the issue has been in, from the Sprint field
+}
+
+// A sprint as held in an issue's Sprint field
+export interface SafeJiraSprintRef {
+  id: string
+  name: string
+  state?: "active" | "closed" | "future"
+  startDate?: string
+}
+
+// One issue link, seen from the issue that holds it
+export interface SafeJiraIssueLink {
+  id: string
+  type: string // Link type name, e.g. "Blocks"
+  relationship: string // e.g. "blocks" or "is blocked by"
+  key: string
+  summary: string
+  issueType: string
+  status?: string
+  statusCategory?: StatusCategoryKey
+}
+
+export interface SafeJiraVersion {
+  id: string
+  name: string
+  description?: string
+  released: boolean
+  archived: boolean
+  startDate: string | null
+  releaseDate: string | null
+  projectKey: string
+}
+
+// Issue changelog as returned by /issue/{key}/changelog or expand=changelog
+export interface JiraChangelogHistory {
+  id: string
+  created: string
+  author?: {
+    displayName: string
+  }
+  items: Array<{
+    field: string
+    fieldId?: string
+    fieldtype?: string
+    from: string | null
+    fromString: string | null
+    to: string | null
+    toString: string | null
+  }>
+}
+
+export interface SafeJiraChangelogItem {
+  field: string
+  from: string | null
+  fromText: string | null
+  to: string | null
+  toText: string | null
+}
+
+export interface SafeJiraChangelogEntry {
+  id: string
+  created: string
+  author?: string
+  items: SafeJiraChangelogItem[]
 }
 
 export interface SafeJiraUser {
@@ -208,6 +414,23 @@ export function isValidJiraSearchResponse(data: any): data is { issues: JiraIssu
   )
 }
 
+export function isValidJiraChangelogResponse(data: any): data is { values: JiraChangelogHistory[]; isLast?: boolean } {
+  return (
+    data &&
+    Array.isArray(data.values) &&
+    data.values.every(
+      (history: any) => history && typeof history.created === "string" && Array.isArray(history.items),
+    )
+  )
+}
+
+export function isValidJiraVersionsResponse(data: any): data is JiraVersion[] {
+  return (
+    Array.isArray(data) &&
+    data.every((version) => version && typeof version.id === "string" && typeof version.name === "string")
+  )
+}
+
 export function isValidJiraBoardsResponse(data: any): data is { values: JiraBoard[] } {
   return (
     data &&
@@ -232,22 +455,71 @@ export function extractSafeSprint(sprint: JiraSprint): SafeJiraSprint {
     state: sprint.state,
     startDate: sprint.startDate ? new Date(sprint.startDate).toISOString().split("T")[0] : null,
     endDate: sprint.endDate ? new Date(sprint.endDate).toISOString().split("T")[0] : null,
+    startedAt: sprint.activatedDate || sprint.startDate ? new Date((sprint.activatedDate || sprint.startDate)!).toISOString() : null,
+    endedAt: sprint.completeDate || sprint.endDate ? new Date((sprint.completeDate || sprint.endDate)!).toISOString() : null,
     boardId: sprint.originBoardId?.toString() || "0",
     goal: sprint.goal,
   }
 }
 
-function adfToPlainText(adf: any): string {
-  if (!adf || !adf.content) return '';
-  return adf.content.map((node: any) => {
-    if (node.type === 'paragraph') {
-      return node.content ? node.content.map((child: any) => child.text || '').join('') : '';
+export function extractSafeVersion(version: JiraVersion, projectKey: string): SafeJiraVersion {
+  return {
+    id: version.id,
+    name: version.name,
+    description: version.description || undefined,
+    released: !!version.released,
+    archived: !!version.archived,
+    // Jira already sends plain dates (YYYY-MM-DD) for versions
+    startDate: version.startDate || null,
+    releaseDate: version.releaseDate || null,
+    projectKey,
+  }
+}
+
+const toSprintState = (value: unknown): SafeJiraSprintRef["state"] => {
+  const state = String(value || "").toLowerCase()
+  return state === "active" || state === "closed" || state === "future" ? state : undefined
+}
+
+// Cloud returns sprint objects; Data Center returns strings like
+// "com.atlassian.greenhopper.service.sprint.Sprint@1f[id=12,rapidViewId=3,state=CLOSED,name=Sprint 4,startDate=...]"
+function extractSprintRefs(value: unknown): SafeJiraSprintRef[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((sprint): SafeJiraSprintRef[] => {
+    if (sprint && typeof sprint === "object" && sprint.id !== undefined) {
+      return [{
+        id: String(sprint.id),
+        name: sprint.name || String(sprint.id),
+        state: toSprintState(sprint.state),
+        startDate: sprint.startDate || undefined,
+      }]
+    }
+    if (typeof sprint === "string") {
+      const attributes = new Map<string, string>()
+      for (const match of sprint.matchAll(/(\w+)=([^,\]]*)/g)) attributes.set(match[1], match[2])
+      const id = attributes.get("id")
+      if (!id) return []
+      const startDate = attributes.get("startDate")
+      return [{
+        id,
+        name: attributes.get("name") || id,
+        state: toSprintState(attributes.get("state")),
+        startDate: startDate && startDate !== "<null>" ? startDate : undefined,
+      }]
     }
-    return '';
-  }).join('\n\n');
+    return []
+  })
 }
 
-export function extractSafeIssue(issue: JiraIssue): SafeJiraIssue {
+export function extractSafeIssue(
+  issue: JiraIssue,
+  mapping: JiraFieldMapping = DEFAULT_FIELD_MAPPING,
+  completionRule?: CompletionRule | null,
+): SafeJiraIssue {
+  const customFields = issue.fields as Record<string, any>;
+  // "parent" is also the epic for standard issues, so only the issue type says what a sub-task is
+  const isSubtask = issue.fields.issuetype.subtask ?? !!issue.fields.parent;
+
   // Enhanced epic extraction logic
   let epicKey: string | undefined = undefined;
   let epicName: string | undefined = undefined;
@@ -261,8 +533,12 @@ export function extractSafeIssue(issue: JiraIssue): SafeJiraIssue {
     epicColor = issue.fields.epic.color?.key;
   } else {
     // Check for epic information in custom fields
-    const epicNameField = issue.fields[JIRA_FIELDS.EPIC_NAME];
+    const epicNameField = customFields[mapping.epicName];
+    const epicLinkField = customFields[mapping.epicLink];
 
+    if (epicLinkField && typeof epicLinkField === 'string') {
+      epicKey = epicLinkField;
+    }
     if (epicNameField && typeof epicNameField === 'string') {
       epicName = epicNameField;
     }
@@ -277,30 +553,96 @@ export function extractSafeIssue(issue: JiraIssue): SafeJiraIssue {
     }
   }
 
-  // Fallback to parent information if no epic found
-  if (!epicKey && !epicName && issue.fields.parent) {
+  // Fallback to parent information if no epic found; a sub-task's parent is its story,
+  // and its epic comes from that story (see lib/issue-hierarchy.ts)
+  if (!epicKey && !epicName && issue.fields.parent && !isSubtask) {
     epicKey = issue.fields.parent.key;
     epicName = issue.fields.parent.fields?.summary;
   }
 
+  // The timetracking field can be hidden from the screen while the plain fields are still set
+  const timeTracking = issue.fields.timetracking || {}
+  const originalEstimateSeconds = timeTracking.originalEstimateSeconds ?? issue.fields.timeoriginalestimate ?? undefined
+  const timeSpentSeconds = timeTracking.timeSpentSeconds ?? issue.fields.timespent ?? undefined
+
+  // The linked issue sits on the side opposite the relationship's wording
+  const links: SafeJiraIssueLink[] = (issue.fields.issuelinks || []).flatMap((link) => {
+    const linked = link.outwardIssue || link.inwardIssue
+    if (!linked) return []
+    return [{
+      id: link.id,
+      type: link.type.name,
+      relationship: link.outwardIssue ? link.type.outward : link.type.inward,
+      key: linked.key,
+      summary: linked.fields.summary,
+      issueType: linked.fields.issuetype.name,
+      status: linked.fields.status?.name,
+      statusCategory: getEffectiveStatusCategory(
+        completionRule,
+        linked.fields.status?.id,
+        linked.fields.status?.name,
+        toStatusCategoryKey(linked.fields.status?.statusCategory?.key),
+      ),
+    }]
+  })
+
+  const statusId = issue.fields.status.id
+  const statusCategory = getEffectiveStatusCategory(
+    completionRule,
+    statusId,
+    issue.fields.status.name,
+    toStatusCategoryKey(issue.fields.status.statusCategory?.key),
+  )
+
   return {
     id: issue.id,
     key: issue.key,
     summary: issue.fields.summary,
-    description: typeof issue.fields.description === 'object' ? adfToPlainText(issue.fields.description) : issue.fields.description,
+    description: richTextToMarkdown(issue.fields.description),
     status: issue.fields.status.name,
+    statusId,
+    statusCategory,
+    completed: statusCategory === "done",
     assignee: issue.fields.assignee?.displayName,
-    storyPoints: issue.fields[JIRA_FIELDS.STORY_POINTS],
+    storyPoints: typeof customFields[mapping.storyPoints] === 'number' ? customFields[mapping.storyPoints] : undefined,
     issueType: issue.fields.issuetype.name,
-    isSubtask: !!issue.fields.parent,
+    isSubtask,
     parentKey: issue.fields.parent?.key,
     epicKey,
     epicName,
     epicColor,
-    releaseNotes: typeof issue.fields[JIRA_FIELDS.RELEASE_NOTES] === 'object' ? adfToPlainText(issue.fields[JIRA_FIELDS.RELEASE_NOTES]) : issue.fields[JIRA_FIELDS.RELEASE_NOTES],
+    created: issue.fields.created,
+    originalEstimateSeconds,
+    remainingEstimateSeconds: timeTracking.remainingEstimateSeconds,
+    timeSpentSeconds,
+    components: (issue.fields.components || []).map((component) => component.name),
+    labels: issue.fields.labels || [],
+    priority: issue.fields.priority?.name,
+    resolution: issue.fields.resolution?.name,
+    resolutionDate: issue.fields.resolutiondate || undefined,
+    links,
+    sprints: extractSprintRefs(customFields[mapping.sprint]),
+    releaseNotes: richTextToMarkdown(customFields[mapping.releaseNotes]),
   }
 }
 
+export function extractSafeChangelog(histories: JiraChangelogHistory[]): SafeJiraChangelogEntry[] {
+  return histories
+    .map((history) => ({
+      id: String(history.id),
+      created: history.created,
+      author: history.author?.displayName,
+      items: history.items.map((item) => ({
+        field: item.field,
+        from: item.from ?? null,
+        fromText: item.fromString ?? null,
+        to: item.to ?? null,
+        toText: item.toString ?? null,
+      })),
+    }))
+    .sort((a, b) => new Date(a.created).getTime() - new Date(b.created).getTime())
+}
+
 export function extractSafeUser(user: any): SafeJiraUser {
   return {
     displayName: user.displayName || "Unknown User",
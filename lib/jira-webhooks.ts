@@ -0,0 +1,199 @@
+// Jira webhook handling: shared-secret verification, payload parsing and the in-process change feed
+
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+import { getJiraProfiles } from "./jira-env"
+import type { JiraChangeNotification, JiraChangeType } from "./jira-types"
+
+export interface JiraWebhookPayload {
+  webhookEvent?: string
+  timestamp?: number
+  issue?: {
+    id?: string
+    key?: string
+    self?: string
+    fields?: Record<string, any>
+  }
+  changelog?: {
+    items?: Array<{ field?: string; fieldId?: string; from?: string | null; to?: string | null }>
+  }
+  sprint?: {
+    id?: number
+    self?: string
+    originBoardId?: number
+    state?: string
+  }
+}
+
+type JiraChangeListener = (change: JiraChangeNotification) => void
+
+const EVENT_TYPES: Record<string, JiraChangeType> = {
+  "jira:issue_created": "issue-created",
+  "jira:issue_updated": "issue-updated",
+  "jira:issue_deleted": "issue-deleted",
+  sprint_created: "sprint-created",
+  sprint_updated: "sprint-updated",
+  sprint_started: "sprint-started",
+  sprint_closed: "sprint-closed",
+  sprint_deleted: "sprint-deleted",
+}
+
+// Route handlers can be bundled separately in development, so the listeners live on globalThis
+const globalForWebhooks = globalThis as typeof globalThis & { jiraChangeListeners?: Set<JiraChangeListener> }
+const listeners = (globalForWebhooks.jiraChangeListeners ??= new Set<JiraChangeListener>())
+
+// Hash both sides first so timingSafeEqual always compares equal-length buffers
+function constantTimeEquals(a: string, b: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest()
+  return timingSafeEqual(digest(a), digest(b))
+}
+
+/**
+ * Verifies a webhook against the shared secret. Jira Cloud webhooks registered with a secret
+ * sign the body (X-Hub-Signature: sha256=<hex>); Server / Data Center cannot sign, so the
+ * secret is accepted as a ?secret= query parameter on the webhook URL instead.
+ */
+export function verifyJiraWebhook(
+  rawBody: string,
+  secret: string,
+  signatureHeader: string | null,
+  querySecret: string | null
+): boolean {
+  if (signatureHeader) {
+    const [method, signature] = signatureHeader.split("=", 2)
+    if (method !== "sha256" || !signature) return false
+    const expected = createHmac("sha256", secret).update(rawBody, "utf8").digest("hex")
+    return constantTimeEquals(signature.toLowerCase(), expected)
+  }
+  if (querySecret) {
+    return constantTimeEquals(querySecret, secret)
+  }
+  return false
+}
+
+function toSprintId(value: any): number | null {
+  const id = Number(value)
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+// Sprint IDs in the issue's sprint field: objects on Cloud, serialized "...Sprint@1a2b[id=12,...]" strings on Data Center
+function collectSprintIdsFromFields(fields: Record<string, any> = {}): number[] {
+  const ids: number[] = []
+  for (const value of Object.values(fields)) {
+    if (!Array.isArray(value)) continue
+    for (const item of value) {
+      if (item && typeof item === "object" && "state" in item && ("boardId" in item || "originBoardId" in item)) {
+        const id = toSprintId(item.id)
+        if (id) ids.push(id)
+      } else if (typeof item === "string" && item.includes("greenhopper.service.sprint.Sprint")) {
+        const id = toSprintId(item.match(/\[id=(\d+)/)?.[1])
+        if (id) ids.push(id)
+      }
+    }
+  }
+  return ids
+}
+
+// A sprint change in the changelog names both the sprints the issue left and the ones it joined
+function collectSprintIdsFromChangelog(payload: JiraWebhookPayload): number[] {
+  return (payload.changelog?.items || [])
+    .filter((item) => item.field?.toLowerCase() === "sprint")
+    .flatMap((item) => [item.from, item.to])
+    .flatMap((value) => (value || "").split(","))
+    .map((value) => toSprintId(value.trim()))
+    .filter((id): id is number => id !== null)
+}
+
+// Matches the payload's "self" link against the configured sites
+function findProfileId(self?: string): string | undefined {
+  if (!self) return undefined
+  return getJiraProfiles().find((profile) => profile.baseUrl && self.startsWith(`${profile.baseUrl}/`))?.id
+}
+
+/**
+ * Turns an issue or sprint webhook into a change notification; returns null for events we do not track
+ */
+export function parseJiraWebhook(payload: JiraWebhookPayload): JiraChangeNotification | null {
+  const webhookEvent = payload?.webhookEvent || ""
+  const type = EVENT_TYPES[webhookEvent]
+  if (!type) return null
+
+  const receivedAt = new Date().toISOString()
+
+  if (type.startsWith("sprint-")) {
+    const sprintId = toSprintId(payload.sprint?.id)
+    if (!sprintId) return null
+    return {
+      id: randomUUID(),
+      type,
+      webhookEvent,
+      profileId: findProfileId(payload.sprint?.self),
+      sprintIds: [sprintId],
+      boardId: toSprintId(payload.sprint?.originBoardId) ?? undefined,
+      changedFields: [],
+      receivedAt,
+    }
+  }
+
+  const issueKey = payload.issue?.key
+  if (!issueKey) return null
+
+  const sprintIds = new Set([
+    ...collectSprintIdsFromFields(payload.issue?.fields),
+    ...collectSprintIdsFromChangelog(payload),
+  ])
+  const changedFields = Array.from(
+    new Set((payload.changelog?.items || []).map((item) => item.field).filter((field): field is string => !!field))
+  )
+
+  return {
+    id: randomUUID(),
+    type,
+    webhookEvent,
+    profileId: findProfileId(payload.issue?.self),
+    issueKey,
+    projectKey: payload.issue?.fields?.project?.key || issueKey.split("-")[0],
+    sprintIds: Array.from(sprintIds),
+    changedFields,
+    receivedAt,
+  }
+}
+
+/**
+ * Saves the raw payload to JIRA_WEBHOOK_RECORD_DIR (when set) so it can be replayed later
+ * with scripts/replay-jira-webhook.mjs
+ */
+export async function recordJiraWebhook(rawBody: string, webhookEvent?: string): Promise<void> {
+  const directory = process.env.JIRA_WEBHOOK_RECORD_DIR
+  if (!directory) return
+
+  try {
+    await fs.mkdir(directory, { recursive: true })
+    const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${(webhookEvent || "unknown").replace(/[^\w-]/g, "_")}.json`
+    await fs.writeFile(path.join(directory, name), rawBody, "utf8")
+  } catch (error) {
+    console.warn("⚠️ Failed to record Jira webhook payload:", error)
+  }
+}
+
+export function subscribeToJiraChanges(listener: JiraChangeListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Returns how many open sessions the change was delivered to
+export function publishJiraChange(change: JiraChangeNotification): number {
+  let delivered = 0
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(change)
+      delivered++
+    } catch (error) {
+      console.warn("⚠️ Jira change listener failed:", error)
+    }
+  }
+  return delivered
+}
@@ -0,0 +1,56 @@
+// Append-only audit trail of Jira write-back, one JSON line per attempt. It lives on disk so it
+// survives restarts and is shared by instances on a common volume.
+
+import { promises as fs } from "fs"
+import path from "path"
+import type { JiraWriteAuditEntry } from "./jira-write-back"
+
+function getAuditFile(): string {
+  return process.env.JIRA_WRITE_AUDIT_FILE || path.join(process.cwd(), ".cache", "jira-write-audit.jsonl")
+}
+
+/**
+ * Appends the attempt to the audit file. Throws when it can't be recorded, so an unaudited
+ * write is never reported as a clean success.
+ */
+export async function recordJiraWrite(entry: Omit<JiraWriteAuditEntry, "id" | "at">): Promise<JiraWriteAuditEntry> {
+  const recorded: JiraWriteAuditEntry = {
+    ...entry,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    at: new Date().toISOString(),
+  }
+
+  const file = getAuditFile()
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  // A single appended line per write, so concurrent instances never interleave entries
+  await fs.appendFile(file, `${JSON.stringify(recorded)}\n`, "utf8")
+
+  const icon = recorded.status === "updated" ? "✅" : "❌"
+  console.log(
+    `${icon} Jira write-back ${recorded.action} on ${recorded.target} by ${recorded.actor || "unknown"} (${recorded.profileId}): ${recorded.status}${recorded.error ? ` - ${recorded.error}` : ""}`
+  )
+  return recorded
+}
+
+// Newest first; unreadable lines (e.g. a write cut short by a crash) are skipped
+export async function getJiraWriteAudit(profileId?: string, limit = 50): Promise<JiraWriteAuditEntry[]> {
+  let contents: string
+  try {
+    contents = await fs.readFile(getAuditFile(), "utf8")
+  } catch {
+    return []
+  }
+
+  const entries: JiraWriteAuditEntry[] = []
+  for (const line of contents.split("\n").reverse()) {
+    if (!line.trim()) continue
+    try {
+      const entry: JiraWriteAuditEntry = JSON.parse(line)
+      if (!profileId || entry.profileId === profileId) entries.push(entry)
+    } catch {
+      continue
+    }
+    if (entries.length >= limit) break
+  }
+  return entries
+}
@@ -0,0 +1,76 @@
+// Opt-in writes back to Jira (JIRA_WRITE_BACK=true): release notes, sprint overview comments and
+// sprint goals. Every write is previewed, confirmed in the UI and recorded in the audit log.
+
+export type JiraWriteAction = "release-notes" | "comment" | "sprint-goal"
+
+export type JiraWriteStatus = "updated" | "conflict" | "failed"
+
+// One edited release note; `expected` is the Jira value the preview was made against
+export interface ReleaseNotesChange {
+  issueKey: string
+  expected: string
+  releaseNotes: string
+}
+
+// A sprint goal is replaced, so like release notes it carries the goal the preview was made against
+export type SprintOverviewTarget =
+  | { type: "comment"; issueKey: string }
+  | { type: "sprint-goal"; sprintId: string; expected: string }
+
+export interface JiraWriteResult {
+  target: string // Issue key or sprint ID
+  status: JiraWriteStatus
+  error?: string
+}
+
+export interface JiraWriteAuditEntry {
+  id: string
+  at: string
+  profileId: string
+  actor?: string // Jira user the write was made as
+  action: JiraWriteAction
+  target: string
+  before?: string
+  after: string
+  status: JiraWriteStatus
+  error?: string
+}
+
+export interface DiffLine {
+  type: "same" | "added" | "removed"
+  text: string
+}
+
+/**
+ * Line diff from the longest common subsequence, for previewing a field before it is overwritten
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split("\n") : []
+  const b = after ? after.split("\n") : []
+
+  // lengths[i][j]: common lines between a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] })
+    } else {
+      lines.push({ type: "added", text: b[j++] })
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] })
+  while (j < b.length) lines.push({ type: "added", text: b[j++] })
+  return lines
+}
@@ -0,0 +1,137 @@
+// Throughput and work in progress for kanban boards, which have no sprints to measure velocity by
+
+import type { BoardColumn } from "./issue-completion"
+import { isIssueCompleted, type CompletableIssue } from "./utils"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// A board column with the WIP limits set in the board configuration
+export interface KanbanColumn extends BoardColumn {
+  min?: number
+  max?: number
+}
+
+export interface KanbanIssue extends CompletableIssue {
+  key: string
+  issueType: string
+  isSubtask: boolean
+  storyPoints?: number
+  statusId?: string
+  resolutionDate?: string
+}
+
+export interface KanbanWeek {
+  weekStart: string // YYYY-MM-DD; the first week starts on the period's first day
+  issues: number
+  points: number
+}
+
+export interface KanbanColumnWip {
+  name: string
+  count: number
+  min?: number
+  max?: number
+  overLimit: boolean
+  underLimit: boolean
+}
+
+export interface KanbanMetrics {
+  boardId: string
+  from: string // YYYY-MM-DD, inclusive
+  to: string // YYYY-MM-DD, inclusive
+  days: number
+  throughput: {
+    issues: number
+    points: number
+    perWeek: number
+    weeks: KanbanWeek[]
+  }
+  wip: {
+    current: number // Started but unfinished issues on the board now
+    columns: KanbanColumnWip[]
+    columnsOverLimit: number
+  }
+  generatedAt: string
+}
+
+export function toDateInputValue(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+// Whole days from the start of `from` to the end of `to`
+export function getPeriodDays(from: string, to: string): number {
+  return Math.max(1, Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS) + 1)
+}
+
+function getWeeks(completed: KanbanIssue[], from: string, days: number): KanbanWeek[] {
+  const start = new Date(from).getTime()
+  const weeks: KanbanWeek[] = Array.from({ length: Math.ceil(days / 7) }, (_, index) => ({
+    weekStart: toDateInputValue(new Date(start + index * 7 * DAY_MS)),
+    issues: 0,
+    points: 0,
+  }))
+
+  for (const issue of completed) {
+    if (!issue.resolutionDate) continue
+    const index = Math.floor((new Date(issue.resolutionDate).getTime() - start) / (7 * DAY_MS))
+    const week = weeks[Math.min(Math.max(index, 0), weeks.length - 1)]
+    week.issues++
+    week.points += issue.storyPoints || 0
+  }
+  return weeks
+}
+
+/**
+ * Throughput from the issues resolved in the period and WIP from the board as it stands now.
+ * Sub-tasks are left out of both, as in the flow metrics, so a story split into tasks counts
+ * once. Column counts follow the board's column mapping; columns without issues or limits
+ * are omitted.
+ */
+export function buildKanbanMetrics<T extends KanbanIssue>(
+  boardId: string,
+  completedIssues: T[],
+  boardIssues: T[],
+  columns: KanbanColumn[],
+  from: string,
+  to: string
+): KanbanMetrics {
+  const days = getPeriodDays(from, to)
+  const completed = completedIssues.filter((issue) => !issue.isSubtask)
+  const points = completed.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0)
+
+  const open = boardIssues.filter((issue) => !issue.isSubtask && !isIssueCompleted(issue))
+  const inProgress = open.filter((issue) => issue.statusCategory === "indeterminate")
+
+  const columnWip: KanbanColumnWip[] = columns
+    .map((column) => {
+      const count = open.filter((issue) => !!issue.statusId && column.statusIds.includes(issue.statusId)).length
+      return {
+        name: column.name,
+        count,
+        min: column.min,
+        max: column.max,
+        overLimit: column.max !== undefined && count > column.max,
+        underLimit: column.min !== undefined && count < column.min,
+      }
+    })
+    .filter((column) => column.count > 0 || column.max !== undefined || column.min !== undefined)
+
+  return {
+    boardId,
+    from,
+    to,
+    days,
+    throughput: {
+      issues: completed.length,
+      points,
+      perWeek: Math.round((completed.length / (days / 7)) * 10) / 10,
+      weeks: getWeeks(completed, from, days),
+    },
+    wip: {
+      current: inProgress.length,
+      columns: columnWip,
+      columnsOverLimit: columnWip.filter((column) => column.overLimit).length,
+    },
+    generatedAt: new Date().toISOString(),
+  }
+}
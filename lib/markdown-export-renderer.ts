@@ -15,6 +15,10 @@ import {
 } from './export-service';
 
 import { isIssueCompleted } from './utils'
+import { buildIssueHierarchy, getSubtaskRollup, type IssueHierarchyNode } from './issue-hierarchy'
+import { buildEstimationAccuracyReport, formatHours, type EstimationAccuracyReport, type EstimationAccuracyStats } from './estimation-accuracy'
+import { getFacetBreakdown, getResolutionSummary, isBug, type FacetBucket } from './issue-facets'
+import { getProgramTotals, getTeamBreakdown, groupIssuesByTeam, isProgramReview } from './program-review'
 
 export class MarkdownExportRenderer implements ExportRenderer {
   async render(
@@ -97,6 +101,11 @@ export class MarkdownExportRenderer implements ExportRenderer {
     // Add sprint overview
     markdown += this.generateSprintOverview(presentation, sprintMetrics, allIssues);
 
+    // Add per-team sections when several teams' sprints are reviewed together
+    if (isProgramReview(allIssues)) {
+      markdown += this.generateTeamSections(allIssues);
+    }
+
     // Add slides content
     markdown += await this.generateSlidesContent(
       presentation.slides,
@@ -115,6 +124,12 @@ export class MarkdownExportRenderer implements ExportRenderer {
       markdown += this.generateMetricsAnalysis(sprintMetrics, allIssues);
     }
 
+    // Add estimation accuracy when the team logs time
+    const estimationAccuracy = options.includeEstimationAccuracy !== false ? buildEstimationAccuracyReport(allIssues) : null;
+    if (estimationAccuracy?.overall) {
+      markdown += this.generateEstimationAccuracy(estimationAccuracy);
+    }
+
     // Add footer
     markdown += this.generateFooter(presentation);
 
@@ -161,7 +176,7 @@ version: "1.0"
     sprintMetrics: SprintMetrics | null | undefined,
     allIssues: Issue[]
   ): string {
-    const completedIssues = allIssues.filter(issue => isIssueCompleted(issue.status));
+    const completedIssues = allIssues.filter(issue => isIssueCompleted(issue));
     const totalStoryPoints = allIssues.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
     const completedStoryPoints = completedIssues.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
     const velocity = sprintMetrics ? (sprintMetrics.completedTotalPoints / sprintMetrics.estimatedPoints * 100) : 0;
@@ -192,6 +207,7 @@ ${this.getBusinessImpactSummary(allIssues)}
   ): string {
     const epicBreakdown = this.getEpicBreakdown(allIssues);
     const issueTypeBreakdown = this.getIssueTypeBreakdown(allIssues);
+    const hasLabels = allIssues.some(issue => (issue.labels || []).length > 0);
 
     return `## Sprint Overview
 
@@ -204,11 +220,50 @@ ${issueTypeBreakdown}
 ### Team Performance
 ${this.getTeamPerformanceSummary(allIssues)}
 
+### Bugs by Priority
+${this.formatFacetBreakdown(getFacetBreakdown(allIssues.filter(isBug), 'priority'), 'No bugs in this sprint.')}
+
+### Work by Component
+${this.formatFacetBreakdown(getFacetBreakdown(allIssues, 'component'), 'No component breakdown available.')}
+
+### Resolutions
+${this.getResolutionBreakdown(allIssues)}
+${hasLabels ? `\n### Labels\n${this.formatFacetBreakdown(getFacetBreakdown(allIssues, 'label'), '')}` : ''}
+
 ---
 
 `;
   }
 
+  private generateTeamSections(allIssues: Issue[]): string {
+    const totals = getProgramTotals(allIssues);
+    let markdown = `## Program Overview
+
+- **Teams:** ${getTeamBreakdown(allIssues).length}
+- **Completed:** ${totals.completed}/${totals.issues} issues, ${totals.completedPoints}/${totals.points} points (${totals.completionRate}%)
+
+| Team | Issues Done | Points Done | Completion | Bugs |
+|---|---|---|---|---|
+`;
+    getTeamBreakdown(allIssues).forEach(team => {
+      markdown += `| ${team.team} | ${team.completed}/${team.issues} | ${team.completedPoints}/${team.points} | ${team.completionRate}% | ${team.bugs} |\n`;
+    });
+    markdown += '\n';
+
+    groupIssuesByTeam(allIssues).forEach((teamIssues, team) => {
+      const topLevel = teamIssues.filter(issue => !issue.isSubtask);
+      markdown += `### Team: ${team}
+
+#### Epic Breakdown
+${this.getEpicBreakdown(teamIssues)}
+#### Completed
+${this.formatIssuesList(topLevel.filter(issue => isIssueCompleted(issue)))}#### In Progress / Not Done
+${this.formatIssuesList(topLevel.filter(issue => !isIssueCompleted(issue)))}`;
+    });
+
+    return markdown + '---\n\n';
+  }
+
   private async generateSlidesContent(
     slides: PresentationSlide[],
     allIssues: Issue[],
@@ -333,6 +388,7 @@ Story not found.
     }
 
     const content = typeof slide.content === 'string' ? slide.content : 'No content available';
+    const subtasks = getSubtaskRollup(allIssues, issue.key);
 
     return `**Slide Type:** Demo Story Slide
 
@@ -343,6 +399,7 @@ Story not found.
 - **Story Points:** ${issue.storyPoints || 'Not estimated'}
 - **Status:** ${issue.status}
 - **Epic:** ${issue.epicName || 'No epic'}
+${subtasks ? `- **Sub-tasks:** ${subtasks.completed}/${subtasks.total} sub-tasks done` : ''}
 ${issue.releaseNotes ? `- **Release Notes:** ${issue.releaseNotes}` : ''}
 
 ### Story Content
@@ -395,10 +452,10 @@ ${content}
     return `## Detailed Issue Breakdown
 
 ### Completed Issues
-${this.formatIssuesList(allIssues.filter(issue => isIssueCompleted(issue.status)))}
+${this.formatIssuesList(allIssues.filter(issue => isIssueCompleted(issue)))}
 
 ### In Progress Issues
-${this.formatIssuesList(allIssues.filter(issue => !isIssueCompleted(issue.status)))}
+${this.formatIssuesList(allIssues.filter(issue => !isIssueCompleted(issue)))}
 
 ### Upcoming Issues
 ${this.formatIssuesList(upcomingIssues)}
@@ -427,6 +484,39 @@ ${this.generateRecommendations(sprintMetrics, allIssues)}
 `;
   }
 
+  private generateEstimationAccuracy(report: EstimationAccuracyReport): string {
+    const overall = report.overall!;
+    const formatTable = (label: string, groups: Record<string, EstimationAccuracyStats>) => {
+      let table = `| ${label} | Issues | Estimated | Spent | Spent / Estimate | On Target |\n|---|---|---|---|---|---|\n`;
+      Object.entries(groups).forEach(([group, stats]) => {
+        table += `| ${group} | ${stats.count} | ${formatHours(stats.estimatedHours)} | ${formatHours(stats.spentHours)} | ${stats.ratio}x | ${stats.onTargetPercent}% |\n`;
+      });
+      return table;
+    };
+    const biggestMisses = report.issues
+      .filter(issue => issue.ratio !== 1)
+      .slice(0, 5)
+      .map(issue => `- **${issue.key}:** ${issue.summary} (estimated ${formatHours(issue.estimatedHours)}, spent ${formatHours(issue.spentHours)})`)
+      .join('\n');
+
+    return `## Estimation Accuracy
+
+Completed issues with an original estimate and logged time. On target means within 20% of the estimate.
+
+- **Issues Measured:** ${overall.count}
+- **Estimated:** ${formatHours(overall.estimatedHours)}
+- **Spent:** ${formatHours(overall.spentHours)} (${overall.ratio}x the estimate)
+- **On Target:** ${overall.onTargetPercent}%${report.unestimated > 0 ? `\n- **Logged Without Estimate:** ${report.unestimated} issues` : ''}${report.noTimeLogged > 0 ? `\n- **Estimated, No Time Logged:** ${report.noTimeLogged} issues` : ''}
+
+### By Issue Type
+${formatTable('Issue Type', report.byType)}
+### By Epic
+${formatTable('Epic', report.byEpic)}
+### By Assignee
+${formatTable('Assignee', report.byAssignee)}
+${biggestMisses ? `### Biggest Misses\n${biggestMisses}\n\n` : ''}`;
+  }
+
   private generateFooter(presentation: GeneratedPresentation): string {
     return `## Document Information
 
@@ -457,7 +547,7 @@ This document was automatically generated by the Sprint Review Deck Generator.
   }
 
   private getBusinessImpactSummary(allIssues: Issue[]): string {
-    const completedIssues = allIssues.filter(issue => isIssueCompleted(issue.status));
+    const completedIssues = allIssues.filter(issue => isIssueCompleted(issue));
     const highValueIssues = completedIssues.filter(issue => (issue.storyPoints || 0) >= 8);
 
     return `- **High-Value Deliverables:** ${highValueIssues.length} issues
@@ -467,21 +557,22 @@ This document was automatically generated by the Sprint Review Deck Generator.
   }
 
   private getEpicBreakdown(allIssues: Issue[]): string {
-    const epicGroups = new Map<string, Issue[]>();
+    const epicGroups = new Map<string, IssueHierarchyNode<Issue>[]>();
     
-    allIssues.forEach(issue => {
-      const epic = issue.epicName || 'No Epic';
+    // Sub-tasks count towards their parent story, not as issues of their own
+    buildIssueHierarchy(allIssues).forEach(node => {
+      const epic = node.issue.epicName || 'No Epic';
       if (!epicGroups.has(epic)) {
         epicGroups.set(epic, []);
       }
-      epicGroups.get(epic)!.push(issue);
+      epicGroups.get(epic)!.push(node);
     });
 
     let breakdown = '';
-    epicGroups.forEach((issues, epic) => {
-      const completed = issues.filter(issue => isIssueCompleted(issue.status)).length;
-      const totalPoints = issues.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
-      breakdown += `- **${epic}:** ${completed}/${issues.length} issues (${totalPoints} points)\n`;
+    epicGroups.forEach((nodes, epic) => {
+      const completed = nodes.filter(node => isIssueCompleted(node.issue)).length;
+      const totalPoints = nodes.reduce((sum, node) => sum + node.storyPoints, 0);
+      breakdown += `- **${epic}:** ${completed}/${nodes.length} issues (${totalPoints} points)\n`;
     });
 
     return breakdown || 'No epic breakdown available.';
@@ -500,7 +591,7 @@ This document was automatically generated by the Sprint Review Deck Generator.
 
     let breakdown = '';
     typeGroups.forEach((issues, type) => {
-      const completed = issues.filter(issue => isIssueCompleted(issue.status)).length;
+      const completed = issues.filter(issue => isIssueCompleted(issue)).length;
       breakdown += `- **${type}:** ${completed}/${issues.length} issues\n`;
     });
 
@@ -520,7 +611,7 @@ This document was automatically generated by the Sprint Review Deck Generator.
 
     let summary = '';
     assigneeGroups.forEach((issues, assignee) => {
-      const completed = issues.filter(issue => isIssueCompleted(issue.status)).length;
+      const completed = issues.filter(issue => isIssueCompleted(issue)).length;
       const totalPoints = issues.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
       summary += `- **${assignee}:** ${completed}/${issues.length} issues (${totalPoints} points)\n`;
     });
@@ -528,6 +619,33 @@ This document was automatically generated by the Sprint Review Deck Generator.
     return summary;
   }
 
+  private formatFacetBreakdown(buckets: FacetBucket[], emptyMessage: string): string {
+    if (buckets.length === 0) return `${emptyMessage}\n`;
+
+    let breakdown = '';
+    buckets.forEach(bucket => {
+      breakdown += `- **${bucket.value}:** ${bucket.completed}/${bucket.total} issues (${bucket.points} points)\n`;
+    });
+
+    return breakdown;
+  }
+
+  private getResolutionBreakdown(allIssues: Issue[]): string {
+    const summary = getResolutionSummary(allIssues);
+    let breakdown = `- **Delivered:** ${summary.delivered} issues
+- **Closed Without Delivery:** ${summary.notDelivered} issues (won't do, duplicate, cannot reproduce...)
+- **Unresolved:** ${summary.unresolved} issues
+`;
+
+    getFacetBreakdown(allIssues, 'resolution')
+      .filter(bucket => bucket.value !== 'Unresolved')
+      .forEach(bucket => {
+        breakdown += `  - ${bucket.value}: ${bucket.total}\n`;
+      });
+
+    return breakdown;
+  }
+
   private formatIssuesList(issues: Issue[]): string {
     if (issues.length === 0) return 'No issues in this category.\n\n';
 
@@ -552,7 +670,7 @@ This document was automatically generated by the Sprint Review Deck Generator.
   private calculateEfficiencyScore(sprintMetrics: SprintMetrics, allIssues: Issue[]): number {
     const velocity = (sprintMetrics.completedTotalPoints / sprintMetrics.estimatedPoints) * 100;
     const qualityScore = this.calculateQualityScore(sprintMetrics);
-    const completionRate = (allIssues.filter(issue => isIssueCompleted(issue.status)).length / allIssues.length) * 100;
+    const completionRate = (allIssues.filter(issue => isIssueCompleted(issue)).length / allIssues.length) * 100;
     
     return (velocity * 0.4 + qualityScore * 0.3 + completionRate * 0.3);
   }
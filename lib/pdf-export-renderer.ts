@@ -16,6 +16,9 @@ import {
   PresentationSlide
 } from './export-service';
 import { assetEmbedder } from './asset-embedder';
+import { isIssueCompleted } from './utils';
+import { getSubtaskRollup } from './issue-hierarchy';
+import { markdownToPlainText } from './adf';
 
 export class PDFExportRenderer implements ExportRenderer {
   async render(
@@ -334,6 +337,12 @@ export class PDFExportRenderer implements ExportRenderer {
     doc.text(`Epic: ${issue.epicName || 'No epic'}`, 20, currentY);
     currentY += lineHeight;
 
+    const subtasks = getSubtaskRollup(allIssues, issue.key);
+    if (subtasks) {
+      doc.text(`Sub-tasks: ${subtasks.completed}/${subtasks.total} sub-tasks done`, 20, currentY);
+      currentY += lineHeight;
+    }
+
     // Release notes if available
     if (issue.releaseNotes) {
       currentY += 5;
@@ -344,7 +353,7 @@ export class PDFExportRenderer implements ExportRenderer {
 
       doc.setFontSize(10);
       doc.setFont('helvetica', 'normal');
-      const releaseNotesLines = doc.splitTextToSize(issue.releaseNotes, pageWidth - 40);
+      const releaseNotesLines = doc.splitTextToSize(markdownToPlainText(issue.releaseNotes), pageWidth - 40);
       releaseNotesLines.forEach((line: string) => {
         doc.text(line, 30, currentY);
         currentY += lineHeight - 2;
@@ -362,7 +371,7 @@ export class PDFExportRenderer implements ExportRenderer {
 
       doc.setFontSize(10);
       doc.setFont('helvetica', 'normal');
-      const contentLines = doc.splitTextToSize(content, pageWidth - 40);
+      const contentLines = doc.splitTextToSize(markdownToPlainText(content), pageWidth - 40);
       contentLines.forEach((line: string) => {
         doc.text(line, 30, currentY);
         currentY += lineHeight - 2;
@@ -503,7 +512,7 @@ export class PDFExportRenderer implements ExportRenderer {
     currentY += lineHeight + 10;
 
     // Key Metrics Grid
-    const completedIssues = allIssues.filter(issue => issue.status === 'Done' || issue.status === 'Closed');
+    const completedIssues = allIssues.filter(issue => isIssueCompleted(issue));
     const completionRate = allIssues.length > 0 ? (completedIssues.length / allIssues.length) * 100 : 0;
     const velocity = (sprintMetrics.completedTotalPoints / sprintMetrics.estimatedPoints) * 100;
     const qualityScore = this.calculateQualityScore(sprintMetrics.qualityChecklist);
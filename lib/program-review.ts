@@ -0,0 +1,85 @@
+// Program-level reviews: several teams' sprints reviewed together, with a team per issue
+
+import { buildIssueHierarchy, type HierarchyIssue } from "./issue-hierarchy"
+import { isIssueCompleted } from "./utils"
+
+export interface TeamIssue extends HierarchyIssue {
+  issueType: string
+  team?: string // Board the issue was loaded from; only set in program reviews
+  teamId?: string // That board's ID
+}
+
+export interface TeamSummary {
+  team: string
+  teamId?: string
+  issues: number
+  completed: number
+  points: number
+  completedPoints: number
+  completionRate: number // Percent of points done, or of issues when nothing is estimated
+  bugs: number
+}
+
+/**
+ * Teams in the order their issues appear, or an empty list outside program reviews
+ */
+export function getTeams(issues: TeamIssue[]): string[] {
+  return Array.from(new Set(issues.map((issue) => issue.team).filter((team): team is string => !!team)))
+}
+
+export function isProgramReview(issues: TeamIssue[]): boolean {
+  return getTeams(issues).length > 1
+}
+
+export function groupIssuesByTeam<T extends TeamIssue>(issues: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const issue of issues) {
+    const team = issue.team || "Unassigned Team"
+    groups.set(team, [...(groups.get(team) || []), issue])
+  }
+  return groups
+}
+
+function summarizeTeam(team: string, issues: TeamIssue[], teamId?: string): TeamSummary {
+  // Sub-tasks count through their parent story, as in the epic breakdowns
+  const nodes = buildIssueHierarchy(issues)
+  const completed = nodes.filter((node) => isIssueCompleted(node.issue)).length
+  const points = nodes.reduce((sum, node) => sum + node.storyPoints, 0)
+  const completedPoints = nodes.reduce((sum, node) => sum + node.completedPoints, 0)
+  return {
+    team,
+    teamId,
+    issues: nodes.length,
+    completed,
+    points,
+    completedPoints,
+    completionRate:
+      points > 0
+        ? Math.round((completedPoints / points) * 100)
+        : nodes.length > 0
+          ? Math.round((completed / nodes.length) * 100)
+          : 0,
+    bugs: nodes.filter((node) => node.issue.issueType.toLowerCase() === "bug").length,
+  }
+}
+
+/**
+ * One summary per team, in team order, for the per-team sections of a program review
+ */
+export function getTeamBreakdown(issues: TeamIssue[]): TeamSummary[] {
+  return Array.from(groupIssuesByTeam(issues).entries()).map(([team, teamIssues]) =>
+    summarizeTeam(team, teamIssues, teamIssues[0]?.teamId)
+  )
+}
+
+/**
+ * The whole program as a single row, for the combined overview. Boards with overlapping filters
+ * load the same issue for each team, so it is counted once here.
+ */
+export function getProgramTotals(issues: TeamIssue[]): TeamSummary {
+  const byKey = new Map<string, TeamIssue>()
+  for (const issue of issues) {
+    if (!byKey.has(issue.key)) byKey.set(issue.key, issue)
+  }
+  return summarizeTeam("All Teams", Array.from(byKey.values()))
+}
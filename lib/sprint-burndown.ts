@@ -0,0 +1,142 @@
+// Daily burndown / burnup series rebuilt from status transition history
+
+import type { SafeJiraChangelogEntry, SafeJiraIssue } from "./jira-types"
+import type { SprintScopeChange } from "./sprint-scope"
+import { isDoneStatus, type CompletionRule } from "./issue-completion"
+import { isIssueCompleted } from "./utils"
+
+export interface BurndownDay {
+  date: string // YYYY-MM-DD
+  scopePoints: number
+  completedPoints: number
+  remainingPoints: number | null // null for days that have not happened yet
+  idealRemaining: number
+}
+
+export interface SprintBurndown {
+  sprintId: string
+  sprintName: string
+  startDate: string
+  endDate: string | null
+  days: BurndownDay[]
+  totals: {
+    scopePoints: number
+    completedPoints: number
+    remainingPoints: number
+  }
+  generatedAt: string
+}
+
+function toDay(date: string | Date): string {
+  return new Date(date).toISOString().split("T")[0]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Share of the sprint's time elapsed by the end of each day, measured from the start and end
+ * instants: the first point is the start itself and the last day ends at the sprint's end.
+ * Falls back to evenly spaced days when the end is unknown.
+ */
+function getElapsedFractions(dates: string[], startedAt: string, endedAt: string | null): number[] {
+  const start = new Date(startedAt).getTime()
+  const end = endedAt ? new Date(endedAt).getTime() : NaN
+  return dates.map((date, index) => {
+    if (index === 0) return 0
+    if (!(end > start)) return dates.length > 1 ? index / (dates.length - 1) : 1
+    const dayEnd = Math.min(end, new Date(date).getTime() + DAY_MS)
+    return Math.min(1, Math.max(0, (dayEnd - start) / (end - start)))
+  })
+}
+
+/**
+ * Returns when the issue last moved into a done status, or null if it is not done.
+ * Reopened issues only count from their final completion.
+ */
+export function getCompletionDate(
+  issue: SafeJiraIssue,
+  changelog: SafeJiraChangelogEntry[],
+  completionRule: CompletionRule | null,
+): string | null {
+  if (!isIssueCompleted(issue)) return null
+
+  let completedAt: string | null = null
+  for (const entry of changelog) {
+    for (const item of entry.items) {
+      if (item.field.toLowerCase() !== "status") continue
+      // Status items carry status IDs in from/to, so renamed statuses still resolve
+      const wasDone = isDoneStatus(completionRule, item.from, item.fromText)
+      const isDone = isDoneStatus(completionRule, item.to, item.toText)
+      if (isDone && !wasDone) completedAt = entry.created
+      if (!isDone) completedAt = null
+    }
+  }
+
+  // Done without any recorded transition, e.g. created directly in a done status
+  return completedAt ?? issue.created ?? null
+}
+
+/**
+ * Builds one point per sprint day. Scope follows the scope-change timeline so that
+ * mid-sprint additions and removals show up as steps in the burnup scope line.
+ */
+export function buildSprintBurndown(
+  sprintIssues: SafeJiraIssue[],
+  changelogs: Record<string, SafeJiraChangelogEntry[]>,
+  scopeChange: SprintScopeChange,
+  completionRule: CompletionRule | null,
+): SprintBurndown {
+  const today = toDay(new Date())
+  const lastDay = scopeChange.endDate ? toDay(scopeChange.endDate) : today
+
+  const completions: { points: number; day: string }[] = []
+  for (const issue of sprintIssues) {
+    const completedAt = getCompletionDate(issue, changelogs[issue.key] || [], completionRule)
+    if (completedAt) {
+      completions.push({ points: issue.storyPoints || 0, day: toDay(completedAt) })
+    }
+  }
+
+  const scopeByDay = new Map(scopeChange.timeline.map((point) => [point.date, point.scopePoints]))
+
+  const dates: string[] = []
+  for (let day = new Date(toDay(scopeChange.startDate)); toDay(day) <= lastDay; day.setUTCDate(day.getUTCDate() + 1)) {
+    dates.push(toDay(day))
+  }
+
+  // The ideal line starts from the scope at the sprint's start instant, not at midnight that day
+  const initialScope = scopeChange.totals.plannedPoints
+  const elapsed = getElapsedFractions(dates, scopeChange.startedAt, scopeChange.endedAt)
+  let scopePoints = initialScope
+  const days: BurndownDay[] = dates.map((date, index) => {
+    scopePoints = scopeByDay.get(date) ?? scopePoints
+    const completedPoints = completions
+      .filter((completion) => completion.day <= date)
+      .reduce((sum, completion) => sum + completion.points, 0)
+    const idealRemaining = Math.max(0, initialScope * (1 - elapsed[index]))
+
+    return {
+      date,
+      scopePoints,
+      completedPoints,
+      remainingPoints: date <= today ? Math.max(0, scopePoints - completedPoints) : null,
+      idealRemaining: Math.round(idealRemaining * 10) / 10,
+    }
+  })
+
+  const latest = [...days].reverse().find((day) => day.remainingPoints !== null)
+
+  return {
+    sprintId: scopeChange.sprintId,
+    sprintName: scopeChange.sprintName,
+    startDate: scopeChange.startDate,
+    endDate: scopeChange.endDate,
+    days,
+    totals: {
+      scopePoints: latest?.scopePoints ?? initialScope,
+      completedPoints: latest?.completedPoints ?? 0,
+      remainingPoints: latest?.remainingPoints ?? initialScope,
+    },
+    generatedAt: new Date().toISOString(),
+  }
+}
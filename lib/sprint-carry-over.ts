@@ -0,0 +1,129 @@
+// Carry-over and unplanned work for a sprint, from each issue's Sprint field and changelog
+
+import type { SafeJiraChangelogEntry, SafeJiraSprint, SafeJiraSprintRef } from "./jira-types"
+import { replaySprintMembership } from "./sprint-scope"
+import { isIssueCompleted, type CompletableIssue } from "./utils"
+
+// Metrics form fields filled from this module unless entered by hand
+export type CarryOverMetric = "carryForwardPoints" | "committedBufferPoints" | "completedBufferPoints"
+
+export const CARRY_OVER_METRICS: CarryOverMetric[] = ["carryForwardPoints", "committedBufferPoints", "completedBufferPoints"]
+
+export interface CarryOverSourceIssue extends CompletableIssue {
+  key: string
+  summary: string
+  isSubtask?: boolean
+  storyPoints?: number
+  created?: string
+  sprints?: SafeJiraSprintRef[]
+}
+
+export interface CarryOverIssue {
+  key: string
+  summary: string
+  storyPoints: number
+  completed: boolean
+  otherSprints: string[] // Names of the earlier or later sprints it was also in
+  joinedAt?: string // Unplanned work only
+}
+
+// Where the join date for unplanned work came from; created dates miss issues moved in later
+export type UnplannedWorkSource = "changelog" | "created-date"
+
+export interface SprintCarryOver {
+  sprintId: string
+  carriedIn: CarryOverIssue[] // Also in an earlier sprint
+  carriedForward: CarryOverIssue[] // Also in a later sprint, or still open in the active sprint
+  unplanned: CarryOverIssue[] // Joined after the sprint started
+  unplannedSource: UnplannedWorkSource
+  totals: {
+    carriedInPoints: number
+    carryForwardPoints: number
+    unplannedPoints: number
+    completedUnplannedPoints: number
+  }
+}
+
+const STATE_ORDER: Record<SafeJiraSprint["state"], number> = { closed: 0, active: 1, future: 2 }
+
+function sumPoints(issues: CarryOverIssue[]): number {
+  return issues.reduce((sum, issue) => sum + issue.storyPoints, 0)
+}
+
+// Sprint state orders sprints first (closed before active before future), then start dates, then
+// the Sprint field's own order, which is the order the issue joined them in
+function isLaterSprint(ref: SafeJiraSprintRef, sprint: SafeJiraSprint, refs: SafeJiraSprintRef[]): boolean {
+  if (ref.state && ref.state !== sprint.state) {
+    return STATE_ORDER[ref.state] > STATE_ORDER[sprint.state]
+  }
+  if (ref.startDate && sprint.startDate) {
+    return new Date(ref.startDate).getTime() > new Date(sprint.startDate).getTime()
+  }
+  const current = refs.findIndex((candidate) => candidate.id === sprint.id)
+  return current !== -1 && refs.indexOf(ref) > current
+}
+
+/**
+ * Works out what came into the sprint from earlier ones, what moves on to later ones and what
+ * was added after it started. Sub-tasks follow their parent and are left out, as in the flow
+ * metrics. Without changelogs, unplanned work is whatever was created after the start.
+ *
+ * @param changelogs - changelog per issue key; loading them finds issues moved in after the start
+ */
+export function detectSprintCarryOver(
+  sprint: SafeJiraSprint,
+  issues: CarryOverSourceIssue[],
+  changelogs?: Record<string, SafeJiraChangelogEntry[]>
+): SprintCarryOver {
+  const carriedIn: CarryOverIssue[] = []
+  const carriedForward: CarryOverIssue[] = []
+  const unplanned: CarryOverIssue[] = []
+
+  for (const issue of issues) {
+    if (issue.isSubtask) continue
+
+    const completed = isIssueCompleted(issue)
+    const refs = issue.sprints || []
+    const others = refs.filter((ref) => ref.id !== sprint.id)
+    const earlier = others.filter((ref) => !isLaterSprint(ref, sprint, refs))
+    const later = others.filter((ref) => isLaterSprint(ref, sprint, refs))
+    const toCarryOverIssue = (otherSprints: SafeJiraSprintRef[], joinedAt?: string): CarryOverIssue => ({
+      key: issue.key,
+      summary: issue.summary,
+      storyPoints: issue.storyPoints || 0,
+      completed,
+      otherSprints: otherSprints.map((ref) => ref.name),
+      joinedAt,
+    })
+
+    if (earlier.length > 0) {
+      carriedIn.push(toCarryOverIssue(earlier))
+    }
+
+    // The active sprint's open work is what would move on if it closed now; issues loaded
+    // without the Sprint field fall back to the same rule
+    if (later.length > 0 || (!completed && (sprint.state === "active" || !issue.sprints))) {
+      carriedForward.push(toCarryOverIssue(later))
+    }
+
+    // Unplanned is the scope change report's "added": not in the sprint at its start, joined after
+    if (sprint.startedAt || sprint.startDate) {
+      const { inAtStart, joinedAt } = replaySprintMembership(issue, sprint, changelogs?.[issue.key] || [], true)
+      if (!inAtStart && joinedAt) unplanned.push(toCarryOverIssue(earlier, joinedAt))
+    }
+  }
+
+  return {
+    sprintId: sprint.id,
+    carriedIn,
+    carriedForward,
+    unplanned,
+    unplannedSource: changelogs ? "changelog" : "created-date",
+    totals: {
+      carriedInPoints: sumPoints(carriedIn),
+      carryForwardPoints: sumPoints(carriedForward),
+      unplannedPoints: sumPoints(unplanned),
+      completedUnplannedPoints: sumPoints(unplanned.filter((issue) => issue.completed)),
+    },
+  }
+}
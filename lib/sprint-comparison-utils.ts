@@ -1,6 +1,8 @@
 import { SprintMetrics, HistoricalSprintData, SprintComparison, SprintTrends } from "@/components/sprint-context"
-import { SafeJiraSprint, SafeJiraIssue } from "@/lib/jira-types"
+import { SafeJiraSprint, SafeJiraIssue, SafeJiraChangelogEntry } from "@/lib/jira-types"
 import { isIssueCompleted } from './utils'
+import { detectSprintCarryOver } from './sprint-carry-over'
+import type { FlowMetrics } from './flow-metrics'
 
 /**
  * Identify previous sprints using Jira API data and chronological ordering
@@ -87,14 +89,15 @@ export function identifyPreviousSprints(
  */
 export function calculateSprintMetricsFromIssues(
   sprint: SafeJiraSprint,
-  issues: SafeJiraIssue[]
+  issues: SafeJiraIssue[],
+  changelogs?: Record<string, SafeJiraChangelogEntry[]>
 ): SprintMetrics {
   // Calculate basic metrics from issues
   const plannedItems = issues.length
   const estimatedPoints = issues.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0)
   
   // Determine completed issues using the utility function
-  const completedIssues = issues.filter(issue => isIssueCompleted(issue.status))
+  const completedIssues = issues.filter(issue => isIssueCompleted(issue))
   
   const completedTotalPoints = completedIssues.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0)
   const completedAdjustedPoints = completedTotalPoints // Could be adjusted for complexity, bugs, etc.
@@ -110,8 +113,11 @@ export function calculateSprintMetricsFromIssues(
   const defectCount = bugIssues.length
   
   // Calculate defect resolution rate using the utility function
-  const resolvedBugs = bugIssues.filter(issue => isIssueCompleted(issue.status))
+  const resolvedBugs = bugIssues.filter(issue => isIssueCompleted(issue))
   const defectResolutionRate = defectCount > 0 ? (resolvedBugs.length / defectCount) * 100 : 0
+
+  // Carry-over from the Sprint field; unplanned work (the buffer) from when issues joined the sprint
+  const carryOver = detectSprintCarryOver(sprint, issues, changelogs)
   
   // Sprint planning metrics - these would typically come from sprint planning data
   // For now, we'll set reasonable defaults that can be overridden by user input
@@ -142,9 +148,9 @@ export function calculateSprintMetricsFromIssues(
     // Work Item Metrics
     plannedItems,
     estimatedPoints,
-    carryForwardPoints: 0, // Would need to be calculated from previous sprint
-    committedBufferPoints: 0, // Would need to be calculated from sprint planning
-    completedBufferPoints: 0, // Would need to be calculated from actual work
+    carryForwardPoints: carryOver.totals.carryForwardPoints,
+    committedBufferPoints: carryOver.totals.unplannedPoints,
+    completedBufferPoints: carryOver.totals.completedUnplannedPoints,
     testCoverage: 0, // Would need to be calculated from test data
     sprintNumber,
     completedTotalPoints,
@@ -160,6 +166,7 @@ export function calculateSprintMetricsFromIssues(
     sprintGoal: sprint.goal,
     retrospectiveNotes: undefined,
     boardId: sprint.boardId,
+    carryOver,
     qualityChecklist,
   }
 
@@ -373,9 +380,10 @@ export function generateSprintTrendsFromJira(
 }
 
 /**
- * Enhances metrics with calculated values
+ * Enhances metrics with calculated values.
+ * Flow metrics from the changelog fill cycle and lead time unless they were entered by hand.
  */
-export function enhanceSprintMetrics(metrics: SprintMetrics): SprintMetrics {
+export function enhanceSprintMetrics(metrics: SprintMetrics, flowMetrics?: FlowMetrics | null): SprintMetrics {
   const qualityScore = calculateQualityScore(metrics.qualityChecklist)
   
   // Calculate velocity achievement based on sprint story point commitment
@@ -387,6 +395,9 @@ export function enhanceSprintMetrics(metrics: SprintMetrics): SprintMetrics {
 
   return {
     ...metrics,
+    averageCycleTime: metrics.averageCycleTime ?? flowMetrics?.overall.cycleTime?.average,
+    averageLeadTime: metrics.averageLeadTime ?? flowMetrics?.overall.leadTime?.average,
+    cycleTimeP85: metrics.cycleTimeP85 ?? flowMetrics?.overall.cycleTime?.p85,
     qualityScore,
     velocityAchievement,
     efficiencyScore,
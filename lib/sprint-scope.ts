@@ -0,0 +1,286 @@
+// Sprint scope reconstruction from the Jira issue changelog
+
+import type { SafeJiraChangelogEntry, SafeJiraIssue, SafeJiraSprint } from "./jira-types"
+import { isIssueCompleted } from "./utils"
+
+export type ScopeChangeKind = "added" | "removed"
+
+export interface ScopeIssue {
+  key: string
+  summary: string
+  issueType: string
+  status: string
+  storyPoints: number
+  completed: boolean
+  changedAt?: string
+}
+
+export interface ScopeChangeEvent {
+  date: string
+  key: string
+  change: ScopeChangeKind
+  points: number
+}
+
+export interface ScopeTimelinePoint {
+  date: string // YYYY-MM-DD
+  scopePoints: number
+  addedPoints: number
+  removedPoints: number
+}
+
+export interface SprintScopeChange {
+  sprintId: string
+  sprintName: string
+  startDate: string
+  endDate: string | null
+  startedAt: string // The instant planned scope is measured at
+  endedAt: string | null
+  planned: ScopeIssue[] // In the sprint when it started
+  added: ScopeIssue[] // Joined after the start
+  removed: ScopeIssue[] // Left before the end
+  carriedIn: ScopeIssue[] // Planned work that was already in an earlier sprint
+  carriedOver: ScopeIssue[] // Still open at the end, moves to the next sprint
+  events: ScopeChangeEvent[]
+  timeline: ScopeTimelinePoint[]
+  totals: {
+    plannedPoints: number
+    addedPoints: number
+    completedAddedPoints: number
+    removedPoints: number
+    carriedInPoints: number
+    carriedOverPoints: number
+    finalScopePoints: number
+    scopeChangePercent: number
+  }
+  generatedAt: string
+}
+
+export interface SprintFieldChange {
+  date: string
+  from: string[]
+  to: string[]
+}
+
+// Sprint field values are comma-separated sprint IDs, e.g. "123, 124"
+function parseSprintIds(value: string | null): string[] {
+  if (!value) return []
+  return value
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+}
+
+export function getSprintFieldChanges(changelog: SafeJiraChangelogEntry[]): SprintFieldChange[] {
+  const changes: SprintFieldChange[] = []
+  for (const entry of changelog) {
+    for (const item of entry.items) {
+      if (item.field.toLowerCase() !== "sprint") continue
+      changes.push({ date: entry.created, from: parseSprintIds(item.from), to: parseSprintIds(item.to) })
+    }
+  }
+  return changes.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+}
+
+function toScopeIssue(issue: SafeJiraIssue, changedAt?: string): ScopeIssue {
+  return {
+    key: issue.key,
+    summary: issue.summary,
+    issueType: issue.issueType,
+    status: issue.status,
+    storyPoints: issue.storyPoints || 0,
+    completed: isIssueCompleted(issue),
+    changedAt,
+  }
+}
+
+function sumPoints(issues: ScopeIssue[]): number {
+  return issues.reduce((sum, issue) => sum + issue.storyPoints, 0)
+}
+
+function toDay(date: string | Date): string {
+  return new Date(date).toISOString().split("T")[0]
+}
+
+// The instant a sprint started, and the end of its review window (now for an active sprint).
+// Day-only dates would put everything moved in on planning day after a 00:00 UTC start.
+export function getSprintWindow(sprint: SafeJiraSprint): { start: number; end: number; windowEnd: number } | null {
+  const startedAt = sprint.startedAt || sprint.startDate
+  if (!startedAt) return null
+  const endedAt = sprint.endedAt || sprint.endDate
+  const start = new Date(startedAt).getTime()
+  const end = endedAt ? new Date(endedAt).getTime() : Date.now()
+  return { start, end, windowEnd: sprint.state === "active" ? Date.now() : end }
+}
+
+export interface SprintMembership {
+  inAtStart: boolean // Planned work
+  joinedAt?: string // First time it joined after the start; added work when not planned
+  leftAt?: string // Last time it left after the start
+  wasInEarlierSprint: boolean
+  changes: Array<{ date: string; change: ScopeChangeKind }>
+}
+
+/**
+ * The planned vs added rule, shared by scope change and carry-over: replays an issue's Sprint
+ * field history against the sprint's start instant. Issues with no history were created
+ * straight into the sprint, or never moved since.
+ *
+ * @param inSprintNow - whether the issue currently matches `sprint = id`
+ */
+export function replaySprintMembership(
+  issue: { created?: string },
+  sprint: SafeJiraSprint,
+  changelog: SafeJiraChangelogEntry[],
+  inSprintNow: boolean,
+): SprintMembership {
+  const window = getSprintWindow(sprint)
+  const start = window?.start ?? Infinity
+  const windowEnd = window?.windowEnd ?? Infinity
+  const fieldChanges = getSprintFieldChanges(changelog)
+  const membership: SprintMembership = { inAtStart: false, wasInEarlierSprint: false, changes: [] }
+
+  if (fieldChanges.length === 0) {
+    const created = issue.created ? new Date(issue.created).getTime() : undefined
+    membership.inAtStart = inSprintNow && (created === undefined || created <= start)
+    if (inSprintNow && !membership.inAtStart && issue.created) {
+      membership.joinedAt = issue.created
+      membership.changes.push({ date: issue.created, change: "added" })
+    }
+    return membership
+  }
+
+  let member = fieldChanges[0].from.includes(sprint.id)
+  for (const change of fieldChanges) {
+    const at = new Date(change.date).getTime()
+    const before = change.from.includes(sprint.id)
+    const after = change.to.includes(sprint.id)
+
+    if (at <= start) {
+      member = after
+      if (after && change.to.some((id) => id !== sprint.id)) {
+        membership.wasInEarlierSprint = true
+      }
+      continue
+    }
+    if (at > windowEnd) break
+
+    if (!before && after) {
+      membership.joinedAt = membership.joinedAt ?? change.date
+      membership.changes.push({ date: change.date, change: "added" })
+    } else if (before && !after) {
+      membership.leftAt = change.date
+      membership.changes.push({ date: change.date, change: "removed" })
+    }
+  }
+  membership.inAtStart = member
+  return membership
+}
+
+/**
+ * Replays each issue's Sprint field history to work out what the sprint held when it
+ * started and what joined or left it afterwards.
+ *
+ * @param sprintIssues - issues currently in the sprint (`sprint = id`)
+ * @param candidateIssues - other recently updated issues that may have been removed from it
+ * @param changelogs - sorted changelog per issue key
+ */
+export function buildSprintScopeChange(
+  sprint: SafeJiraSprint,
+  sprintIssues: SafeJiraIssue[],
+  candidateIssues: SafeJiraIssue[],
+  changelogs: Record<string, SafeJiraChangelogEntry[]>,
+): SprintScopeChange {
+  const window = getSprintWindow(sprint)
+  if (!window || !sprint.startDate) {
+    throw new Error(`Sprint ${sprint.name} has not started yet`)
+  }
+  const { start, end } = window
+
+  const currentKeys = new Set(sprintIssues.map((issue) => issue.key))
+  const allIssues = [...sprintIssues, ...candidateIssues.filter((issue) => !currentKeys.has(issue.key))]
+
+  const planned: ScopeIssue[] = []
+  const added: ScopeIssue[] = []
+  const removed: ScopeIssue[] = []
+  const carriedIn: ScopeIssue[] = []
+  const carriedOver: ScopeIssue[] = []
+  const events: ScopeChangeEvent[] = []
+
+  for (const issue of allIssues) {
+    const inSprintNow = currentKeys.has(issue.key)
+    const points = issue.storyPoints || 0
+    const { inAtStart, joinedAt, leftAt, wasInEarlierSprint, changes } = replaySprintMembership(
+      issue,
+      sprint,
+      changelogs[issue.key] || [],
+      inSprintNow,
+    )
+    events.push(...changes.map(({ date, change }) => ({ date, key: issue.key, change, points })))
+
+    if (!inAtStart && !joinedAt && !inSprintNow) continue
+
+    if (inAtStart) {
+      planned.push(toScopeIssue(issue))
+      if (wasInEarlierSprint) carriedIn.push(toScopeIssue(issue))
+    } else if (joinedAt) {
+      added.push(toScopeIssue(issue, joinedAt))
+    } else if (inSprintNow) {
+      // In the sprint with no usable history; treat it as planned rather than guess
+      planned.push(toScopeIssue(issue))
+    }
+
+    if (!inSprintNow && leftAt) {
+      removed.push(toScopeIssue(issue, leftAt))
+    } else if (inSprintNow && !isIssueCompleted(issue)) {
+      carriedOver.push(toScopeIssue(issue))
+    }
+  }
+
+  events.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+  // Daily scope line from the start to the end (or today for active sprints)
+  const plannedPoints = sumPoints(planned)
+  const timeline: ScopeTimelinePoint[] = []
+  let scopePoints = plannedPoints
+  const lastDay = new Date(Math.min(end, Date.now()))
+  for (let day = new Date(toDay(sprint.startDate)); day <= lastDay; day.setUTCDate(day.getUTCDate() + 1)) {
+    const dayKey = toDay(day)
+    const dayEvents = events.filter((event) => toDay(event.date) === dayKey)
+    const addedPoints = dayEvents.filter((e) => e.change === "added").reduce((sum, e) => sum + e.points, 0)
+    const removedPoints = dayEvents.filter((e) => e.change === "removed").reduce((sum, e) => sum + e.points, 0)
+    scopePoints += addedPoints - removedPoints
+    timeline.push({ date: dayKey, scopePoints, addedPoints, removedPoints })
+  }
+
+  const addedPoints = sumPoints(added)
+  const removedPoints = sumPoints(removed)
+  const finalScopePoints = plannedPoints + addedPoints - removedPoints
+
+  return {
+    sprintId: sprint.id,
+    sprintName: sprint.name,
+    startDate: sprint.startDate,
+    endDate: sprint.endDate,
+    startedAt: new Date(start).toISOString(),
+    endedAt: sprint.endedAt || sprint.endDate ? new Date(end).toISOString() : null,
+    planned,
+    added,
+    removed,
+    carriedIn,
+    carriedOver,
+    events,
+    timeline,
+    totals: {
+      plannedPoints,
+      addedPoints,
+      completedAddedPoints: sumPoints(added.filter((issue) => issue.completed)),
+      removedPoints,
+      carriedInPoints: sumPoints(carriedIn),
+      carriedOverPoints: sumPoints(carriedOver),
+      finalScopePoints,
+      scopeChangePercent: plannedPoints > 0 ? ((addedPoints + removedPoints) / plannedPoints) * 100 : 0,
+    },
+    generatedAt: new Date().toISOString(),
+  }
+}
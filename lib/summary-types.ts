@@ -4,13 +4,22 @@ export interface Issue {
   summary: string
   description?: string
   status: string
+  statusCategory?: string
+  completed?: boolean
   assignee?: string
   storyPoints?: number
   issueType: string
+  isSubtask?: boolean
+  parentKey?: string
   epicKey?: string
   epicName?: string
   epicColor?: string
   releaseNotes?: string
+  components?: string[]
+  labels?: string[]
+  priority?: string
+  resolution?: string
+  team?: string // Board name; only set in program reviews
 }
 
 export interface SprintMetrics {
@@ -30,6 +39,7 @@ export interface CurrentSprintRequest {
   sprintName: string
   sprintStartDate?: string
   sprintEndDate?: string
+  reviewScope?: "sprint" | "release" | "program" | "kanban" // Release reviews cover a fix version; the dates are its start and release dates. Kanban reviews cover a date range
   issues: Issue[]
   metrics?: SprintMetrics
 }
@@ -1,17 +1,31 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
 import type { Issue } from './summary-types'
+import { buildIssueHierarchy, type IssueHierarchyNode } from './issue-hierarchy'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-// Utility function to check if an issue is completed
-export function isIssueCompleted(status: string): boolean {
-  const completedStatuses = ["done", "closed", "resolved", "complete", "finished", "delivered"];
-  return completedStatuses.some(completedStatus => 
-    status?.toLowerCase().includes(completedStatus)
-  );
+// Only for issues that carry neither `completed` nor a status category (older saved sessions)
+const LEGACY_COMPLETED_STATUSES = ["done", "closed", "resolved", "complete", "completed", "finished", "delivered"];
+
+export interface CompletableIssue {
+  status?: string
+  statusCategory?: string
+  completed?: boolean
+}
+
+/**
+ * The single completion rule for metrics, slides and exports. `completed` is decided when
+ * issues are loaded from Jira: by status category, or by the board's last column when
+ * JIRA_COMPLETION_RULE=board-columns (see lib/issue-completion.ts).
+ */
+export function isIssueCompleted(issue: CompletableIssue | null | undefined): boolean {
+  if (!issue) return false
+  if (typeof issue.completed === "boolean") return issue.completed
+  if (issue.statusCategory) return issue.statusCategory === "done"
+  return LEGACY_COMPLETED_STATUSES.includes(issue.status?.trim().toLowerCase() ?? "");
 }
 
 export interface EpicBreakdown {
@@ -24,30 +38,29 @@ export interface EpicBreakdown {
   percentPoints: number
 }
 
+// Sub-tasks are counted through their parent story, so their points are never added twice
 export function getEpicBreakdown(issues: Issue[]): EpicBreakdown[] {
-  const byEpic: Record<string, { name: string; issues: Issue[] }> = {};
+  const byEpic: Record<string, { name: string; nodes: IssueHierarchyNode<Issue>[] }> = {};
   
-  for (const issue of issues) {
+  for (const node of buildIssueHierarchy(issues)) {
     // Use epicKey if available, otherwise fallback to "No Epic"
-    const epicKey = issue.epicKey ?? "No Epic";
+    const epicKey = node.issue.epicKey ?? "No Epic";
     if (!byEpic[epicKey]) {
       byEpic[epicKey] = {
-        name: issue.epicName || (epicKey === "No Epic" ? "Other" : epicKey),
-        issues: [],
+        name: node.issue.epicName || (epicKey === "No Epic" ? "Other" : epicKey),
+        nodes: [],
       };
     }
-    byEpic[epicKey].issues.push(issue);
+    byEpic[epicKey].nodes.push(node);
   }
 
   // Convert to array and aggregate metrics
   return Object.values(byEpic).map((epic) => {
-    const total = epic.issues.length;
-    const completed = epic.issues.filter(i => isIssueCompleted(i.status || "")).length;
+    const total = epic.nodes.length;
+    const completed = epic.nodes.filter(node => isIssueCompleted(node.issue)).length;
     
-    const totalPoints = epic.issues.reduce((sum, i) => sum + (i.storyPoints || 0), 0);
-    const completedPoints = epic.issues
-      .filter(i => isIssueCompleted(i.status || ""))
-      .reduce((sum, i) => sum + (i.storyPoints || 0), 0);
+    const totalPoints = epic.nodes.reduce((sum, node) => sum + node.storyPoints, 0);
+    const completedPoints = epic.nodes.reduce((sum, node) => sum + node.completedPoints, 0);
     
     const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
     const percentPoints = totalPoints > 0 ? Math.round((completedPoints / totalPoints) * 100) : 0;
@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+// Replays recorded Jira webhook payloads against a running app, signed like Jira Cloud does.
+//
+//   JIRA_WEBHOOK_SECRET=... node scripts/replay-jira-webhook.mjs scripts/webhook-payloads/issue-updated.json
+//   node scripts/replay-jira-webhook.mjs --url http://localhost:3000/api/jira-webhook --secret ... .cache/webhooks/*.json
+//
+// Record real payloads by setting JIRA_WEBHOOK_RECORD_DIR on the app.
+
+import { createHmac } from "crypto"
+import { readFile } from "fs/promises"
+
+function parseArgs(argv) {
+  const options = {
+    url: process.env.JIRA_WEBHOOK_URL || "http://localhost:3000/api/jira-webhook",
+    secret: process.env.JIRA_WEBHOOK_SECRET,
+    delay: 0,
+    files: [],
+  }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === "--url") options.url = argv[++i]
+    else if (arg === "--secret") options.secret = argv[++i]
+    else if (arg === "--delay") options.delay = Number(argv[++i]) || 0
+    else options.files.push(arg)
+  }
+  return options
+}
+
+const options = parseArgs(process.argv.slice(2))
+
+if (options.files.length === 0 || !options.secret) {
+  console.error("Usage: node scripts/replay-jira-webhook.mjs [--url <webhook url>] [--secret <secret>] [--delay <ms>] <payload.json>...")
+  console.error("The secret defaults to JIRA_WEBHOOK_SECRET.")
+  process.exit(1)
+}
+
+let failures = 0
+for (const file of options.files) {
+  const body = await readFile(file, "utf8")
+  const signature = createHmac("sha256", options.secret).update(body, "utf8").digest("hex")
+
+  try {
+    const response = await fetch(options.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Hub-Signature": `sha256=${signature}` },
+      body,
+    })
+    const result = await response.text()
+    console.log(`${response.ok ? "✅" : "❌"} ${file} → ${response.status} ${result}`)
+    if (!response.ok) failures++
+  } catch (error) {
+    console.error(`❌ ${file} → ${error.message}`)
+    failures++
+  }
+
+  if (options.delay > 0) {
+    await new Promise((resolve) => setTimeout(resolve, options.delay))
+  }
+}
+
+process.exit(failures > 0 ? 1 : 0)